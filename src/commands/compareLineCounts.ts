@@ -0,0 +1,147 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as vscode from 'vscode';
+import { DiffReportService } from '../services/diffReportService';
+import { SnapshotService } from '../services/snapshotService';
+import { compareLineCounts, DiffSource } from '../utils/diffUtils';
+import { getSnapshotTitle } from '../utils/snapshotUtils';
+
+type ComparisonMode = 'snapshots' | 'snapshotWorkspace' | 'exportWorkspace' | 'exports';
+
+interface ComparisonModeItem extends vscode.QuickPickItem {
+    mode: ComparisonMode;
+}
+
+/**
+ * Compares two line count results (stored snapshots, the current workspace or export
+ * files) and shows the diff report
+ */
+export class CompareLineCountsCommand {
+    private diffReport = DiffReportService.getInstance();
+    private snapshots = SnapshotService.getInstance();
+
+    async execute(): Promise<void> {
+        const modes: ComparisonModeItem[] = [
+            { label: '$(history) Two snapshots', mode: 'snapshots' },
+            { label: '$(history) A snapshot and the current workspace', mode: 'snapshotWorkspace' },
+            { label: '$(file) An export file and the current workspace', mode: 'exportWorkspace', detail: 'A previously exported code-counter-data.json or .xml' },
+            { label: '$(files) Two export files', mode: 'exports' }
+        ];
+        const picked = await vscode.window.showQuickPick(modes, { placeHolder: 'What do you want to compare?' });
+        if (!picked) {
+            return;
+        }
+
+        try {
+            const sides = await this.loadSides(picked.mode);
+            if (!sides) {
+                return;
+            }
+            await this.diffReport.showDiff(compareLineCounts(sides[0], sides[1]));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to compare line counts: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * The base and the side compared with it; undefined when a pick was cancelled
+     */
+    private async loadSides(mode: ComparisonMode): Promise<[DiffSource, DiffSource] | undefined> {
+        if (mode === 'exports') {
+            const base = await this.pickExportFile('Select the baseline export');
+            const current = base && await this.pickExportFile('Select the export to compare with');
+            return base && current ? [base, current] : undefined;
+        }
+
+        const workspacePath = await this.pickWorkspaceFolder();
+        if (!workspacePath) {
+            return undefined;
+        }
+
+        if (mode === 'snapshots') {
+            const base = await this.pickSnapshot(workspacePath, 'Select the baseline snapshot');
+            const current = base && await this.pickSnapshot(workspacePath, 'Select the snapshot to compare with');
+            return base && current ? [base, current] : undefined;
+        }
+
+        const base = mode === 'snapshotWorkspace'
+            ? await this.pickSnapshot(workspacePath, 'Select the baseline snapshot')
+            : await this.pickExportFile('Select the baseline export');
+        if (!base) {
+            return undefined;
+        }
+        const current = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Code Counter - Counting the workspace',
+            cancellable: false
+        }, () => this.diffReport.loadWorkspace(workspacePath));
+        return [base, current];
+    }
+
+    private async pickWorkspaceFolder(): Promise<string | undefined> {
+        const workspaceFolders = vscode.workspace.workspaceFolders || [];
+        if (workspaceFolders.length === 0) {
+            vscode.window.showErrorMessage('No workspace folder is open');
+            return undefined;
+        }
+        if (workspaceFolders.length === 1) {
+            return workspaceFolders[0].uri.fsPath;
+        }
+        const folder = await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the workspace folder to compare' });
+        return folder?.uri.fsPath;
+    }
+
+    private async pickSnapshot(workspacePath: string, placeHolder: string): Promise<DiffSource | undefined> {
+        const snapshots = await this.snapshots.getSnapshots(workspacePath);
+        if (snapshots.length === 0) {
+            vscode.window.showInformationMessage('No snapshots recorded yet. Count lines or run "Record Snapshot" to create one.');
+            return undefined;
+        }
+
+        const picked = await vscode.window.showQuickPick(snapshots.map(snapshot => ({
+            label: `${snapshot.label ? '$(tag)' : '$(history)'} ${getSnapshotTitle(snapshot)}`,
+            description: `${snapshot.lines.toLocaleString()} lines, ${snapshot.files.toLocaleString()} files`,
+            detail: snapshot.commit ? `${snapshot.branch ? `${snapshot.branch} ` : ''}${snapshot.commit.substring(0, 8)}` : undefined,
+            snapshot
+        })), { placeHolder, matchOnDetail: true });
+        return picked ? this.diffReport.loadSnapshot(workspacePath, picked.snapshot) : undefined;
+    }
+
+    private async pickExportFile(title: string): Promise<DiffSource | undefined> {
+        const files = await vscode.window.showOpenDialog({
+            canSelectFiles: true,
+            canSelectMany: false,
+            filters: { 'Code Counter Data': ['json', 'xml'] },
+            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+            openLabel: 'Select',
+            title
+        });
+        return files && files.length > 0 ? this.diffReport.loadExportFile(files[0].fsPath) : undefined;
+    }
+}
@@ -0,0 +1,107 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as vscode from 'vscode';
+import { ChangeSizeService, ChangeTarget } from '../services/changeSizeService';
+import { DiffReportService } from '../services/diffReportService';
+import { GitService } from '../services/gitService';
+
+/**
+ * Counts the files a branch changes relative to a base ref and shows them as a diff report,
+ * which can be copied as Markdown for a pull request description
+ */
+export class CountChangesVsBaseCommand {
+    /** Suggested first when present */
+    private static readonly DEFAULT_BASE_REFS = ['origin/main', 'origin/master', 'main', 'master', 'origin/develop', 'develop'];
+
+    private changeSize = ChangeSizeService.getInstance();
+    private diffReport = DiffReportService.getInstance();
+    private git = GitService.getInstance();
+
+    async execute(): Promise<void> {
+        const workspaceFolders = vscode.workspace.workspaceFolders || [];
+        if (workspaceFolders.length === 0) {
+            vscode.window.showErrorMessage('No workspace folder is open');
+            return;
+        }
+        const folder = workspaceFolders.length === 1
+            ? workspaceFolders[0]
+            : await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the workspace folder to count' });
+        if (!folder) {
+            return;
+        }
+
+        const refNames = await this.git.getRefNames(folder.uri.fsPath);
+        if (!refNames) {
+            vscode.window.showErrorMessage(`${folder.name} is not in a git repository`);
+            return;
+        }
+        const baseRef = await this.pickBaseRef(refNames);
+        if (!baseRef) {
+            return;
+        }
+
+        const targets: Array<vscode.QuickPickItem & { target: ChangeTarget }> = [
+            { label: '$(edit) Working tree', description: 'Committed, staged, unstaged and untracked changes', target: 'workingTree' },
+            { label: '$(git-commit) HEAD', description: 'Committed changes only', target: 'HEAD' }
+        ];
+        const target = await vscode.window.showQuickPick(targets, { placeHolder: `Compare ${baseRef} with` });
+        if (!target) {
+            return;
+        }
+
+        try {
+            const diff = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Code Counter - Counting changes vs ${baseRef}`,
+                cancellable: true
+            }, (_progress, token) => this.changeSize.countChanges(folder.uri.fsPath, baseRef, target.target, token));
+            await this.diffReport.showDiff(diff);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to count changes: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private async pickBaseRef(refNames: string[]): Promise<string | undefined> {
+        const suggested = CountChangesVsBaseCommand.DEFAULT_BASE_REFS.filter(ref => refNames.includes(ref));
+        const otherRef = '$(edit) Other ref or commit...';
+        const picked = await vscode.window.showQuickPick([
+            ...[...suggested, ...refNames.filter(ref => !suggested.includes(ref))].map(ref => ({ label: ref })),
+            { label: otherRef }
+        ], { placeHolder: 'Select the base branch, tag or ref' });
+        if (!picked) {
+            return undefined;
+        }
+        if (picked.label !== otherRef) {
+            return picked.label;
+        }
+
+        const ref = await vscode.window.showInputBox({ prompt: 'Base ref (branch, tag or commit)', placeHolder: 'e.g. origin/main or v1.2.0' });
+        return ref?.trim() || undefined;
+    }
+}
@@ -33,9 +33,16 @@ import { JsonGeneratorService } from '../services/jsonGenerator';
 import { CsvGeneratorService } from '../services/csvGenerator';
 import { ExportAllService } from '../services/exportAllService';
 import { HtmlGeneratorService } from '../services/htmlGenerator';
-import { WebViewReportService, ReportData } from '../services/webViewReportService';
+import { ReportFilter, WebViewReportService } from '../services/webViewReportService';
 import { WorkspaceDatabaseService } from '../services/workspaceDatabaseService';
 import { DebugService } from '../services/debugService';
+import { IncrementalReportService } from '../services/incrementalReportService';
+import { DirectoryAggregateIndexService } from '../services/directoryAggregateIndexService';
+import { SymbolMetricsService } from '../services/symbolMetricsService';
+import { AuthorshipService } from '../services/authorshipService';
+import { HotspotService } from '../services/hotspotService';
+import { SnapshotService } from '../services/snapshotService';
+import { LineCountResult } from '../types';
 import path from 'path';
 
 export class CountLinesCommand {
@@ -46,6 +53,12 @@ export class CountLinesCommand {
     private csvGenerator: CsvGeneratorService;
     private exportAllService: ExportAllService;
     private htmlGenerator: HtmlGeneratorService;
+    private incrementalReport = IncrementalReportService.getInstance();
+    private directoryIndex = DirectoryAggregateIndexService.getInstance();
+    private symbolMetrics = SymbolMetricsService.getInstance();
+    private authorship = AuthorshipService.getInstance();
+    private hotspots = HotspotService.getInstance();
+    private snapshots = SnapshotService.getInstance();
 
     constructor() {
         this.lineCounter = new LineCounterService();
@@ -147,9 +160,6 @@ export class CountLinesCommand {
         }
 
         try {
-            // Use path-based settings instead of workspace-level patterns
-            const folder = workspaceFolders[0];
-
             if (choice.label.includes('Show Report Panel')) {
                 // Show in WebView panel using path-based settings with progress tracking
                 const results = await vscode.window.withProgress({
@@ -169,63 +179,55 @@ export class CountLinesCommand {
                     
                     progress.report({ message: 'Analyzing workspace and counting lines...', increment: 10 });
                     
-                    const startTime = Date.now();
-                    const result = await this.lineCounter.countLinesWithPathBasedSettings(
-                        folder.uri.fsPath,
-                        (processed: number, total: number, remaining: number) => {
-                            // Check cancellation in progress callback
-                            if (token.isCancellationRequested) {
-                                throw new Error('Operation was cancelled by user');
-                            }
-                            
-                            const percent = Math.round((processed / total) * 100);
-                            const eta = this.calculateETA(startTime, processed, total);
-                            progress.report({ 
-                                message: `${percent}% complete - ${remaining} files remaining${eta ? ` - ETA: ${eta}` : ''}`,
-                                increment: percent 
-                            });
-                        },
-                        token // Pass the cancellation token
-                    );
-                    
-                    // Final cancellation check
-                    if (token.isCancellationRequested) {
-                        throw new Error('Operation was cancelled by user');
+                    // Count every root folder of a multi-root workspace
+                    const folderResults: LineCountResult[] = [];
+                    for (const folder of workspaceFolders) {
+                        const startTime = Date.now();
+                        const folderLabel = workspaceFolders.length > 1 ? `${folder.name}: ` : '';
+                        const result = await this.lineCounter.countLinesWithPathBasedSettings(
+                            folder.uri.fsPath,
+                            (processed: number, total: number, remaining: number) => {
+                                // Check cancellation in progress callback
+                                if (token.isCancellationRequested) {
+                                    throw new Error('Operation was cancelled by user');
+                                }
+                                
+                                const percent = Math.round((processed / total) * 100);
+                                const eta = this.calculateETA(startTime, processed, total);
+                                progress.report({ 
+                                    message: `${folderLabel}${percent}% complete - ${remaining} files remaining${eta ? ` - ETA: ${eta}` : ''}`,
+                                    increment: percent 
+                                });
+                            },
+                            token // Pass the cancellation token
+                        );
+                        
+                        // Final cancellation check
+                        if (token.isCancellationRequested) {
+                            throw new Error('Operation was cancelled by user');
+                        }
+                        
+                        progress.report({ message: `${folderLabel}Measuring functions and classes...` });
+                        await this.enrichResult(result);
+                        this.incrementalReport.setBaseline(result);
+                        
+                        this.directoryIndex.setFiles(result.workspacePath, result.files);
+                        folderResults.push(result);
                     }
                     
                     progress.report({ message: 'Processing complete!', increment: 100 });
-                    return result;
-                });
-                
-                this.debug.info('CountLinesCommand execute results (path-based):', {
-                    totalFiles: results.files?.length || 0,
-                    totalLines: results.totalLines || 0,
-                    workspacePath: results.workspacePath,
-                    languageStats: results.languageStats,
-                    sampleFiles: results.files?.slice(0, 3).map((f: any) => ({ 
-                        path: f.relativePath, 
-                        lines: f.lines, 
-                        language: f.language 
-                    })) || []
-                });
-                
-                this.debug.info('Converting results to report data...');
-                const reportData = this.convertToReportData(results, folder.uri.fsPath);
-                
-                this.debug.info('Converted report data:', {
-                    totalFiles: reportData.summary?.totalFiles || 0,
-                    totalLines: reportData.summary?.totalLines || 0,
-                    filesCount: reportData.files?.length || 0,
-                    languagesCount: reportData.languages?.length || 0,
-                    sampleReportFiles: reportData.files?.slice(0, 3).map(f => ({
-                        path: f.relativePath,
-                        lines: f.lines,
-                        language: f.language
-                    })) || []
+                    return folderResults;
                 });
+
+                this.debug.info('CountLinesCommand execute results (path-based):', results.map(result => ({
+                    workspacePath: result.workspacePath,
+                    totalFiles: result.files.length,
+                    totalLines: result.totalLines,
+                    languageStats: result.languageStats
+                })));
                 
                 const webViewService = WebViewReportService.getInstance();
-                await webViewService.showReport(reportData);
+                await webViewService.showResults(results);
 
                 vscode.window.showInformationMessage('Line counting completed! Report opened in panel.');
             } else if (choice.label.includes('Export Report')) {
@@ -233,14 +235,14 @@ export class CountLinesCommand {
                 const config = vscode.workspace.getConfiguration('codeCounter');
                 const outputDirectory = config.get<string>('outputDirectory', '.vscode/code-counter/reports');
                 
-                const filePath = await vscode.window.withProgress({
+                const filePaths = await vscode.window.withProgress({
                     location: vscode.ProgressLocation.Notification,
                     title: 'Code Counter - Exporting Report',
                     cancellable: false
                 }, async (progress) => {
                     progress.report({ message: 'Analyzing workspace...', increment: 0 });
                     
-                    let generatedFilePath = '';
+                    const generatedFilePaths: string[] = [];
                     for (const folder of workspaceFolders) {
                         progress.report({ message: 'Counting lines...', increment: 20 });
                         
@@ -256,15 +258,32 @@ export class CountLinesCommand {
                             }
                         );
                         
+                        progress.report({ message: 'Measuring functions and classes...', increment: 80 });
+                        await this.enrichResult(results);
+                        
                         progress.report({ message: 'Generating HTML report...', increment: 80 });
-                        generatedFilePath = await this.htmlGenerator.generateHtmlReport(results, folder.uri.fsPath, outputDirectory);
+                        generatedFilePaths.push(await this.htmlGenerator.generateHtmlReport(results, folder.uri.fsPath, outputDirectory));
                         
                         progress.report({ message: 'Report generated!', increment: 100 });
                     }
-                    return generatedFilePath;
+                    return generatedFilePaths;
                 });
 
-                vscode.window.showInformationMessage(`Line counting completed! ${filePath} generated.`);
+                const action = await vscode.window.showInformationMessage(
+                    filePaths.length === 1
+                        ? `Line counting completed! ${filePaths[0]} generated.`
+                        : `Line counting completed! ${filePaths.length} reports generated in the ${outputDirectory} folder of each workspace folder.`,
+                    'Open Folder'
+                );
+
+                if (action === 'Open Folder') {
+                    const reportToReveal = filePaths.length === 1
+                        ? filePaths[0]
+                        : await vscode.window.showQuickPick(filePaths, { placeHolder: 'Select the report to reveal' });
+                    if (reportToReveal) {
+                        await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(reportToReveal));
+                    }
+                }
             } else {
                 // Export data options
                 const exportChoice = await vscode.window.showQuickPick([                    
@@ -298,51 +317,68 @@ export class CountLinesCommand {
 
                 if (exportChoice.label.includes('Export XML')) {
                     const config = vscode.workspace.getConfiguration('codeCounter');
-                    let outputDirectory = config.get<string>('outputDirectory', '.vscode/code-counter/reports');
+                    const outputDirectory = config.get<string>('outputDirectory', '.vscode/code-counter/reports');
 
                     for (const folder of workspaceFolders) {
                         // Use path-based settings for XML export as well
                         const results = await this.lineCounter.countLinesWithPathBasedSettings(folder.uri.fsPath);
-                        outputDirectory = path.join(folder.uri.fsPath, outputDirectory);
-                        const xmlPath = await this.xmlGenerator.generateXmlFile(results, outputDirectory);
+                        await this.enrichResult(results);
+                        const folderOutputDirectory = path.join(folder.uri.fsPath, outputDirectory);
+                        const xmlPath = await this.xmlGenerator.generateXmlFile(results, folderOutputDirectory);
                         vscode.window.showInformationMessage(`XML export completed! File saved to: ${xmlPath}`);
                     }                    
                 } else if (exportChoice.label.includes('Export JSON')) {
                     const config = vscode.workspace.getConfiguration('codeCounter');
-                    let outputDirectory = config.get<string>('outputDirectory', '.vscode/code-counter/reports');
+                    const outputDirectory = config.get<string>('outputDirectory', '.vscode/code-counter/reports');
 
                     for (const folder of workspaceFolders) {
                         const results = await this.lineCounter.countLinesWithPathBasedSettings(folder.uri.fsPath);
-                        outputDirectory = path.join(folder.uri.fsPath, outputDirectory);
-                        const jsonPath = await this.jsonGenerator.generateJsonFile(results, outputDirectory);
+                        await this.enrichResult(results);
+                        const folderOutputDirectory = path.join(folder.uri.fsPath, outputDirectory);
+                        const jsonPath = await this.jsonGenerator.generateJsonFile(results, folderOutputDirectory);
                         vscode.window.showInformationMessage(`JSON export completed! File saved to: ${jsonPath}`);
                     }
                 } else if (exportChoice.label.includes('Export CSV')) {
                     const config = vscode.workspace.getConfiguration('codeCounter');
-                    let outputDirectory = config.get<string>('outputDirectory', '.vscode/code-counter/reports');
+                    const outputDirectory = config.get<string>('outputDirectory', '.vscode/code-counter/reports');
 
                     for (const folder of workspaceFolders) {
                         const results = await this.lineCounter.countLinesWithPathBasedSettings(folder.uri.fsPath);
-                        outputDirectory = path.join(folder.uri.fsPath, outputDirectory);
-                        const csvPath = await this.csvGenerator.generateCsvFile(results, outputDirectory);
+                        await this.enrichResult(results);
+                        const folderOutputDirectory = path.join(folder.uri.fsPath, outputDirectory);
+                        const csvPath = await this.csvGenerator.generateCsvFile(results, folderOutputDirectory);
                         vscode.window.showInformationMessage(`CSV export completed! File saved to: ${csvPath}`);
                     }
                 } else {
                     // Export all formats
                     const config = vscode.workspace.getConfiguration('codeCounter');
-                    let outputDirectory = config.get<string>('outputDirectory', '.vscode/code-counter/reports');
+                    const outputDirectory = config.get<string>('outputDirectory', '.vscode/code-counter/reports');
 
+                    // Export every root before asking anything, so no root waits on a notification
+                    const folderOutputDirectories: string[] = [];
+                    let totalFiles = 0;
                     for (const folder of workspaceFolders) {
                         const results = await this.lineCounter.countLinesWithPathBasedSettings(folder.uri.fsPath);
-                        outputDirectory = path.join(folder.uri.fsPath, outputDirectory);
-                        const exportResults = await this.exportAllService.exportAllFormats(results, outputDirectory);
-                        const action = await vscode.window.showInformationMessage(
-                            `All formats exported! ${exportResults.totalFiles} files saved to: ${outputDirectory}`, 
-                            'Open Folder'
-                        );
-                        
-                        if (action === 'Open Folder') {
-                            await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(outputDirectory));
+                        await this.enrichResult(results);
+                        const folderOutputDirectory = path.join(folder.uri.fsPath, outputDirectory);
+                        const exportResults = await this.exportAllService.exportAllFormats(results, folderOutputDirectory);
+                        folderOutputDirectories.push(folderOutputDirectory);
+                        totalFiles += exportResults.totalFiles;
+                    }
+
+                    const action = await vscode.window.showInformationMessage(
+                        folderOutputDirectories.length === 1
+                            ? `All formats exported! ${totalFiles} files saved to: ${folderOutputDirectories[0]}`
+                            : `All formats exported! ${totalFiles} files saved to the ${outputDirectory} folder of ${folderOutputDirectories.length} workspace folders`,
+                        'Open Folder'
+                    );
+
+                    if (action === 'Open Folder') {
+                        const folderToOpen = folderOutputDirectories.length === 1
+                            ? folderOutputDirectories[0]
+                            : await vscode.window.showQuickPick(folderOutputDirectories, { placeHolder: 'Select the export folder to open' });
+                        if (folderToOpen) {
+                            await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(folderToOpen));
                         }
                     }
                 }
@@ -357,7 +393,11 @@ export class CountLinesCommand {
         }
     }
 
-    async executeAndShowPanel(): Promise<void> {
+    /**
+     * Count every workspace folder and show the report panel, optionally filtered to a
+     * language, file or directory
+     */
+    async executeAndShowPanel(filter?: ReportFilter): Promise<void> {
         const workspaceFolders = vscode.workspace.workspaceFolders;
         
         if (!workspaceFolders) {
@@ -368,16 +408,19 @@ export class CountLinesCommand {
         try {
             vscode.window.showInformationMessage('Counting lines of code...');
             
-            // Count lines for the first workspace folder using path-based settings
-            const folder = workspaceFolders[0];
-            const results = await this.lineCounter.countLinesWithPathBasedSettings(folder.uri.fsPath);
-            
-            // Convert to WebView report data format
-            const reportData = this.convertToReportData(results, folder.uri.fsPath);
+            // Count lines for every workspace folder using path-based settings
+            const results: LineCountResult[] = [];
+            for (const folder of workspaceFolders) {
+                const result = await this.lineCounter.countLinesWithPathBasedSettings(folder.uri.fsPath);
+                await this.enrichResult(result);
+                this.incrementalReport.setBaseline(result);
+                this.directoryIndex.setFiles(result.workspacePath, result.files);
+                results.push(result);
+            }
             
             // Show in WebView panel
             const webViewService = WebViewReportService.getInstance();
-            await webViewService.showReport(reportData);
+            await webViewService.showResults(results, filter);
 
             vscode.window.showInformationMessage('Line counting completed! Report opened in panel.');
             
@@ -406,25 +449,27 @@ export class CountLinesCommand {
             const outputDirectory = config.get<string>('outputDirectory', '.vscode/code-counter/reports');
 
             let exportedFilePath = '';
+            const results: LineCountResult[] = [];
             // Generate HTML files for all workspace folders using path-based settings
             for (const folder of workspaceFolders) {
-                const results = await this.lineCounter.countLinesWithPathBasedSettings(folder.uri.fsPath);
-                exportedFilePath = await this.htmlGenerator.generateHtmlReport(results, folder.uri.fsPath, outputDirectory);
+                const result = await this.lineCounter.countLinesWithPathBasedSettings(folder.uri.fsPath);
+                await this.enrichResult(result, false);
+                this.incrementalReport.setBaseline(result);
+                this.directoryIndex.setFiles(result.workspacePath, result.files);
+                results.push(result);
+                exportedFilePath = await this.htmlGenerator.generateHtmlReport(result, folder.uri.fsPath, outputDirectory);
             }
             
             // Log for debugging auto-generation
             this.debug.info(`Auto-generated report saved to: ${exportedFilePath}`);
 
-            // Count lines for notification (use first workspace folder for summary) using path-based settings
-            const folder = workspaceFolders[0];
-            const results = await this.lineCounter.countLinesWithPathBasedSettings(folder.uri.fsPath);
-            const reportData = this.convertToReportData(results, folder.uri.fsPath);
-
             // Only show notification if enabled in settings
             if (showNotification) {
+                const totalFiles = results.reduce((sum, result) => sum + result.totalFiles, 0);
+                const totalLines = results.reduce((sum, result) => sum + result.totalLines, 0);
                 // Show notification with button to view report
                 const action = await vscode.window.showInformationMessage(
-                    `📊 Reports auto-generated: ${reportData.summary.totalFiles} files, ${reportData.summary.totalLines.toLocaleString()} lines`,
+                    `📊 Reports auto-generated: ${totalFiles} files, ${totalLines.toLocaleString()} lines`,
                     {
                         modal: false
                     },
@@ -433,7 +478,7 @@ export class CountLinesCommand {
 
                 if (action === 'View Report') {
                     const webViewService = WebViewReportService.getInstance();
-                    await webViewService.showReport(reportData);
+                    await webViewService.showResults(results);
                 }
             }
 
@@ -446,81 +491,83 @@ export class CountLinesCommand {
         this.refreshDecorations();
     }
 
-    private convertToReportData(results: any, workspacePath: string): ReportData {
-        this.debug.info('🔍 DEBUG: convertToReportData called with:');
-        this.debug.info('- Results type:', typeof results);
-        this.debug.info('- Results keys:', Object.keys(results || {}));
-        this.debug.info('- Files array length:', results.files?.length || 0);
-        
-        if (results.files && results.files.length > 0) {
-            this.debug.info('- First file sample:', JSON.stringify(results.files[0], null, 2));
+    /**
+     * Update auto-generated reports for a set of changed paths (saved, created, deleted or
+     * renamed) without recounting the rest of the workspace. Returns false when some
+     * workspace folder has no baseline yet and needs a full count instead.
+     */
+    public async executeIncrementalUpdate(changedPaths: string[]): Promise<boolean> {
+        const pathsByFolder = new Map<string, string[]>();
+        for (const changedPath of changedPaths) {
+            const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(changedPath));
+            if (!folder) {
+                continue;
+            }
+            const folderPaths = pathsByFolder.get(folder.uri.fsPath) || [];
+            folderPaths.push(changedPath);
+            pathsByFolder.set(folder.uri.fsPath, folderPaths);
         }
-        
-        // Calculate summary statistics
-        const summary = {
-            totalFiles: results.files?.length || 0,
-            totalLines: results.files?.reduce((sum: number, file: any) => sum + (file.lines || 0), 0) || 0,
-            totalCodeLines: results.files?.reduce((sum: number, file: any) => sum + (file.codeLines || 0), 0) || 0,
-            totalCommentLines: results.files?.reduce((sum: number, file: any) => sum + (file.commentLines || 0), 0) || 0,
-            totalBlankLines: results.files?.reduce((sum: number, file: any) => sum + (file.blankLines || 0), 0) || 0,
-            languageCount: 0
-        };
-        
-        this.debug.info('📊 DEBUG: Calculated summary:', summary);
-
-        // Group files by language
-        const languageGroups: { [key: string]: any[] } = {};
-        results.files?.forEach((file: any) => {
-            const lang = file.language || 'Unknown';
-            if (!languageGroups[lang]) {
-                languageGroups[lang] = [];
+
+        if ([...pathsByFolder.keys()].some(folderPath => !this.incrementalReport.hasBaseline(folderPath))) {
+            return false;
+        }
+
+        try {
+            const config = vscode.workspace.getConfiguration('codeCounter');
+            const outputDirectory = config.get<string>('outputDirectory', '.vscode/code-counter/reports');
+
+            for (const [folderPath, folderPaths] of pathsByFolder) {
+                const delta = await this.incrementalReport.applyChanges(folderPath, folderPaths);
+                if (!delta) {
+                    return false;
+                }
+                if (delta.updatedFiles.length === 0 && delta.removedFiles.length === 0) {
+                    continue;
+                }
+                await this.symbolMetrics.addLargestSymbols(delta.updatedFiles);
+                await this.authorship.addAuthors(delta.updatedFiles);
+                await this.hotspots.addHotspots(folderPath, delta.result.files);
+
+                const exportedFilePath = await this.htmlGenerator.generateHtmlReport(delta.result, folderPath, outputDirectory);
+                this.debug.info(`Incrementally updated report saved to: ${exportedFilePath}`);
+                await WebViewReportService.getInstance().applyReportDelta(delta);
             }
-            languageGroups[lang].push(file);
-        });
+        } catch (error) {
+            this.debug.error('Incremental report update failed:', error);
+            return false;
+        }
 
-        // Calculate language statistics
-        const languages = Object.keys(languageGroups).map(langName => {
-            const files = languageGroups[langName];
-            return {
-                name: langName,
-                files: files.length,
-                lines: files.reduce((sum, file) => sum + (file.lines || 0), 0),
-                codeLines: files.reduce((sum, file) => sum + (file.codeLines || 0), 0),
-                commentLines: files.reduce((sum, file) => sum + (file.commentLines || 0), 0),
-                blankLines: files.reduce((sum, file) => sum + (file.blankLines || 0), 0)
-            };
-        });
+        this.refreshDecorations();
+        return true;
+    }
 
-        summary.languageCount = languages.length;
-
-        // Prepare file data
-        const files = results.files?.map((file: any) => ({
-            path: file.path || '',
-            relativePath: file.relativePath || file.path || '',
-            language: file.language || 'Unknown',
-            lines: file.lines || 0,
-            codeLines: file.codeLines || 0,
-            commentLines: file.commentLines || 0,
-            blankLines: file.blankLines || 0,
-            size: file.size || 0
-        })) || [];
-
-        const reportData = {
-            summary,
-            languages,
-            files,
-            workspacePath,
-            generatedDate: new Date().toLocaleString()
-        };
-        
-        this.debug.info('✅ DEBUG: Final ReportData structure:');
-        this.debug.info('- Summary:', reportData.summary);
-        this.debug.info('- Languages count:', reportData.languages.length);
-        this.debug.info('- Files count:', reportData.files.length);
-        this.debug.info('- First language sample:', reportData.languages[0] || 'none');
-        this.debug.info('- First file sample:', reportData.files[0] || 'none');
-        
-        return reportData;
+    /**
+     * Add the largest symbols, authors and hotspots to a full count of a workspace folder,
+     * and keep it in the line count history unless that is turned off
+     */
+    private async enrichResult(result: LineCountResult, recordSnapshot: boolean = true): Promise<void> {
+        await this.symbolMetrics.addLargestSymbols(result.files);
+        await this.authorship.addAuthors(result.files);
+        await this.hotspots.addHotspots(result.workspacePath, result.files);
+        if (recordSnapshot) {
+            await this.recordSnapshot(result);
+        }
+    }
+
+    /**
+     * Keep a manual count in the line count history unless turned off
+     */
+    private async recordSnapshot(result: LineCountResult): Promise<void> {
+        const config = vscode.workspace.getConfiguration('codeCounter');
+        if (!config.get<boolean>('snapshots.recordOnManualRun', true)) {
+            return;
+        }
+
+        try {
+            await this.snapshots.recordSnapshot(result, 'manual');
+        } catch (error) {
+            this.debug.warning('Failed to record line count snapshot:', error);
+        }
     }
 
     private refreshDecorations(): void {
@@ -0,0 +1,330 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { HistoryBackfillService } from '../services/historyBackfillService';
+import { LineCounterService } from '../services/lineCounter';
+import { SnapshotService } from '../services/snapshotService';
+import { LineCountSnapshot } from '../services/workspaceDatabaseService';
+import { BackfillInterval, getSnapshotTitle, selectSnapshotsToPrune } from '../utils/snapshotUtils';
+
+interface SnapshotPickItem extends vscode.QuickPickItem {
+    workspacePath: string;
+    snapshot: LineCountSnapshot;
+}
+
+/**
+ * Commands to record, list, label, delete, prune and backfill line count snapshots
+ */
+export class SnapshotCommands {
+    private lineCounter = new LineCounterService();
+    private snapshots = SnapshotService.getInstance();
+    private backfillService = HistoryBackfillService.getInstance();
+
+    /**
+     * Count every workspace folder and store the result as a labelled snapshot
+     */
+    async record(): Promise<void> {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (!workspaceFolders) {
+            vscode.window.showErrorMessage('No workspace folder is open');
+            return;
+        }
+
+        const label = await vscode.window.showInputBox({
+            prompt: 'Label for the snapshot (optional)',
+            placeHolder: 'e.g. Sprint 12'
+        });
+        if (label === undefined) {
+            return;
+        }
+
+        try {
+            const recorded = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Code Counter - Recording Snapshot',
+                cancellable: false
+            }, async (progress) => {
+                const snapshots: LineCountSnapshot[] = [];
+                for (const folder of workspaceFolders) {
+                    progress.report({ message: `Counting ${folder.name}...` });
+                    const result = await this.lineCounter.countLinesWithPathBasedSettings(folder.uri.fsPath);
+                    snapshots.push(await this.snapshots.recordSnapshot(result, 'manual', label));
+                }
+                return snapshots;
+            });
+
+            const lines = recorded.reduce((sum, snapshot) => sum + snapshot.lines, 0);
+            vscode.window.showInformationMessage(`Snapshot recorded: ${lines.toLocaleString()} lines`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to record snapshot: ${error}`);
+        }
+    }
+
+    /**
+     * Browse snapshots; picking one shows its languages and offers to label or delete it
+     */
+    async list(): Promise<void> {
+        const [picked] = await this.pickSnapshots('Select a snapshot', false);
+        if (!picked) {
+            return;
+        }
+
+        const { workspacePath, snapshot } = picked;
+        const languages = await this.snapshots.getSnapshotLanguages(workspacePath, snapshot.id);
+        const labelAction = '$(tag) Label snapshot';
+        const deleteAction = '$(trash) Delete snapshot';
+        const choice = await vscode.window.showQuickPick([
+            { label: labelAction },
+            { label: deleteAction },
+            { label: 'Languages', kind: vscode.QuickPickItemKind.Separator },
+            ...languages.map(language => ({
+                label: language.language,
+                description: `${language.files.toLocaleString()} files, ${language.lines.toLocaleString()} lines`
+            }))
+        ], { placeHolder: `${getSnapshotTitle(snapshot)}: ${snapshot.lines.toLocaleString()} lines in ${snapshot.files.toLocaleString()} files` });
+
+        if (choice?.label === labelAction) {
+            await this.labelSnapshot(picked);
+        } else if (choice?.label === deleteAction) {
+            await this.deleteSnapshots([picked]);
+        }
+    }
+
+    async label(): Promise<void> {
+        const [picked] = await this.pickSnapshots('Select the snapshot to label', false);
+        if (picked) {
+            await this.labelSnapshot(picked);
+        }
+    }
+
+    async delete(): Promise<void> {
+        const picked = await this.pickSnapshots('Select the snapshots to delete', true);
+        if (picked.length > 0) {
+            await this.deleteSnapshots(picked);
+        }
+    }
+
+    /**
+     * Delete the snapshots beyond the retention policy after confirmation
+     */
+    async prune(): Promise<void> {
+        const policy = this.snapshots.getRetentionPolicy();
+        const workspacePaths = (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath);
+        let count = 0;
+        for (const workspacePath of workspacePaths) {
+            count += selectSnapshotsToPrune(await this.snapshots.getSnapshots(workspacePath), policy).length;
+        }
+
+        if (count === 0) {
+            vscode.window.showInformationMessage('No snapshots exceed the retention policy');
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Delete ${count} snapshot${count === 1 ? '' : 's'} beyond the retention policy?`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirm !== 'Delete') {
+            return;
+        }
+
+        for (const workspacePath of workspacePaths) {
+            await this.snapshots.pruneSnapshots(workspacePath, policy);
+        }
+        vscode.window.showInformationMessage(`Pruned ${count} snapshot${count === 1 ? '' : 's'}`);
+    }
+
+    /**
+     * Count past commits of the git history (every N commits or days, or each tag) and
+     * record them as snapshots. Running it again resumes where a cancelled run stopped.
+     */
+    async backfill(): Promise<void> {
+        const workspaceFolders = vscode.workspace.workspaceFolders || [];
+        if (workspaceFolders.length === 0) {
+            vscode.window.showErrorMessage('No workspace folder is open');
+            return;
+        }
+
+        const folder = workspaceFolders.length === 1
+            ? workspaceFolders[0]
+            : await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the workspace folder to backfill' });
+        if (!folder) {
+            return;
+        }
+
+        const interval = await this.pickBackfillInterval();
+        if (!interval) {
+            return;
+        }
+
+        const plan = await this.backfillService.planBackfill(folder.uri.fsPath, interval);
+        if (!plan) {
+            vscode.window.showErrorMessage(`${folder.name} is not in a git repository`);
+            return;
+        }
+        const skipped = [
+            plan.alreadyRecorded > 0 ? `${plan.alreadyRecorded} already recorded` : '',
+            plan.beyondRetention > 0 ? `${plan.beyondRetention} older than the retention period` : ''
+        ].filter(reason => reason !== '').join(', ');
+        if (plan.commits.length === 0) {
+            vscode.window.showInformationMessage(`No commits to backfill${skipped ? ` (${skipped})` : ''}`);
+            return;
+        }
+
+        const confirm = await vscode.window.showInformationMessage(
+            `Count ${plan.commits.length} past commit${plan.commits.length === 1 ? '' : 's'} of ${folder.name}${skipped ? ` (${skipped})` : ''}? The working copy is not touched.`,
+            'Backfill'
+        );
+        if (confirm !== 'Backfill') {
+            return;
+        }
+
+        try {
+            let cancelled = false;
+            const recorded = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Code Counter - Backfilling History',
+                cancellable: true
+            }, async (progress, token) => {
+                const snapshots = await this.backfillService.runBackfill(plan, (commit, index) => {
+                    progress.report({
+                        message: `${index + 1}/${plan.commits.length}: ${commit.hash.substring(0, 8)} (${commit.date.toLocaleDateString()})`,
+                        increment: index === 0 ? 0 : 100 / plan.commits.length
+                    });
+                }, token);
+                cancelled = token.isCancellationRequested;
+                return snapshots;
+            });
+
+            const summary = `${recorded.length} snapshot${recorded.length === 1 ? '' : 's'}`;
+            vscode.window.showInformationMessage(cancelled
+                ? `Backfill cancelled after ${summary}. Run it again to resume.`
+                : `Backfill recorded ${summary}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to backfill history: ${error}`);
+        }
+    }
+
+    private async pickBackfillInterval(): Promise<BackfillInterval | undefined> {
+        const picked = await vscode.window.showQuickPick([
+            { label: '$(tag) Each tag', interval: 'tags' as const },
+            { label: '$(git-commit) Every N commits', interval: 'commits' as const },
+            { label: '$(calendar) Every N days', interval: 'days' as const }
+        ], { placeHolder: 'Which past commits should be counted?' });
+        if (!picked) {
+            return undefined;
+        }
+        if (picked.interval === 'tags') {
+            return { kind: 'tags' };
+        }
+
+        const every = await vscode.window.showInputBox({
+            prompt: `Count one commit every how many ${picked.interval}?`,
+            value: picked.interval === 'commits' ? '10' : '7',
+            validateInput: value => /^[1-9]\d*$/.test(value.trim()) ? undefined : 'Enter a positive whole number'
+        });
+        return every === undefined ? undefined : { kind: picked.interval, every: Number(every.trim()) };
+    }
+
+    private async labelSnapshot({ workspacePath, snapshot }: SnapshotPickItem): Promise<void> {
+        const label = await vscode.window.showInputBox({
+            prompt: 'Label for the snapshot (leave empty to remove it)',
+            value: snapshot.label || ''
+        });
+        if (label !== undefined) {
+            await this.snapshots.labelSnapshot(workspacePath, snapshot.id, label);
+        }
+    }
+
+    private async deleteSnapshots(picked: SnapshotPickItem[]): Promise<void> {
+        const confirm = await vscode.window.showWarningMessage(
+            picked.length === 1
+                ? `Delete snapshot "${getSnapshotTitle(picked[0].snapshot)}"?`
+                : `Delete ${picked.length} snapshots?`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirm !== 'Delete') {
+            return;
+        }
+
+        const idsByWorkspace = new Map<string, number[]>();
+        for (const { workspacePath, snapshot } of picked) {
+            idsByWorkspace.set(workspacePath, [...(idsByWorkspace.get(workspacePath) || []), snapshot.id]);
+        }
+        for (const [workspacePath, ids] of idsByWorkspace) {
+            await this.snapshots.deleteSnapshots(workspacePath, ids);
+        }
+    }
+
+    private async pickSnapshots(placeHolder: string, canPickMany: boolean): Promise<SnapshotPickItem[]> {
+        const workspaceFolders = vscode.workspace.workspaceFolders || [];
+        const items: SnapshotPickItem[] = [];
+        for (const folder of workspaceFolders) {
+            const workspacePath = folder.uri.fsPath;
+            for (const snapshot of await this.snapshots.getSnapshots(workspacePath)) {
+                items.push(this.createPickItem(workspacePath, snapshot, workspaceFolders.length > 1));
+            }
+        }
+
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('No snapshots recorded yet. Count lines or run "Record Snapshot" to create one.');
+            return [];
+        }
+
+        if (canPickMany) {
+            return await vscode.window.showQuickPick(items, { placeHolder, canPickMany: true, matchOnDetail: true }) || [];
+        }
+        const picked = await vscode.window.showQuickPick(items, { placeHolder, matchOnDetail: true });
+        return picked ? [picked] : [];
+    }
+
+    private createPickItem(workspacePath: string, snapshot: LineCountSnapshot, showFolder: boolean): SnapshotPickItem {
+        const details: string[] = [snapshot.trigger];
+        if (snapshot.label) {
+            details.push(snapshot.createdAt.toLocaleString());
+        }
+        if (snapshot.commit) {
+            details.push(`${snapshot.branch ? `${snapshot.branch} ` : ''}${snapshot.commit.substring(0, 8)}`);
+        }
+        if (showFolder) {
+            details.push(path.basename(workspacePath));
+        }
+
+        return {
+            label: `${snapshot.label ? '$(tag)' : '$(history)'} ${getSnapshotTitle(snapshot)}`,
+            description: `${snapshot.lines.toLocaleString()} lines, ${snapshot.files.toLocaleString()} files`,
+            detail: details.join(' · '),
+            workspacePath,
+            snapshot
+        };
+    }
+}
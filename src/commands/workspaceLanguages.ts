@@ -0,0 +1,166 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as vscode from 'vscode';
+import { DebugService } from '../services/debugService';
+import { LanguageRegistry } from '../services/languageRegistry';
+import { LanguageDefinition } from '../services/languageTable';
+import { getWorkspaceService } from '../utils/workspaceUtils';
+
+const debug = DebugService.getInstance();
+
+const NEW_LANGUAGE_TEMPLATE: LanguageDefinition = { name: '', extensions: [], lineComments: ['//'] };
+
+/**
+ * Parse a language definition typed as JSON, returning an error message when it is not usable
+ */
+export function parseLanguageDefinition(text: string): LanguageDefinition | string {
+    let definition: unknown;
+    try {
+        definition = JSON.parse(text);
+    } catch {
+        return 'Enter the definition as JSON, e.g. {"name": "Acme DSL", "extensions": [".acme"]}';
+    }
+    if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+        return 'The definition must be a JSON object';
+    }
+
+    const fields = definition as { [key: string]: unknown };
+    if (typeof fields.name !== 'string' || fields.name.trim() === '') {
+        return 'The definition requires a "name"';
+    }
+    for (const key of ['extensions', 'filenames', 'shebangs', 'aliases', 'lineComments', 'lineStartComments', 'wordStartComments', 'blockComments', 'strings']) {
+        if (fields[key] !== undefined && !Array.isArray(fields[key])) {
+            return `"${key}" must be an array`;
+        }
+    }
+    return { ...fields, name: fields.name.trim() } as LanguageDefinition;
+}
+
+/**
+ * Load the language definitions stored in the database of every workspace folder into the shared registry
+ */
+export async function loadWorkspaceLanguages(replaceExisting: boolean = false): Promise<void> {
+    const folders = vscode.workspace.workspaceFolders || [];
+    try {
+        const results = await Promise.all(folders.map(folder => getWorkspaceService(folder.uri.fsPath).getCustomLanguages()));
+        const languages = results.flat();
+        if (languages.length > 0 || replaceExisting) {
+            debug.info(`Loaded ${languages.length} custom language definitions from ${folders.length} workspace folder(s)`);
+            LanguageRegistry.getInstance().setWorkspaceLanguages(languages);
+        }
+    } catch (error) {
+        debug.error('Failed to load custom language definitions:', error);
+    }
+}
+
+/**
+ * Command to add, edit and delete the language definitions stored in a workspace folder's database
+ */
+export class WorkspaceLanguageCommands {
+    /**
+     * Pick a stored language to edit or delete, or add a new one
+     */
+    async manage(): Promise<void> {
+        const workspaceFolders = vscode.workspace.workspaceFolders || [];
+        if (workspaceFolders.length === 0) {
+            vscode.window.showErrorMessage('No workspace folder is open');
+            return;
+        }
+
+        const folder = workspaceFolders.length === 1
+            ? workspaceFolders[0]
+            : await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the workspace folder whose languages to manage' });
+        if (!folder) {
+            return;
+        }
+
+        const workspaceService = getWorkspaceService(folder.uri.fsPath);
+        const languages = await workspaceService.getCustomLanguages();
+        const addAction = '$(add) Add language';
+        const picked = await vscode.window.showQuickPick([
+            { label: addAction },
+            ...languages.map(language => ({
+                label: language.name,
+                description: [...(language.extensions || []), ...(language.filenames || [])].join(', '),
+                language
+            }))
+        ], { placeHolder: `Languages stored for ${folder.name}` });
+        if (!picked) {
+            return;
+        }
+
+        if (!('language' in picked)) {
+            await this.editLanguage(folder, NEW_LANGUAGE_TEMPLATE);
+            return;
+        }
+
+        const editAction = '$(edit) Edit definition';
+        const deleteAction = '$(trash) Delete language';
+        const choice = await vscode.window.showQuickPick([editAction, deleteAction], { placeHolder: picked.language.name });
+        if (choice === editAction) {
+            await this.editLanguage(folder, picked.language);
+        } else if (choice === deleteAction) {
+            await workspaceService.deleteCustomLanguage(picked.language.name);
+            await loadWorkspaceLanguages(true);
+            vscode.window.showInformationMessage(`Deleted language ${picked.language.name} from ${folder.name}`);
+        }
+    }
+
+    private async editLanguage(folder: vscode.WorkspaceFolder, current: LanguageDefinition): Promise<void> {
+        const text = await vscode.window.showInputBox({
+            prompt: 'Language definition as JSON, with the same fields as the codeCounter.languages setting',
+            value: JSON.stringify(current),
+            validateInput: value => {
+                const definition = parseLanguageDefinition(value);
+                return typeof definition === 'string' ? definition : undefined;
+            }
+        });
+        if (text === undefined) {
+            return;
+        }
+
+        const definition = parseLanguageDefinition(text);
+        if (typeof definition === 'string') {
+            return;
+        }
+
+        try {
+            const workspaceService = getWorkspaceService(folder.uri.fsPath);
+            // A renamed language replaces the definition it was edited from
+            if (current.name && current.name !== definition.name) {
+                await workspaceService.deleteCustomLanguage(current.name);
+            }
+            await workspaceService.saveCustomLanguage(definition);
+            await loadWorkspaceLanguages(true);
+            vscode.window.showInformationMessage(`Saved language ${definition.name} for ${folder.name}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to save language: ${error}`);
+        }
+    }
+}
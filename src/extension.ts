@@ -31,12 +31,25 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { CountLinesCommand } from './commands/countLines';
 import { TestExclusionCommand } from './commands/testExclusion';
+import { SnapshotCommands } from './commands/snapshots';
+import { WorkspaceLanguageCommands, loadWorkspaceLanguages } from './commands/workspaceLanguages';
+import { CompareLineCountsCommand } from './commands/compareLineCounts';
+import { CountChangesVsBaseCommand } from './commands/countChangesVsBase';
 import { FileWatcherProvider } from './providers/fileWatcher';
 import { FileExplorerDecorationProvider } from './providers/fileExplorerDecorator';
 import { EditorTabDecorationProvider } from './providers/editorTabDecorator';
+import { CodeCounterTreeProvider, CodeCounterTreeNode } from './providers/codeCounterTreeProvider';
+import { SymbolCodeLensProvider } from './providers/symbolCodeLensProvider';
+import { ThresholdDiagnosticKind, ThresholdDiagnosticsProvider } from './providers/thresholdDiagnosticsProvider';
+import { SnapshotScheduler } from './providers/snapshotScheduler';
 import { PathBasedSettingsService } from './services/pathBasedSettingsService';
 import { DebugService } from './services/debugService';
-import { WorkspaceDatabaseService, WorkspaceSettings, ResolvedSettings } from './services/workspaceDatabaseService';
+import { LanguageRegistry } from './services/languageRegistry';
+import { IncrementalReportService } from './services/incrementalReportService';
+import { DirectoryAggregateIndexService } from './services/directoryAggregateIndexService';
+import { LineDeltaService } from './services/lineDeltaService';
+import { LineCountIndexService } from './services/lineCountIndexService';
+import { WorkspaceSettings, ResolvedSettings } from './services/workspaceDatabaseService';
 
 // Import utilities to replace large inline functions
 import { showCodeCounterSettings } from './utils/webviewManager';
@@ -94,34 +107,11 @@ export async function activate(context: vscode.ExtensionContext) {
         // This ensures that any database changes automatically invalidate cached services
         initializeCacheInvalidation();
 
-    // Auto-migrate from .code-counter.json files to database on startup
-    if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-        const workspacePath = vscode.workspace.workspaceFolders[0].uri.fsPath;
-        const workspaceService = new WorkspaceDatabaseService(workspacePath);
-        
-        // Trigger migration and cleanup asynchronously 
-        workspaceService.migrateAndCleanupJsonFiles().then(migrationResult => {
-            if (migrationResult.migrated > 0) {
-                debug.info(`VS Code Code Counter: Migrated ${migrationResult.migrated} settings files and deleted ${migrationResult.deleted} JSON files`);
-                
-                let message = `Code Counter: Successfully migrated ${migrationResult.migrated} settings files to new database format!`;
-                if (migrationResult.deleted > 0) {
-                    message += ` Cleaned up ${migrationResult.deleted} legacy JSON files.`;
-                }
-                
-                vscode.window.showInformationMessage(message);
-            }
-            if (migrationResult.errors.length > 0) {
-                debug.warning('Migration errors:', migrationResult.errors);
-                vscode.window.showWarningMessage(
-                    `Code Counter: Migration completed with ${migrationResult.errors.length} errors. Check output for details.`
-                );
-            }
-        }).catch(error => {
-            debug.error('Migration and cleanup failed:', error);
-            vscode.window.showWarningMessage('Code Counter: Failed to migrate legacy settings files. Extension will still work with default settings.');
-        });
+    // Auto-migrate from .code-counter.json files to database on startup, in every root folder
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+        migrateWorkspaceFolder(folder.uri.fsPath);
     }
+    loadWorkspaceLanguages();
 
     // Initialize services
     const fileWatcher = new FileWatcherProvider();
@@ -134,6 +124,20 @@ export async function activate(context: vscode.ExtensionContext) {
     setGlobalFileExplorerDecorator(fileExplorerDecorator); // Set global reference for decorator refresh
     const editorTabDecorator = new EditorTabDecorationProvider(pathBasedSettings);
 
+    // Roots added to or removed from a multi-root workspace
+    const workspaceFoldersWatcher = vscode.workspace.onDidChangeWorkspaceFolders(event => {
+        debug.info('Workspace folders changed:', { added: event.added.length, removed: event.removed.length });
+        event.added.forEach(folder => migrateWorkspaceFolder(folder.uri.fsPath));
+        event.removed.forEach(folder => {
+            IncrementalReportService.getInstance().clear(folder.uri.fsPath);
+            DirectoryAggregateIndexService.getInstance().clear(folder.uri.fsPath);
+            LineDeltaService.getInstance().clear(folder.uri.fsPath);
+            LineCountIndexService.clear(folder.uri.fsPath);
+        });
+        loadWorkspaceLanguages(true);
+        fileExplorerDecorator.refresh();
+    });
+
     // Create a dedicated file system watcher for .code-counter.json files
     // This ensures decorators refresh when configuration files are modified/deleted externally
     const configFileWatcher = vscode.workspace.createFileSystemWatcher('**/.code-counter.json');
@@ -163,6 +167,27 @@ export async function activate(context: vscode.ExtensionContext) {
     // Register file decoration provider for explorer
     const decorationProvider = vscode.window.registerFileDecorationProvider(fileExplorerDecorator);
 
+    // Function, method and class sizes above each symbol
+    const symbolCodeLensProvider = new SymbolCodeLensProvider(pathBasedSettings);
+    const codeLensProvider = vscode.languages.registerCodeLensProvider({ scheme: 'file' }, symbolCodeLensProvider);
+
+    // Files and symbols over their thresholds in the Problems panel
+    const thresholdDiagnostics = new ThresholdDiagnosticsProvider(pathBasedSettings);
+    const codeActionsProvider = vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, thresholdDiagnostics, {
+        providedCodeActionKinds: ThresholdDiagnosticsProvider.providedCodeActionKinds
+    });
+
+    // Code Counter view in the activity bar
+    const treeProvider = new CodeCounterTreeProvider(pathBasedSettings);
+    const treeView = vscode.window.createTreeView('codeCounter.treeView', { treeDataProvider: treeProvider });
+
+    // Line count history
+    const snapshotScheduler = new SnapshotScheduler();
+    const snapshotCommands = new SnapshotCommands();
+    const workspaceLanguageCommands = new WorkspaceLanguageCommands();
+    const compareLineCountsCommand = new CompareLineCountsCommand();
+    const countChangesVsBaseCommand = new CountChangesVsBaseCommand();
+
     // Register commands
     const countLinesDisposable = vscode.commands.registerCommand('codeCounter.countLines', () => {
         console.log('[CODE-COUNTER] codeCounter.countLines command triggered!');
@@ -219,6 +244,62 @@ export async function activate(context: vscode.ExtensionContext) {
         await TestExclusionCommand.testCurrentFileExclusion();
     });
 
+    // Code Counter view commands
+    const treeRefreshDisposable = vscode.commands.registerCommand('codeCounter.tree.refresh', () => {
+        DirectoryAggregateIndexService.getInstance().clear();
+        treeProvider.refresh();
+    });
+
+    const treeOpenFileDisposable = vscode.commands.registerCommand('codeCounter.tree.openFile', async (node: CodeCounterTreeNode) => {
+        const uri = treeProvider.getUri(node);
+        if (uri) {
+            await vscode.window.showTextDocument(uri);
+        }
+    });
+
+    const treeRevealDisposable = vscode.commands.registerCommand('codeCounter.tree.revealInExplorer', async (node: CodeCounterTreeNode) => {
+        const uri = treeProvider.getUri(node);
+        if (uri) {
+            await vscode.commands.executeCommand('revealInExplorer', uri);
+        }
+    });
+
+    const treeExcludeDisposable = vscode.commands.registerCommand('codeCounter.tree.exclude', async (node: CodeCounterTreeNode) => {
+        const uri = treeProvider.getUri(node);
+        if (uri) {
+            await handleExcludeRelativePath(uri);
+        }
+    });
+
+    const treeOpenReportDisposable = vscode.commands.registerCommand('codeCounter.tree.openReport', async (node: CodeCounterTreeNode) => {
+        if (node.kind === 'language') {
+            await countLinesCommand.executeAndShowPanel({ language: node.language });
+        } else {
+            const uri = treeProvider.getUri(node);
+            await countLinesCommand.executeAndShowPanel(uri ? { path: uri.fsPath } : undefined);
+        }
+    });
+
+    const diagnosticsExcludeFileDisposable = vscode.commands.registerCommand('codeCounter.diagnostics.excludeFile', async (uri: vscode.Uri) => {
+        await handleExcludeRelativePath(uri);
+        thresholdDiagnostics.refresh();
+    });
+
+    const diagnosticsRaiseThresholdDisposable = vscode.commands.registerCommand('codeCounter.diagnostics.raiseThreshold',
+        async (uri: vscode.Uri, kind: ThresholdDiagnosticKind, lines: number) => {
+            await thresholdDiagnostics.raiseThreshold(uri, kind, lines);
+        });
+
+    const snapshotRecordDisposable = vscode.commands.registerCommand('codeCounter.snapshots.record', () => snapshotCommands.record());
+    const snapshotListDisposable = vscode.commands.registerCommand('codeCounter.snapshots.list', () => snapshotCommands.list());
+    const snapshotLabelDisposable = vscode.commands.registerCommand('codeCounter.snapshots.label', () => snapshotCommands.label());
+    const snapshotDeleteDisposable = vscode.commands.registerCommand('codeCounter.snapshots.delete', () => snapshotCommands.delete());
+    const snapshotPruneDisposable = vscode.commands.registerCommand('codeCounter.snapshots.prune', () => snapshotCommands.prune());
+    const snapshotBackfillDisposable = vscode.commands.registerCommand('codeCounter.snapshots.backfill', () => snapshotCommands.backfill());
+    const manageWorkspaceLanguagesDisposable = vscode.commands.registerCommand('codeCounter.manageWorkspaceLanguages', () => workspaceLanguageCommands.manage());
+    const compareLineCountsDisposable = vscode.commands.registerCommand('codeCounter.compareLineCounts', () => compareLineCountsCommand.execute());
+    const countChangesVsBaseDisposable = vscode.commands.registerCommand('codeCounter.countChangesVsBase', () => countChangesVsBaseCommand.execute());
+
     // Request language support command
     const requestLanguageSupportDisposable = vscode.commands.registerCommand('codeCounter.requestLanguageSupport', async (filePath?: string) => {
         try {
@@ -263,14 +344,40 @@ export async function activate(context: vscode.ExtensionContext) {
         excludeExtensionDisposable,
         testExclusionDisposable,
         requestLanguageSupportDisposable,
+        manageWorkspaceLanguagesDisposable,
+        treeRefreshDisposable,
+        treeOpenFileDisposable,
+        treeRevealDisposable,
+        treeExcludeDisposable,
+        treeOpenReportDisposable,
+        diagnosticsExcludeFileDisposable,
+        diagnosticsRaiseThresholdDisposable,
+        snapshotRecordDisposable,
+        snapshotListDisposable,
+        snapshotLabelDisposable,
+        snapshotDeleteDisposable,
+        snapshotPruneDisposable,
+        snapshotBackfillDisposable,
+        compareLineCountsDisposable,
+        countChangesVsBaseDisposable,
         decorationProvider,
+        symbolCodeLensProvider,
+        codeLensProvider,
+        thresholdDiagnostics,
+        codeActionsProvider,
+        snapshotScheduler,
+        treeProvider,
+        treeView,
         fileWatcher,
         fileExplorerDecorator,
         editorTabDecorator,
         configFileWatcher,
+        workspaceFoldersWatcher,
         onConfigFileChange,
         onConfigFileCreate,
-        onConfigFileDelete
+        onConfigFileDelete,
+        LanguageRegistry.getInstance(),
+        LineDeltaService.getInstance()
     );
     
     } catch (error) {
@@ -295,11 +402,44 @@ export async function activate(context: vscode.ExtensionContext) {
     }
 }
 
+/**
+ * Move legacy .code-counter.json files of one workspace folder into its database
+ */
+function migrateWorkspaceFolder(workspacePath: string): void {
+    const workspaceService = getWorkspaceService(workspacePath);
+    
+    // Trigger migration and cleanup asynchronously 
+    workspaceService.migrateAndCleanupJsonFiles().then(migrationResult => {
+        if (migrationResult.migrated > 0) {
+            debug.info(`VS Code Code Counter: Migrated ${migrationResult.migrated} settings files and deleted ${migrationResult.deleted} JSON files`);
+            
+            let message = `Code Counter: Successfully migrated ${migrationResult.migrated} settings files to new database format!`;
+            if (migrationResult.deleted > 0) {
+                message += ` Cleaned up ${migrationResult.deleted} legacy JSON files.`;
+            }
+            
+            vscode.window.showInformationMessage(message);
+        }
+        if (migrationResult.errors.length > 0) {
+            debug.warning('Migration errors:', migrationResult.errors);
+            vscode.window.showWarningMessage(
+                `Code Counter: Migration completed with ${migrationResult.errors.length} errors. Check output for details.`
+            );
+        }
+    }).catch(error => {
+        debug.error('Migration and cleanup failed:', error);
+        vscode.window.showWarningMessage('Code Counter: Failed to migrate legacy settings files. Extension will still work with default settings.');
+    });
+}
+
 export function deactivate() {
     // Clean up debug service
     const debug = DebugService.getInstance();
     debug.dispose();
     
+    // Write pending line counts before the database services are dropped
+    LineCountIndexService.disposeAll();
+
     // Clean up service cache
     clearServiceCache();
 }
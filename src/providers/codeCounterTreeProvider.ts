@@ -0,0 +1,273 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FileInfo } from '../types';
+import { DebugService } from '../services/debugService';
+import { DirectoryAggregate, DirectoryAggregateIndexService } from '../services/directoryAggregateIndexService';
+import { PathBasedSettingsService } from '../services/pathBasedSettingsService';
+import { computeFolderMetrics } from '../utils/folderAggregationUtils';
+
+export type CodeCounterTreeSection = 'largestFiles' | 'languages' | 'directories' | 'overThreshold' | 'recentlyChanged';
+
+export type CodeCounterTreeNode =
+    | { kind: 'section'; section: CodeCounterTreeSection }
+    | { kind: 'language'; language: string; files: FileInfo[]; lines: number }
+    | { kind: 'directory'; aggregate: DirectoryAggregate }
+    | { kind: 'file'; file: FileInfo };
+
+const SECTION_LABELS: Record<CodeCounterTreeSection, string> = {
+    largestFiles: 'Largest Files',
+    languages: 'Languages',
+    directories: 'Directories',
+    overThreshold: 'Files Over Threshold',
+    recentlyChanged: 'Recently Changed'
+};
+
+/**
+ * Sidebar view of the workspace line counts, read from the directory aggregate index
+ */
+export class CodeCounterTreeProvider implements vscode.TreeDataProvider<CodeCounterTreeNode>, vscode.Disposable {
+    private static readonly LARGEST_FILES_LIMIT = 25;
+    private static readonly DIRECTORIES_LIMIT = 50;
+    private static readonly RECENT_FILES_LIMIT = 20;
+    private static readonly REFRESH_DELAY_MS = 500;
+
+    private debug = DebugService.getInstance();
+    private directoryIndex = DirectoryAggregateIndexService.getInstance();
+    private pathBasedSettings: PathBasedSettingsService;
+    private disposables: vscode.Disposable[] = [];
+    private refreshTimer: NodeJS.Timeout | undefined;
+    private _onDidChangeTreeData = new vscode.EventEmitter<CodeCounterTreeNode | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(pathBasedSettings?: PathBasedSettingsService) {
+        this.pathBasedSettings = pathBasedSettings || new PathBasedSettingsService();
+
+        this.disposables.push(
+            this.directoryIndex.onDidChangeIndex(() => this.scheduleRefresh()),
+            this.pathBasedSettings.onDidChangeSettings(() => this.refresh())
+        );
+    }
+
+    refresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+            this.refreshTimer = undefined;
+        }
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    /**
+     * Batch the index updates of a burst of saves into one refresh
+     */
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => this.refresh(), CodeCounterTreeProvider.REFRESH_DELAY_MS);
+    }
+
+    async getChildren(node?: CodeCounterTreeNode): Promise<CodeCounterTreeNode[]> {
+        if (!node) {
+            return (Object.keys(SECTION_LABELS) as CodeCounterTreeSection[]).map(section => ({ kind: 'section', section }));
+        }
+        if (node.kind === 'language') {
+            return this.sortByLines(node.files).map(file => ({ kind: 'file', file }));
+        }
+        if (node.kind !== 'section') {
+            return [];
+        }
+
+        try {
+            const workspacePaths = await this.ensureIndexes();
+            const files = workspacePaths.flatMap(workspacePath => this.directoryIndex.getFiles(workspacePath));
+
+            switch (node.section) {
+                case 'largestFiles':
+                    return this.sortByLines(files)
+                        .slice(0, CodeCounterTreeProvider.LARGEST_FILES_LIMIT)
+                        .map(file => ({ kind: 'file', file }));
+                case 'languages':
+                    return this.groupByLanguage(files);
+                case 'directories':
+                    return workspacePaths
+                        .flatMap(workspacePath => this.directoryIndex.getDirectories(workspacePath))
+                        .sort((a, b) => b.lines - a.lines)
+                        .slice(0, CodeCounterTreeProvider.DIRECTORIES_LIMIT)
+                        .map(aggregate => ({ kind: 'directory', aggregate }));
+                case 'overThreshold':
+                    return this.getFilesOverThreshold(files);
+                case 'recentlyChanged':
+                    return this.directoryIndex.getRecentlyChangedFiles()
+                        .slice(0, CodeCounterTreeProvider.RECENT_FILES_LIMIT)
+                        .map(file => ({ kind: 'file', file }));
+            }
+        } catch (error) {
+            this.debug.error(`Failed to load tree section ${node.section}:`, error);
+            return [];
+        }
+    }
+
+    async getTreeItem(node: CodeCounterTreeNode): Promise<vscode.TreeItem> {
+        switch (node.kind) {
+            case 'section': {
+                const item = new vscode.TreeItem(SECTION_LABELS[node.section], vscode.TreeItemCollapsibleState.Expanded);
+                item.contextValue = 'codeCounterSection';
+                return item;
+            }
+            case 'language': {
+                const lineCounts = node.files.map(file => file.lines).sort((a, b) => a - b);
+                const emoji = await this.getFolderEmoji(lineCounts, this.getWorkspacePath(node.files[0].path));
+                const item = new vscode.TreeItem(`${emoji} ${node.language}`, vscode.TreeItemCollapsibleState.Collapsed);
+                item.description = this.describe(node.lines, node.files.length);
+                item.iconPath = new vscode.ThemeIcon('symbol-namespace');
+                item.contextValue = 'codeCounterLanguage';
+                return item;
+            }
+            case 'directory': {
+                const { aggregate } = node;
+                const emoji = await this.getFolderEmoji(this.directoryIndex.getLineCounts(aggregate.path), aggregate.path);
+                const item = new vscode.TreeItem(`${emoji} ${this.getDirectoryLabel(aggregate.path)}`, vscode.TreeItemCollapsibleState.None);
+                item.description = this.describe(aggregate.lines, aggregate.files);
+                item.tooltip = aggregate.path;
+                item.iconPath = new vscode.ThemeIcon('folder');
+                item.contextValue = 'codeCounterDirectory';
+                return item;
+            }
+            case 'file': {
+                const { file } = node;
+                const threshold = await this.pathBasedSettings.getColorThresholdForPath(file.lines, file.path);
+                const emoji = await this.pathBasedSettings.getThemeEmojiForPath(threshold, file.path);
+                const item = new vscode.TreeItem(`${emoji} ${path.basename(file.path)}`, vscode.TreeItemCollapsibleState.None);
+                item.description = `${file.lines.toLocaleString()} lines · ${path.dirname(vscode.workspace.asRelativePath(file.path, this.isMultiRoot()))}`;
+                item.tooltip = `${file.path}\n${file.language}: ${file.codeLines} code, ${file.commentLines} comments, ${file.blankLines} blank`;
+                item.iconPath = new vscode.ThemeIcon('file');
+                item.contextValue = 'codeCounterFile';
+                item.command = {
+                    command: 'codeCounter.tree.openFile',
+                    title: 'Open File',
+                    arguments: [node]
+                };
+                return item;
+            }
+        }
+    }
+
+    /**
+     * The file or directory Uri of a node, for the context menu commands
+     */
+    getUri(node: CodeCounterTreeNode): vscode.Uri | undefined {
+        if (node.kind === 'file') {
+            return vscode.Uri.file(node.file.path);
+        }
+        if (node.kind === 'directory') {
+            return vscode.Uri.file(node.aggregate.path);
+        }
+        return undefined;
+    }
+
+    /**
+     * Build the index of every workspace folder that has none yet
+     */
+    private async ensureIndexes(): Promise<string[]> {
+        const workspacePaths = (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath);
+        await Promise.all(workspacePaths.map(workspacePath => this.directoryIndex.ensureIndex(workspacePath)));
+        return workspacePaths;
+    }
+
+    private groupByLanguage(files: FileInfo[]): CodeCounterTreeNode[] {
+        const languages = new Map<string, FileInfo[]>();
+        for (const file of files) {
+            const languageFiles = languages.get(file.language) || [];
+            languageFiles.push(file);
+            languages.set(file.language, languageFiles);
+        }
+
+        return [...languages.entries()]
+            .map(([language, languageFiles]) => ({
+                kind: 'language' as const,
+                language,
+                files: languageFiles,
+                lines: languageFiles.reduce((sum, file) => sum + file.lines, 0)
+            }))
+            .sort((a, b) => b.lines - a.lines);
+    }
+
+    private async getFilesOverThreshold(files: FileInfo[]): Promise<CodeCounterTreeNode[]> {
+        const overThreshold: FileInfo[] = [];
+        for (const file of files) {
+            const threshold = await this.pathBasedSettings.getColorThresholdForPath(file.lines, file.path);
+            if (threshold !== 'normal') {
+                overThreshold.push(file);
+            }
+        }
+        return this.sortByLines(overThreshold).map(file => ({ kind: 'file', file }));
+    }
+
+    /**
+     * Folder emoji of the configured aggregation mode, as on the explorer folder badges
+     */
+    private async getFolderEmoji(sortedLines: readonly number[], folderPath: string): Promise<string> {
+        const aggregation = await this.pathBasedSettings.getFolderAggregationForPath(folderPath);
+        const fileThresholds = await this.pathBasedSettings.getThresholdConfigForPath(folderPath);
+        const metrics = computeFolderMetrics(sortedLines, fileThresholds.highThreshold);
+        const threshold = this.pathBasedSettings.getFolderColorThreshold(metrics[aggregation.mode], aggregation.thresholds);
+        return this.pathBasedSettings.getFolderEmojiForPath(threshold, folderPath);
+    }
+
+    private getDirectoryLabel(directoryPath: string): string {
+        const folder = (vscode.workspace.workspaceFolders || []).find(folder => folder.uri.fsPath === directoryPath);
+        return folder ? folder.name : vscode.workspace.asRelativePath(directoryPath, this.isMultiRoot());
+    }
+
+    private getWorkspacePath(filePath: string): string {
+        return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.uri.fsPath || path.dirname(filePath);
+    }
+
+    private isMultiRoot(): boolean {
+        return (vscode.workspace.workspaceFolders || []).length > 1;
+    }
+
+    private sortByLines(files: FileInfo[]): FileInfo[] {
+        return [...files].sort((a, b) => b.lines - a.lines || a.path.localeCompare(b.path));
+    }
+
+    private describe(lines: number, files: number): string {
+        return `${lines.toLocaleString()} lines · ${files} ${files === 1 ? 'file' : 'files'}`;
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.disposables.forEach(disposable => disposable.dispose());
+        this._onDidChangeTreeData.dispose();
+    }
+}
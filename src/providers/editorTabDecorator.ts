@@ -33,6 +33,10 @@ import { lineThresholdService } from '../services/lineThresholdService';
 import { PathBasedSettingsService } from '../services/pathBasedSettingsService';
 import { WorkspaceDatabaseService } from '../services/workspaceDatabaseService';
 import { DebugService } from '../services/debugService';
+import { LanguageRegistry } from '../services/languageRegistry';
+import { LineDeltaService, WorkspaceLineDelta } from '../services/lineDeltaService';
+import { FileSizeChange } from '../utils/diffUtils';
+import { formatLineDelta, isTierRaised } from '../utils/lineDeltaUtils';
 
 export class EditorTabDecorationProvider {
     private debug = DebugService.getInstance();
@@ -41,6 +45,7 @@ export class EditorTabDecorationProvider {
     private disposables: vscode.Disposable[] = [];
     private statusBarItem: vscode.StatusBarItem;
     private currentDocument: vscode.TextDocument | undefined;
+    private lineDelta = LineDeltaService.getInstance();
 
     constructor(pathBasedSettings?: PathBasedSettingsService) {
         this.lineCountCache = new LineCountCacheService();
@@ -55,7 +60,9 @@ export class EditorTabDecorationProvider {
         const configWatcher = vscode.workspace.onDidChangeConfiguration(event => {
             if (event.affectsConfiguration('codeCounter.showLineCountsInTabs') ||
                 event.affectsConfiguration('codeCounter.lineThresholds') ||
-                event.affectsConfiguration('codeCounter.emojis')) {
+                event.affectsConfiguration('codeCounter.emojis') ||
+                event.affectsConfiguration('codeCounter.decorationMode') ||
+                event.affectsConfiguration('codeCounter.lineDelta')) {
                 this.updateStatusBar();
             }
         });
@@ -79,7 +86,29 @@ export class EditorTabDecorationProvider {
             this.updateStatusBar();
         });
 
-        this.disposables.push(configWatcher, editorWatcher, documentSaveWatcher, dbSettingsWatcher);
+        // Changing the language mode reopens the document with a new language ID
+        const documentOpenWatcher = vscode.workspace.onDidOpenTextDocument(document => {
+            if (this.currentDocument && document.uri.toString() === this.currentDocument.uri.toString()) {
+                this.currentDocument = document;
+                this.lineCountCache.invalidateFileCache(document.uri.fsPath);
+                this.updateStatusBar();
+            }
+        });
+
+        // files.associations or custom languages changed
+        const languageWatcher = LanguageRegistry.getInstance().onDidChangeLanguages(() => {
+            this.lineCountCache.clearCache();
+            this.updateStatusBar();
+        });
+
+        // The line delta of the current file changed after a save or a new HEAD
+        const lineDeltaWatcher = this.lineDelta.onDidChangeDeltas(changedPaths => {
+            if (this.currentDocument && changedPaths.includes(this.currentDocument.uri.fsPath)) {
+                this.updateStatusBar();
+            }
+        });
+
+        this.disposables.push(configWatcher, editorWatcher, documentSaveWatcher, dbSettingsWatcher, documentOpenWatcher, languageWatcher, lineDeltaWatcher);
 
         // Initialize with current editor
         if (vscode.window.activeTextEditor) {
@@ -104,9 +133,12 @@ export class EditorTabDecorationProvider {
             const fileName = path.basename(this.currentDocument.uri.fsPath);
             const { text: formattedCount, emoji } = await this.pathBasedSettings.getStatusBarTextForPath(lineCount.lines, this.currentDocument.uri.fsPath);
             
-            // Different display based on mode
-            this.statusBarItem.text = `${emoji} ${formattedCount}`;
-            this.statusBarItem.tooltip = this.createTooltip(fileName, lineCount);
+            // Line delta mode adds the change against the base ref and flags a file that moved to a higher tier
+            const lineDelta = this.lineDelta.isEnabled() ? await this.lineDelta.getDeltas(this.currentDocument.uri.fsPath) : undefined;
+            const fileDelta = lineDelta?.files.get(this.currentDocument.uri.fsPath);
+            this.statusBarItem.text = fileDelta ? `${emoji} ${formattedCount} (${formatLineDelta(fileDelta.change)})` : `${emoji} ${formattedCount}`;
+            this.statusBarItem.tooltip = this.createTooltip(fileName, lineCount) + (lineDelta ? `\n${this.createDeltaTooltip(lineDelta, fileDelta)}` : '');
+            this.statusBarItem.backgroundColor = fileDelta && isTierRaised(fileDelta) ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
             this.statusBarItem.show();
 
         } catch (error) {
@@ -116,7 +148,16 @@ export class EditorTabDecorationProvider {
     }
 
     private createTooltip(fileName: string, lineCount: CachedLineCount): string {
-        return `Lines: ${lineCount.lines}`;
+        return `Language: ${lineCount.language}\nLines: ${lineCount.lines}`;
+    }
+
+    private createDeltaTooltip(lineDelta: WorkspaceLineDelta, fileDelta: FileSizeChange | undefined): string {
+        if (!fileDelta) {
+            return `Line count unchanged since ${lineDelta.baseTitle}`;
+        }
+        const baseLines = fileDelta.status === 'added' ? 'new file' : `was ${fileDelta.baseLines}`;
+        const tier = isTierRaised(fileDelta) ? `\nTier: ${fileDelta.baseTier || 'normal'} → ${fileDelta.tier}` : '';
+        return `Since ${lineDelta.baseTitle}: ${formatLineDelta(fileDelta.change)} (${baseLines})${tier}`;
     }
 
     // Toggle functionality removed - users can disable the extension if they don't want it
@@ -30,12 +30,19 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { LineCountCacheService, CachedLineCount } from '../services/lineCountCache';
 import { lineThresholdService } from '../services/lineThresholdService';
-import { PathBasedSettingsService } from '../services/pathBasedSettingsService';
+import { FolderAggregationConfig, PathBasedSettingsService } from '../services/pathBasedSettingsService';
 import { WorkspaceDatabaseService } from '../services/workspaceDatabaseService';
 import { GlobUtils } from '../utils/globUtils';
 import { DebugService } from '../services/debugService';
 import { BinaryDetectionService } from '../services/binaryDetectionService';
+import { getWorkspaceFolderPath } from '../utils/workspaceUtils';
 import { CountLinesCommand } from '../commands/countLines';
+import { LanguageRegistry } from '../services/languageRegistry';
+import { LanguageDetector } from '../services/languageDetector';
+import { DirectoryAggregate, DirectoryAggregateIndexService } from '../services/directoryAggregateIndexService';
+import { computeFolderMetrics, FOLDER_AGGREGATION_LABELS, FolderAggregationMode, FolderMetrics, formatFolderMetric } from '../utils/folderAggregationUtils';
+import { LineDeltaService, WorkspaceLineDelta } from '../services/lineDeltaService';
+import { formatLineDelta, formatLineDeltaBadge, isTierRaised, summarizeFolderDelta } from '../utils/lineDeltaUtils';
 
 export class FileExplorerDecorationProvider implements vscode.FileDecorationProvider {
     private _onDidChangeFileDecorations: vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined> = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
@@ -45,8 +52,15 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
     private pathBasedSettings: PathBasedSettingsService;
     private disposables: vscode.Disposable[] = [];
     private debug: DebugService;
-    private binaryDetectionService?: BinaryDetectionService;
+    private binaryDetectionServices = new Map<string, BinaryDetectionService>();
     private countLinesCommand: CountLinesCommand;
+    private languageRegistry = LanguageRegistry.getInstance();
+    private languageDetector = new LanguageDetector();
+    private directoryIndex = DirectoryAggregateIndexService.getInstance();
+    private lineDelta = LineDeltaService.getInstance();
+
+    /** Languages listed in a folder tooltip */
+    private static readonly FOLDER_TOOLTIP_LANGUAGES = 5;
 
     constructor(pathBasedSettings?: PathBasedSettingsService) {
         this.lineCountCache = new LineCountCacheService();
@@ -56,11 +70,20 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
         this.setupConfigurationWatcher();
     }
 
-    private initializeBinaryDetection(): void {
-        // Initialize binary detection service if workspace is available
-        if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0 && !this.binaryDetectionService) {
-            this.binaryDetectionService = new BinaryDetectionService(vscode.workspace.workspaceFolders[0].uri.fsPath);
+    /**
+     * Binary detection service of the workspace folder containing a file, created on first use
+     */
+    private getBinaryDetectionService(filePath: string): BinaryDetectionService | undefined {
+        const workspacePath = getWorkspaceFolderPath(filePath);
+        if (!workspacePath) {
+            return undefined;
         }
+        let service = this.binaryDetectionServices.get(workspacePath);
+        if (!service) {
+            service = new BinaryDetectionService(workspacePath);
+            this.binaryDetectionServices.set(workspacePath, service);
+        }
+        return service;
     }
 
     private setupConfigurationWatcher(): void {
@@ -69,12 +92,18 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
                 event.affectsConfiguration('codeCounter.lineThresholds') ||
                 event.affectsConfiguration('codeCounter.emojis') ||
                 event.affectsConfiguration('codeCounter.emojis.folders') ||
+                event.affectsConfiguration('codeCounter.folderAggregation') ||
+                event.affectsConfiguration('codeCounter.decorationMode') ||
+                event.affectsConfiguration('codeCounter.lineDelta') ||
                 event.affectsConfiguration('codeCounter.excludePatterns')) {
                 // When exclude patterns change, invalidate all caches and refresh all decorations
                 if (event.affectsConfiguration('codeCounter.excludePatterns')) {
                     this.debug.info('Exclude patterns changed - invalidating all caches and refreshing decorations');
                     this.lineCountCache.clearCache();
+                    this.directoryIndex.clear();
                 }
+                // Deltas carry the threshold tiers and exclusions of when they were counted
+                this.lineDelta.clear();
                 this._onDidChangeFileDecorations.fire(undefined);
             }
         });
@@ -90,8 +119,9 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
             this.lineCountCache.invalidateFolderCache(document.uri.fsPath);
             // Fire change event for the specific file to refresh its decoration
             this._onDidChangeFileDecorations.fire(document.uri);
-            // Also refresh parent folders since their totals may have changed
-            this.refreshParentFolders(document.uri);
+            // Parent folders are refreshed once their totals are updated
+            this.updateDirectoryIndex(document.uri.fsPath);
+            this.lineDelta.invalidate(document.uri.fsPath);
         });
         this.disposables.push(saveWatcher);
 
@@ -102,8 +132,9 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
             this.debug.verbose('File created:', uri.fsPath);
             // Invalidate cache for parent folders since their statistics changed
             this.lineCountCache.invalidateFolderCache(uri.fsPath);
-            // Refresh the parent folder decoration
-            this.refreshParentFolders(uri);
+            // Update folder totals, which refreshes the parent folder decorations
+            this.updateDirectoryIndex(uri.fsPath);
+            this.lineDelta.invalidate(uri.fsPath);
             // Also refresh the file itself if it's a file
             this._onDidChangeFileDecorations.fire(uri);
         });
@@ -112,12 +143,27 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
             this.debug.verbose('File deleted:', uri.fsPath);
             // Invalidate cache for parent folders since their statistics changed
             this.lineCountCache.invalidateFolderCache(uri.fsPath);
-            // Refresh the parent folder decoration
-            this.refreshParentFolders(uri);
+            // Update folder totals, which refreshes the parent folder decorations
+            this.updateDirectoryIndex(uri.fsPath);
+            this.lineDelta.invalidate(uri.fsPath);
         });
 
         this.disposables.push(fileWatcher, onFileCreate, onFileDelete);
 
+        // Refresh folders whose totals changed in the directory index
+        const directoryIndexWatcher = this.directoryIndex.onDidChangeIndex(directories => {
+            this._onDidChangeFileDecorations.fire(directories.map(directory => vscode.Uri.file(directory)));
+        });
+        this.disposables.push(directoryIndexWatcher);
+
+        // Refresh files and folders whose line delta changed after a save or a new HEAD
+        const lineDeltaWatcher = this.lineDelta.onDidChangeDeltas(changedPaths => {
+            if (this.lineDelta.isEnabled()) {
+                this._onDidChangeFileDecorations.fire(changedPaths.map(changedPath => vscode.Uri.file(changedPath)));
+            }
+        });
+        this.disposables.push(lineDeltaWatcher);
+
         // Note: Database service handles settings changes internally
         // Settings changes will trigger cache invalidation through file watchers
         // Listen for database settings changes
@@ -129,10 +175,28 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
                 this.debug.error('Error in settings change handler:', error);
                 // Fallback to silent refresh
                 this.lineCountCache.clearCache();
+                this.directoryIndex.clear();
                 this._onDidChangeFileDecorations.fire(undefined);
             });
         });
         this.disposables.push(dbSettingsWatcher);
+
+        // Custom language definitions and files.associations change which files are counted and how
+        const languageWatcher = this.languageRegistry.onDidChangeLanguages(() => {
+            this.debug.info('Language definitions changed - invalidating all caches and refreshing decorations');
+            this.lineCountCache.clearCache();
+            this.directoryIndex.clear();
+            this._onDidChangeFileDecorations.fire(undefined);
+        });
+
+        // Changing an editor's language mode reopens the document with the new language ID
+        const documentOpenWatcher = vscode.workspace.onDidOpenTextDocument(document => {
+            if (document.uri.scheme === 'file') {
+                this.lineCountCache.invalidateFileCache(document.uri.fsPath);
+                this._onDidChangeFileDecorations.fire(document.uri);
+            }
+        });
+        this.disposables.push(languageWatcher, documentOpenWatcher);
     }
 
     private async handleSettingsChange(): Promise<void> {
@@ -140,15 +204,17 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
         
         // Handle settings changes for workspaces of all sizes
         if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-            const workspaceFolder = vscode.workspace.workspaceFolders[0];
-            this.debug.info('Found workspace folder:', workspaceFolder.uri.fsPath);
+            this.debug.info('Found workspace folders:', vscode.workspace.workspaceFolders.map(folder => folder.uri.fsPath));
             
             try {
-                // Get file count to determine if we should show progress
+                // Get file count across all root folders to determine if we should show progress
                 this.debug.info('Finding files to count workspace size...');
-                const allFiles = await vscode.workspace.findFiles(
-                    new vscode.RelativePattern(workspaceFolder.uri.fsPath, '**/*')
-                );
+                const allFiles: vscode.Uri[] = [];
+                for (const workspaceFolder of vscode.workspace.workspaceFolders) {
+                    allFiles.push(...await vscode.workspace.findFiles(
+                        new vscode.RelativePattern(workspaceFolder.uri.fsPath, '**/*')
+                    ));
+                }
                 
                 this.debug.info(`Found ${allFiles.length} files in workspace`);
                 
@@ -167,6 +233,7 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
                         this.debug.info('Progress notification shown, clearing cache...');
                         // Clear cache and refresh with cancellation support
                         this.lineCountCache.clearCache();
+                        this.directoryIndex.clear();
                         
                         // Check for cancellation
                         if (token.isCancellationRequested) {
@@ -184,6 +251,7 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
                     // For small workspaces, just refresh silently
                     this.debug.info('Small workspace - refreshing decorations silently');
                     this.lineCountCache.clearCache();
+                    this.directoryIndex.clear();
                     this._onDidChangeFileDecorations.fire(undefined);
                 }
                 
@@ -191,35 +259,29 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
                 this.debug.error('Error during settings change recount:', error);
                 // Fallback to silent refresh
                 this.lineCountCache.clearCache();
+                this.directoryIndex.clear();
                 this._onDidChangeFileDecorations.fire(undefined);
             }
         } else {
             // No workspace, just clear cache
             this.debug.info('No workspace folders found - clearing cache only');
             this.lineCountCache.clearCache();
+            this.directoryIndex.clear();
             this._onDidChangeFileDecorations.fire(undefined);
         }
     }
 
-    private refreshParentFolders(uri: vscode.Uri): void {
-        // Get the parent directory and refresh its decoration
-        const parent = vscode.Uri.file(path.dirname(uri.fsPath));
-        
-        // Only refresh if parent is within workspace
-        const workspaceFolder = vscode.workspace.getWorkspaceFolder(parent);
-        if (workspaceFolder) {
-            this.debug.verbose('Refreshing parent folder:', parent.fsPath);
-            this._onDidChangeFileDecorations.fire(parent);
-            
-            // Also refresh grandparent folders up to workspace root
-            let currentParent = parent;
-            while (currentParent.fsPath !== workspaceFolder.uri.fsPath && 
-                   currentParent.fsPath !== path.dirname(currentParent.fsPath)) {
-                currentParent = vscode.Uri.file(path.dirname(currentParent.fsPath));
-                this.debug.verbose('Refreshing ancestor folder:', currentParent.fsPath);
-                this._onDidChangeFileDecorations.fire(currentParent);
-            }
+    /**
+     * Recount a created, saved or deleted path in the directory index of its workspace folder
+     */
+    private updateDirectoryIndex(filePath: string): void {
+        const workspacePath = getWorkspaceFolderPath(filePath);
+        if (!workspacePath) {
+            return;
         }
+        this.directoryIndex.applyChanges(workspacePath, [filePath]).catch(error => {
+            this.debug.warning('Failed to update directory index:', error);
+        });
     }
 
     private refreshParentDirectoriesForWorkspaceChange(changedDirectoryUri: vscode.Uri): void {
@@ -350,6 +412,14 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
             const fileType = stat.type === vscode.FileType.Directory ? 'Directory' : 'File';
             this.debug.verbose('File stat result', { fileType, fsPath: uri.fsPath });
             
+            // Line delta mode shows the change against the base ref wherever git can tell it
+            const lineDelta = this.lineDelta.isEnabled() ? await this.lineDelta.getDeltas(uri.fsPath) : undefined;
+            if (lineDelta) {
+                return stat.type === vscode.FileType.Directory
+                    ? await this.provideFolderDeltaDecoration(uri, lineDelta)
+                    : await this.provideFileDeltaDecoration(uri, lineDelta);
+            }
+            
             if (stat.type === vscode.FileType.Directory) {
                 // Handle folder decoration
                 this.debug.verbose('Calling provideFolderDecoration', { fsPath: uri.fsPath });
@@ -458,26 +528,13 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
         }
     }
 
-    private async shouldSkipFile(filePath: string): Promise<boolean> {
-        const fileStatus = await this.analyzeFileStatus(filePath);
-        
-        // Skip files that shouldn't be scanned according to new processing rules
-        if (!fileStatus.shouldScan) {
-            this.debug.verbose('Skipping file - should not scan:', filePath, 
-                              'Category:', fileStatus.category, 
-                              'Binary:', fileStatus.isBinary);
-            return true;
-        }
-        
-        return false;
-    }
-
     /**
      * Analyze file status with the corrected binary-first processing order:
      * 1. Check known binary extensions first → skip unless inclusion pattern
      * 2. Check known text extensions → mandatory binary detection (unless inclusion pattern)
-     * 3. Mark unmatched as unknown (❔)
-     * 4. Skip scanning unknown files unless in inclusion patterns
+     * 3. Files identified by files.associations, an open editor, shebang or modeline count as known text
+     * 4. Mark unmatched as unknown (❔)
+     * 5. Skip scanning unknown files unless in inclusion patterns
      */
     private async analyzeFileStatus(filePath: string): Promise<{ 
         isBinary: boolean; 
@@ -487,13 +544,13 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
         shouldScan: boolean;
         category: 'known-text' | 'known-binary' | 'unknown';
     }> {
-        this.initializeBinaryDetection();
+        const binaryDetectionService = this.getBinaryDetectionService(filePath);
         
         const ext = path.extname(filePath).toLowerCase();
         
         // Check against path-based inclusion patterns first
         const includePatterns = await this.pathBasedSettings.getIncludePatternsForPath(filePath);
-        const relativePath = vscode.workspace.asRelativePath(filePath);
+        const relativePath = vscode.workspace.asRelativePath(filePath, false);
         
         let isInIncludePatterns = false;
         for (const pattern of includePatterns) {
@@ -526,12 +583,9 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
             };
         }
         
-        // Step 1: Get known extensions for classification
-        const knownTextExtensions = this.getKnownTextExtensions();
-        const knownBinaryExtensions = this.getKnownBinaryExtensions();
-        
+        // Step 1: Known extensions come from the shared language registry
         // Step 2: Check known BINARY extensions FIRST (prevents images from being processed as text)
-        if (knownBinaryExtensions.has(ext)) {
+        if (this.languageRegistry.isKnownBinaryFile(filePath)) {
             this.debug.verbose('File classified as known binary extension:', { filePath, ext, isInIncludePatterns });
             return {
                 isBinary: true,
@@ -543,13 +597,13 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
             };
         }
         
-        // Step 3: Check known TEXT extensions with MANDATORY binary detection
-        if (knownTextExtensions.has(ext)) {
+        // Step 3: Check known TEXT extensions (and files identified by language detection) with MANDATORY binary detection
+        if (this.languageRegistry.isKnownTextFile(filePath) || await this.isDetectedLanguage(filePath)) {
             // Step 3.a: Mandatory binary detection for all known text files (unless inclusion pattern override)
             let isBinary = false;
-            if (this.binaryDetectionService && !isInIncludePatterns) {
+            if (binaryDetectionService && !isInIncludePatterns) {
                 try {
-                    const binaryResult = await this.binaryDetectionService.isBinary(filePath);
+                    const binaryResult = await binaryDetectionService.isBinary(filePath);
                     isBinary = binaryResult.isBinary;
                     this.debug.verbose('Binary detection result for known text file:', { 
                         filePath, ext, isBinary, detectionMethod: binaryResult.detectionMethod 
@@ -585,134 +639,51 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
     }
     
     /**
-     * Get comprehensive set of known text file extensions
-     */
-    private getKnownTextExtensions(): Set<string> {
-        return new Set([
-            // Programming languages
-            '.js', '.jsx', '.ts', '.tsx', '.py', '.java', '.c', '.cpp', '.cc', '.cxx', '.h', '.hpp', '.hxx',
-            '.cs', '.php', '.rb', '.go', '.rs', '.swift', '.kt', '.kts', '.scala', '.sc', '.sbt',
-            '.dart', '.lua', '.r', '.R', '.m', '.pl', '.pm', '.hs', '.erl', '.ex', '.exs',
-            '.clj', '.cljs', '.cljc', '.fs', '.fsx', '.fsi', '.ml', '.mli', '.asm', '.s',
-            '.cbl', '.cob', '.cpy', '.f', '.f90', '.f95', '.f03', '.f08', '.vb', '.bas',
-            '.pas', '.pp', '.ads', '.adb', '.groovy', '.gradle', '.jl', '.nim', '.cr',
-            '.mm', '.dpr', '.dfm', '.vala', '.zig', '.v', '.scm', '.ss', '.rkt',
-            '.coffee', '.ls', '.elm', '.purs', '.tcl', '.tk', '.awk', '.gawk',
-            
-            // Shell and scripting
-            '.sh', '.bash', '.zsh', '.fish', '.csh', '.ksh', '.bat', '.cmd', '.ps1', '.psm1', '.psd1',
-            
-            // Web technologies
-            '.html', '.htm', '.xhtml', '.css', '.scss', '.sass', '.less', '.stylus',
-            '.vue', '.svelte', '.astro',
-            
-            // Data and config
-            '.json', '.jsonc', '.json5', '.xml', '.xsd', '.xsl', '.xslt', '.yaml', '.yml',
-            '.toml', '.ini', '.cfg', '.conf', '.config', '.properties', '.env',
-            '.htaccess', '.gitignore', '.gitattributes', '.editorconfig',
-            
-            // Documentation and text
-            '.md', '.markdown', '.mdown', '.mkd', '.rst', '.txt', '.text', '.rtf',
-            '.tex', '.latex', '.org', '.adoc', '.asciidoc',
-            
-            // Database and query
-            '.sql', '.psql', '.mysql', '.sqlite', '.cypher', '.sparql',
-            '.graphql', '.gql',
-            
-            // Build and project files
-            '.dockerfile', '.dockerignore', '.makefile', '.make', '.mk', '.cmake',
-            '.gradle', '.sbt', '.maven', '.ant', '.rake', '.gemfile',
-            
-            // Log and data files
-            '.log', '.logs', '.out', '.err', '.trace', '.csv', '.tsv', '.tab',
-            
-            // Specialized formats
-            '.proto', '.g4', '.bnf', '.ebnf', '.lex', '.yacc', '.bison'
-        ]);
-    }
-    
-    /**
-     * Get comprehensive set of known binary file extensions
+     * Extensionless scripts and files with unknown extensions can still have a known language
      */
-    private getKnownBinaryExtensions(): Set<string> {
-        return new Set([
-            // Images
-            '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.ico', '.tiff', '.tif', '.webp',
-            '.svg', '.psd', '.ai', '.eps', '.raw', '.cr2', '.nef', '.orf', '.sr2',
-            '.dng', '.heic', '.heif', '.avif', '.jxl',
-            
-            // Video
-            '.mp4', '.avi', '.mov', '.mkv', '.wmv', '.flv', '.webm', '.m4v',
-            '.mpg', '.mpeg', '.3gp', '.ogv', '.asf', '.rm', '.rmvb',
-            
-            // Audio
-            '.mp3', '.wav', '.flac', '.aac', '.ogg', '.wma', '.m4a', '.opus',
-            '.ape', '.ac3', '.dts', '.amr',
-            
-            // Archives and compression
-            '.zip', '.rar', '.7z', '.tar', '.gz', '.bz2', '.xz', '.lzma',
-            '.cab', '.iso', '.dmg', '.pkg', '.deb', '.rpm',
-            
-            // Documents
-            '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',
-            '.odt', '.ods', '.odp', '.pages', '.numbers', '.key',
-            
-            // Executables and libraries
-            '.exe', '.dll', '.so', '.dylib', '.app', '.msi', '.appx',
-            '.bin', '.run', '.snap', '.flatpak',
-            
-            // Database files
-            '.db', '.sqlite', '.sqlite3', '.mdb', '.accdb', '.dbf',
-            
-            // System and temporary
-            '.tmp', '.temp', '.cache', '.lock', '.pid', '.swap',
-            '.bak', '.backup', '.old', '.orig',
-            
-            // Fonts
-            '.ttf', '.otf', '.woff', '.woff2', '.eot',
-            
-            // CAD and 3D
-            '.dwg', '.dxf', '.step', '.iges', '.stl', '.obj', '.3ds',
-            
-            // Virtual machines
-            '.vmdk', '.vdi', '.qcow2', '.vhd', '.vhdx',
-            
-            // Game assets
-            '.unity', '.unitypackage', '.asset', '.prefab'
-        ]);
+    private async isDetectedLanguage(filePath: string): Promise<boolean> {
+        const detection = await this.languageDetector.detectFromFile(filePath);
+        return detection.source !== 'unknown';
     }
 
     private async provideFolderDecoration(uri: vscode.Uri): Promise<vscode.FileDecoration | undefined> {
         try {
             this.debug.verbose('Providing folder decoration for:', uri.fsPath);
-            const folderStats = await this.calculateFolderStats(uri.fsPath);
+            const workspacePath = getWorkspaceFolderPath(uri.fsPath);
+            if (!workspacePath) {
+                return undefined;
+            }
+
+            // The first folder request builds the index; its change event refreshes every folder
+            if (!this.directoryIndex.hasIndex(workspacePath)) {
+                this.directoryIndex.ensureIndex(workspacePath).catch(error => {
+                    this.debug.warning(`Failed to build directory index for ${workspacePath}:`, error);
+                });
+                return undefined;
+            }
+
+            const folderStats = this.directoryIndex.getAggregate(uri.fsPath);
             this.debug.verbose('Folder stats:', folderStats);
             
-            if (!folderStats) {
+            if (!folderStats || folderStats.lines === 0) {
                 this.debug.verbose('No folder stats found for:', uri.fsPath);
                 return undefined;
             }
 
-            // Get average emoji (left side - folder emojis) using path-based settings
-            const avgThreshold = await this.pathBasedSettings.getColorThresholdForPath(folderStats.averageLines, uri.fsPath);
-            const avgEmoji = await this.pathBasedSettings.getFolderEmojiForPath(avgThreshold, uri.fsPath);
+            // Get folder emoji (left side) from the configured folder metric and its folder thresholds
+            const aggregation = await this.pathBasedSettings.getFolderAggregationForPath(uri.fsPath);
+            const fileThresholds = await this.pathBasedSettings.getThresholdConfigForPath(uri.fsPath);
+            const metrics = computeFolderMetrics(this.directoryIndex.getLineCounts(uri.fsPath), fileThresholds.highThreshold);
+            const folderThreshold = this.pathBasedSettings.getFolderColorThreshold(metrics[aggregation.mode], aggregation.thresholds);
+            const folderEmoji = await this.pathBasedSettings.getFolderEmojiForPath(folderThreshold, uri.fsPath);
             
             // Get max emoji (right side - file emojis) using path-based settings 
             const maxThreshold = await this.pathBasedSettings.getColorThresholdForPath(folderStats.maxLines, folderStats.maxFilePath);
             const maxEmoji = await this.pathBasedSettings.getThemeEmojiForPath(maxThreshold, folderStats.maxFilePath);
 
-            // Use the higher threshold for the overall color
-            const overallThreshold = folderStats.maxLines > folderStats.averageLines ? maxThreshold : avgThreshold;
-            const relativePath = vscode.workspace.asRelativePath(folderStats.maxFilePath);
-            const fileName = path.basename(folderStats.maxFilePath);
-            
-            const tooltip = `📁 Folder: ${folderStats.fileCount} files\n` +
-                           `📊 Average: ${folderStats.averageLines.toLocaleString()} lines (${avgEmoji})\n` +
-                           `📈 Maximum: ${folderStats.maxLines.toLocaleString()} lines (${maxEmoji})\n` +
-                           `🔥 Largest: ${fileName}`;
-
-            const dualBadge = avgEmoji + maxEmoji;
-            this.debug.verbose('Returning dual badge decoration:', { badge: dualBadge, avgEmoji, maxEmoji, tooltip });
+            const tooltip = this.createFolderTooltip(folderStats, metrics, aggregation, folderEmoji, maxEmoji);
+            const dualBadge = folderEmoji + maxEmoji;
+            this.debug.verbose('Returning dual badge decoration:', { badge: dualBadge, mode: aggregation.mode, folderEmoji, maxEmoji, tooltip });
             
             return {
                 badge: dualBadge,
@@ -724,118 +695,97 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
         }
     }
 
+    /**
+     * Delta badge of a file changed since the base ref, highlighted when it moved to a higher tier
+     */
+    private async provideFileDeltaDecoration(uri: vscode.Uri, lineDelta: WorkspaceLineDelta): Promise<vscode.FileDecoration | undefined> {
+        const file = lineDelta.files.get(uri.fsPath);
+        if (!file) {
+            return undefined;
+        }
 
+        const tier = file.tier || 'normal';
+        const emoji = await this.pathBasedSettings.getThemeEmojiForPath(tier, uri.fsPath);
+        let tooltip = `${path.basename(uri.fsPath)}\n` +
+                      `──────────────────\n` +
+                      `Since ${lineDelta.baseTitle}: ${formatLineDelta(file.change)} lines\n` +
+                      (file.status === 'added' ? `New file: ${file.lines.toLocaleString()} lines` : `Lines: ${file.baseLines.toLocaleString()} → ${file.lines.toLocaleString()}`);
+        if (file.linesAdded !== undefined && file.linesRemoved !== undefined) {
+            tooltip += `\nGit: +${file.linesAdded.toLocaleString()} / -${file.linesRemoved.toLocaleString()} lines`;
+        }
 
-    private async calculateFolderStats(folderPath: string): Promise<{
-        fileCount: number;
-        averageLines: number;
-        maxLines: number;
-        maxFilePath: string;
-    } | undefined> {
-        try {
-            this.debug.verbose('Calculating folder stats for:', folderPath);
-            
-            // Check if directory exists before trying to read it
-            try {
-                const stat = await vscode.workspace.fs.stat(vscode.Uri.file(folderPath));
-                if (stat.type !== vscode.FileType.Directory) {
-                    this.debug.verbose('Path is not a directory:', folderPath);
-                    return undefined;
-                }
-            } catch (error) {
-                this.debug.verbose('Directory does not exist:', folderPath);
-                return undefined;
-            }
-            
-            const excludePatterns = await this.pathBasedSettings.getExcludePatternsForPath(folderPath);
-
-            // Get all files in folder (limit depth to prevent timeout)
-            const files = await this.getAllFilesInFolder(folderPath, excludePatterns, 2); // Max 2 levels deep
-            this.debug.verbose(`Found ${files.length} files in folder ${folderPath}`);
-            
-            if (files.length === 0) {
-                return undefined;
-            }
-
-            // Limit to first 30 files to prevent timeout
-            const limitedFiles = files.slice(0, 30);
-            const lineCounts: number[] = [];
-            let maxLines = 0;
-            let maxFilePath = '';
-
-            for (const filePath of limitedFiles) {
-                if (await this.shouldSkipFile(filePath)) {
-                    continue;
-                }
-
-                const lineCount = await this.lineCountCache.getLineCount(filePath);
-                if (lineCount && lineCount.lines > 0) {
-                    lineCounts.push(lineCount.lines);
-                    
-                    if (lineCount.lines > maxLines) {
-                        maxLines = lineCount.lines;
-                        maxFilePath = filePath;
-                    }
-                }
-            }
-
-            if (lineCounts.length === 0) {
-                return undefined;
-            }
+        const raised = isTierRaised(file);
+        if (raised) {
+            const baseEmoji = await this.pathBasedSettings.getThemeEmojiForPath(file.baseTier || 'normal', uri.fsPath);
+            tooltip += `\n⬆️ Tier: ${baseEmoji} ${file.baseTier || 'normal'} → ${emoji} ${tier}`;
+        }
 
-            const averageLines = Math.round(lineCounts.reduce((sum, count) => sum + count, 0) / lineCounts.length);
-            
-            const result = {
-                fileCount: lineCounts.length,
-                averageLines,
-                maxLines,
-                maxFilePath
-            };
+        return {
+            badge: formatLineDeltaBadge(file.change),
+            tooltip,
+            color: raised ? new vscode.ThemeColor(tier === 'danger' ? 'list.errorForeground' : 'list.warningForeground') : undefined
+        };
+    }
 
-            this.debug.verbose('Calculated folder stats:', result);
-            return result;
-        } catch (error) {
-            this.debug.warning(`Error calculating folder stats for ${folderPath}:`, error);
+    /**
+     * Rolled-up delta badge of the files changed below a folder
+     */
+    private async provideFolderDeltaDecoration(uri: vscode.Uri, lineDelta: WorkspaceLineDelta): Promise<vscode.FileDecoration | undefined> {
+        const summary = summarizeFolderDelta(lineDelta.files, uri.fsPath);
+        if (!summary) {
             return undefined;
         }
-    }
 
-    private async getAllFilesInFolder(folderPath: string, excludePatterns: string[], maxDepth: number = 10, currentDepth: number = 0): Promise<string[]> {
-        const files: string[] = [];
-        
-        // Prevent infinite recursion
-        if (currentDepth >= maxDepth) {
-            return files;
+        let tooltip = `📁 Since ${lineDelta.baseTitle}: ${formatLineDelta(summary.change)} lines in ${summary.files.toLocaleString()} changed file${summary.files === 1 ? '' : 's'}\n` +
+                      `──────────────────\n` +
+                      `Grown: +${summary.grownLines.toLocaleString()} lines\n` +
+                      `Shrunk: -${summary.shrunkLines.toLocaleString()} lines`;
+        if (summary.raisedTiers > 0) {
+            tooltip += `\n⬆️ ${summary.raisedTiers.toLocaleString()} file${summary.raisedTiers === 1 ? '' : 's'} moved to a higher tier`;
         }
-        
-        const folderUri = vscode.Uri.file(folderPath);
 
-        try {
-            const entries = await vscode.workspace.fs.readDirectory(folderUri);
-            
-            for (const [name, type] of entries) {
-                const fullPath = path.join(folderPath, name);
-                const relativePath = vscode.workspace.asRelativePath(fullPath);
-                
-                // Check if this path matches any exclude pattern
-                const isExcluded = excludePatterns.some(pattern => this.matchesPattern(relativePath, pattern));
-                if (isExcluded) {
-                    continue;
-                }
+        return {
+            badge: formatLineDeltaBadge(summary.change),
+            tooltip,
+            color: summary.raisedTiers > 0 ? new vscode.ThemeColor('list.warningForeground') : undefined
+        };
+    }
 
-                if (type === vscode.FileType.File) {
-                    files.push(fullPath);
-                } else if (type === vscode.FileType.Directory) {
-                    // Recursively get files from subdirectories
-                    const subFiles = await this.getAllFilesInFolder(fullPath, excludePatterns, maxDepth, currentDepth + 1);
-                    files.push(...subFiles);
-                }
+    private createFolderTooltip(
+        folderStats: DirectoryAggregate,
+        metrics: FolderMetrics,
+        aggregation: FolderAggregationConfig,
+        folderEmoji: string,
+        maxEmoji: string
+    ): string {
+        const marker = (mode: FolderAggregationMode) => mode === aggregation.mode ? ` ◀ ${folderEmoji}` : '';
+        const languages = Object.entries(folderStats.languages).sort((a, b) => b[1].lines - a[1].lines);
+        const shownLanguages = languages.slice(0, FileExplorerDecorationProvider.FOLDER_TOOLTIP_LANGUAGES);
+
+        let tooltip = `📁 Folder: ${folderStats.files.toLocaleString()} files\n` +
+                      `Σ Total: ${formatFolderMetric('total', metrics.total)}${marker('total')}\n` +
+                      `📊 Average: ${formatFolderMetric('average', metrics.average)}${marker('average')}\n` +
+                      `➗ Median: ${formatFolderMetric('median', metrics.median)}${marker('median')}\n` +
+                      `📐 90th percentile: ${formatFolderMetric('p90', metrics.p90)}${marker('p90')}\n` +
+                      `📈 Maximum: ${formatFolderMetric('max', metrics.max)} (${maxEmoji})${marker('max')}\n` +
+                      `🔥 Largest: ${path.basename(folderStats.maxFilePath)}\n` +
+                      `⚠️ Danger tier: ${formatFolderMetric('dangerShare', metrics.dangerShare)}${marker('dangerShare')}\n` +
+                      `🏷️ Badge: ${FOLDER_AGGREGATION_LABELS[aggregation.mode]} ` +
+                      `(warning ≥ ${formatFolderMetric(aggregation.mode, aggregation.thresholds.mid)}, ` +
+                      `danger ≥ ${formatFolderMetric(aggregation.mode, aggregation.thresholds.high)})\n` +
+                      `──────────────────\n` +
+                      `Code Lines: ${folderStats.codeLines.toLocaleString()}\n` +
+                      `Comment Lines: ${folderStats.commentLines.toLocaleString()}\n` +
+                      `Blank Lines: ${folderStats.blankLines.toLocaleString()}`;
+        if (shownLanguages.length > 0) {
+            tooltip += `\n──────────────────\n` +
+                shownLanguages.map(([language, stats]) =>
+                    `${language}: ${stats.lines.toLocaleString()} lines in ${stats.files.toLocaleString()} files`).join('\n');
+            if (languages.length > shownLanguages.length) {
+                tooltip += `\n+${languages.length - shownLanguages.length} more languages`;
             }
-        } catch (error) {
-            this.debug.warning(`Error reading directory ${folderPath}:`, error);
         }
-
-        return files;
+        return tooltip;
     }
 
     private matchesPattern(filePath: string, pattern: string): boolean {
@@ -878,6 +828,7 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
         
         return `${fileName}${thresholdInfo}\n` +
                `──────────────────\n` +
+               `Language: ${lineCount.language}\n` +
                `Total Lines: ${lineCount.lines.toLocaleString()}\n` +
                `Code Lines: ${lineCount.codeLines.toLocaleString()}\n` +
                `Comment Lines: ${lineCount.commentLines.toLocaleString()}\n` +
@@ -911,6 +862,7 @@ export class FileExplorerDecorationProvider implements vscode.FileDecorationProv
         this.disposables.forEach(d => d.dispose());
         this.lineCountCache.dispose();
         this.pathBasedSettings.dispose();
+        this.binaryDetectionServices.forEach(service => service.dispose());
         this._onDidChangeFileDecorations.dispose();
     }
 }
\ No newline at end of file
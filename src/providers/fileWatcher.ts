@@ -33,38 +33,52 @@ import { GlobUtils } from '../utils/globUtils';
 import { DebugService } from '../services/debugService';
 import { BinaryDetectionService } from '../services/binaryDetectionService';
 import { PathBasedSettingsService } from '../services/pathBasedSettingsService';
+import { LanguageDetector } from '../services/languageDetector';
 
 export class FileWatcherProvider implements vscode.Disposable {
     private debug = DebugService.getInstance();
     private fileWatcher: vscode.FileSystemWatcher;
     private countLinesCommand: CountLinesCommand;
     private documentSaveWatcher!: vscode.Disposable;
-    private binaryDetectionService?: BinaryDetectionService;
+    private renameWatcher: vscode.Disposable;
+    private pendingChanges = new Set<string>();
+    private binaryDetectionServices: BinaryDetectionService[] = [];
     private pathBasedSettingsService?: PathBasedSettingsService;
+    private languageDetector = new LanguageDetector();
 
     constructor() {
         this.countLinesCommand = new CountLinesCommand();
         
-        // Initialize binary detection service if workspace is available
-        if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-            this.binaryDetectionService = new BinaryDetectionService(vscode.workspace.workspaceFolders[0].uri.fsPath);
+        // Initialize binary detection for every workspace folder
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const binaryDetectionService = new BinaryDetectionService(folder.uri.fsPath);
+            this.binaryDetectionServices.push(binaryDetectionService);
             
             // Cleanup binary cache on startup
-            this.binaryDetectionService.cleanupCache().catch(error => {
+            binaryDetectionService.cleanupCache().catch(error => {
                 this.debug.error('Failed to cleanup binary cache on startup:', error);
             });
         }
         
-        // Watch for file changes - but only for code files, not all files
-        this.fileWatcher = vscode.workspace.createFileSystemWatcher('**/*.{js,ts,jsx,tsx,py,java,c,cpp,cs,php,rb,go,rs,swift,kt,scala,html,css,scss,sass,less,json,xml,yaml,yml,md,txt,sh,bat,ps1}');
+        // Files known by name, shebang or modeline have no telling extension, so every file is
+        // watched and filtered through language detection before it is queued
+        this.fileWatcher = vscode.workspace.createFileSystemWatcher('**/*');
         
         // Set up event listeners - only for create and delete, not change (too frequent)
         // this.fileWatcher.onDidChange(this.onFileChange.bind(this)); // Removed - too frequent
         this.fileWatcher.onDidCreate(this.onFileChange.bind(this));
-        this.fileWatcher.onDidDelete(this.onFileChange.bind(this));
+        this.fileWatcher.onDidDelete(uri => this.onFileChange(uri, true));
         
         // Listen for document saves instead of file changes
         this.setupDocumentSaveWatcher();
+
+        // Renames made inside VS Code (including whole folders) update both the old and new paths
+        this.renameWatcher = vscode.workspace.onDidRenameFiles(event => {
+            for (const { oldUri, newUri } of event.files) {
+                this.onFileChange(oldUri, true);
+                this.onFileChange(newUri);
+            }
+        });
     }
 
     private setupDocumentSaveWatcher(): void {
@@ -78,7 +92,12 @@ export class FileWatcherProvider implements vscode.Disposable {
         await this.onFileChange(uri);
     }
 
-    private async onFileChange(uri: vscode.Uri): Promise<void> {
+    /**
+     * Queue a created, saved or deleted file for the next report update. Deleted files
+     * can no longer be read for detection, so they are always queued and files that
+     * were never counted are simply left out of the update.
+     */
+    private async onFileChange(uri: vscode.Uri, deleted: boolean = false): Promise<void> {
         const config = vscode.workspace.getConfiguration('codeCounter');
         const autoGenerate = config.get<boolean>('autoGenerate', true);
 
@@ -90,7 +109,7 @@ export class FileWatcherProvider implements vscode.Disposable {
 
         // Skip if file is in excluded patterns
         const excludePatterns = config.get<string[]>('excludePatterns', []);
-        const relativePath = vscode.workspace.asRelativePath(uri);
+        const relativePath = vscode.workspace.asRelativePath(uri, false);
         
         for (const pattern of excludePatterns) {
             if (this.matchesPattern(relativePath, pattern)) {
@@ -98,11 +117,24 @@ export class FileWatcherProvider implements vscode.Disposable {
             }
         }
 
+        if (!deleted && !(await this.isLanguageFile(uri.fsPath))) {
+            return;
+        }
+
         // Debounce the regeneration to avoid too frequent updates
         this.debug.info(`Triggering auto-generation for: ${relativePath}`);
+        this.pendingChanges.add(uri.fsPath);
         this.debounceRegenerate();
     }
 
+    /**
+     * Whether the file's name, extension, shebang or modeline identifies a known language
+     */
+    private async isLanguageFile(filePath: string): Promise<boolean> {
+        const detection = await this.languageDetector.detectFromFile(filePath);
+        return detection.source !== 'unknown';
+    }
+
     private matchesPattern(filePath: string, pattern: string): boolean {
         // Use robust glob matching from GlobUtils
         return GlobUtils.matchesPattern(filePath, pattern);
@@ -116,16 +148,31 @@ export class FileWatcherProvider implements vscode.Disposable {
         }
         
         this.regenerateTimeout = setTimeout(() => {
-            this.countLinesCommand.executeAndShowNotification();
+            this.regenerate();
         }, 2000); // 2 second debounce
     }
 
+    /**
+     * Update the reports for the files changed since the last run, falling back to a
+     * full count when there is no earlier count to update
+     */
+    private async regenerate(): Promise<void> {
+        const changedPaths = [...this.pendingChanges];
+        this.pendingChanges.clear();
+
+        const updated = await this.countLinesCommand.executeIncrementalUpdate(changedPaths);
+        if (!updated) {
+            await this.countLinesCommand.executeAndShowNotification();
+        }
+    }
+
     dispose(): void {
         if (this.regenerateTimeout) {
             clearTimeout(this.regenerateTimeout);
         }
         this.fileWatcher.dispose();
         this.documentSaveWatcher.dispose();
-        this.binaryDetectionService?.dispose();
+        this.renameWatcher.dispose();
+        this.binaryDetectionServices.forEach(service => service.dispose());
     }
 }
\ No newline at end of file
@@ -0,0 +1,172 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as vscode from 'vscode';
+import { DebugService } from '../services/debugService';
+import { GitService } from '../services/gitService';
+import { LineCounterService } from '../services/lineCounter';
+import { SnapshotService } from '../services/snapshotService';
+import { SnapshotTrigger } from '../services/workspaceDatabaseService';
+
+export type SnapshotSchedule = 'off' | 'hourly' | 'daily' | 'weekly';
+
+/**
+ * Records snapshots in the background: on a schedule, and when HEAD moves to a commit
+ * that has no snapshot yet
+ */
+export class SnapshotScheduler implements vscode.Disposable {
+    private static readonly CHECK_INTERVAL_MS = 5 * 60 * 1000;
+    private static readonly COMMIT_DELAY_MS = 2000;
+    private static readonly SCHEDULE_INTERVALS_MS: Record<Exclude<SnapshotSchedule, 'off'>, number> = {
+        hourly: 60 * 60 * 1000,
+        daily: 24 * 60 * 60 * 1000,
+        weekly: 7 * 24 * 60 * 60 * 1000
+    };
+
+    private debug = DebugService.getInstance();
+    private git = GitService.getInstance();
+    private snapshots = SnapshotService.getInstance();
+    private lineCounter = new LineCounterService();
+    private scheduleTimer?: NodeJS.Timeout;
+    private commitWatchers: vscode.FileSystemWatcher[] = [];
+    private commitTimeouts = new Map<string, NodeJS.Timeout>();
+    private recording = new Set<string>();
+    private configureGeneration = 0;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('codeCounter.snapshots')) {
+                    this.configure();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.configure())
+        );
+        this.configure();
+    }
+
+    private async configure(): Promise<void> {
+        this.stop();
+        const generation = ++this.configureGeneration;
+
+        const config = vscode.workspace.getConfiguration('codeCounter');
+        const schedule = config.get<SnapshotSchedule>('snapshots.schedule', 'off');
+        if (schedule !== 'off' && SnapshotScheduler.SCHEDULE_INTERVALS_MS[schedule]) {
+            const interval = SnapshotScheduler.SCHEDULE_INTERVALS_MS[schedule];
+            this.scheduleTimer = setInterval(() => this.checkSchedule(interval), SnapshotScheduler.CHECK_INTERVAL_MS);
+            this.checkSchedule(interval);
+        }
+
+        if (config.get<boolean>('snapshots.recordOnCommit', false)) {
+            for (const folder of vscode.workspace.workspaceFolders || []) {
+                const workspacePath = folder.uri.fsPath;
+                const repositoryRoot = await this.git.getRepositoryRoot(workspacePath);
+                if (generation !== this.configureGeneration) {
+                    return;
+                }
+                if (!repositoryRoot) {
+                    continue;
+                }
+                // The reflog of HEAD grows with every commit, checkout, merge and pull
+                const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(repositoryRoot, '.git/logs/HEAD'));
+                watcher.onDidChange(() => this.queueCommitCheck(workspacePath));
+                watcher.onDidCreate(() => this.queueCommitCheck(workspacePath));
+                this.commitWatchers.push(watcher);
+            }
+        }
+    }
+
+    /**
+     * Record a scheduled snapshot for every folder whose newest snapshot is older than the interval
+     */
+    private async checkSchedule(interval: number): Promise<void> {
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const workspacePath = folder.uri.fsPath;
+            const [latest] = await this.snapshots.getSnapshots(workspacePath);
+            if (!latest || Date.now() - latest.createdAt.getTime() >= interval) {
+                await this.record(workspacePath, 'scheduled');
+            }
+        }
+    }
+
+    private queueCommitCheck(workspacePath: string): void {
+        const pending = this.commitTimeouts.get(workspacePath);
+        if (pending) {
+            clearTimeout(pending);
+        }
+        this.commitTimeouts.set(workspacePath, setTimeout(() => {
+            this.commitTimeouts.delete(workspacePath);
+            this.checkCommit(workspacePath);
+        }, SnapshotScheduler.COMMIT_DELAY_MS));
+    }
+
+    private async checkCommit(workspacePath: string): Promise<void> {
+        const commit = await this.git.getHeadCommit(workspacePath);
+        if (!commit) {
+            return;
+        }
+        const snapshots = await this.snapshots.getSnapshots(workspacePath);
+        if (!snapshots.some(snapshot => snapshot.commit === commit)) {
+            await this.record(workspacePath, 'commit');
+        }
+    }
+
+    private async record(workspacePath: string, trigger: SnapshotTrigger): Promise<void> {
+        if (this.recording.has(workspacePath)) {
+            return;
+        }
+
+        this.recording.add(workspacePath);
+        try {
+            const result = await this.lineCounter.countLinesWithPathBasedSettings(workspacePath);
+            await this.snapshots.recordSnapshot(result, trigger);
+        } catch (error) {
+            this.debug.error(`Failed to record ${trigger} snapshot for ${workspacePath}:`, error);
+        } finally {
+            this.recording.delete(workspacePath);
+        }
+    }
+
+    private stop(): void {
+        if (this.scheduleTimer) {
+            clearInterval(this.scheduleTimer);
+            this.scheduleTimer = undefined;
+        }
+        this.commitTimeouts.forEach(timeout => clearTimeout(timeout));
+        this.commitTimeouts.clear();
+        this.commitWatchers.forEach(watcher => watcher.dispose());
+        this.commitWatchers = [];
+    }
+
+    dispose(): void {
+        this.configureGeneration++;
+        this.stop();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
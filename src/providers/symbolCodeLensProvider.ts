@@ -0,0 +1,98 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as vscode from 'vscode';
+import { DebugService } from '../services/debugService';
+import { PathBasedSettingsService } from '../services/pathBasedSettingsService';
+import { SymbolMetricsService } from '../services/symbolMetricsService';
+
+/**
+ * Shows the line count and tier emoji of each function, method and class above it
+ */
+export class SymbolCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private debug = DebugService.getInstance();
+    private symbolMetrics = SymbolMetricsService.getInstance();
+    private pathBasedSettings: PathBasedSettingsService;
+    private disposables: vscode.Disposable[] = [];
+    private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+    constructor(pathBasedSettings?: PathBasedSettingsService) {
+        this.pathBasedSettings = pathBasedSettings || new PathBasedSettingsService();
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('codeCounter.codeLens') ||
+                    event.affectsConfiguration('codeCounter.symbolThresholds') ||
+                    event.affectsConfiguration('codeCounter.emojis.symbols')) {
+                    this._onDidChangeCodeLenses.fire();
+                }
+            }),
+            this.pathBasedSettings.onDidChangeSettings(() => this._onDidChangeCodeLenses.fire())
+        );
+    }
+
+    async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
+        const config = vscode.workspace.getConfiguration('codeCounter');
+        if (!config.get<boolean>('codeLens.enabled', true)) {
+            return [];
+        }
+
+        try {
+            const symbols = await this.symbolMetrics.getSymbolMetrics(document.uri);
+            const filePath = document.uri.fsPath;
+            const thresholds = await this.pathBasedSettings.getSymbolThresholdConfigForPath(filePath);
+            const lenses: vscode.CodeLens[] = [];
+
+            for (const symbol of symbols) {
+                if (token.isCancellationRequested) {
+                    return [];
+                }
+                const threshold = await this.pathBasedSettings.getSymbolColorThresholdForPath(symbol.lines, filePath);
+                const emoji = await this.pathBasedSettings.getSymbolEmojiForPath(threshold, filePath);
+                const kind = SymbolMetricsService.getKindLabel(symbol.kind);
+
+                lenses.push(new vscode.CodeLens(new vscode.Range(symbol.range.start, symbol.range.start), {
+                    title: `${emoji} ${symbol.lines.toLocaleString()} lines`,
+                    tooltip: `${kind} ${symbol.name}: ${symbol.lines} lines (warning at ${thresholds.midThreshold}, danger at ${thresholds.highThreshold})`,
+                    command: ''
+                }));
+            }
+
+            return lenses;
+        } catch (error) {
+            this.debug.warning(`Failed to provide symbol CodeLens for ${document.uri.fsPath}:`, error);
+            return [];
+        }
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this._onDidChangeCodeLenses.dispose();
+    }
+}
@@ -0,0 +1,383 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DebugService } from '../services/debugService';
+import { LanguageRegistry } from '../services/languageRegistry';
+import { LineClassifier } from '../services/lineClassifier';
+import { LineCountCacheService } from '../services/lineCountCache';
+import { ColorThreshold, PathBasedSettingsService } from '../services/pathBasedSettingsService';
+import { SymbolMetricsService } from '../services/symbolMetricsService';
+import { WorkspaceSettings } from '../services/workspaceDatabaseService';
+import { GlobUtils } from '../utils/globUtils';
+import { getWorkspaceFolderPath, getWorkspaceService } from '../utils/workspaceUtils';
+import { invalidateWorkspaceServiceCache } from '../shared/extensionUtils';
+
+/**
+ * What a threshold diagnostic measures
+ */
+export type ThresholdDiagnosticKind = 'file' | 'symbol';
+
+type DiagnosticSeverityName = 'error' | 'warning' | 'information' | 'hint' | 'none';
+
+/**
+ * Line count behind one diagnostic, kept for its code actions
+ */
+interface ThresholdBreach {
+    kind: ThresholdDiagnosticKind;
+    line: number;
+    lines: number;
+}
+
+interface DocumentBreaches {
+    language: string;
+    breaches: ThresholdBreach[];
+}
+
+/**
+ * Reports files and functions, methods and classes above their line thresholds in the
+ * Problems panel, with quick fixes to exclude the file, raise the directory threshold or
+ * add an inline ignore directive
+ */
+export class ThresholdDiagnosticsProvider implements vscode.CodeActionProvider, vscode.Disposable {
+    public static readonly SOURCE = 'Code Counter';
+    public static readonly FILE_IGNORE_DIRECTIVE = 'code-counter-ignore-file';
+    public static readonly SYMBOL_IGNORE_DIRECTIVE = 'code-counter-ignore';
+    /** The file directive is only honoured in a comment within this many lines of the start */
+    private static readonly FILE_IGNORE_HEADER_LINES = 5;
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private debug = DebugService.getInstance();
+    private lineCountCache = new LineCountCacheService();
+    private symbolMetrics = SymbolMetricsService.getInstance();
+    private pathBasedSettings: PathBasedSettingsService;
+    private collection: vscode.DiagnosticCollection;
+    private documentBreaches = new Map<string, DocumentBreaches>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(pathBasedSettings?: PathBasedSettingsService) {
+        this.pathBasedSettings = pathBasedSettings || new PathBasedSettingsService();
+        this.collection = vscode.languages.createDiagnosticCollection('codeCounter');
+
+        this.disposables.push(
+            vscode.workspace.onDidOpenTextDocument(document => this.update(document)),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                this.lineCountCache.invalidateFileCache(document.uri.fsPath);
+                this.update(document);
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => this.clear(document.uri)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('codeCounter')) {
+                    this.refresh();
+                }
+            }),
+            this.pathBasedSettings.onDidChangeSettings(() => this.refresh())
+        );
+
+        this.refresh();
+    }
+
+    /**
+     * Re-check every open document
+     */
+    refresh(): void {
+        this.lineCountCache.clearCache();
+        vscode.workspace.textDocuments.forEach(document => this.update(document));
+    }
+
+    /**
+     * Replace the diagnostics of one document
+     */
+    async update(document: vscode.TextDocument): Promise<void> {
+        if (document.uri.scheme !== 'file') {
+            return;
+        }
+
+        try {
+            const diagnostics = await this.createDiagnostics(document);
+            if (diagnostics.length > 0) {
+                this.collection.set(document.uri, diagnostics);
+            } else {
+                this.clear(document.uri);
+            }
+        } catch (error) {
+            this.debug.warning(`Failed to update threshold diagnostics for ${document.uri.fsPath}:`, error);
+        }
+    }
+
+    private clear(uri: vscode.Uri): void {
+        this.collection.delete(uri);
+        this.documentBreaches.delete(uri.toString());
+    }
+
+    private async createDiagnostics(document: vscode.TextDocument): Promise<vscode.Diagnostic[]> {
+        const config = vscode.workspace.getConfiguration('codeCounter');
+        const filePath = document.uri.fsPath;
+        if (!config.get<boolean>('diagnostics.enabled', true) || await this.isExcluded(filePath)) {
+            return [];
+        }
+
+        const lineCount = await this.lineCountCache.getLineCountForDocument(document);
+        if (!lineCount) {
+            return [];
+        }
+
+        const diagnostics: vscode.Diagnostic[] = [];
+        const breaches: ThresholdBreach[] = [];
+
+        if (!this.hasFileIgnoreDirective(document, lineCount.language)) {
+            const threshold = await this.pathBasedSettings.getColorThresholdForPath(lineCount.lines, filePath);
+            const severity = this.getSeverity(threshold);
+            if (severity !== undefined) {
+                const thresholds = await this.pathBasedSettings.getThresholdConfigForPath(filePath);
+                const limit = threshold === 'danger' ? thresholds.highThreshold : thresholds.midThreshold;
+                diagnostics.push(this.createDiagnostic(
+                    document.lineAt(0).range,
+                    `File has ${lineCount.lines.toLocaleString()} lines (${threshold} threshold: ${limit.toLocaleString()})`,
+                    severity,
+                    'file-size'
+                ));
+                breaches.push({ kind: 'file', line: 0, lines: lineCount.lines });
+            }
+        }
+
+        if (config.get<boolean>('diagnostics.includeSymbols', true)) {
+            const thresholds = await this.pathBasedSettings.getSymbolThresholdConfigForPath(filePath);
+            const symbols = await this.symbolMetrics.getSymbolMetrics(document.uri);
+            const lineComments = symbols.length > 0 ? this.getLineComments(document, lineCount.language) : [];
+            for (const symbol of symbols) {
+                const line = symbol.range.start.line;
+                if (this.hasSymbolIgnoreDirective(lineComments, line)) {
+                    continue;
+                }
+                const threshold = await this.pathBasedSettings.getSymbolColorThresholdForPath(symbol.lines, filePath);
+                const severity = this.getSeverity(threshold);
+                if (severity === undefined) {
+                    continue;
+                }
+                const limit = threshold === 'danger' ? thresholds.highThreshold : thresholds.midThreshold;
+                diagnostics.push(this.createDiagnostic(
+                    document.lineAt(line).range,
+                    `${SymbolMetricsService.getKindLabel(symbol.kind)} '${symbol.name}' has ${symbol.lines.toLocaleString()} lines (${threshold} threshold: ${limit.toLocaleString()})`,
+                    severity,
+                    'symbol-size'
+                ));
+                breaches.push({ kind: 'symbol', line, lines: symbol.lines });
+            }
+        }
+
+        this.documentBreaches.set(document.uri.toString(), { language: lineCount.language, breaches });
+        return diagnostics;
+    }
+
+    private createDiagnostic(range: vscode.Range, message: string, severity: vscode.DiagnosticSeverity, code: string): vscode.Diagnostic {
+        const diagnostic = new vscode.Diagnostic(range, message, severity);
+        diagnostic.source = ThresholdDiagnosticsProvider.SOURCE;
+        diagnostic.code = code;
+        return diagnostic;
+    }
+
+    /**
+     * Configured severity of a tier; undefined for the normal tier or when turned off
+     */
+    private getSeverity(threshold: ColorThreshold): vscode.DiagnosticSeverity | undefined {
+        if (threshold === 'normal') {
+            return undefined;
+        }
+
+        const config = vscode.workspace.getConfiguration('codeCounter');
+        const name = threshold === 'danger'
+            ? config.get<DiagnosticSeverityName>('diagnostics.dangerSeverity', 'error')
+            : config.get<DiagnosticSeverityName>('diagnostics.warningSeverity', 'warning');
+
+        switch (name) {
+            case 'error':
+                return vscode.DiagnosticSeverity.Error;
+            case 'warning':
+                return vscode.DiagnosticSeverity.Warning;
+            case 'information':
+                return vscode.DiagnosticSeverity.Information;
+            case 'hint':
+                return vscode.DiagnosticSeverity.Hint;
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Whether a comment line of the file header holds the file directive, as inserted by the quick fix;
+     * the directive text in strings or code further down does not count
+     */
+    private hasFileIgnoreDirective(document: vscode.TextDocument, language: string): boolean {
+        const classifier = new LineClassifier(LanguageRegistry.getInstance().getSyntax(language));
+        const headerLines = Math.min(document.lineCount, ThresholdDiagnosticsProvider.FILE_IGNORE_HEADER_LINES);
+        for (let line = 0; line < headerLines; line++) {
+            const text = document.lineAt(line).text;
+            const classification = classifier.classifyLine(text);
+            if (classification.hasComment && !classification.hasCode && text.includes(ThresholdDiagnosticsProvider.FILE_IGNORE_DIRECTIVE)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * A symbol is ignored when a comment on its own line or the line above holds the ignore directive
+     */
+    private hasSymbolIgnoreDirective(lineComments: string[][], line: number): boolean {
+        const directive = new RegExp(`${ThresholdDiagnosticsProvider.SYMBOL_IGNORE_DIRECTIVE}(?!-file)`);
+        const hasDirective = (index: number) => (lineComments[index] || []).some(comment => directive.test(comment));
+        return hasDirective(line) || (line > 0 && hasDirective(line - 1));
+    }
+
+    /**
+     * Text of the comments on each line of the document
+     */
+    private getLineComments(document: vscode.TextDocument, language: string): string[][] {
+        const classifier = new LineClassifier(LanguageRegistry.getInstance().getSyntax(language));
+        const lineComments: string[][] = [];
+        for (let line = 0; line < document.lineCount; line++) {
+            const comments: string[] = [];
+            classifier.classifyLine(document.lineAt(line).text, comments);
+            lineComments.push(comments);
+        }
+        return lineComments;
+    }
+
+    private async isExcluded(filePath: string): Promise<boolean> {
+        const relativePath = vscode.workspace.asRelativePath(filePath, false).replace(/\\/g, '/');
+        const excludePatterns = await this.pathBasedSettings.getExcludePatternsForPath(filePath);
+        if (!GlobUtils.matchesAnyPattern(relativePath, excludePatterns)) {
+            return false;
+        }
+        const includePatterns = await this.pathBasedSettings.getIncludePatternsForPath(filePath);
+        return !GlobUtils.matchesAnyPattern(relativePath, includePatterns);
+    }
+
+    provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const documentBreaches = this.documentBreaches.get(document.uri.toString());
+        if (!documentBreaches) {
+            return [];
+        }
+
+        const actions: vscode.CodeAction[] = [];
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== ThresholdDiagnosticsProvider.SOURCE) {
+                continue;
+            }
+            const kind: ThresholdDiagnosticKind = diagnostic.code === 'file-size' ? 'file' : 'symbol';
+            const breach = documentBreaches.breaches.find(candidate =>
+                candidate.kind === kind && candidate.line === diagnostic.range.start.line);
+            if (!breach) {
+                continue;
+            }
+
+            const exclude = new vscode.CodeAction('Exclude this file from Code Counter', vscode.CodeActionKind.QuickFix);
+            exclude.command = { command: 'codeCounter.diagnostics.excludeFile', title: exclude.title, arguments: [document.uri] };
+            exclude.diagnostics = [diagnostic];
+            actions.push(exclude);
+
+            const raised = breach.lines + 1;
+            const raise = new vscode.CodeAction(
+                `Raise the ${kind === 'file' ? 'file' : 'symbol'} threshold of this directory to ${raised.toLocaleString()} lines`,
+                vscode.CodeActionKind.QuickFix
+            );
+            raise.command = { command: 'codeCounter.diagnostics.raiseThreshold', title: raise.title, arguments: [document.uri, kind, breach.lines] };
+            raise.diagnostics = [diagnostic];
+            actions.push(raise);
+
+            const comment = this.createIgnoreComment(documentBreaches.language, kind);
+            if (comment) {
+                const ignore = new vscode.CodeAction(
+                    kind === 'file' ? 'Ignore the size of this file' : 'Ignore the size of this symbol',
+                    vscode.CodeActionKind.QuickFix
+                );
+                ignore.edit = new vscode.WorkspaceEdit();
+                const line = kind === 'file'
+                    ? (document.lineCount > 0 && document.lineAt(0).text.startsWith('#!') ? 1 : 0)
+                    : breach.line;
+                const indentation = kind === 'symbol' ? document.lineAt(line).text.match(/^\s*/)![0] : '';
+                ignore.edit.insert(document.uri, new vscode.Position(line, 0), `${indentation}${comment}\n`);
+                ignore.diagnostics = [diagnostic];
+                actions.push(ignore);
+            }
+        }
+        return actions;
+    }
+
+    /**
+     * The ignore directive as a comment of the file's language; undefined when the language has no comments
+     */
+    private createIgnoreComment(language: string, kind: ThresholdDiagnosticKind): string | undefined {
+        const directive = kind === 'file'
+            ? ThresholdDiagnosticsProvider.FILE_IGNORE_DIRECTIVE
+            : ThresholdDiagnosticsProvider.SYMBOL_IGNORE_DIRECTIVE;
+        const syntax = LanguageRegistry.getInstance().getSyntax(language);
+        const lineComment = [...syntax.lineComments, ...(syntax.wordStartComments || [])][0];
+        if (lineComment) {
+            return `${lineComment} ${directive}`;
+        }
+        const blockComment = syntax.blockComments.find(block => !block.lineStart);
+        return blockComment ? `${blockComment.start} ${directive} ${blockComment.end}` : undefined;
+    }
+
+    /**
+     * Raise the warning threshold of the file's directory just above the given line count
+     */
+    async raiseThreshold(uri: vscode.Uri, kind: ThresholdDiagnosticKind, lines: number): Promise<void> {
+        const filePath = uri.fsPath;
+        const workspacePath = getWorkspaceFolderPath(filePath);
+        if (!workspacePath) {
+            return;
+        }
+
+        const directory = path.dirname(filePath);
+        const current = kind === 'file'
+            ? await this.pathBasedSettings.getThresholdConfigForPath(filePath)
+            : await this.pathBasedSettings.getSymbolThresholdConfigForPath(filePath);
+        const midThreshold = lines + 1;
+        const highThreshold = Math.max(current.highThreshold, midThreshold + 1);
+        const settings: WorkspaceSettings = kind === 'file'
+            ? { 'codeCounter.lineThresholds.midThreshold': midThreshold, 'codeCounter.lineThresholds.highThreshold': highThreshold }
+            : { 'codeCounter.symbolThresholds.midThreshold': midThreshold, 'codeCounter.symbolThresholds.highThreshold': highThreshold };
+
+        await getWorkspaceService(workspacePath).saveWorkspaceSettings(directory, settings);
+        invalidateWorkspaceServiceCache(workspacePath);
+        this.pathBasedSettings.notifySettingsChanged();
+
+        const displayPath = path.relative(workspacePath, directory).replace(/\\/g, '/') || '<workspace>';
+        vscode.window.showInformationMessage(`Raised the ${kind} warning threshold of ${displayPath} to ${midThreshold} lines`);
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.collection.dispose();
+        this.lineCountCache.dispose();
+    }
+}
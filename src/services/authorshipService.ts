@@ -0,0 +1,143 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FileAuthor, FileInfo } from '../types';
+import { DebugService } from './debugService';
+import { GitBlame, GitService } from './gitService';
+import { LineCounterService } from './lineCounter';
+import { resolveTeam } from '../utils/authorshipUtils';
+
+/**
+ * Attributes the code, comment and blank lines of counted files to the authors who last
+ * changed them, using git blame (which applies the repository's .mailmap)
+ */
+export class AuthorshipService {
+    private static instance: AuthorshipService | undefined;
+    private static readonly BLAME_CONCURRENCY = 4;
+    private static readonly MAX_CACHED_BLAMES = 5000;
+
+    private debug = DebugService.getInstance();
+    private git = GitService.getInstance();
+    private lineCounter = new LineCounterService();
+    /** Blames of committed content by blob hash and path, least recently used first */
+    private blameCache = new Map<string, GitBlame>();
+
+    public static getInstance(): AuthorshipService {
+        if (!AuthorshipService.instance) {
+            AuthorshipService.instance = new AuthorshipService();
+        }
+        return AuthorshipService.instance;
+    }
+
+    /**
+     * Attach the authors of each counted file for the report and the exports when
+     * codeCounter.authorship.enabled is on. Files git cannot blame, such as untracked
+     * ones, are left without authors.
+     */
+    async addAuthors(files: FileInfo[]): Promise<void> {
+        const config = vscode.workspace.getConfiguration('codeCounter');
+        if (!config.get<boolean>('authorship.enabled', false)) {
+            return;
+        }
+        const teams = config.get<Record<string, string>>('authorship.teams', {});
+
+        let next = 0;
+        const worker = async () => {
+            while (next < files.length) {
+                const file = files[next++];
+                try {
+                    file.authors = await this.getFileAuthors(file.path, teams);
+                } catch (error) {
+                    this.debug.verbose(`No authorship for ${file.path}:`, error);
+                }
+            }
+        };
+
+        const startTime = Date.now();
+        await Promise.all(Array.from({ length: Math.min(AuthorshipService.BLAME_CONCURRENCY, files.length) }, worker));
+        this.debug.info(`Blamed ${files.length} files in ${Date.now() - startTime}ms`);
+    }
+
+    /**
+     * Lines of a file per author, most lines first; undefined when git cannot blame the file
+     */
+    async getFileAuthors(filePath: string, teams: Record<string, string> = {}): Promise<FileAuthor[] | undefined> {
+        const content = await fs.promises.readFile(filePath);
+        const blame = await this.getBlame(filePath, content);
+        const text = content.toString('utf8');
+        const lineCount = text.split('\n').length;
+        // git does not blame the empty line after a trailing newline; a mismatch means the file changed meanwhile
+        if (!blame || blame.lineAuthors.length === 0 || (blame.lineAuthors.length !== lineCount && blame.lineAuthors.length !== lineCount - 1)) {
+            return undefined;
+        }
+
+        const lastLine = blame.lineAuthors.length - 1;
+        const breakdowns = this.lineCounter.classifyContentByLine(text, filePath, lineIndex => String(blame.lineAuthors[Math.min(lineIndex, lastLine)]));
+        return [...breakdowns.entries()]
+            .map(([authorIndex, breakdown]) => {
+                const { name, email } = blame.authors[Number(authorIndex)];
+                const team = resolveTeam(email, teams);
+                return {
+                    name,
+                    email,
+                    ...(team ? { team } : {}),
+                    lines: breakdown.lines,
+                    codeLines: breakdown.codeLines,
+                    commentLines: breakdown.commentLines,
+                    blankLines: breakdown.blankLines
+                };
+            })
+            .sort((a, b) => b.lines - a.lines || a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Blame of a file's current content. Only fully committed content is cached, since
+     * uncommitted lines get their author once they are committed.
+     */
+    private async getBlame(filePath: string, content: Buffer): Promise<GitBlame | undefined> {
+        const key = `${GitService.hashBlob(content)}:${filePath}`;
+        const cached = this.blameCache.get(key);
+        if (cached) {
+            this.blameCache.delete(key);
+            this.blameCache.set(key, cached);
+            return cached;
+        }
+
+        const blame = await this.git.blameFile(path.dirname(filePath), filePath);
+        if (blame && !blame.hasUncommittedLines) {
+            this.blameCache.set(key, blame);
+            if (this.blameCache.size > AuthorshipService.MAX_CACHED_BLAMES) {
+                this.blameCache.delete(this.blameCache.keys().next().value!);
+            }
+        }
+        return blame;
+    }
+}
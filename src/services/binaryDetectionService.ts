@@ -140,43 +140,63 @@ export class BinaryDetectionService {
     private async performBinaryDetection(filePath: string, fileSize: number): Promise<BinaryDetectionResult> {
         try {
             // Read the detection buffer
-            const buffer = await this.readDetectionBuffer(filePath);
-            
-            // Method 1: Check for null bytes in the first 8KB
-            const hasNullBytes = this.hasNullBytes(buffer);
-            if (hasNullBytes) {
-                return {
-                    isBinary: true,
-                    detectionMethod: 'null_bytes',
-                    fileSize
-                };
-            }
-
-            // Method 2: Magic number detection using file-type library
-            const fileType = await fileTypeFromBuffer(buffer);
-            if (fileType) {
-                return {
-                    isBinary: true,
-                    detectionMethod: `magic_number_${fileType.ext}`,
-                    fileSize
-                };
-            }
-
-            // If neither method detected binary, it's likely a text file
+            return await this.detectFromBuffer(await this.readDetectionBuffer(filePath), fileSize);
+        } catch (error) {
+            this.debug.error('Error during binary detection:', error);
             return {
-                isBinary: false,
-                detectionMethod: 'text_content',
+                isBinary: true,
+                detectionMethod: 'detection_error',
                 fileSize
             };
+        }
+    }
 
+    /**
+     * Detect binary content that is already in memory (e.g. a blob of a past commit),
+     * without caching
+     */
+    async detectBinaryContent(content: Buffer): Promise<BinaryDetectionResult> {
+        if (content.length > this.MAX_FILE_SIZE) {
+            return { isBinary: true, detectionMethod: 'size_limit_exceeded', fileSize: content.length };
+        }
+        try {
+            return await this.detectFromBuffer(content.subarray(0, this.DETECTION_BUFFER_SIZE), content.length);
         } catch (error) {
             this.debug.error('Error during binary detection:', error);
+            return { isBinary: true, detectionMethod: 'detection_error', fileSize: content.length };
+        }
+    }
+
+    /**
+     * Null byte and magic number checks on the first bytes of a file
+     */
+    private async detectFromBuffer(buffer: Buffer, fileSize: number): Promise<BinaryDetectionResult> {
+        // Method 1: Check for null bytes in the first 8KB
+        const hasNullBytes = this.hasNullBytes(buffer);
+        if (hasNullBytes) {
             return {
                 isBinary: true,
-                detectionMethod: 'detection_error',
+                detectionMethod: 'null_bytes',
+                fileSize
+            };
+        }
+
+        // Method 2: Magic number detection using file-type library
+        const fileType = await fileTypeFromBuffer(buffer);
+        if (fileType) {
+            return {
+                isBinary: true,
+                detectionMethod: `magic_number_${fileType.ext}`,
                 fileSize
             };
         }
+
+        // If neither method detected binary, it's likely a text file
+        return {
+            isBinary: false,
+            detectionMethod: 'text_content',
+            fileSize
+        };
     }
 
     /**
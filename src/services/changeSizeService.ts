@@ -0,0 +1,129 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DebugService } from './debugService';
+import { GitService } from './gitService';
+import { LineCounterService } from './lineCounter';
+import { PathBasedSettingsService } from './pathBasedSettingsService';
+import { SnapshotFileRecord } from './workspaceDatabaseService';
+import { compareLineCounts, FileSizeChange, LineChangeStats, LineCountDiff } from '../utils/diffUtils';
+import { toSnapshotFileRecord } from '../utils/snapshotUtils';
+
+/**
+ * What a base ref is compared with: the committed branch or everything in the working tree
+ */
+export type ChangeTarget = 'HEAD' | 'workingTree';
+
+/**
+ * Measures how much a branch changes: counts the files that differ from where the branch
+ * forked off a base ref, at both revisions, and tags the files that cross a threshold tier
+ */
+export class ChangeSizeService {
+    private static instance: ChangeSizeService | undefined;
+
+    private debug = DebugService.getInstance();
+    private git = GitService.getInstance();
+    private lineCounter = new LineCounterService();
+
+    public static getInstance(): ChangeSizeService {
+        if (!ChangeSizeService.instance) {
+            ChangeSizeService.instance = new ChangeSizeService();
+        }
+        return ChangeSizeService.instance;
+    }
+
+    /**
+     * Diff of the changed files between the merge base of baseRef and HEAD, and HEAD or the
+     * working tree (untracked files included). Throws when the ref or merge base is not found.
+     */
+    async countChanges(workspacePath: string, baseRef: string, target: ChangeTarget, cancellationToken?: vscode.CancellationToken): Promise<LineCountDiff> {
+        if (!await this.git.resolveCommit(workspacePath, baseRef)) {
+            throw new Error(`Unknown git ref: ${baseRef}`);
+        }
+        const mergeBase = await this.git.getMergeBase(workspacePath, baseRef);
+        if (!mergeBase) {
+            throw new Error(`${baseRef} and HEAD have no common ancestor`);
+        }
+
+        const fileChanges = await this.git.getFileChanges(workspacePath, mergeBase, target);
+        if (!fileChanges) {
+            throw new Error(`Could not diff against ${baseRef}`);
+        }
+        const untracked = target === 'workingTree' ? await this.git.getUntrackedFiles(workspacePath) || [] : [];
+        const changedPaths = [...fileChanges.map(change => change.path), ...untracked];
+        this.debug.info(`Counting ${changedPaths.length} files changed since ${baseRef} (${mergeBase.substring(0, 8)}) in ${workspacePath}`);
+
+        const lineChanges = new Map<string, LineChangeStats>();
+        for (const change of fileChanges) {
+            if (change.linesAdded !== undefined && change.linesRemoved !== undefined) {
+                lineChanges.set(change.path, { linesAdded: change.linesAdded, linesRemoved: change.linesRemoved });
+            }
+        }
+
+        const baseResult = await this.lineCounter.countCommit(workspacePath, mergeBase, changedPaths, cancellationToken);
+        const currentFiles = target === 'HEAD'
+            ? (await this.lineCounter.countCommit(workspacePath, 'HEAD', changedPaths, cancellationToken)).files.map(toSnapshotFileRecord)
+            : await this.countWorkingTree(workspacePath, changedPaths);
+
+        const branch = await this.git.getCurrentBranch(workspacePath);
+        const diff = compareLineCounts(
+            { title: `${baseRef} (${mergeBase.substring(0, 8)})`, files: baseResult.files.map(toSnapshotFileRecord) },
+            { title: target === 'HEAD' ? `${branch || 'HEAD'} (committed)` : `${branch || 'HEAD'} (working tree)`, generatedAt: new Date(), files: currentFiles },
+            lineChanges
+        );
+        diff.tierChanges = await this.findTierChanges(workspacePath, diff);
+        return diff;
+    }
+
+    private async countWorkingTree(workspacePath: string, relativePaths: string[]): Promise<SnapshotFileRecord[]> {
+        const counted = await this.lineCounter.countChangedFiles(workspacePath, relativePaths.map(relativePath => path.join(workspacePath, relativePath)));
+        return [...counted.values()]
+            .filter((fileInfo): fileInfo is NonNullable<typeof fileInfo> => fileInfo !== null)
+            .map(toSnapshotFileRecord);
+    }
+
+    /**
+     * Tag the changed files with their threshold tier on each side; returns those whose
+     * tier changed, counting new files only when they start above the normal tier
+     */
+    private async findTierChanges(workspacePath: string, diff: LineCountDiff): Promise<FileSizeChange[]> {
+        const pathBasedSettings = new PathBasedSettingsService();
+        const tierChanges: FileSizeChange[] = [];
+        for (const file of [...diff.added, ...diff.grown, ...diff.shrunk]) {
+            const filePath = path.join(workspacePath, file.filePath);
+            file.tier = await pathBasedSettings.getColorThresholdForPath(file.lines, filePath);
+            file.baseTier = file.status === 'added' ? undefined : await pathBasedSettings.getColorThresholdForPath(file.baseLines, filePath);
+            if (file.tier !== (file.baseTier || 'normal')) {
+                tierChanges.push(file);
+            }
+        }
+        return tierChanges.sort((a, b) => b.lines - a.lines || a.filePath.localeCompare(b.filePath));
+    }
+}
@@ -26,6 +26,9 @@
  * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
  */
 import { LineCountResult, FileInfo } from '../types';
+import { formatAuthor } from '../utils/authorshipUtils';
+import { aggregateLanguages } from '../utils/languageStatsUtils';
+import { LineChangeStats, LineCountDiff, SizeChange } from '../utils/diffUtils';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -49,16 +52,31 @@ export class CsvGeneratorService {
             'File Name',
             'Directory',
             'Language',
+            'Language Source',
             'Total Lines',
             'Code Lines',
             'Comment Lines',
             'Blank Lines',
-            'File Size (bytes)'
+            'Mixed Lines',
+            'File Size (bytes)',
+            'Largest Symbol',
+            'Largest Symbol Kind',
+            'Largest Symbol Lines',
+            'Linguist Category',
+            'Commits',
+            'Lines Changed',
+            'Hotspot Score',
+            'Hotspot Quadrant',
+            'Primary Author',
+            'Primary Author Team',
+            'Primary Author Lines',
+            'Authors'
         ];
 
         const rows = result.files.map(file => {
             const fileName = path.basename(file.relativePath);
             const directory = path.dirname(file.relativePath);
+            const primaryAuthor = file.authors?.[0];
             
             return [
                 this.escapeCsvField(generatedAt),
@@ -66,11 +84,25 @@ export class CsvGeneratorService {
                 this.escapeCsvField(fileName),
                 this.escapeCsvField(directory === '.' ? '' : directory),
                 this.escapeCsvField(file.language || ''),
+                this.escapeCsvField(file.languageSource || ''),
                 (file.lines || 0).toString(),
                 (file.codeLines || 0).toString(),
                 (file.commentLines || 0).toString(),
                 (file.blankLines || 0).toString(),
-                (file.size || 0).toString()
+                (file.mixedLines || 0).toString(),
+                (file.size || 0).toString(),
+                this.escapeCsvField(file.largestSymbol?.name || ''),
+                this.escapeCsvField(file.largestSymbol?.kind || ''),
+                file.largestSymbol ? file.largestSymbol.lines.toString() : '',
+                file.linguist || '',
+                file.hotspot ? file.hotspot.commits.toString() : '',
+                file.hotspot ? (file.hotspot.linesAdded + file.hotspot.linesRemoved).toString() : '',
+                file.hotspot ? file.hotspot.score.toString() : '',
+                file.hotspot?.quadrant || '',
+                this.escapeCsvField(primaryAuthor ? formatAuthor(primaryAuthor) : ''),
+                this.escapeCsvField(primaryAuthor?.team || ''),
+                primaryAuthor ? primaryAuthor.lines.toString() : '',
+                this.escapeCsvField((file.authors || []).map(author => `${formatAuthor(author)}: ${author.lines}`).join('; '))
             ];
         });
 
@@ -86,15 +118,19 @@ export class CsvGeneratorService {
             'Total Lines',
             'Code Lines',
             'Comment Lines',
-            'Blank Lines'
+            'Blank Lines',
+            'Mixed Lines'
         ];
 
+        // Detailed stats per language, including lines of embedded languages
+        const languageTotals = new Map(aggregateLanguages(result.files).map(totals => [totals.name, totals]));
+
         const rows = Object.entries(result.languageStats).map(([name, stats]) => {
-            // Calculate detailed stats from files for this language
-            const languageFiles = result.files.filter(file => file.language === name);
-            const codeLines = languageFiles.reduce((sum, file) => sum + (file.codeLines || 0), 0);
-            const commentLines = languageFiles.reduce((sum, file) => sum + (file.commentLines || 0), 0);
-            const blankLines = languageFiles.reduce((sum, file) => sum + (file.blankLines || 0), 0);
+            const totals = languageTotals.get(name);
+            const codeLines = totals?.codeLines || 0;
+            const commentLines = totals?.commentLines || 0;
+            const blankLines = totals?.blankLines || 0;
+            const mixedLines = totals?.mixedLines || 0;
             
             return [
                 this.escapeCsvField(generatedAt),
@@ -103,7 +139,8 @@ export class CsvGeneratorService {
                 stats.lines.toString(),
                 codeLines.toString(),
                 commentLines.toString(),
-                blankLines.toString()
+                blankLines.toString(),
+                mixedLines.toString()
             ];
         });
 
@@ -120,6 +157,7 @@ export class CsvGeneratorService {
         const totalCodeLines = result.files.reduce((sum, file) => sum + (file.codeLines || 0), 0);
         const totalCommentLines = result.files.reduce((sum, file) => sum + (file.commentLines || 0), 0);
         const totalBlankLines = result.files.reduce((sum, file) => sum + (file.blankLines || 0), 0);
+        const totalMixedLines = result.files.reduce((sum, file) => sum + (file.mixedLines || 0), 0);
 
         const headers = ['Metric', 'Value'];
         const rows = [
@@ -131,12 +169,66 @@ export class CsvGeneratorService {
             ['Total Code Lines', totalCodeLines.toString()],
             ['Total Comment Lines', totalCommentLines.toString()],
             ['Total Blank Lines', totalBlankLines.toString()],
+            ['Total Mixed Lines', totalMixedLines.toString()],
             ['Language Count', Object.keys(result.languageStats || {}).length.toString()]
         ];
 
         return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
     }
 
+    /**
+     * One row for the totals, each language and each changed file of a comparison. Comparisons
+     * of git revisions add the lines added and removed, and the threshold tiers of each file.
+     */
+    generateDiffCsv(diff: LineCountDiff): string {
+        const withLineChanges = diff.totals.linesAdded !== undefined;
+        const withTiers = diff.tierChanges !== undefined;
+        const headers = [
+            'Scope', 'Name', 'Language', 'Status', 'Base Files', 'Files', 'Base Lines', 'Lines', 'Change', 'Change (%)',
+            ...(withLineChanges ? ['Lines Added', 'Lines Removed'] : []),
+            ...(withTiers ? ['Base Tier', 'Tier'] : [])
+        ];
+        const percent = (percentChange: number | undefined) => percentChange === undefined ? '' : percentChange.toString();
+        const lineChangeCells = (change: Partial<LineChangeStats>) => withLineChanges
+            ? [change.linesAdded?.toString() || '', change.linesRemoved?.toString() || '']
+            : [];
+        const sizeChangeRow = (scope: string, name: string, change: SizeChange) => [
+            scope,
+            this.escapeCsvField(name),
+            '',
+            '',
+            change.baseFiles.toString(),
+            change.files.toString(),
+            change.baseLines.toString(),
+            change.lines.toString(),
+            change.change.toString(),
+            percent(change.percentChange),
+            ...lineChangeCells(change),
+            ...(withTiers ? ['', ''] : [])
+        ];
+
+        const rows = [
+            sizeChangeRow('Total', `${diff.base.title} → ${diff.current.title}`, diff.totals),
+            ...diff.languages.map(language => sizeChangeRow('Language', language.language, language)),
+            ...[...diff.added, ...diff.removed, ...diff.grown, ...diff.shrunk].map(file => [
+                'File',
+                this.escapeCsvField(file.filePath),
+                this.escapeCsvField(file.language),
+                file.status,
+                '',
+                '',
+                file.baseLines.toString(),
+                file.lines.toString(),
+                file.change.toString(),
+                percent(file.percentChange),
+                ...lineChangeCells(file),
+                ...(withTiers ? [file.baseTier || '', file.tier || ''] : [])
+            ])
+        ];
+
+        return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
+    }
+
     private escapeCsvField(field: string): string {
         // Escape CSV field by wrapping in quotes if it contains comma, quote, or newline
         if (field.includes(',') || field.includes('"') || field.includes('\n') || field.includes('\r')) {
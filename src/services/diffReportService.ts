@@ -0,0 +1,183 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DebugService } from './debugService';
+import { LineCounterService } from './lineCounter';
+import { HtmlGeneratorService } from './htmlGenerator';
+import { CsvGeneratorService } from './csvGenerator';
+import { JsonGeneratorService } from './jsonGenerator';
+import { XmlGeneratorService } from './xmlGenerator';
+import { MarkdownGeneratorService } from './markdownGenerator';
+import { LineCountSnapshot } from './workspaceDatabaseService';
+import { DiffSource, LineCountDiff, parseLineCountExport } from '../utils/diffUtils';
+import { createSnapshotContent, getSnapshotTitle } from '../utils/snapshotUtils';
+import { getWorkspaceService } from '../utils/workspaceUtils';
+
+export type DiffExportFormat = 'html' | 'csv' | 'json' | 'xml' | 'md';
+
+/**
+ * Loads the two sides of a line count comparison and shows the diff report in a webview
+ * panel, from which it can be exported in every format
+ */
+export class DiffReportService {
+    private static instance: DiffReportService | undefined;
+
+    private static readonly EXPORT_FORMATS: DiffExportFormat[] = ['html', 'csv', 'json', 'xml', 'md'];
+
+    private debug = DebugService.getInstance();
+    private currentPanel: vscode.WebviewPanel | undefined;
+    private currentDiff: LineCountDiff | undefined;
+    private htmlGenerator = new HtmlGeneratorService();
+    private csvGenerator = new CsvGeneratorService();
+    private jsonGenerator = new JsonGeneratorService();
+    private xmlGenerator = new XmlGeneratorService();
+    private markdownGenerator = new MarkdownGeneratorService();
+
+    public static getInstance(): DiffReportService {
+        if (!DiffReportService.instance) {
+            DiffReportService.instance = new DiffReportService();
+        }
+        return DiffReportService.instance;
+    }
+
+    async loadSnapshot(workspacePath: string, snapshot: LineCountSnapshot): Promise<DiffSource> {
+        const commit = snapshot.commit ? ` @ ${snapshot.commit.substring(0, 8)}` : '';
+        return {
+            title: `Snapshot ${getSnapshotTitle(snapshot)}${commit}`,
+            generatedAt: snapshot.createdAt,
+            files: await getWorkspaceService(workspacePath).getSnapshotFiles(snapshot.id)
+        };
+    }
+
+    async loadWorkspace(workspacePath: string): Promise<DiffSource> {
+        const result = await new LineCounterService().countLinesWithPathBasedSettings(workspacePath);
+        return {
+            title: `${path.basename(workspacePath)} (current)`,
+            generatedAt: result.generatedAt,
+            files: createSnapshotContent(result).files
+        };
+    }
+
+    /**
+     * A code-counter-data.json or .xml export; throws when the file is neither
+     */
+    async loadExportFile(filePath: string): Promise<DiffSource> {
+        const extension = path.extname(filePath).toLowerCase();
+        if (extension !== '.json' && extension !== '.xml') {
+            throw new Error(`Unsupported export file: ${path.basename(filePath)} (expected .json or .xml)`);
+        }
+        const content = await fs.promises.readFile(filePath, 'utf8');
+        return { title: path.basename(filePath), ...parseLineCountExport(content, extension === '.json' ? 'json' : 'xml') };
+    }
+
+    public async showDiff(diff: LineCountDiff): Promise<void> {
+        this.currentDiff = diff;
+        this.debug.info(`🔀 Showing diff report: ${diff.base.title} → ${diff.current.title}`);
+
+        if (!this.currentPanel) {
+            this.currentPanel = vscode.window.createWebviewPanel(
+                'codeCounterDiffReport',
+                'Code Counter Diff',
+                vscode.ViewColumn.Two,
+                { enableScripts: true, localResourceRoots: [] }
+            );
+            this.currentPanel.onDidDispose(() => {
+                this.currentPanel = undefined;
+            }, null);
+            this.currentPanel.webview.onDidReceiveMessage(async message => {
+                if (message.command === 'export' && this.currentDiff) {
+                    await this.exportDiff(this.currentDiff, message.format);
+                } else if (message.command === 'copy' && this.currentDiff) {
+                    await vscode.env.clipboard.writeText(await this.generateContent(this.currentDiff, 'md'));
+                    vscode.window.showInformationMessage('Diff copied to the clipboard as Markdown');
+                }
+            });
+        } else {
+            this.currentPanel.reveal(vscode.ViewColumn.Two);
+        }
+
+        this.currentPanel.webview.html = await this.htmlGenerator.generateDiffHtml(diff, true);
+    }
+
+    async generateContent(diff: LineCountDiff, format: DiffExportFormat): Promise<string> {
+        switch (format) {
+            case 'html':
+                return this.htmlGenerator.generateDiffHtml(diff);
+            case 'csv':
+                return this.csvGenerator.generateDiffCsv(diff);
+            case 'json':
+                return this.jsonGenerator.generateDiffJson(diff);
+            case 'xml':
+                return this.xmlGenerator.generateDiffXml(diff);
+            case 'md':
+                return this.markdownGenerator.generateDiffMarkdown(diff);
+        }
+    }
+
+    /**
+     * Save the diff in one format, or in every format ('all') to a picked folder
+     */
+    async exportDiff(diff: LineCountDiff, format: DiffExportFormat | 'all'): Promise<void> {
+        try {
+            if (format === 'all') {
+                const folders = await vscode.window.showOpenDialog({
+                    canSelectFiles: false,
+                    canSelectFolders: true,
+                    canSelectMany: false,
+                    openLabel: 'Export Diff Here'
+                });
+                if (!folders || folders.length === 0) {
+                    return;
+                }
+                for (const exportFormat of DiffReportService.EXPORT_FORMATS) {
+                    const filePath = path.join(folders[0].fsPath, `code-counter-diff.${exportFormat}`);
+                    await fs.promises.writeFile(filePath, await this.generateContent(diff, exportFormat));
+                }
+                vscode.window.showInformationMessage(`Diff exported to ${folders[0].fsPath}`);
+                return;
+            }
+
+            const saveUri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.file(`code-counter-diff.${format}`),
+                filters: { [`${format.toUpperCase()} Files`]: [format], 'All Files': ['*'] },
+                saveLabel: `Export Diff as ${format.toUpperCase()}`
+            });
+            if (!saveUri) {
+                return;
+            }
+            await vscode.workspace.fs.writeFile(saveUri, Buffer.from(await this.generateContent(diff, format), 'utf8'));
+            vscode.window.showInformationMessage(`Diff exported: ${path.basename(saveUri.fsPath)}`);
+        } catch (error) {
+            this.debug.error('❌ Failed to export diff:', error);
+            vscode.window.showErrorMessage(`Failed to export diff: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
@@ -0,0 +1,461 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FileInfo } from '../types';
+import { DebugService } from './debugService';
+import { LineCounterService } from './lineCounter';
+import { addToLanguageStats, removeFromLanguageStats } from '../utils/languageStatsUtils';
+
+/**
+ * Exact totals for a directory and everything below it
+ */
+export interface DirectoryAggregate {
+    /** Absolute path of the directory */
+    path: string;
+    files: number;
+    lines: number;
+    codeLines: number;
+    commentLines: number;
+    blankLines: number;
+    averageLines: number;
+    maxLines: number;
+    /** Largest file below the directory */
+    maxFilePath: string;
+    languages: { [language: string]: { files: number; lines: number } };
+}
+
+interface DirectoryNode {
+    path: string;
+    parent?: DirectoryNode;
+    children: Map<string, DirectoryNode>;
+    /** Files directly in this directory */
+    ownFiles: Map<string, FileInfo>;
+    files: number;
+    lines: number;
+    codeLines: number;
+    commentLines: number;
+    blankLines: number;
+    maxLines: number;
+    maxFilePath: string;
+    languages: { [language: string]: { files: number; lines: number } };
+    /** Ascending line counts of every file below, built on demand and dropped on change */
+    sortedLines?: number[];
+}
+
+interface WorkspaceIndexState {
+    nodes: Map<string, DirectoryNode>;
+    files: Map<string, FileInfo>;
+}
+
+/**
+ * Maintained tree of directory totals for each workspace folder. It is built from one
+ * full count and then updated file by file, so folder decorations can read exact
+ * numbers for any directory without walking the disk.
+ */
+export class DirectoryAggregateIndexService {
+    /** Recently changed files remembered for the tree view */
+    private static readonly RECENT_FILES_LIMIT = 50;
+
+    private static instance: DirectoryAggregateIndexService;
+    private debug = DebugService.getInstance();
+    private lineCounter = new LineCounterService();
+    private states = new Map<string, WorkspaceIndexState>();
+    /** Builds in progress; clear() drops them so their results are discarded */
+    private pendingBuilds = new Map<string, Promise<void>>();
+    /** Updates run one at a time so a slow recount cannot overwrite a newer one */
+    private updateQueue: Promise<unknown> = Promise.resolve();
+    /** Paths of created or modified files, most recent first */
+    private recentFiles: string[] = [];
+
+    private _onDidChangeIndex: vscode.EventEmitter<string[]> = new vscode.EventEmitter<string[]>();
+    /** Fires with the paths of the directories whose totals changed */
+    readonly onDidChangeIndex: vscode.Event<string[]> = this._onDidChangeIndex.event;
+
+    public static getInstance(): DirectoryAggregateIndexService {
+        if (!DirectoryAggregateIndexService.instance) {
+            DirectoryAggregateIndexService.instance = new DirectoryAggregateIndexService();
+        }
+        return DirectoryAggregateIndexService.instance;
+    }
+
+    hasIndex(workspacePath: string): boolean {
+        return this.states.has(workspacePath);
+    }
+
+    /**
+     * Build the index of a workspace folder from a full count unless it already exists
+     */
+    ensureIndex(workspacePath: string): Promise<void> {
+        if (this.states.has(workspacePath)) {
+            return Promise.resolve();
+        }
+        const existing = this.pendingBuilds.get(workspacePath);
+        if (existing) {
+            return existing;
+        }
+
+        this.debug.info('Building directory aggregate index:', workspacePath);
+        const pending: Promise<void> = this.lineCounter.countLinesWithPathBasedSettings(workspacePath)
+            .then(result => {
+                if (this.pendingBuilds.get(workspacePath) === pending) {
+                    this.setFiles(workspacePath, result.files);
+                }
+            })
+            .finally(() => {
+                if (this.pendingBuilds.get(workspacePath) === pending) {
+                    this.pendingBuilds.delete(workspacePath);
+                }
+            });
+        this.pendingBuilds.set(workspacePath, pending);
+        return pending;
+    }
+
+    /**
+     * Replace the index of a workspace folder with the files of a full count
+     */
+    setFiles(workspacePath: string, files: FileInfo[]): void {
+        const previous = this.states.get(workspacePath);
+        const state: WorkspaceIndexState = { nodes: new Map(), files: new Map() };
+        for (const fileInfo of files) {
+            this.addFile(state, workspacePath, fileInfo);
+        }
+        this.states.set(workspacePath, state);
+        this.debug.verbose('Directory aggregate index built:', { workspacePath, files: state.files.size, directories: state.nodes.size });
+
+        const changed = new Set(state.nodes.keys());
+        previous?.nodes.forEach((_, directory) => changed.add(directory));
+        this._onDidChangeIndex.fire([...changed]);
+    }
+
+    /**
+     * Totals for a directory, or undefined when no counted file lies below it
+     */
+    getAggregate(directoryPath: string): DirectoryAggregate | undefined {
+        for (const state of this.states.values()) {
+            const node = state.nodes.get(directoryPath);
+            if (node) {
+                const languages: DirectoryAggregate['languages'] = {};
+                for (const [language, stats] of Object.entries(node.languages)) {
+                    languages[language] = { ...stats };
+                }
+                return {
+                    path: node.path,
+                    files: node.files,
+                    lines: node.lines,
+                    codeLines: node.codeLines,
+                    commentLines: node.commentLines,
+                    blankLines: node.blankLines,
+                    averageLines: node.files > 0 ? Math.round(node.lines / node.files) : 0,
+                    maxLines: node.maxLines,
+                    maxFilePath: node.maxFilePath,
+                    languages
+                };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Every counted file of a workspace folder
+     */
+    getFiles(workspacePath: string): FileInfo[] {
+        return [...(this.states.get(workspacePath)?.files.values() || [])];
+    }
+
+    /**
+     * Totals of every directory of a workspace folder that holds counted files
+     */
+    getDirectories(workspacePath: string): DirectoryAggregate[] {
+        const state = this.states.get(workspacePath);
+        return state ? [...state.nodes.keys()].map(directory => this.getAggregate(directory)!) : [];
+    }
+
+    /**
+     * Files created or modified since the index was built, most recent first
+     */
+    getRecentlyChangedFiles(): FileInfo[] {
+        const files: FileInfo[] = [];
+        for (const filePath of this.recentFiles) {
+            for (const state of this.states.values()) {
+                const fileInfo = state.files.get(filePath);
+                if (fileInfo) {
+                    files.push(fileInfo);
+                    break;
+                }
+            }
+        }
+        return files;
+    }
+
+    /**
+     * Ascending line counts of every file below a directory, for medians and percentiles
+     */
+    getLineCounts(directoryPath: string): readonly number[] {
+        for (const state of this.states.values()) {
+            const node = state.nodes.get(directoryPath);
+            if (node) {
+                if (!node.sortedLines) {
+                    node.sortedLines = this.collectLines(node, []).sort((a, b) => a - b);
+                }
+                return node.sortedLines;
+            }
+        }
+        return [];
+    }
+
+    /**
+     * Recount changed paths (files, or directories that were created or deleted) and
+     * update the totals of their ancestors. Does nothing before the index is built.
+     * Resolves with the directories whose totals changed.
+     */
+    applyChanges(workspacePath: string, changedPaths: string[]): Promise<string[]> {
+        const update = this.updateQueue.then(() => this.updateIndex(workspacePath, changedPaths));
+        this.updateQueue = update.catch(() => undefined);
+        return update;
+    }
+
+    clear(workspacePath?: string): void {
+        if (workspacePath) {
+            this.states.delete(workspacePath);
+            this.pendingBuilds.delete(workspacePath);
+        } else {
+            this.states.clear();
+            this.pendingBuilds.clear();
+        }
+    }
+
+    private async updateIndex(workspacePath: string, changedPaths: string[]): Promise<string[]> {
+        const state = this.states.get(workspacePath);
+        if (!state) {
+            return [];
+        }
+
+        const filePaths = new Set<string>();
+        for (const changedPath of changedPaths.filter(changedPath => this.isInside(workspacePath, changedPath))) {
+            let stats: fs.Stats | undefined;
+            try {
+                stats = await fs.promises.stat(changedPath);
+            } catch {
+                // Deleted; a deleted directory takes every file below it out of the index
+                const prefix = changedPath + path.sep;
+                for (const filePath of state.files.keys()) {
+                    if (filePath.startsWith(prefix)) {
+                        filePaths.add(filePath);
+                    }
+                }
+            }
+            if (stats?.isDirectory()) {
+                (await this.listFiles(changedPath)).forEach(filePath => filePaths.add(filePath));
+            } else {
+                filePaths.add(changedPath);
+            }
+        }
+        if (filePaths.size === 0) {
+            return [];
+        }
+
+        const counts = await this.lineCounter.countChangedFiles(workspacePath, [...filePaths]);
+        if (this.states.get(workspacePath) !== state) {
+            // Cleared or rebuilt while counting
+            return [];
+        }
+
+        const staleMaximums = new Set<DirectoryNode>();
+        const changed = new Set<string>();
+        for (const [filePath, fileInfo] of counts) {
+            const previous = state.files.get(filePath);
+            if (previous) {
+                this.removeFile(state, previous, staleMaximums).forEach(directory => changed.add(directory));
+            }
+            if (fileInfo) {
+                this.addFile(state, workspacePath, fileInfo).forEach(directory => changed.add(directory));
+            }
+            this.recentFiles = this.recentFiles.filter(recentPath => recentPath !== filePath);
+            if (fileInfo) {
+                this.recentFiles.unshift(filePath);
+            }
+        }
+        this.recentFiles.length = Math.min(this.recentFiles.length, DirectoryAggregateIndexService.RECENT_FILES_LIMIT);
+        this.refreshMaximums(state, staleMaximums);
+
+        this.debug.verbose('Directory aggregate index updated:', { workspacePath, files: counts.size, directories: changed.size });
+        const directories = [...changed];
+        if (directories.length > 0) {
+            this._onDidChangeIndex.fire(directories);
+        }
+        return directories;
+    }
+
+    /**
+     * Add a file to its directory and the totals of every ancestor; returns their paths
+     */
+    private addFile(state: WorkspaceIndexState, workspacePath: string, fileInfo: FileInfo): string[] {
+        const node = this.getOrCreateNode(state, workspacePath, path.dirname(fileInfo.path));
+        if (!node) {
+            return [];
+        }
+        state.files.set(fileInfo.path, fileInfo);
+        node.ownFiles.set(fileInfo.path, fileInfo);
+
+        const directories: string[] = [];
+        for (let current: DirectoryNode | undefined = node; current; current = current.parent) {
+            current.files++;
+            current.lines += fileInfo.lines;
+            current.codeLines += fileInfo.codeLines;
+            current.commentLines += fileInfo.commentLines;
+            current.blankLines += fileInfo.blankLines;
+            addToLanguageStats(current.languages, fileInfo);
+            current.sortedLines = undefined;
+            if (fileInfo.lines > current.maxLines || !current.maxFilePath) {
+                current.maxLines = fileInfo.lines;
+                current.maxFilePath = fileInfo.path;
+            }
+            directories.push(current.path);
+        }
+        return directories;
+    }
+
+    /**
+     * Take a file out of the totals of its ancestors. Directories whose largest file it
+     * was are collected in staleMaximums for refreshMaximums().
+     */
+    private removeFile(state: WorkspaceIndexState, fileInfo: FileInfo, staleMaximums: Set<DirectoryNode>): string[] {
+        state.files.delete(fileInfo.path);
+        const node = state.nodes.get(path.dirname(fileInfo.path));
+        if (!node) {
+            return [];
+        }
+        node.ownFiles.delete(fileInfo.path);
+
+        const directories: string[] = [];
+        for (let current: DirectoryNode | undefined = node; current; current = current.parent) {
+            current.files--;
+            current.lines -= fileInfo.lines;
+            current.codeLines -= fileInfo.codeLines;
+            current.commentLines -= fileInfo.commentLines;
+            current.blankLines -= fileInfo.blankLines;
+            removeFromLanguageStats(current.languages, fileInfo);
+            current.sortedLines = undefined;
+            if (current.maxFilePath === fileInfo.path) {
+                staleMaximums.add(current);
+            }
+            directories.push(current.path);
+        }
+        return directories;
+    }
+
+    /**
+     * Recompute the largest file of directories that lost theirs from their own files and
+     * their children's maximums, deepest first; directories left empty are dropped
+     */
+    private refreshMaximums(state: WorkspaceIndexState, staleMaximums: Set<DirectoryNode>): void {
+        const nodes = [...staleMaximums].sort((a, b) => b.path.length - a.path.length);
+        for (const node of nodes) {
+            if (node.files <= 0) {
+                node.parent?.children.delete(node.path);
+                state.nodes.delete(node.path);
+                continue;
+            }
+            node.maxLines = 0;
+            node.maxFilePath = '';
+            const candidates = [
+                ...[...node.ownFiles.values()].map(fileInfo => ({ lines: fileInfo.lines, path: fileInfo.path })),
+                ...[...node.children.values()].map(child => ({ lines: child.maxLines, path: child.maxFilePath }))
+            ];
+            for (const candidate of candidates) {
+                if (candidate.lines > node.maxLines || !node.maxFilePath) {
+                    node.maxLines = candidate.lines;
+                    node.maxFilePath = candidate.path;
+                }
+            }
+        }
+    }
+
+    private collectLines(node: DirectoryNode, lines: number[]): number[] {
+        node.ownFiles.forEach(fileInfo => lines.push(fileInfo.lines));
+        node.children.forEach(child => this.collectLines(child, lines));
+        return lines;
+    }
+
+    private getOrCreateNode(state: WorkspaceIndexState, workspacePath: string, directoryPath: string): DirectoryNode | undefined {
+        const existing = state.nodes.get(directoryPath);
+        if (existing) {
+            return existing;
+        }
+        if (!this.isInside(workspacePath, directoryPath)) {
+            return undefined;
+        }
+
+        const parent = directoryPath === workspacePath
+            ? undefined
+            : this.getOrCreateNode(state, workspacePath, path.dirname(directoryPath));
+        const node: DirectoryNode = {
+            path: directoryPath,
+            parent,
+            children: new Map(),
+            ownFiles: new Map(),
+            files: 0,
+            lines: 0,
+            codeLines: 0,
+            commentLines: 0,
+            blankLines: 0,
+            maxLines: 0,
+            maxFilePath: '',
+            languages: {}
+        };
+        parent?.children.set(directoryPath, node);
+        state.nodes.set(directoryPath, node);
+        return node;
+    }
+
+    private isInside(workspacePath: string, targetPath: string): boolean {
+        const relative = path.relative(workspacePath, targetPath);
+        return !relative.startsWith('..') && !path.isAbsolute(relative);
+    }
+
+    private async listFiles(directoryPath: string): Promise<string[]> {
+        const files: string[] = [];
+        try {
+            const entries = await fs.promises.readdir(directoryPath, { withFileTypes: true });
+            for (const entry of entries) {
+                const entryPath = path.join(directoryPath, entry.name);
+                if (entry.isDirectory()) {
+                    files.push(...await this.listFiles(entryPath));
+                } else if (entry.isFile()) {
+                    files.push(entryPath);
+                }
+            }
+        } catch (error) {
+            this.debug.warning(`Error reading directory ${directoryPath}:`, error);
+        }
+        return files;
+    }
+}
@@ -0,0 +1,234 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import { LanguageTable } from './languageTable';
+
+/**
+ * A run of lines [start, end) attributed to one language
+ */
+export interface LanguageSegment {
+    language: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * An embedded block found at a line: its language (undefined keeps the host
+ * language) and the line holding the closing delimiter
+ */
+interface EmbeddedBlock {
+    language?: string;
+    closeLine: number;
+}
+
+type BlockFinder = (lines: string[], index: number) => EmbeddedBlock | undefined;
+
+/**
+ * Splits host files into line ranges of their embedded languages:
+ * - `<script>`/`<style>` blocks in HTML, Vue, Svelte, Astro and Razor
+ * - Astro frontmatter (`---` fences at the top of the file)
+ * - Fenced code blocks in Markdown
+ * - `@{ }`, `@code { }` and `@functions { }` blocks in Razor
+ *
+ * Delimiter lines (`<script>`, ```` ``` ````, `@{`) stay with the host language.
+ */
+export class EmbeddedLanguageSplitter {
+    /**
+     * @param languages Resolves block info strings (`lang="ts"`, ```` ```python ````) to languages;
+     * the LanguageRegistry in the extension host, a LanguageTable in worker threads
+     */
+    constructor(private languages: Pick<LanguageTable, 'getLanguageByAlias'>) {}
+
+    /**
+     * Consecutive segments covering every line; files without embedded
+     * languages come back as a single host segment
+     */
+    split(hostLanguage: string, lines: string[]): LanguageSegment[] {
+        const finders = this.getBlockFinders(hostLanguage);
+        const segments: LanguageSegment[] = [];
+        let hostStart = 0;
+
+        for (let i = 0; i < lines.length && finders.length > 0; i++) {
+            const block = this.findBlock(finders, lines, i);
+            if (!block) {
+                continue;
+            }
+
+            const blockStart = i + 1;
+            if (block.language && block.language !== hostLanguage && block.closeLine > blockStart) {
+                this.pushSegment(segments, hostLanguage, hostStart, blockStart);
+                this.pushSegment(segments, block.language, blockStart, block.closeLine);
+                hostStart = block.closeLine;
+            }
+            // Continue after the closing delimiter so nested markers are ignored
+            i = block.closeLine;
+        }
+
+        this.pushSegment(segments, hostLanguage, hostStart, lines.length);
+        return segments;
+    }
+
+    private getBlockFinders(hostLanguage: string): BlockFinder[] {
+        switch (hostLanguage) {
+            case 'HTML':
+            case 'Vue':
+            case 'Svelte':
+                return [this.findTagBlock];
+            case 'Astro':
+                return [this.findFrontmatter, this.findTagBlock];
+            case 'Razor':
+                return [this.findRazorCodeBlock, this.findTagBlock];
+            case 'Markdown':
+                return [this.findFencedBlock];
+            default:
+                return [];
+        }
+    }
+
+    private findBlock(finders: BlockFinder[], lines: string[], index: number): EmbeddedBlock | undefined {
+        for (const finder of finders) {
+            const block = finder.call(this, lines, index);
+            if (block) {
+                return block;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * `<script lang="ts">` ... `</script>` and `<style lang="scss">` ... `</style>`
+     */
+    private findTagBlock(lines: string[], index: number): EmbeddedBlock | undefined {
+        const open = /<(script|style)\b([^>]*)>/i.exec(lines[index]);
+        if (!open) {
+            return undefined;
+        }
+
+        const tag = open[1].toLowerCase();
+        const closing = new RegExp(`</${tag}\\s*>`, 'i');
+        if (closing.test(lines[index].substring(open.index + open[0].length))) {
+            return undefined; // Single-line block stays with the host
+        }
+
+        let closeLine = index + 1;
+        while (closeLine < lines.length && !closing.test(lines[closeLine])) {
+            closeLine++;
+        }
+        return { language: this.resolveTagLanguage(tag, open[2]), closeLine };
+    }
+
+    /**
+     * Astro component script between `---` fences on the first line
+     */
+    private findFrontmatter(lines: string[], index: number): EmbeddedBlock | undefined {
+        if (index !== 0 || lines[0].trim() !== '---') {
+            return undefined;
+        }
+
+        let closeLine = 1;
+        while (closeLine < lines.length && lines[closeLine].trim() !== '---') {
+            closeLine++;
+        }
+        return { language: 'TypeScript', closeLine };
+    }
+
+    /**
+     * Markdown fences (```` ```ts ```` or `~~~python`); unknown info strings stay Markdown
+     */
+    private findFencedBlock(lines: string[], index: number): EmbeddedBlock | undefined {
+        const open = /^ {0,3}(`{3,}|~{3,})\s*([^\s`{]*)/.exec(lines[index]);
+        if (!open) {
+            return undefined;
+        }
+
+        const fence = open[1];
+        const closing = new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}\\s*$`);
+        let closeLine = index + 1;
+        while (closeLine < lines.length && !closing.test(lines[closeLine])) {
+            closeLine++;
+        }
+
+        const info = open[2];
+        return { language: info ? this.languages.getLanguageByAlias(info)?.name : undefined, closeLine };
+    }
+
+    /**
+     * Razor `@{`, `@code {` and `@functions {` blocks, closed by the matching brace
+     */
+    private findRazorCodeBlock(lines: string[], index: number): EmbeddedBlock | undefined {
+        const open = /^\s*@(?:code|functions)?\s*\{/.exec(lines[index]);
+        if (!open) {
+            return undefined;
+        }
+
+        let depth = 0;
+        for (let lineIndex = index; lineIndex < lines.length; lineIndex++) {
+            const line = lineIndex === index ? lines[index].substring(open[0].length - 1) : lines[lineIndex];
+            for (const char of line) {
+                if (char === '{') {
+                    depth++;
+                } else if (char === '}' && --depth === 0) {
+                    return lineIndex === index ? undefined : { language: 'C#', closeLine: lineIndex };
+                }
+            }
+        }
+        return { language: 'C#', closeLine: lines.length };
+    }
+
+    /**
+     * Language of a script/style block from its `lang` or `type` attribute.
+     * Unknown languages and non-code script types (templates) stay with the host.
+     */
+    private resolveTagLanguage(tag: string, attributes: string): string | undefined {
+        const lang = /\blang\s*=\s*["']?([\w+-]+)/i.exec(attributes);
+        if (lang) {
+            return this.languages.getLanguageByAlias(lang[1])?.name;
+        }
+        if (tag === 'style') {
+            return 'CSS';
+        }
+
+        const type = /\btype\s*=\s*["']?([\w/+.-]+)/i.exec(attributes)?.[1].toLowerCase();
+        if (!type || type === 'module' || /javascript|ecmascript|babel/.test(type)) {
+            return 'JavaScript';
+        }
+        if (type.includes('typescript')) {
+            return 'TypeScript';
+        }
+        if (type.includes('json')) {
+            return 'JSON';
+        }
+        return undefined;
+    }
+
+    private pushSegment(segments: LanguageSegment[], language: string, start: number, end: number): void {
+        if (end > start) {
+            segments.push({ language, start, end });
+        }
+    }
+}
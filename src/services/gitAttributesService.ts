@@ -0,0 +1,111 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DebugService } from './debugService';
+import { GitService } from './gitService';
+import { LinguistCategory } from '../types';
+import { getLinguistCategory, GitAttributesRule, parseGitAttributes } from '../utils/gitAttributesUtils';
+
+export type LinguistMode = 'off' | 'categorize' | 'exclude';
+
+/**
+ * Reads the linguist-generated, linguist-vendored and linguist-documentation attributes of a
+ * workspace's files from the .gitattributes files in its repository, as GitHub Linguist does.
+ * Attributes files are read once, so create one per count.
+ */
+export class GitAttributesService {
+    private debug = DebugService.getInstance();
+    private root: Promise<string> | undefined;
+    private directoryRules = new Map<string, Promise<GitAttributesRule[]>>();
+
+    constructor(private workspacePath: string) {
+    }
+
+    /**
+     * Whether codeCounter.linguist tags these files, leaves them out of counts, or is off
+     */
+    static getMode(): LinguistMode {
+        return vscode.workspace.getConfiguration('codeCounter').get<LinguistMode>('linguist', 'categorize');
+    }
+
+    /**
+     * Linguist category of a file, or undefined when none of its attributes mark it
+     */
+    async getLinguistCategory(filePath: string): Promise<LinguistCategory | undefined> {
+        const root = await this.getRoot();
+        const relativeDirectory = path.relative(root, path.dirname(filePath));
+        if (relativeDirectory === '..' || relativeDirectory.startsWith(`..${path.sep}`) || path.isAbsolute(relativeDirectory)) {
+            return undefined;
+        }
+
+        // Deeper .gitattributes files take precedence, so their rules go last
+        let directory = root;
+        const rules = [...await this.getDirectoryRules(directory)];
+        for (const part of relativeDirectory.split(path.sep).filter(part => part)) {
+            directory = path.join(directory, part);
+            rules.push(...await this.getDirectoryRules(directory));
+        }
+        return rules.length > 0 ? getLinguistCategory(rules, filePath) : undefined;
+    }
+
+    /**
+     * The repository root, so .gitattributes files above the workspace folder apply too
+     */
+    private getRoot(): Promise<string> {
+        if (!this.root) {
+            this.root = GitService.getInstance().getWorkspaceRepositoryRoot(this.workspacePath)
+                .then(root => root || this.workspacePath);
+        }
+        return this.root;
+    }
+
+    private getDirectoryRules(directory: string): Promise<GitAttributesRule[]> {
+        let rules = this.directoryRules.get(directory);
+        if (!rules) {
+            rules = this.readAttributesFile(directory);
+            this.directoryRules.set(directory, rules);
+        }
+        return rules;
+    }
+
+    private async readAttributesFile(directory: string): Promise<GitAttributesRule[]> {
+        const filePath = path.join(directory, '.gitattributes');
+        let content: string;
+        try {
+            content = await fs.promises.readFile(filePath, 'utf8');
+        } catch {
+            return [];
+        }
+        const rules = parseGitAttributes(content, directory);
+        this.debug.verbose(`Read ${rules.length} linguist attribute rules from ${filePath}`);
+        return rules;
+    }
+}
@@ -0,0 +1,452 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import { execFile, spawn } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DebugService } from './debugService';
+
+export interface GitCommit {
+    hash: string;
+    /** Committer date */
+    date: Date;
+    /** Names of the tags pointing at the commit */
+    tags?: string[];
+}
+
+/**
+ * A file of a commit's tree
+ */
+export interface GitTreeFile {
+    /** Path relative to the folder the tree was listed in, with forward slashes */
+    path: string;
+    blob: string;
+}
+
+/**
+ * A file that differs from a base commit, with git's added and removed line counts;
+ * both are undefined for binary files
+ */
+export interface GitFileChange {
+    /** Path relative to the folder the diff was run in, with forward slashes */
+    path: string;
+    linesAdded?: number;
+    linesRemoved?: number;
+}
+
+/**
+ * How often a file changed within a history window and how many lines the changes touched
+ */
+export interface GitFileChurn {
+    commits: number;
+    linesAdded: number;
+    linesRemoved: number;
+}
+
+export interface GitAuthor {
+    name: string;
+    email: string;
+}
+
+/**
+ * Who last changed each line of a file according to git blame, with .mailmap applied
+ */
+export interface GitBlame {
+    authors: GitAuthor[];
+    /** Index into authors for every line of the file, first line first */
+    lineAuthors: number[];
+    /** Whether some lines are not committed yet; git reports them under "Not Committed Yet" */
+    hasUncommittedLines: boolean;
+}
+
+/**
+ * Runs the git command line in a workspace folder. Every query resolves to undefined when
+ * git is not installed or the folder is not inside a repository.
+ */
+export class GitService {
+    private static instance: GitService | undefined;
+    private static readonly MAX_BUFFER = 64 * 1024 * 1024;
+
+    private debug = DebugService.getInstance();
+
+    public static getInstance(): GitService {
+        if (!GitService.instance) {
+            GitService.instance = new GitService();
+        }
+        return GitService.instance;
+    }
+
+    /**
+     * Full hash of the HEAD commit
+     */
+    async getHeadCommit(cwd: string): Promise<string | undefined> {
+        return this.tryRun(['rev-parse', 'HEAD'], cwd);
+    }
+
+    /**
+     * Name of the checked out branch; undefined on a detached HEAD
+     */
+    async getCurrentBranch(cwd: string): Promise<string | undefined> {
+        const branch = await this.tryRun(['rev-parse', '--abbrev-ref', 'HEAD'], cwd);
+        return branch === 'HEAD' ? undefined : branch;
+    }
+
+    /**
+     * Root directory of the repository holding cwd
+     */
+    async getRepositoryRoot(cwd: string): Promise<string | undefined> {
+        return this.tryRun(['rev-parse', '--show-toplevel'], cwd);
+    }
+
+    /**
+     * Root directory of the repository holding a workspace folder, on the folder's side of any
+     * symlink: git reports the resolved root, which would not prefix the folder's file paths
+     */
+    async getWorkspaceRepositoryRoot(workspacePath: string): Promise<string | undefined> {
+        const repositoryRoot = await this.getRepositoryRoot(workspacePath);
+        if (!repositoryRoot) {
+            return undefined;
+        }
+        try {
+            const realWorkspacePath = await fs.promises.realpath(workspacePath);
+            return path.resolve(workspacePath, path.relative(realWorkspacePath, await fs.promises.realpath(repositoryRoot)));
+        } catch (error) {
+            this.debug.verbose('Could not resolve the repository root of', workspacePath, error);
+            return path.resolve(repositoryRoot);
+        }
+    }
+
+    /**
+     * The repository's own exclude file, .git/info/exclude, even when it does not exist
+     */
+    async getInfoExcludePath(cwd: string): Promise<string | undefined> {
+        const excludePath = await this.tryRun(['rev-parse', '--git-path', 'info/exclude'], cwd);
+        return excludePath && path.resolve(cwd, excludePath);
+    }
+
+    /**
+     * The global exclude file, core.excludesFile or else $XDG_CONFIG_HOME/git/ignore
+     */
+    async getGlobalExcludesPath(cwd: string): Promise<string> {
+        const excludesFile = await this.tryRun(['config', '--path', 'core.excludesFile'], cwd);
+        if (excludesFile) {
+            return path.resolve(cwd, excludesFile);
+        }
+        const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+        return path.join(configHome, 'git', 'ignore');
+    }
+
+    /**
+     * Full hash of the commit a ref (branch, tag, hash...) points at
+     */
+    async resolveCommit(cwd: string, ref: string): Promise<string | undefined> {
+        return this.tryRun(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], cwd);
+    }
+
+    /**
+     * Best common ancestor of two commits, i.e. where a branch forked off its base
+     */
+    async getMergeBase(cwd: string, ref: string, otherRef = 'HEAD'): Promise<string | undefined> {
+        return this.tryRun(['merge-base', ref, otherRef], cwd);
+    }
+
+    /**
+     * Short names of the local branches, remote branches and tags, most recently updated first
+     */
+    async getRefNames(cwd: string): Promise<string[] | undefined> {
+        const output = await this.tryRun(['for-each-ref', '--sort=-committerdate', '--format=%(refname:short)', 'refs/heads', 'refs/remotes', 'refs/tags'], cwd);
+        return output?.split('\n').map(name => name.trim()).filter(name => name !== '' && !name.endsWith('/HEAD'));
+    }
+
+    /**
+     * Files below cwd that differ between a base commit and HEAD or the working tree (tracked
+     * files only), with renames reported as a deletion and an addition
+     */
+    async getFileChanges(cwd: string, base: string, target: 'HEAD' | 'workingTree'): Promise<GitFileChange[] | undefined> {
+        const args = ['diff', '--numstat', '-z', '--no-renames', '--relative', base, ...(target === 'HEAD' ? ['HEAD'] : []), '--'];
+        let output: string;
+        try {
+            output = await this.run(args, cwd);
+        } catch (error) {
+            this.debug.verbose(`git diff ${base} failed in ${cwd}:`, error);
+            return undefined;
+        }
+
+        // <added> TAB <removed> TAB <path> NUL, with "-" counts for binary files
+        return output.split('\0').filter(entry => entry !== '').map(entry => {
+            const [added, removed, ...filePath] = entry.split('\t');
+            return {
+                path: filePath.join('\t'),
+                linesAdded: added === '-' ? undefined : Number(added),
+                linesRemoved: removed === '-' ? undefined : Number(removed)
+            };
+        });
+    }
+
+    /**
+     * Untracked files below cwd that are not ignored, relative to cwd
+     */
+    async getUntrackedFiles(cwd: string): Promise<string[] | undefined> {
+        try {
+            const output = await this.run(['ls-files', '--others', '--exclude-standard', '-z'], cwd);
+            return output.split('\0').filter(filePath => filePath !== '');
+        } catch (error) {
+            this.debug.verbose(`git ls-files failed in ${cwd}:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Commits and changed lines per file below cwd since a date (the whole history without
+     * one), merges left out. Paths are relative to cwd; binary changes count no lines.
+     */
+    async getFileChurn(cwd: string, since?: Date): Promise<Map<string, GitFileChurn> | undefined> {
+        const args = ['log', '--no-merges', '--no-renames', '--relative', '--numstat', '--format=', '-z', ...(since ? [`--since=${since.toISOString()}`] : []), 'HEAD', '--', '.'];
+        let output: string;
+        try {
+            output = await this.run(args, cwd);
+        } catch (error) {
+            this.debug.verbose(`git log --numstat failed in ${cwd}:`, error);
+            return undefined;
+        }
+
+        // <added> TAB <removed> TAB <path> NUL per file of every commit, commits separated by a newline
+        const churn = new Map<string, GitFileChurn>();
+        for (const entry of output.split('\0').map(current => current.replace(/^\n+/, '')).filter(current => current !== '')) {
+            const [added, removed, ...filePath] = entry.split('\t');
+            const key = filePath.join('\t');
+            const fileChurn = churn.get(key) || { commits: 0, linesAdded: 0, linesRemoved: 0 };
+            fileChurn.commits++;
+            fileChurn.linesAdded += Number(added) || 0;
+            fileChurn.linesRemoved += Number(removed) || 0;
+            churn.set(key, fileChurn);
+        }
+        return churn;
+    }
+
+    /**
+     * First-parent history of HEAD, oldest first
+     */
+    async getCommitHistory(cwd: string): Promise<GitCommit[] | undefined> {
+        const output = await this.tryRun(['log', '--first-parent', '--reverse', '--format=%H %ct', 'HEAD'], cwd);
+        if (output === undefined) {
+            return undefined;
+        }
+        return output.split('\n').map(line => {
+            const [hash, time] = line.trim().split(' ');
+            return { hash, date: new Date(Number(time) * 1000) };
+        });
+    }
+
+    /**
+     * Commits that tags point at, oldest first; annotated tags are peeled to their commit
+     */
+    async getTaggedCommits(cwd: string): Promise<GitCommit[] | undefined> {
+        const format = '%(refname:short)%09%(objecttype)%09%(objectname)%09%(committerdate:unix)%09%(*objecttype)%09%(*objectname)%09%(*committerdate:unix)';
+        let output: string;
+        try {
+            output = await this.run(['for-each-ref', `--format=${format}`, 'refs/tags'], cwd);
+        } catch (error) {
+            this.debug.verbose(`git for-each-ref failed in ${cwd}:`, error);
+            return undefined;
+        }
+
+        const commits = new Map<string, GitCommit>();
+        for (const line of output.split('\n').filter(current => current.trim() !== '')) {
+            const [tag, type, hash, time, peeledType, peeledHash, peeledTime] = line.trim().split('\t');
+            const target = peeledType === 'commit' ? { hash: peeledHash, time: peeledTime } : type === 'commit' ? { hash, time } : undefined;
+            if (!target) {
+                continue;
+            }
+            const commit = commits.get(target.hash) || { hash: target.hash, date: new Date(Number(target.time) * 1000), tags: [] };
+            commit.tags!.push(tag);
+            commits.set(target.hash, commit);
+        }
+        return [...commits.values()].sort((a, b) => a.date.getTime() - b.date.getTime());
+    }
+
+    /**
+     * Files of a commit below cwd, without submodules and symbolic links. Reads the object
+     * database only, so the working copy is left alone.
+     */
+    async listFiles(cwd: string, commit: string): Promise<GitTreeFile[] | undefined> {
+        let output: string;
+        try {
+            output = await this.run(['ls-tree', '-r', '-z', commit], cwd);
+        } catch (error) {
+            this.debug.verbose(`git ls-tree ${commit} failed in ${cwd}:`, error);
+            return undefined;
+        }
+
+        const files: GitTreeFile[] = [];
+        for (const entry of output.split('\0')) {
+            // <mode> SP <type> SP <object> TAB <path>
+            const tab = entry.indexOf('\t');
+            const [mode, type, blob] = entry.substring(0, tab).split(' ');
+            if (tab > 0 && type === 'blob' && mode !== '120000') {
+                files.push({ path: entry.substring(tab + 1), blob });
+            }
+        }
+        return files;
+    }
+
+    /**
+     * Blame the working copy of a file. Resolves to undefined when git cannot blame it, e.g.
+     * when the file is untracked.
+     */
+    async blameFile(cwd: string, filePath: string): Promise<GitBlame | undefined> {
+        let output: string;
+        try {
+            output = await this.run(['blame', '--line-porcelain', '--', filePath], cwd);
+        } catch (error) {
+            this.debug.verbose(`git blame failed for ${filePath}:`, error);
+            return undefined;
+        }
+        return GitService.parseBlameOutput(output);
+    }
+
+    /**
+     * Object name git gives content stored as a blob, as `git hash-object` prints it
+     */
+    static hashBlob(content: Buffer): string {
+        return crypto.createHash('sha1').update(`blob ${content.length}\0`).update(content).digest('hex');
+    }
+
+    /**
+     * Contents of blobs by object name, read through one `git cat-file --batch` process.
+     * Rejects when git fails, since partial contents would give wrong counts.
+     */
+    readBlobs(cwd: string, blobs: string[]): Promise<Map<string, Buffer>> {
+        const requested = [...new Set(blobs)];
+        return new Promise((resolve, reject) => {
+            const child = spawn('git', ['cat-file', '--batch'], { cwd, windowsHide: true });
+            const chunks: Buffer[] = [];
+            child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+            child.on('error', reject);
+            child.on('close', code => {
+                if (code !== 0) {
+                    reject(new Error(`git cat-file exited with code ${code}`));
+                    return;
+                }
+                try {
+                    resolve(GitService.parseBatchOutput(Buffer.concat(chunks)));
+                } catch (error) {
+                    reject(error);
+                }
+            });
+            child.stdin.end(requested.map(blob => `${blob}\n`).join(''));
+        });
+    }
+
+    /**
+     * Split `git cat-file --batch` output ("<object> <type> <size>" headers, each followed by
+     * the content and a newline) into contents by object name; missing objects are left out
+     */
+    private static parseBatchOutput(output: Buffer): Map<string, Buffer> {
+        const contents = new Map<string, Buffer>();
+        let offset = 0;
+        while (offset < output.length) {
+            const headerEnd = output.indexOf(0x0a, offset);
+            if (headerEnd < 0) {
+                throw new Error('Truncated git cat-file output');
+            }
+            const [object, type, size] = output.toString('utf8', offset, headerEnd).split(' ');
+            offset = headerEnd + 1;
+            if (type === 'missing' || size === undefined) {
+                continue;
+            }
+            const end = offset + Number(size);
+            contents.set(object, output.subarray(offset, end));
+            offset = end + 1;
+        }
+        return contents;
+    }
+
+    /**
+     * Read `git blame --line-porcelain` output: every line gets a "<commit> <original line>
+     * <final line> [<group size>]" header, its commit's fields and the line itself after a TAB
+     */
+    private static parseBlameOutput(output: string): GitBlame {
+        const blame: GitBlame = { authors: [], lineAuthors: [], hasUncommittedLines: false };
+        const authorIndexes = new Map<string, number>();
+        let commit = '';
+        let finalLine = 0;
+        let name = '';
+        let email = '';
+        for (const line of output.split('\n')) {
+            if (line.startsWith('\t')) {
+                const key = `${name}\0${email}`;
+                let index = authorIndexes.get(key);
+                if (index === undefined) {
+                    index = blame.authors.push({ name, email }) - 1;
+                    authorIndexes.set(key, index);
+                }
+                blame.lineAuthors[finalLine - 1] = index;
+                blame.hasUncommittedLines = blame.hasUncommittedLines || /^0+$/.test(commit);
+            } else if (line.startsWith('author ')) {
+                name = line.substring('author '.length);
+            } else if (line.startsWith('author-mail ')) {
+                email = line.substring('author-mail '.length).replace(/^<|>$/g, '');
+            } else {
+                const header = /^([0-9a-f]{40,64}) \d+ (\d+)/.exec(line);
+                if (header) {
+                    commit = header[1];
+                    finalLine = Number(header[2]);
+                }
+            }
+        }
+        return blame;
+    }
+
+    /**
+     * Trimmed output of a git command, or undefined when it fails
+     */
+    private async tryRun(args: string[], cwd: string): Promise<string | undefined> {
+        try {
+            const output = (await this.run(args, cwd)).trim();
+            return output || undefined;
+        } catch (error) {
+            this.debug.verbose(`git ${args.join(' ')} failed in ${cwd}:`, error);
+            return undefined;
+        }
+    }
+
+    private run(args: string[], cwd: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            execFile('git', args, { cwd, maxBuffer: GitService.MAX_BUFFER, windowsHide: true }, (error, stdout) => {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(stdout);
+                }
+            });
+        });
+    }
+}
@@ -0,0 +1,134 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as vscode from 'vscode';
+import { LineCountResult } from '../types';
+import { DebugService } from './debugService';
+import { GitCommit, GitService } from './gitService';
+import { LineCounterService } from './lineCounter';
+import { SnapshotService } from './snapshotService';
+import { LineCountSnapshot } from './workspaceDatabaseService';
+import { BackfillInterval, selectBackfillCommits } from '../utils/snapshotUtils';
+
+/**
+ * Past commits a backfill is going to count
+ */
+export interface BackfillPlan {
+    workspacePath: string;
+    /** Oldest first, without the commits that already have a snapshot */
+    commits: GitCommit[];
+    /** Selected commits skipped because they already have a snapshot */
+    alreadyRecorded: number;
+    /** Selected commits skipped because the retention policy would prune them right away */
+    beyondRetention: number;
+}
+
+/**
+ * Records snapshots of past commits by counting their trees straight from the git object
+ * database, so history from before the extension was installed shows up in the trends.
+ * Commits that already have a snapshot are skipped, which makes an interrupted backfill resume.
+ */
+export class HistoryBackfillService {
+    private static instance: HistoryBackfillService | undefined;
+
+    private debug = DebugService.getInstance();
+    private git = GitService.getInstance();
+    private lineCounter = new LineCounterService();
+    private snapshots = SnapshotService.getInstance();
+
+    public static getInstance(): HistoryBackfillService {
+        if (!HistoryBackfillService.instance) {
+            HistoryBackfillService.instance = new HistoryBackfillService();
+        }
+        return HistoryBackfillService.instance;
+    }
+
+    /**
+     * Commits of a workspace folder to count for an interval; undefined when the folder
+     * is not in a git repository
+     */
+    async planBackfill(workspacePath: string, interval: BackfillInterval): Promise<BackfillPlan | undefined> {
+        const history = interval.kind === 'tags'
+            ? await this.git.getTaggedCommits(workspacePath)
+            : await this.git.getCommitHistory(workspacePath);
+        if (!history) {
+            return undefined;
+        }
+
+        const recordedCommits = new Set((await this.snapshots.getSnapshots(workspacePath)).map(snapshot => snapshot.commit));
+        const { maxAgeDays } = this.snapshots.getRetentionPolicy();
+        const oldestKept = maxAgeDays > 0 ? Date.now() - maxAgeDays * 24 * 60 * 60 * 1000 : -Infinity;
+
+        const plan: BackfillPlan = { workspacePath, commits: [], alreadyRecorded: 0, beyondRetention: 0 };
+        for (const commit of selectBackfillCommits(history, interval)) {
+            if (recordedCommits.has(commit.hash)) {
+                plan.alreadyRecorded++;
+            } else if (!commit.tags?.length && commit.date.getTime() < oldestKept) {
+                plan.beyondRetention++;
+            } else {
+                plan.commits.push(commit);
+            }
+        }
+        return plan;
+    }
+
+    /**
+     * Count each planned commit and record it as a 'backfill' snapshot dated at the commit,
+     * labelled with its tags. Stops between commits when cancelled and returns what was recorded.
+     */
+    async runBackfill(
+        plan: BackfillPlan,
+        onProgress?: (commit: GitCommit, index: number) => void,
+        cancellationToken?: vscode.CancellationToken
+    ): Promise<LineCountSnapshot[]> {
+        const { workspacePath } = plan;
+        const recorded: LineCountSnapshot[] = [];
+        for (const [index, commit] of plan.commits.entries()) {
+            if (cancellationToken?.isCancellationRequested) {
+                break;
+            }
+            onProgress?.(commit, index);
+
+            let result: LineCountResult;
+            try {
+                result = await this.lineCounter.countCommit(workspacePath, commit.hash, undefined, cancellationToken);
+            } catch (error) {
+                if (cancellationToken?.isCancellationRequested) {
+                    break;
+                }
+                throw error;
+            }
+
+            result.generatedAt = commit.date;
+            const label = commit.tags?.join(', ');
+            recorded.push(await this.snapshots.recordSnapshot(result, 'backfill', label, { commit: commit.hash }));
+            this.debug.verbose(`Backfilled commit ${commit.hash} of ${workspacePath}: ${result.totalLines} lines`);
+        }
+        return recorded;
+    }
+}
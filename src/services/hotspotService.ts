@@ -0,0 +1,96 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as vscode from 'vscode';
+import { FileInfo } from '../types';
+import { DebugService } from './debugService';
+import { GitFileChurn, GitService } from './gitService';
+import { rankHotspots } from '../utils/hotspotUtils';
+
+/**
+ * Finds hotspots: files that are both large and changed often, from the local git history
+ */
+export class HotspotService {
+    private static instance: HotspotService | undefined;
+
+    private debug = DebugService.getInstance();
+    private git = GitService.getInstance();
+    /** Churn per workspace folder, reused until HEAD, the window or the day changes */
+    private churnCache = new Map<string, { key: string; churn: Map<string, GitFileChurn> }>();
+
+    public static getInstance(): HotspotService {
+        if (!HotspotService.instance) {
+            HotspotService.instance = new HotspotService();
+        }
+        return HotspotService.instance;
+    }
+
+    /**
+     * Attach the commits, changed lines and hotspot score of each counted file for the report
+     * and the exports, from `git log --numstat` over codeCounter.hotspots.windowDays. Files
+     * outside a git repository are left without one.
+     */
+    async addHotspots(workspacePath: string, files: FileInfo[]): Promise<void> {
+        const config = vscode.workspace.getConfiguration('codeCounter');
+        if (!config.get<boolean>('hotspots.enabled', true) || files.length === 0) {
+            return;
+        }
+
+        const startTime = Date.now();
+        const churn = await this.getFileChurn(workspacePath, config.get<number>('hotspots.windowDays', 90));
+        if (!churn) {
+            return;
+        }
+
+        rankHotspots(files, churn);
+        this.debug.info(`Ranked hotspots of ${files.length} files from ${churn.size} changed paths in ${Date.now() - startTime}ms`);
+    }
+
+    /**
+     * Churn of the files below a workspace folder over the last windowDays days (0 for the
+     * whole history); undefined outside a git repository
+     */
+    private async getFileChurn(workspacePath: string, windowDays: number): Promise<Map<string, GitFileChurn> | undefined> {
+        const head = await this.git.getHeadCommit(workspacePath);
+        if (!head) {
+            return undefined;
+        }
+        const key = `${head}:${windowDays}:${new Date().toDateString()}`;
+        const cached = this.churnCache.get(workspacePath);
+        if (cached?.key === key) {
+            return cached.churn;
+        }
+
+        const since = windowDays > 0 ? new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000) : undefined;
+        const churn = await this.git.getFileChurn(workspacePath, since);
+        if (churn) {
+            this.churnCache.set(workspacePath, { key, churn });
+        }
+        return churn;
+    }
+}
@@ -32,6 +32,8 @@ import CleanCSS from 'clean-css';
 import { minify as htmlMinify } from 'html-minifier-terser';
 import { DebugService } from './debugService';
 import { LineCountResult } from '../types';
+import { FileSizeChange, formatLineChange, formatPercentChange, LineCountDiff } from '../utils/diffUtils';
+import { escapeHtml } from '../utils/htmlUtils';
 
 export class HtmlGeneratorService {
     private debug = DebugService.getInstance();
@@ -121,6 +123,123 @@ export class HtmlGeneratorService {
         return htmlFilePath;
     }
     
+    /**
+     * HTML page of a comparison. The interactive version, shown in the webview, adds export buttons.
+     */
+    async generateDiffHtml(diff: LineCountDiff, interactive = false): Promise<string> {
+        const templatePath = path.join(__dirname, '../../templates/diff-report.html');
+        const htmlTemplate = await fs.promises.readFile(templatePath, 'utf8');
+
+        const packageJsonPath = path.join(__dirname, '../../package.json');
+        const packageJson = JSON.parse(await fs.promises.readFile(packageJsonPath, 'utf8'));
+
+        const describe = (side: LineCountDiff['base']) =>
+            escapeHtml(side.generatedAt ? `${side.title} (${new Date(side.generatedAt).toLocaleString()})` : side.title);
+        const changeCell = (change: number, percentChange: number | undefined) => {
+            const changeClass = change > 0 ? 'change-up' : change < 0 ? 'change-down' : '';
+            return `<td class="number ${changeClass}">${formatLineChange(change)}</td><td class="number ${changeClass}">${formatPercentChange(percentChange)}</td>`;
+        };
+
+        const withLineChanges = diff.totals.linesAdded !== undefined;
+        const summaryCards = [
+            { label: 'Lines', value: formatLineChange(diff.totals.change), detail: `${diff.totals.baseLines.toLocaleString()} → ${diff.totals.lines.toLocaleString()} (${formatPercentChange(diff.totals.percentChange)})` },
+            { label: 'Files', value: formatLineChange(diff.totals.files - diff.totals.baseFiles), detail: `${diff.totals.baseFiles.toLocaleString()} → ${diff.totals.files.toLocaleString()}` },
+            { label: 'New files', value: diff.added.length.toLocaleString() },
+            { label: 'Deleted files', value: diff.removed.length.toLocaleString() },
+            { label: 'Grown files', value: diff.grown.length.toLocaleString() },
+            { label: 'Shrunk files', value: diff.shrunk.length.toLocaleString() },
+            { label: 'Unchanged files', value: diff.unchangedFiles.toLocaleString() },
+            ...(withLineChanges ? [{ label: 'Lines added / removed', value: `+${diff.totals.linesAdded!.toLocaleString()} / −${diff.totals.linesRemoved!.toLocaleString()}` }] : [])
+        ].map(card => `
+        <div class="stat-card">
+            <div class="stat-value">${card.value}</div>
+            <div class="stat-label">${card.label}${card.detail ? `<br>${card.detail}` : ''}</div>
+        </div>`).join('');
+
+        const languageTable = diff.languages.length === 0 ? '<p class="empty">No files on either side</p>' : `
+    <table>
+        <thead><tr><th>Language</th><th class="number">Files</th><th class="number">Lines</th>${withLineChanges ? '<th class="number">Added</th><th class="number">Removed</th>' : ''}<th class="number">Change</th><th class="number">Change %</th></tr></thead>
+        <tbody>${diff.languages.map(language => `
+            <tr>
+                <td>${escapeHtml(language.language)}</td>
+                <td class="number">${language.baseFiles.toLocaleString()} → ${language.files.toLocaleString()}</td>
+                <td class="number">${language.baseLines.toLocaleString()} → ${language.lines.toLocaleString()}</td>
+                ${withLineChanges ? `<td class="number change-up">+${language.linesAdded!.toLocaleString()}</td><td class="number change-down">−${language.linesRemoved!.toLocaleString()}</td>` : ''}
+                ${changeCell(language.change, language.percentChange)}
+            </tr>`).join('')}
+        </tbody>
+    </table>`;
+
+        const fileSection = (title: string, files: FileSizeChange[]) => `
+    <h2 class="section-title">${title} (${files.length.toLocaleString()})</h2>
+    ${files.length === 0 ? '<p class="empty">None</p>' : `
+    <table>
+        <thead><tr><th>File</th><th>Language</th><th class="number">Before</th><th class="number">After</th><th class="number">Change</th><th class="number">Change %</th></tr></thead>
+        <tbody>${files.map(file => `
+            <tr>
+                <td>${escapeHtml(file.filePath)}</td>
+                <td>${escapeHtml(file.language)}</td>
+                <td class="number">${file.baseLines.toLocaleString()}</td>
+                <td class="number">${file.lines.toLocaleString()}</td>
+                ${changeCell(file.change, file.percentChange)}
+            </tr>`).join('')}
+        </tbody>
+    </table>`}`;
+
+        const tierSection = !diff.tierChanges ? '' : `
+    <h2 class="section-title">🚦 Threshold Changes (${diff.tierChanges.length.toLocaleString()})</h2>
+    ${diff.tierChanges.length === 0 ? '<p class="empty">No file changed tier</p>' : `
+    <table>
+        <thead><tr><th>File</th><th class="number">Before</th><th class="number">After</th><th>Tier</th></tr></thead>
+        <tbody>${diff.tierChanges.map(file => `
+            <tr>
+                <td>${escapeHtml(file.filePath)}</td>
+                <td class="number">${file.baseLines.toLocaleString()}</td>
+                <td class="number">${file.lines.toLocaleString()}</td>
+                <td>${file.baseTier ? `${file.baseTier} → ` : ''}${file.tier}</td>
+            </tr>`).join('')}
+        </tbody>
+    </table>`}`;
+
+        const toolbar = !interactive ? '' : `
+        <div class="actions">
+            <button class="btn" data-copy="markdown">📝 Copy Markdown</button>
+            <button class="btn" data-export="html">📄 Export HTML</button>
+            <button class="btn" data-export="csv">📊 Export CSV</button>
+            <button class="btn" data-export="json">📋 Export JSON</button>
+            <button class="btn" data-export="xml">📄 Export XML</button>
+            <button class="btn" data-export="all">📚 Export All</button>
+        </div>`;
+        const script = !interactive ? '' : `
+    <script>
+        const vscode = acquireVsCodeApi();
+        document.querySelectorAll('[data-export]').forEach(button => {
+            button.addEventListener('click', () => vscode.postMessage({ command: 'export', format: button.getAttribute('data-export') }));
+        });
+        document.querySelectorAll('[data-copy]').forEach(button => {
+            button.addEventListener('click', () => vscode.postMessage({ command: 'copy', format: button.getAttribute('data-copy') }));
+        });
+    </script>`;
+
+        // Replacement functions keep $ sequences in file names literal
+        return htmlTemplate
+            .replace('{{BASE_TITLE}}', () => describe(diff.base))
+            .replace('{{CURRENT_TITLE}}', () => describe(diff.current))
+            .replace('{{GENERATED_DATE}}', () => new Date().toLocaleString())
+            .replace('{{TOOLBAR}}', () => toolbar)
+            .replace('{{SUMMARY_CARDS}}', () => summaryCards)
+            .replace('{{LANGUAGE_TABLE}}', () => languageTable)
+            .replace('{{FILE_SECTIONS}}', () => [
+                tierSection,
+                fileSection('🆕 New Files', diff.added),
+                fileSection('🗑️ Deleted Files', diff.removed),
+                fileSection('📈 Grown Files', diff.grown),
+                fileSection('📉 Shrunk Files', diff.shrunk)
+            ].join(''))
+            .replace('{{VERSION}}', () => packageJson.version)
+            .replace('{{SCRIPT}}', () => script);
+    }
+
     async getEmbeddedCSS(): Promise<string> {
         const templatesPath = path.join(__dirname, '../../templates');
         const cssFilePath = path.join(templatesPath, 'report.css');
@@ -371,11 +490,18 @@ export class HtmlGeneratorService {
                     directory: directory,
                     fileName: fileName,
                     language: fileInfo.language || 'Unknown',
+                    languageSource: fileInfo.languageSource,
                     lines: fileInfo.lines || 0,
                     codeLines: fileInfo.codeLines || 0,
                     commentLines: fileInfo.commentLines || 0,
                     blankLines: fileInfo.blankLines || 0,
-                    size: fileInfo.size || 0
+                    mixedLines: fileInfo.mixedLines || 0,
+                    size: fileInfo.size || 0,
+                    languageSections: fileInfo.languageSections,
+                    largestSymbol: fileInfo.largestSymbol,
+                    authors: fileInfo.authors,
+                    hotspot: fileInfo.hotspot,
+                    linguist: fileInfo.linguist
                 };
             });
             
@@ -0,0 +1,161 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DebugService } from './debugService';
+import { GitService } from './gitService';
+import { findMatchingIgnoreRule, IgnoreRule, parseIgnoreFile } from '../utils/ignoreFileUtils';
+
+export type DiscoveryMode = 'patterns' | 'ignoreFiles';
+
+interface RepositoryIgnoreRules {
+    /** Where the nested ignore files are looked up from: the repository root, or the workspace outside git */
+    root: string;
+    /** Global and .git/info/exclude rules, which all nested ignore files take precedence over */
+    rules: IgnoreRule[];
+}
+
+/**
+ * Decides which files of a workspace are ignored by .gitignore, .ignore, .git/info/exclude
+ * and the global git excludes, with git's precedence: nested ignore files override the ones
+ * of their parent directories, .ignore overrides .gitignore in the same directory, and both
+ * override the exclude files. Ignore files are read once, so create one per count.
+ */
+export class IgnoreFileService {
+    private static readonly IGNORE_FILE_NAMES = ['.gitignore', '.ignore'];
+
+    private debug = DebugService.getInstance();
+    private repositoryRules: Promise<RepositoryIgnoreRules> | undefined;
+    private directoryRules = new Map<string, Promise<IgnoreRule[]>>();
+    private ignoredDirectories = new Map<string, Promise<IgnoreRule | undefined>>();
+
+    constructor(private workspacePath: string) {
+    }
+
+    /**
+     * Whether codeCounter.discoveryMode honors ignore files on top of the exclusion patterns
+     */
+    static isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('codeCounter').get<DiscoveryMode>('discoveryMode', 'patterns') === 'ignoreFiles';
+    }
+
+    /**
+     * The rule ignoring a file or directory, or undefined when it is not ignored. Everything
+     * below an ignored directory is ignored, as git cannot re-include it.
+     */
+    async getIgnoringRule(filePath: string, isDirectory = false): Promise<IgnoreRule | undefined> {
+        const { root, rules } = await this.getRepositoryRules();
+        const relativePath = path.relative(root, filePath);
+        if (!relativePath || relativePath === '..' || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath)) {
+            return undefined;
+        }
+
+        let directory = root;
+        for (const part of relativePath.split(path.sep).slice(0, -1)) {
+            directory = path.join(directory, part);
+            let directoryRule = this.ignoredDirectories.get(directory);
+            if (!directoryRule) {
+                directoryRule = this.matchRules(rules, root, directory, true);
+                this.ignoredDirectories.set(directory, directoryRule);
+            }
+            const ignoringRule = await directoryRule;
+            if (ignoringRule) {
+                return ignoringRule;
+            }
+        }
+        return this.matchRules(rules, root, filePath, isDirectory);
+    }
+
+    async isIgnored(filePath: string, isDirectory = false): Promise<boolean> {
+        return (await this.getIgnoringRule(filePath, isDirectory)) !== undefined;
+    }
+
+    /**
+     * The deciding rule of a path itself, from the exclude files and the ignore files of the
+     * directories from the root down to the path's parent
+     */
+    private async matchRules(rules: IgnoreRule[], root: string, filePath: string, isDirectory: boolean): Promise<IgnoreRule | undefined> {
+        const applicableRules = [...rules];
+        let directory = root;
+        applicableRules.push(...await this.getDirectoryRules(directory));
+        for (const part of path.relative(root, path.dirname(filePath)).split(path.sep).filter(part => part)) {
+            directory = path.join(directory, part);
+            applicableRules.push(...await this.getDirectoryRules(directory));
+        }
+
+        const rule = findMatchingIgnoreRule(applicableRules, filePath, isDirectory);
+        return rule && !rule.negated ? rule : undefined;
+    }
+
+    private getDirectoryRules(directory: string): Promise<IgnoreRule[]> {
+        let rules = this.directoryRules.get(directory);
+        if (!rules) {
+            rules = Promise.all(IgnoreFileService.IGNORE_FILE_NAMES.map(fileName => this.readIgnoreFile(path.join(directory, fileName), directory)))
+                .then(fileRules => fileRules.flat());
+            this.directoryRules.set(directory, rules);
+        }
+        return rules;
+    }
+
+    private getRepositoryRules(): Promise<RepositoryIgnoreRules> {
+        if (!this.repositoryRules) {
+            this.repositoryRules = this.loadRepositoryRules();
+        }
+        return this.repositoryRules;
+    }
+
+    private async loadRepositoryRules(): Promise<RepositoryIgnoreRules> {
+        const git = GitService.getInstance();
+        const root = await git.getWorkspaceRepositoryRoot(this.workspacePath);
+        if (!root) {
+            this.debug.verbose('Not a git repository, only .gitignore and .ignore files apply:', this.workspacePath);
+            return { root: this.workspacePath, rules: [] };
+        }
+
+        const infoExcludePath = await git.getInfoExcludePath(this.workspacePath);
+        const rules = [
+            ...await this.readIgnoreFile(await git.getGlobalExcludesPath(this.workspacePath), root),
+            ...(infoExcludePath ? await this.readIgnoreFile(infoExcludePath, root) : [])
+        ];
+        return { root, rules };
+    }
+
+    private async readIgnoreFile(filePath: string, baseDir: string): Promise<IgnoreRule[]> {
+        let content: string;
+        try {
+            content = await fs.promises.readFile(filePath, 'utf8');
+        } catch {
+            return [];
+        }
+        const rules = parseIgnoreFile(content, baseDir, filePath);
+        this.debug.verbose(`Read ${rules.length} ignore rules from ${filePath}`);
+        return rules;
+    }
+}
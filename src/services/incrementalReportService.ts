@@ -0,0 +1,247 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileInfo, LineCountResult } from '../types';
+import { DebugService } from './debugService';
+import { LineCounterService } from './lineCounter';
+import { addToLanguageStats, removeFromLanguageStats } from '../utils/languageStatsUtils';
+
+/**
+ * Line totals for a directory and everything below it
+ */
+export interface DirectoryTotals {
+    /** Path relative to the workspace, with forward slashes ('' for the workspace root) */
+    path: string;
+    files: number;
+    lines: number;
+    codeLines: number;
+    commentLines: number;
+    blankLines: number;
+}
+
+/**
+ * What changed in a workspace report after an incremental update
+ */
+export interface ReportDelta {
+    workspacePath: string;
+    /** Files that were added or recounted */
+    updatedFiles: FileInfo[];
+    /** Paths of files that left the report (deleted, renamed away or now excluded) */
+    removedFiles: string[];
+    /** Totals of every directory touched by the change; emptied directories report zero files */
+    directories: DirectoryTotals[];
+    /** The full report after the change */
+    result: LineCountResult;
+}
+
+interface WorkspaceReportState {
+    files: Map<string, FileInfo>;
+    languageStats: LineCountResult['languageStats'];
+    directories: Map<string, DirectoryTotals>;
+}
+
+/**
+ * Keeps the last full line count of each workspace in memory and updates it file by
+ * file on save/create/delete/rename, so reports can be refreshed without a rescan
+ */
+export class IncrementalReportService {
+    private static instance: IncrementalReportService;
+    private debug = DebugService.getInstance();
+    private lineCounter = new LineCounterService();
+    private states = new Map<string, WorkspaceReportState>();
+
+    public static getInstance(): IncrementalReportService {
+        if (!IncrementalReportService.instance) {
+            IncrementalReportService.instance = new IncrementalReportService();
+        }
+        return IncrementalReportService.instance;
+    }
+
+    /**
+     * Record a full count as the starting point for incremental updates
+     */
+    setBaseline(result: LineCountResult): void {
+        const state: WorkspaceReportState = { files: new Map(), languageStats: {}, directories: new Map() };
+        for (const fileInfo of result.files) {
+            this.addFile(state, fileInfo);
+        }
+        this.states.set(result.workspacePath, state);
+        this.debug.verbose('Incremental report baseline recorded:', { workspacePath: result.workspacePath, files: state.files.size });
+    }
+
+    hasBaseline(workspacePath: string): boolean {
+        return this.states.has(workspacePath);
+    }
+
+    /**
+     * The current report for a workspace, or undefined before its first full count
+     */
+    getResult(workspacePath: string): LineCountResult | undefined {
+        const state = this.states.get(workspacePath);
+        return state ? this.toResult(workspacePath, state) : undefined;
+    }
+
+    /**
+     * Totals for one directory (relative path, '' for the root)
+     */
+    getDirectoryTotals(workspacePath: string, relativeDirectory: string): DirectoryTotals | undefined {
+        return this.states.get(workspacePath)?.directories.get(relativeDirectory);
+    }
+
+    /**
+     * Recount changed paths and update the stored report. Paths may be files or deleted
+     * directories. Returns undefined when there is no baseline yet or a directory was
+     * added, in which case the caller should fall back to a full count.
+     */
+    async applyChanges(workspacePath: string, changedPaths: string[]): Promise<ReportDelta | undefined> {
+        const state = this.states.get(workspacePath);
+        if (!state) {
+            return undefined;
+        }
+
+        const filePaths = new Set<string>();
+        for (const changedPath of changedPaths) {
+            let stats: fs.Stats | undefined;
+            try {
+                stats = await fs.promises.stat(changedPath);
+            } catch {
+                // Deleted; a deleted directory takes every file below it out of the report
+                const prefix = changedPath + path.sep;
+                for (const filePath of state.files.keys()) {
+                    if (filePath.startsWith(prefix)) {
+                        filePaths.add(filePath);
+                    }
+                }
+            }
+            if (stats?.isDirectory()) {
+                this.debug.info('Directory added, incremental update not possible:', changedPath);
+                return undefined;
+            }
+            filePaths.add(changedPath);
+        }
+
+        const counts = await this.lineCounter.countChangedFiles(workspacePath, [...filePaths]);
+        const updatedFiles: FileInfo[] = [];
+        const removedFiles: string[] = [];
+        const touchedDirectories = new Set<string>();
+
+        for (const [filePath, fileInfo] of counts) {
+            const previous = state.files.get(filePath);
+            if (previous) {
+                this.removeFile(state, previous);
+                this.getDirectoryKeys(previous).forEach(key => touchedDirectories.add(key));
+            }
+            if (fileInfo) {
+                this.addFile(state, fileInfo);
+                this.getDirectoryKeys(fileInfo).forEach(key => touchedDirectories.add(key));
+                updatedFiles.push(fileInfo);
+            } else if (previous) {
+                state.files.delete(filePath);
+                removedFiles.push(filePath);
+            }
+        }
+
+        const directories = [...touchedDirectories].map(key =>
+            state.directories.get(key) || { path: key, files: 0, lines: 0, codeLines: 0, commentLines: 0, blankLines: 0 });
+
+        this.debug.info('Incremental report update:', { workspacePath, updated: updatedFiles.length, removed: removedFiles.length });
+        return { workspacePath, updatedFiles, removedFiles, directories, result: this.toResult(workspacePath, state) };
+    }
+
+    clear(workspacePath?: string): void {
+        if (workspacePath) {
+            this.states.delete(workspacePath);
+        } else {
+            this.states.clear();
+        }
+    }
+
+    private addFile(state: WorkspaceReportState, fileInfo: FileInfo): void {
+        state.files.set(fileInfo.path, fileInfo);
+        addToLanguageStats(state.languageStats, fileInfo);
+        for (const key of this.getDirectoryKeys(fileInfo)) {
+            let totals = state.directories.get(key);
+            if (!totals) {
+                totals = { path: key, files: 0, lines: 0, codeLines: 0, commentLines: 0, blankLines: 0 };
+                state.directories.set(key, totals);
+            }
+            totals.files++;
+            totals.lines += fileInfo.lines;
+            totals.codeLines += fileInfo.codeLines;
+            totals.commentLines += fileInfo.commentLines;
+            totals.blankLines += fileInfo.blankLines;
+        }
+    }
+
+    /**
+     * Take a file out of the aggregates; its entry stays in place so a recount keeps the file order
+     */
+    private removeFile(state: WorkspaceReportState, fileInfo: FileInfo): void {
+        removeFromLanguageStats(state.languageStats, fileInfo);
+        for (const key of this.getDirectoryKeys(fileInfo)) {
+            const totals = state.directories.get(key);
+            if (!totals) {
+                continue;
+            }
+            totals.files--;
+            totals.lines -= fileInfo.lines;
+            totals.codeLines -= fileInfo.codeLines;
+            totals.commentLines -= fileInfo.commentLines;
+            totals.blankLines -= fileInfo.blankLines;
+            if (totals.files <= 0) {
+                state.directories.delete(key);
+            }
+        }
+    }
+
+    /**
+     * The workspace root and every directory containing the file
+     */
+    private getDirectoryKeys(fileInfo: FileInfo): string[] {
+        const segments = fileInfo.relativePath.replace(/\\/g, '/').split('/').slice(0, -1);
+        return ['', ...segments.map((_, index) => segments.slice(0, index + 1).join('/'))];
+    }
+
+    private toResult(workspacePath: string, state: WorkspaceReportState): LineCountResult {
+        const files = [...state.files.values()];
+        const languageStats: LineCountResult['languageStats'] = {};
+        for (const [language, stats] of Object.entries(state.languageStats)) {
+            languageStats[language] = { ...stats };
+        }
+        return {
+            workspacePath,
+            totalFiles: files.length,
+            totalLines: state.directories.get('')?.lines || 0,
+            files,
+            languageStats,
+            generatedAt: new Date()
+        };
+    }
+}
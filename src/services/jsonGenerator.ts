@@ -26,6 +26,7 @@
  * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
  */
 import { LineCountResult, FileInfo } from '../types';
+import { LineCountDiff } from '../utils/diffUtils';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -60,6 +61,43 @@ export class JsonGeneratorService {
         return JSON.stringify(jsonData, null, 2);
     }
 
+    generateDiffJson(diff: LineCountDiff): string {
+        const packageJsonPath = path.join(__dirname, '../../package.json');
+        const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+        const version = packageJson.version;
+
+        const jsonData = {
+            metadata: {
+                generatedAt: new Date().toISOString(),
+                generatedBy: `VS Code Code Counter v${version} by DelightfulGames`,
+                generatorUrl: 'https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter',
+                version: version,
+                base: diff.base,
+                current: diff.current
+            },
+            totals: diff.totals,
+            languages: diff.languages,
+            files: {
+                added: diff.added,
+                removed: diff.removed,
+                grown: diff.grown,
+                shrunk: diff.shrunk,
+                unchanged: diff.unchangedFiles
+            },
+            ...(diff.tierChanges ? {
+                tierChanges: diff.tierChanges.map(file => ({
+                    relativePath: file.filePath,
+                    baseLines: file.baseLines,
+                    lines: file.lines,
+                    baseTier: file.baseTier || null,
+                    tier: file.tier
+                }))
+            } : {})
+        };
+
+        return JSON.stringify(jsonData, null, 2);
+    }
+
     private convertFileToJson(file: FileInfo) {
         const fileName = path.basename(file.relativePath);
         const directory = path.dirname(file.relativePath);
@@ -69,11 +107,18 @@ export class JsonGeneratorService {
             fileName: fileName,
             directory: directory === '.' ? '' : directory,
             language: file.language,
+            languageSource: file.languageSource || 'unknown',
             lines: file.lines || 0,
             codeLines: file.codeLines || 0,
             commentLines: file.commentLines || 0,
             blankLines: file.blankLines || 0,
-            size: file.size || 0
+            mixedLines: file.mixedLines || 0,
+            size: file.size || 0,
+            ...(file.languageSections ? { languageSections: file.languageSections } : {}),
+            ...(file.largestSymbol ? { largestSymbol: file.largestSymbol } : {}),
+            ...(file.authors ? { authors: file.authors } : {}),
+            ...(file.hotspot ? { hotspot: file.hotspot } : {}),
+            ...(file.linguist ? { linguist: file.linguist } : {})
         };
     }
 }
\ No newline at end of file
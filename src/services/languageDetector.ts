@@ -0,0 +1,172 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { GlobUtils } from '../utils/globUtils';
+import { DebugService } from './debugService';
+import { LanguageRegistry } from './languageRegistry';
+import { LanguageDetection, LanguageTable } from './languageTable';
+
+export { LanguageDetection };
+
+/**
+ * Detects a file's language from its path and, when available, its content.
+ * Pipeline order:
+ * 1. Language ID of the open editor (so counts match what VS Code shows)
+ * 2. The `files.associations` setting
+ * 3. Exact file name (Dockerfile, Jenkinsfile, Gemfile, ...)
+ * 4. Extension, unless it is shared by several languages
+ * 5. Shebang line (`#!/usr/bin/env python3`)
+ * 6. Vim/Emacs modelines in the first or last lines
+ * 7. Content heuristics for ambiguous extensions (`.h`, `.m`)
+ *
+ * Steps 3-7 are shared with worker threads through LanguageTable.
+ */
+export class LanguageDetector {
+    /** Bytes read from disk when only the head and tail of a file are needed */
+    private static readonly HEAD_BYTES = 8 * 1024;
+    private static readonly TAIL_BYTES = 1024;
+
+    private debug = DebugService.getInstance();
+    private languageRegistry = LanguageRegistry.getInstance();
+
+    /**
+     * Detect a language from the file path, using content-based steps only when content is given.
+     * `languageId` overrides the open-document lookup, e.g. for untitled documents.
+     */
+    detect(filePath: string, content?: string, languageId?: string): LanguageDetection {
+        return this.detectFromWorkspace(filePath, languageId)
+            || this.languageRegistry.getTable().detect(filePath, content);
+    }
+
+    /**
+     * Only the steps that depend on VS Code state (open editors and `files.associations`).
+     * Undefined means the file's path and content decide.
+     */
+    detectFromWorkspace(filePath: string, languageId?: string): LanguageDetection | undefined {
+        const byLanguageId = this.getLanguageForLanguageId(languageId ?? this.getOpenDocumentLanguageId(filePath));
+        if (byLanguageId) {
+            return { language: byLanguageId, source: 'languageId' };
+        }
+
+        const byAssociation = this.getAssociatedLanguage(filePath);
+        if (byAssociation) {
+            return { language: byAssociation, source: 'association' };
+        }
+        return undefined;
+    }
+
+    /**
+     * Detect a language reading only the head and tail of the file, which is
+     * enough for shebangs, modelines and heuristics
+     */
+    async detectFromFile(filePath: string): Promise<LanguageDetection> {
+        try {
+            return this.detect(filePath, await this.readHeadAndTail(filePath));
+        } catch (error) {
+            this.debug.verbose('Could not read file for language detection:', { filePath, error });
+            return this.detect(filePath);
+        }
+    }
+
+    static parseShebang(firstLine: string): string | undefined {
+        return LanguageTable.parseShebang(firstLine);
+    }
+
+    static findModeline(lines: string[]): string | undefined {
+        return LanguageTable.findModeline(lines);
+    }
+
+    /**
+     * Map a VS Code language ID (`typescriptreact`, `shellscript`, ...) to a registered language.
+     * `plaintext` is VS Code's fallback for unknown files, so it never overrides detection.
+     */
+    private getLanguageForLanguageId(languageId: string | undefined): string | undefined {
+        if (!languageId || languageId === 'plaintext') {
+            return undefined;
+        }
+        return this.languageRegistry.getLanguageByAlias(languageId)?.name;
+    }
+
+    private getOpenDocumentLanguageId(filePath: string): string | undefined {
+        const normalizedPath = path.normalize(filePath);
+        const document = (vscode.workspace.textDocuments || []).find(candidate =>
+            candidate.uri.scheme === 'file' && path.normalize(candidate.uri.fsPath) === normalizedPath
+        );
+        return document?.languageId;
+    }
+
+    /**
+     * Match `files.associations`: patterns with a path separator are matched against the
+     * full path, others against the file name (same rules as VS Code)
+     */
+    private getAssociatedLanguage(filePath: string): string | undefined {
+        const config = vscode.workspace.getConfiguration('files', vscode.Uri.file(filePath));
+        const associations = config.get<Record<string, string>>('associations', {});
+        if (!associations || typeof associations !== 'object') {
+            return undefined;
+        }
+
+        const normalizedPath = filePath.replace(/\\/g, '/');
+        const fileName = path.basename(normalizedPath);
+        for (const [pattern, languageId] of Object.entries(associations)) {
+            const target = pattern.includes('/') ? normalizedPath : fileName;
+            if (typeof languageId === 'string' && GlobUtils.matchesPattern(target, pattern)) {
+                const language = this.getLanguageForLanguageId(languageId);
+                if (language) {
+                    return language;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    private async readHeadAndTail(filePath: string): Promise<string> {
+        const handle = await fs.promises.open(filePath, 'r');
+        try {
+            const { size } = await handle.stat();
+            const headLength = Math.min(size, LanguageDetector.HEAD_BYTES);
+            const head = Buffer.alloc(headLength);
+            await handle.read(head, 0, headLength, 0);
+            if (size <= headLength) {
+                return head.toString('utf8');
+            }
+
+            const tailLength = Math.min(size - headLength, LanguageDetector.TAIL_BYTES);
+            const tail = Buffer.alloc(tailLength);
+            await handle.read(tail, 0, tailLength, size - tailLength);
+            // Drop the partial first line of the tail and keep head/tail on separate lines
+            const tailText = tail.toString('utf8');
+            return `${head.toString('utf8')}\n${tailText.substring(tailText.indexOf('\n') + 1)}`;
+        } finally {
+            await handle.close();
+        }
+    }
+}
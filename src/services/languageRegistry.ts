@@ -0,0 +1,238 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DebugService } from './debugService';
+import { LanguageSyntax } from './lineClassifier';
+import { LanguageDefinition, LanguageHeuristic, LanguageTable } from './languageTable';
+import bundledDefinitions from '../data/languages.json';
+
+export { LanguageDefinition, LanguageHeuristic };
+
+interface LanguageDefinitionsFile {
+    languages: LanguageDefinition[];
+    heuristics: LanguageHeuristic[];
+    /** Extensions known to hold text but without a language of their own */
+    textExtensions: string[];
+    binaryExtensions: string[];
+}
+
+/**
+ * Single source of truth for language detection, comment syntax and the
+ * known text/binary extension lists. Built-in definitions are bundled as JSON;
+ * workspaces can add their own through settings or the workspace database.
+ */
+export class LanguageRegistry implements vscode.Disposable {
+    private static instance: LanguageRegistry | null = null;
+    private debug = DebugService.getInstance();
+    private settingsLanguages: LanguageDefinition[] = [];
+    private workspaceLanguages: LanguageDefinition[] = [];
+    private table = new LanguageTable([], []);
+    private textExtensions = new Set<string>();
+    private binaryExtensions = new Set<string>();
+    private configWatcher: vscode.Disposable;
+    private _onDidChangeLanguages: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    readonly onDidChangeLanguages: vscode.Event<void> = this._onDidChangeLanguages.event;
+
+    private constructor() {
+        this.settingsLanguages = this.readSettingsLanguages();
+        this.rebuild();
+
+        this.configWatcher = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('codeCounter.languages')) {
+                this.settingsLanguages = this.readSettingsLanguages();
+                this.rebuild();
+                this._onDidChangeLanguages.fire();
+            } else if (event.affectsConfiguration('files.associations')) {
+                // Associations are read on demand by LanguageDetector; only listeners need to know
+                this._onDidChangeLanguages.fire();
+            }
+        });
+    }
+
+    static getInstance(): LanguageRegistry {
+        if (!LanguageRegistry.instance) {
+            LanguageRegistry.instance = new LanguageRegistry();
+        }
+        return LanguageRegistry.instance;
+    }
+
+    /**
+     * Replace the languages loaded from the workspace database
+     */
+    setWorkspaceLanguages(definitions: LanguageDefinition[]): void {
+        this.workspaceLanguages = definitions;
+        this.rebuild();
+        this._onDidChangeLanguages.fire();
+    }
+
+    /**
+     * Find the language for a file by exact file name first, then by extension
+     */
+    getLanguageForFile(filePath: string): LanguageDefinition | undefined {
+        const fileName = path.basename(filePath);
+        return this.getLanguageByFilename(fileName) || this.getLanguageByExtension(path.extname(fileName));
+    }
+
+    getLanguageByFilename(fileName: string): LanguageDefinition | undefined {
+        return this.table.getLanguageByFilename(fileName);
+    }
+
+    getLanguageByExtension(extension: string): LanguageDefinition | undefined {
+        return this.table.getLanguageByExtension(extension);
+    }
+
+    getLanguageByName(name: string): LanguageDefinition | undefined {
+        return this.table.getLanguageByName(name);
+    }
+
+    getLanguageByShebang(interpreter: string): LanguageDefinition | undefined {
+        return this.table.getLanguageByShebang(interpreter);
+    }
+
+    /**
+     * Case-insensitive lookup by language name or alias, as written in Vim/Emacs modelines
+     */
+    getLanguageByAlias(alias: string): LanguageDefinition | undefined {
+        return this.table.getLanguageByAlias(alias);
+    }
+
+    /**
+     * Content rules for an ambiguous extension; undefined when the extension maps to one language
+     */
+    getHeuristics(extension: string): Array<{ language: string; pattern: RegExp }> | undefined {
+        return this.table.getHeuristics(extension);
+    }
+
+    getAllLanguages(): LanguageDefinition[] {
+        return this.table.getAllLanguages();
+    }
+
+    /**
+     * Comment and string syntax for a language name; unknown languages get an
+     * empty syntax so every non-blank line counts as code
+     */
+    getSyntax(languageName: string): LanguageSyntax {
+        return this.table.getSyntax(languageName);
+    }
+
+    /**
+     * The current lookup tables. Replaced (not mutated) when definitions change,
+     * so a table handed to a long-running count stays consistent.
+     */
+    getTable(): LanguageTable {
+        return this.table;
+    }
+
+    /**
+     * Extensions that hold text: every language extension plus text-only formats
+     */
+    getKnownTextExtensions(): Set<string> {
+        return this.textExtensions;
+    }
+
+    getKnownBinaryExtensions(): Set<string> {
+        return this.binaryExtensions;
+    }
+
+    isKnownTextFile(filePath: string): boolean {
+        return !!this.table.getLanguageByFilename(path.basename(filePath)) || this.textExtensions.has(path.extname(filePath).toLowerCase());
+    }
+
+    isKnownBinaryFile(filePath: string): boolean {
+        return !this.table.getLanguageByFilename(path.basename(filePath)) && this.binaryExtensions.has(path.extname(filePath).toLowerCase());
+    }
+
+    private readSettingsLanguages(): LanguageDefinition[] {
+        const config = vscode.workspace.getConfiguration('codeCounter');
+        const languages = config.get<LanguageDefinition[]>('languages', []);
+        return Array.isArray(languages) ? languages : [];
+    }
+
+    /**
+     * Merge bundled, settings and workspace database definitions (in that order)
+     * and rebuild the lookup tables
+     */
+    private rebuild(): void {
+        const definitions = bundledDefinitions as LanguageDefinitionsFile;
+
+        const languages = new Map<string, LanguageDefinition>();
+        for (const definition of [...definitions.languages, ...this.settingsLanguages, ...this.workspaceLanguages]) {
+            if (!definition || typeof definition.name !== 'string' || definition.name.trim() === '') {
+                this.debug.warning('Ignoring language definition without a name:', definition);
+                continue;
+            }
+            const existing = languages.get(definition.name);
+            languages.set(definition.name, existing ? this.mergeDefinitions(existing, definition) : { ...definition });
+        }
+        this.table = new LanguageTable([...languages.values()], definitions.heuristics);
+
+        const languageExtensions = new Set(this.table.getExtensions());
+        this.textExtensions = new Set([
+            ...definitions.textExtensions,
+            ...languageExtensions
+        ]);
+        // An extension claimed by a language is never treated as binary
+        this.binaryExtensions = new Set(
+            definitions.binaryExtensions.filter(ext => !languageExtensions.has(ext))
+        );
+
+        this.debug.verbose('Language registry rebuilt:', {
+            languages: languages.size,
+            settingsLanguages: this.settingsLanguages.length,
+            workspaceLanguages: this.workspaceLanguages.length
+        });
+    }
+
+    /**
+     * Later definitions add file associations and override syntax fields they specify
+     */
+    private mergeDefinitions(base: LanguageDefinition, addition: LanguageDefinition): LanguageDefinition {
+        return {
+            name: base.name,
+            extensions: [...(base.extensions || []), ...(addition.extensions || [])],
+            filenames: [...(base.filenames || []), ...(addition.filenames || [])],
+            shebangs: [...(base.shebangs || []), ...(addition.shebangs || [])],
+            aliases: [...(base.aliases || []), ...(addition.aliases || [])],
+            lineComments: addition.lineComments || base.lineComments,
+            lineStartComments: addition.lineStartComments || base.lineStartComments,
+            wordStartComments: addition.wordStartComments || base.wordStartComments,
+            blockComments: addition.blockComments || base.blockComments,
+            strings: addition.strings || base.strings
+        };
+    }
+
+    dispose(): void {
+        this.configWatcher.dispose();
+        this._onDidChangeLanguages.dispose();
+        if (LanguageRegistry.instance === this) {
+            LanguageRegistry.instance = null;
+        }
+    }
+}
@@ -0,0 +1,284 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as path from 'path';
+import { LanguageDetectionSource } from '../types';
+import { BlockCommentSyntax, LanguageSyntax, StringSyntax } from './lineClassifier';
+
+/**
+ * A language as described in src/data/languages.json, the codeCounter.languages
+ * setting or the workspace database. Only `name` is required - workspace entries
+ * that reuse a built-in name extend that language instead of replacing it.
+ */
+export interface LanguageDefinition {
+    name: string;
+    extensions?: string[];
+    /** Exact file names without an extension, e.g. `Dockerfile`, `Makefile` */
+    filenames?: string[];
+    /** Interpreter names found in `#!` lines, e.g. `python3`, `node` */
+    shebangs?: string[];
+    /** Other names used by editor modelines, e.g. `cpp` for C++ or `sh` for Shell */
+    aliases?: string[];
+    lineComments?: string[];
+    lineStartComments?: string[];
+    wordStartComments?: string[];
+    blockComments?: BlockCommentSyntax[];
+    strings?: StringSyntax[];
+}
+
+/**
+ * Content patterns that pick a language for an extension shared by several
+ * languages (e.g. `.h` for C, C++ and Objective-C). Rules are tried in order;
+ * when none match, the language registered for the extension is kept.
+ */
+export interface LanguageHeuristic {
+    extensions: string[];
+    rules: Array<{ language: string; pattern: string }>;
+}
+
+export interface LanguageDetection {
+    language: string;
+    source: LanguageDetectionSource;
+}
+
+/**
+ * Lookup tables for a fixed set of merged language definitions. Has no VS Code
+ * dependency so the same tables can be rebuilt inside worker threads from
+ * plain definitions.
+ */
+export class LanguageTable {
+    /** Modelines are only honoured this close to the start or end of a file */
+    private static readonly MODELINE_LINES = 5;
+    /** Heuristic patterns only look at the start of the content */
+    private static readonly HEURISTIC_CHARS = 16 * 1024;
+
+    private languages = new Map<string, LanguageDefinition>();
+    private byExtension = new Map<string, LanguageDefinition>();
+    private byFilename = new Map<string, LanguageDefinition>();
+    private byShebang = new Map<string, LanguageDefinition>();
+    private byAlias = new Map<string, LanguageDefinition>();
+    private heuristics = new Map<string, Array<{ language: string; pattern: RegExp }>>();
+
+    /**
+     * @param definitions Merged definitions, one per language name
+     * @param heuristicDefinitions Content rules for ambiguous extensions
+     */
+    constructor(private definitions: LanguageDefinition[], private heuristicDefinitions: LanguageHeuristic[]) {
+        for (const language of definitions) {
+            this.languages.set(language.name, language);
+            (language.extensions || []).forEach(ext => this.byExtension.set(LanguageTable.normalizeExtension(ext), language));
+            (language.filenames || []).forEach(fileName => this.byFilename.set(fileName, language));
+            (language.shebangs || []).forEach(interpreter => this.byShebang.set(interpreter, language));
+            (language.aliases || []).forEach(alias => this.byAlias.set(alias.toLowerCase(), language));
+        }
+        // Exact names win over aliases of other languages
+        for (const language of definitions) {
+            this.byAlias.set(language.name.toLowerCase(), language);
+        }
+
+        for (const heuristic of heuristicDefinitions) {
+            const rules = heuristic.rules.map(rule => ({ language: rule.language, pattern: new RegExp(rule.pattern, 'm') }));
+            heuristic.extensions.forEach(ext => this.heuristics.set(LanguageTable.normalizeExtension(ext), rules));
+        }
+    }
+
+    /**
+     * The definitions this table was built from, e.g. to rebuild it in a worker thread
+     */
+    getDefinitions(): { languages: LanguageDefinition[]; heuristics: LanguageHeuristic[] } {
+        return { languages: this.definitions, heuristics: this.heuristicDefinitions };
+    }
+
+    getLanguageByFilename(fileName: string): LanguageDefinition | undefined {
+        return this.byFilename.get(fileName);
+    }
+
+    getLanguageByExtension(extension: string): LanguageDefinition | undefined {
+        return extension ? this.byExtension.get(LanguageTable.normalizeExtension(extension)) : undefined;
+    }
+
+    getLanguageByName(name: string): LanguageDefinition | undefined {
+        return this.languages.get(name);
+    }
+
+    getLanguageByShebang(interpreter: string): LanguageDefinition | undefined {
+        return this.byShebang.get(interpreter);
+    }
+
+    /**
+     * Case-insensitive lookup by language name or alias, as written in Vim/Emacs modelines
+     */
+    getLanguageByAlias(alias: string): LanguageDefinition | undefined {
+        return this.byAlias.get(alias.toLowerCase());
+    }
+
+    /**
+     * Content rules for an ambiguous extension; undefined when the extension maps to one language
+     */
+    getHeuristics(extension: string): Array<{ language: string; pattern: RegExp }> | undefined {
+        return this.heuristics.get(LanguageTable.normalizeExtension(extension));
+    }
+
+    getAllLanguages(): LanguageDefinition[] {
+        return [...this.languages.values()];
+    }
+
+    /**
+     * Normalized extensions claimed by at least one language
+     */
+    getExtensions(): string[] {
+        return [...this.byExtension.keys()];
+    }
+
+    /**
+     * Comment and string syntax for a language name; unknown languages get an
+     * empty syntax so every non-blank line counts as code
+     */
+    getSyntax(languageName: string): LanguageSyntax {
+        const language = this.languages.get(languageName);
+        return {
+            lineComments: language?.lineComments || [],
+            lineStartComments: language?.lineStartComments || [],
+            wordStartComments: language?.wordStartComments || [],
+            blockComments: language?.blockComments || [],
+            strings: language?.strings || []
+        };
+    }
+
+    /**
+     * Detect a language from the file path, using content-based steps only when content is given:
+     * file name, unambiguous extension, shebang, modeline, heuristics, then the extension itself
+     */
+    detect(filePath: string, content?: string): LanguageDetection {
+        const fileName = path.basename(filePath);
+        const extension = path.extname(fileName).toLowerCase();
+
+        const byFilename = this.getLanguageByFilename(fileName);
+        if (byFilename) {
+            return { language: byFilename.name, source: 'filename' };
+        }
+
+        const byExtension = this.getLanguageByExtension(extension);
+        const heuristics = this.getHeuristics(extension);
+        if (byExtension && !heuristics) {
+            return { language: byExtension.name, source: 'extension' };
+        }
+
+        if (content !== undefined) {
+            const lines = content.split('\n');
+
+            const interpreter = LanguageTable.parseShebang(lines[0] || '');
+            const byShebang = interpreter ? this.getLanguageForInterpreter(interpreter) : undefined;
+            if (byShebang) {
+                return { language: byShebang, source: 'shebang' };
+            }
+
+            const modeline = LanguageTable.findModeline(lines);
+            const byModeline = modeline ? this.getLanguageByAlias(modeline) : undefined;
+            if (byModeline) {
+                return { language: byModeline.name, source: 'modeline' };
+            }
+
+            const head = content.substring(0, LanguageTable.HEURISTIC_CHARS);
+            const rule = heuristics?.find(candidate => candidate.pattern.test(head));
+            if (rule) {
+                return { language: rule.language, source: 'heuristic' };
+            }
+        }
+
+        if (byExtension) {
+            return { language: byExtension.name, source: 'extension' };
+        }
+
+        // For unknown extensions that are being scanned (inclusion patterns),
+        // categorize by extension (e.g., ".xyz" instead of "Unknown")
+        return { language: extension || 'Unknown', source: 'unknown' };
+    }
+
+    /**
+     * Interpreter named by a `#!` line: `#!/bin/bash` → `bash`, `#!/usr/bin/env -S python3 -u` → `python3`
+     */
+    static parseShebang(firstLine: string): string | undefined {
+        const match = /^#!\s*(\S+)(.*)$/.exec(firstLine.trim());
+        if (!match) {
+            return undefined;
+        }
+
+        const program = match[1].split(/[\\/]/).pop() || '';
+        if (program !== 'env') {
+            return program || undefined;
+        }
+        // Skip env options (-S, -i) and VAR=value assignments
+        return match[2].trim().split(/\s+/).find(arg => arg !== '' && !arg.startsWith('-') && !arg.includes('='));
+    }
+
+    /**
+     * Language name from a Vim (`vim: set ft=python:`) or Emacs (`-*- mode: ruby -*-`)
+     * modeline in the first or last lines
+     */
+    static findModeline(lines: string[]): string | undefined {
+        const count = LanguageTable.MODELINE_LINES;
+        const candidates = lines.length <= count * 2
+            ? lines
+            : [...lines.slice(0, count), ...lines.slice(-count)];
+
+        for (const line of candidates) {
+            const vim = /(?:^|\s)(?:vi|vim|ex)(?:[<=>]?\d+)?:.*?\b(?:ft|filetype|syn|syntax)=([\w.+#-]+)/.exec(line);
+            if (vim) {
+                return vim[1];
+            }
+
+            const emacs = /-\*-(.*?)-\*-/.exec(line);
+            if (emacs) {
+                const settings = emacs[1].trim();
+                if (!settings.includes(':')) {
+                    return settings || undefined;
+                }
+                const mode = /(?:^|;)\s*mode\s*:\s*([\w.+#-]+)/i.exec(settings);
+                if (mode) {
+                    return mode[1];
+                }
+            }
+        }
+        return undefined;
+    }
+
+    static normalizeExtension(ext: string): string {
+        const lower = ext.toLowerCase();
+        return lower.startsWith('.') ? lower : `.${lower}`;
+    }
+
+    /**
+     * Look up an interpreter, ignoring version suffixes such as `python3.12` or `ruby2.7`
+     */
+    private getLanguageForInterpreter(interpreter: string): string | undefined {
+        const language = this.getLanguageByShebang(interpreter)
+            || this.getLanguageByShebang(interpreter.replace(/[\d.]+$/, ''));
+        return language?.name;
+    }
+}
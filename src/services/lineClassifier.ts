@@ -0,0 +1,342 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+/**
+ * Block comment delimiter pair (e.g. `/*` ... `*\/`, `{-` ... `-}`)
+ */
+export interface BlockCommentSyntax {
+    start: string;
+    end: string;
+    /** Language allows the same block comment to nest (Rust, Haskell, OCaml) */
+    nested?: boolean;
+    /** Only treated as a comment when nothing but whitespace precedes it on the line (Python docstrings, Ruby =begin) */
+    lineStart?: boolean;
+    /** Lua long brackets: any number of `=` may stand before the last character of start, and end must repeat them after its first (`--[==[` ... `]==]`) */
+    leveled?: boolean;
+}
+
+/**
+ * String literal delimiter pair - comment tokens inside strings are ignored
+ */
+export interface StringSyntax {
+    start: string;
+    end: string;
+    /** Escape character inside the literal, usually a backslash */
+    escape?: string;
+    /** Literal may continue on the following lines (template literals, triple-quoted strings) */
+    multiline?: boolean;
+    /** Same as BlockCommentSyntax.leveled (Lua `[==[` ... `]==]`) */
+    leveled?: boolean;
+    /** Character literal holding exactly one, possibly escaped, character (Rust `'"'`); an unmatched start is code, so lifetimes like `'a` never open a literal */
+    char?: boolean;
+}
+
+/**
+ * Lexical rules needed to tell code, comments and blank lines apart
+ */
+export interface LanguageSyntax {
+    lineComments: string[];
+    /** Line comment tokens that only count at the start of a line (COBOL `*`, Batch `REM`) */
+    lineStartComments?: string[];
+    /** Line comment tokens that only count at the start of a line or after whitespace (shell `#`, so `$#` and `${#x}` stay code) */
+    wordStartComments?: string[];
+    blockComments: BlockCommentSyntax[];
+    strings: StringSyntax[];
+}
+
+/**
+ * What a single physical line contains after lexing
+ */
+export interface LineClassification {
+    blank: boolean;
+    hasCode: boolean;
+    hasComment: boolean;
+}
+
+export interface LineBreakdown {
+    /** Lines with code only */
+    codeLines: number;
+    /** Lines with comment only */
+    commentLines: number;
+    blankLines: number;
+    /** Lines with both code and a comment (e.g. a trailing `// note`) */
+    mixedLines: number;
+}
+
+type Token =
+    | { kind: 'line'; text: string; lineStart: boolean; wordStart?: boolean }
+    | { kind: 'block'; text: string; block: BlockCommentSyntax }
+    | { kind: 'string'; text: string; str: StringSyntax };
+
+/** A token found in the line, with the delimiter that closes it */
+interface TokenMatch {
+    token: Token;
+    length: number;
+    end: string;
+}
+
+type LexerState =
+    | { mode: 'code' }
+    | { mode: 'block'; block: BlockCommentSyntax; end: string; depth: number }
+    | { mode: 'string'; str: StringSyntax; end: string };
+
+const CHAR_ESCAPE = /^(?:u\{[0-9a-fA-F_]{1,6}\}|x[0-9a-fA-F]{2}|[\s\S])/;
+
+/**
+ * Stateful per-language lexer that classifies lines one at a time.
+ * Open block comments and multi-line strings are carried across lines,
+ * so the middle of a `/* ... *\/` block is reported as comment and a `//`
+ * inside a string literal is reported as code.
+ */
+export class LineClassifier {
+    private tokens: Token[];
+    private state: LexerState = { mode: 'code' };
+
+    constructor(syntax: LanguageSyntax) {
+        const tokens: Token[] = [
+            ...syntax.blockComments.map(block => ({ kind: 'block' as const, text: block.start, block })),
+            ...syntax.lineComments.map(text => ({ kind: 'line' as const, text, lineStart: false })),
+            ...(syntax.lineStartComments || []).map(text => ({ kind: 'line' as const, text, lineStart: true })),
+            ...(syntax.wordStartComments || []).map(text => ({ kind: 'line' as const, text, lineStart: false, wordStart: true })),
+            ...syntax.strings.map(str => ({ kind: 'string' as const, text: str.start, str }))
+        ].filter(token => token.text.length > 0);
+
+        // Longest token wins (`--[[` before `--`, `"""` before `"`); Array.sort is stable,
+        // so for equal lengths comments keep priority over strings
+        this.tokens = tokens.sort((a, b) => b.text.length - a.text.length);
+    }
+
+    /**
+     * Reset lexer state before classifying a new file
+     */
+    reset(): void {
+        this.state = { mode: 'code' };
+    }
+
+    /**
+     * Classify the next line of the file. When `comments` is given, the text of each
+     * comment on the line (delimiters included) is appended to it.
+     */
+    classifyLine(line: string, comments?: string[]): LineClassification {
+        let hasCode = false;
+        let hasComment = false;
+        let i = 0;
+        let commentStart = this.state.mode === 'block' ? 0 : -1;
+
+        while (i < line.length) {
+            const state = this.state;
+
+            if (state.mode === 'block') {
+                if (state.block.nested && line.startsWith(state.block.start, i)) {
+                    state.depth++;
+                    hasComment = true;
+                    i += state.block.start.length;
+                } else if (line.startsWith(state.end, i)) {
+                    state.depth--;
+                    hasComment = true;
+                    i += state.end.length;
+                    if (state.depth === 0) {
+                        this.state = { mode: 'code' };
+                        comments?.push(line.slice(commentStart, i));
+                    }
+                } else {
+                    if (!this.isWhitespace(line[i])) {
+                        hasComment = true;
+                    }
+                    i++;
+                }
+                continue;
+            }
+
+            if (state.mode === 'string') {
+                if (!this.isWhitespace(line[i])) {
+                    hasCode = true;
+                }
+                if (state.str.escape && line.startsWith(state.str.escape, i) && state.str.escape !== state.end) {
+                    i += state.str.escape.length + 1;
+                } else if (line.startsWith(state.end, i)) {
+                    i += state.end.length;
+                    this.state = { mode: 'code' };
+                } else {
+                    i++;
+                }
+                continue;
+            }
+
+            if (this.isWhitespace(line[i])) {
+                i++;
+                continue;
+            }
+
+            const match = this.matchToken(line, i, !hasCode);
+            if (!match) {
+                hasCode = true;
+                i++;
+                continue;
+            }
+
+            const token = match.token;
+            if (token.kind === 'line') {
+                hasComment = true;
+                comments?.push(line.slice(i));
+                break;
+            }
+
+            if (token.kind === 'block') {
+                hasComment = true;
+                commentStart = i;
+                this.state = { mode: 'block', block: token.block, end: match.end, depth: 1 };
+            } else {
+                hasCode = true;
+                // A character literal is matched whole, so the lexer stays in code
+                if (!token.str.char) {
+                    this.state = { mode: 'string', str: token.str, end: match.end };
+                }
+            }
+            i += match.length;
+        }
+
+        if (this.state.mode === 'block') {
+            comments?.push(line.slice(commentStart));
+        }
+
+        // Unterminated single-line strings end with the line
+        if (this.state.mode === 'string' && !this.state.str.multiline) {
+            this.state = { mode: 'code' };
+        }
+
+        return {
+            blank: !hasCode && !hasComment,
+            hasCode,
+            hasComment
+        };
+    }
+
+    /**
+     * Classify every line of a file's content and return the totals
+     */
+    classifyContent(lines: string[]): LineBreakdown {
+        this.reset();
+        const breakdown: LineBreakdown = { codeLines: 0, commentLines: 0, blankLines: 0, mixedLines: 0 };
+        for (const line of lines) {
+            const result = this.classifyLine(line);
+            if (result.blank) {
+                breakdown.blankLines++;
+            } else if (result.hasCode && result.hasComment) {
+                breakdown.mixedLines++;
+            } else if (result.hasCode) {
+                breakdown.codeLines++;
+            } else {
+                breakdown.commentLines++;
+            }
+        }
+        return breakdown;
+    }
+
+    private matchToken(line: string, index: number, atLineStart: boolean): TokenMatch | undefined {
+        for (const token of this.tokens) {
+            if (token.kind === 'line') {
+                if (line.startsWith(token.text, index) && (!token.lineStart || atLineStart)
+                    && (!token.wordStart || index === 0 || this.isWhitespace(line[index - 1]))) {
+                    return { token, length: token.text.length, end: '' };
+                }
+                continue;
+            }
+
+            const delimiters = token.kind === 'block' ? token.block : token.str;
+            if (token.kind === 'block' && token.block.lineStart && !atLineStart) {
+                continue;
+            }
+            const match = delimiters.leveled
+                ? this.matchLeveledStart(line, index, delimiters)
+                : line.startsWith(token.text, index) ? { length: token.text.length, end: delimiters.end } : undefined;
+            if (!match) {
+                continue;
+            }
+            if (token.kind === 'string' && token.str.char) {
+                const length = this.matchCharLiteral(line, index + match.length, token.str);
+                if (length === 0) {
+                    continue;
+                }
+                return { token, length: match.length + length, end: match.end };
+            }
+            return { token, ...match };
+        }
+        return undefined;
+    }
+
+    /**
+     * Match `start` with any number of `=` before its last character, e.g. `--[==[` for `--[[`,
+     * and build the end delimiter with the same level, e.g. `]==]` for `]]`
+     */
+    private matchLeveledStart(line: string, index: number, delimiters: { start: string; end: string }): { length: number; end: string } | undefined {
+        const prefix = delimiters.start.slice(0, -1);
+        if (!line.startsWith(prefix, index)) {
+            return undefined;
+        }
+        let i = index + prefix.length;
+        while (line[i] === '=') {
+            i++;
+        }
+        if (!line.startsWith(delimiters.start.slice(-1), i)) {
+            return undefined;
+        }
+        const level = '='.repeat(i - index - prefix.length);
+        return {
+            length: i + 1 - index,
+            end: delimiters.end.slice(0, 1) + level + delimiters.end.slice(1)
+        };
+    }
+
+    /**
+     * Length of the body and closing delimiter of a character literal whose body starts at index,
+     * or 0 when it does not hold exactly one (possibly escaped) character
+     */
+    private matchCharLiteral(line: string, index: number, str: StringSyntax): number {
+        let i = index;
+        if (str.escape && line.startsWith(str.escape, i)) {
+            i += str.escape.length;
+            const escape = CHAR_ESCAPE.exec(line.slice(i, i + 10));
+            if (!escape) {
+                return 0;
+            }
+            i += escape[0].length;
+        } else {
+            const codePoint = line.codePointAt(i);
+            if (codePoint === undefined || line.startsWith(str.end, i)) {
+                return 0;
+            }
+            i += codePoint > 0xffff ? 2 : 1;
+        }
+        return line.startsWith(str.end, i) ? i + str.end.length - index : 0;
+    }
+
+    private isWhitespace(char: string): boolean {
+        return char === ' ' || char === '\t' || char === '\r' || char === '\f' || char === '\v';
+    }
+}
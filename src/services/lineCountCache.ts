@@ -30,12 +30,16 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { LineCounterService } from './lineCounter';
 import { DebugService } from './debugService';
+import { LanguageDetector } from './languageDetector';
+import { LineCountIndexService } from './lineCountIndexService';
 
 export interface CachedLineCount {
+    language: string;
     lines: number;
     codeLines: number;
     commentLines: number;
     blankLines: number;
+    mixedLines: number;
     lastModified: number;
     size: number;
 }
@@ -44,6 +48,7 @@ export class LineCountCacheService {
     private debug = DebugService.getInstance();
     private cache = new Map<string, CachedLineCount>();
     private lineCounter: LineCounterService;
+    private languageDetector = new LanguageDetector();
     private disposables: vscode.Disposable[] = [];
 
     constructor() {
@@ -113,19 +118,27 @@ export class LineCountCacheService {
                 return cached;
             }
 
-            // Count lines and cache the result
-            this.debug.verbose('calling lineCounter.countFileLines for:', filePath);
-            const fileInfo = await this.lineCounter.countFileLines(filePath);
-            this.debug.verbose('countFileLines returned:', fileInfo);
+            // Reuse the count stored in the workspace database, otherwise count and store it
+            const index = this.getLineCountIndex(filePath);
+            let fileInfo = index ? await index.get(filePath) : null;
+            if (!fileInfo) {
+                this.debug.verbose('calling lineCounter.countFileWithStats for:', filePath);
+                const counted = await this.lineCounter.countFileWithStats(filePath);
+                index?.store([counted]);
+                fileInfo = counted.fileInfo;
+            }
+            this.debug.verbose('line count result:', fileInfo);
             if (!fileInfo) {
                 this.debug.verbose('fileInfo is null/undefined, returning null');
                 return null;
             }
             const lineCount: CachedLineCount = {
+                language: fileInfo.language,
                 lines: fileInfo.lines,
                 codeLines: fileInfo.codeLines,
                 commentLines: fileInfo.commentLines,
                 blankLines: fileInfo.blankLines,
+                mixedLines: fileInfo.mixedLines,
                 lastModified: stats.mtimeMs,
                 size: stats.size
             };
@@ -145,14 +158,17 @@ export class LineCountCacheService {
         if (document.uri.scheme !== 'file') {
             // For non-file documents, count directly from content
             try {
-                const lines = document.getText().split('\n');
+                const content = document.getText();
+                const breakdown = this.lineCounter.classifyContent(content, document.uri.path, document.languageId);
                 return {
-                    lines: lines.length,
-                    codeLines: lines.filter(line => line.trim() !== '').length,
-                    commentLines: 0, // Would need language-specific logic
-                    blankLines: lines.filter(line => line.trim() === '').length,
+                    language: this.languageDetector.detect(document.uri.path, content, document.languageId).language,
+                    lines: content.split('\n').length,
+                    codeLines: breakdown.codeLines,
+                    commentLines: breakdown.commentLines,
+                    blankLines: breakdown.blankLines,
+                    mixedLines: breakdown.mixedLines,
                     lastModified: Date.now(),
-                    size: document.getText().length
+                    size: content.length
                 };
             } catch (error) {
                 return null;
@@ -162,6 +178,24 @@ export class LineCountCacheService {
         return this.getLineCount(document.uri.fsPath);
     }
 
+    /**
+     * Index of the workspace folder holding the file; undefined for files outside the workspace
+     */
+    private getLineCountIndex(filePath: string): LineCountIndexService | undefined {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+        if (!workspaceFolder || workspaceFolder.uri.scheme !== 'file') {
+            return undefined;
+        }
+
+        const workspacePath = workspaceFolder.uri.fsPath;
+        const relativePath = path.relative(workspacePath, filePath);
+        if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+            return undefined;
+        }
+
+        return LineCountIndexService.getInstance(workspacePath);
+    }
+
     clearCache(): void {
         this.cache.clear();
     }
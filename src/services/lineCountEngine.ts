@@ -0,0 +1,228 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileInfo, LanguageSection, MixedLineAccounting } from '../types';
+import { LineBreakdown, LineClassifier } from './lineClassifier';
+import { EmbeddedLanguageSplitter } from './embeddedLanguageSplitter';
+import { LanguageDetection, LanguageTable } from './languageTable';
+
+/**
+ * Language lookups needed to classify lines; satisfied by both the
+ * LanguageRegistry and a plain LanguageTable
+ */
+export type LineCountLanguages = Pick<LanguageTable, 'getSyntax' | 'getLanguageByAlias'>;
+
+/**
+ * A counted file together with the on-disk state it was counted from,
+ * as stored in the persistent line count index
+ */
+export interface CountedFile {
+    fileInfo: FileInfo;
+    /** `mtimeMs` rounded down, as stored for binary detection */
+    modificationTime: number;
+    /** Size on disk in bytes */
+    fileSize: number;
+    /** SHA-1 of the content that was counted */
+    contentHash: string;
+}
+
+/**
+ * Reads files and classifies their lines. Free of VS Code APIs so the same
+ * code runs in the extension host and in line count worker threads.
+ */
+export class LineCountEngine {
+    /** Files above this size are streamed instead of read in one call */
+    private static readonly LARGE_FILE_THRESHOLD = 10 * 1024 * 1024;
+    private static readonly STREAM_CHUNK_SIZE = 64 * 1024;
+    /** Streaming stops after this many bytes */
+    private static readonly MAX_FILE_BYTES = 50 * 1024 * 1024;
+    /** Yield once before classifying files with more lines than this */
+    private static readonly LINE_BATCH_SIZE = 50000;
+
+    private embeddedLanguageSplitter: EmbeddedLanguageSplitter;
+
+    constructor(private languages: LineCountLanguages, private mixedLineAccounting: MixedLineAccounting) {
+        this.embeddedLanguageSplitter = new EmbeddedLanguageSplitter(languages);
+    }
+
+    /**
+     * Read and count a file. `detect` picks the language once the content is known.
+     */
+    async countFile(filePath: string, detect: (content: string) => LanguageDetection, workspacePath?: string): Promise<CountedFile> {
+        const stats = await fs.promises.stat(filePath);
+        const content = await LineCountEngine.readContent(filePath, stats.size);
+        return {
+            fileInfo: await this.createFileInfo(filePath, content, detect(content), workspacePath),
+            modificationTime: Math.floor(stats.mtimeMs),
+            fileSize: stats.size,
+            contentHash: LineCountEngine.hashContent(content)
+        };
+    }
+
+    /**
+     * Read a file as UTF-8, streaming very large files and truncating them at 50MB
+     */
+    static async readContent(filePath: string, fileSize: number): Promise<string> {
+        if (fileSize <= LineCountEngine.LARGE_FILE_THRESHOLD) {
+            return fs.promises.readFile(filePath, 'utf8');
+        }
+
+        const chunks: Buffer[] = [];
+        const stream = fs.createReadStream(filePath, { encoding: 'utf8', highWaterMark: LineCountEngine.STREAM_CHUNK_SIZE });
+        for await (const chunk of stream) {
+            chunks.push(Buffer.from(chunk, 'utf8'));
+            if (chunks.length * LineCountEngine.STREAM_CHUNK_SIZE > LineCountEngine.MAX_FILE_BYTES) {
+                stream.destroy();
+                break;
+            }
+        }
+        return Buffer.concat(chunks).toString('utf8');
+    }
+
+    static hashContent(content: string): string {
+        return crypto.createHash('sha1').update(content).digest('hex');
+    }
+
+    /**
+     * Build the FileInfo for content already read from `filePath`
+     */
+    async createFileInfo(filePath: string, content: string, detection: LanguageDetection, workspacePath?: string): Promise<FileInfo> {
+        const lines = content.split('\n');
+        if (lines.length > LineCountEngine.LINE_BATCH_SIZE) {
+            await new Promise(resolve => setImmediate(resolve));
+        }
+        const sections = this.classifyLanguageSections(detection.language, lines);
+        const { codeLines, commentLines, blankLines, mixedLines } = LineCountEngine.sumSections(sections);
+
+        const relativePath = workspacePath ? path.relative(workspacePath, filePath) : path.relative(path.dirname(filePath), filePath);
+        return {
+            path: filePath,
+            relativePath,
+            fullPath: relativePath.replace(/\\/g, '/'), // Use normalized relative path
+            language: detection.language,
+            languageSource: detection.source,
+            lines: lines.length,
+            codeLines,
+            commentLines,
+            blankLines,
+            mixedLines,
+            size: content.length,
+            // Only files with embedded languages carry a per-language breakdown
+            ...(sections.length > 1 ? { languageSections: sections } : {})
+        };
+    }
+
+    /**
+     * Classify lines per language: embedded blocks (script/style, fenced code, Razor code)
+     * use their own syntax and are reported under their own language. The host language
+     * comes first; mixed-line accounting is already applied to each section.
+     */
+    classifyLanguageSections(hostLanguage: string, lines: string[]): LanguageSection[] {
+        const breakdowns = this.classifyLinesByKey(hostLanguage, lines, language => language);
+        const host = breakdowns.get(hostLanguage) || { lines: 0, codeLines: 0, commentLines: 0, blankLines: 0, mixedLines: 0 };
+        breakdowns.delete(hostLanguage);
+        return [[hostLanguage, host] as const, ...breakdowns.entries()].map(([language, breakdown]) => ({ language, ...breakdown }));
+    }
+
+    /**
+     * Classify lines like classifyLanguageSections but total them under the key returned for
+     * each line, e.g. the author who last changed it. Mixed-line accounting is applied.
+     */
+    classifyLinesByKey(
+        hostLanguage: string,
+        lines: string[],
+        keyOf: (language: string, lineIndex: number) => string
+    ): Map<string, LineBreakdown & { lines: number }> {
+        const breakdowns = new Map<string, LineBreakdown & { lines: number }>();
+        // The host classifier keeps its state across segments (e.g. an HTML comment around a block)
+        const hostClassifier = new LineClassifier(this.languages.getSyntax(hostLanguage));
+
+        for (const segment of this.embeddedLanguageSplitter.split(hostLanguage, lines)) {
+            const classifier = segment.language === hostLanguage
+                ? hostClassifier
+                : new LineClassifier(this.languages.getSyntax(segment.language));
+
+            for (let i = segment.start; i < segment.end; i++) {
+                const key = keyOf(segment.language, i);
+                let breakdown = breakdowns.get(key);
+                if (!breakdown) {
+                    breakdown = { lines: 0, codeLines: 0, commentLines: 0, blankLines: 0, mixedLines: 0 };
+                    breakdowns.set(key, breakdown);
+                }
+
+                // Classifier keeps block comment / string state across lines
+                const classification = classifier.classifyLine(lines[i]);
+                breakdown.lines++;
+                
+                if (classification.blank) {
+                    breakdown.blankLines++;
+                } else if (classification.hasCode && classification.hasComment) {
+                    breakdown.mixedLines++;
+                } else if (classification.hasCode) {
+                    breakdown.codeLines++;
+                } else {
+                    breakdown.commentLines++;
+                }
+            }
+        }
+
+        for (const [key, breakdown] of breakdowns) {
+            breakdowns.set(key, { lines: breakdown.lines, ...this.applyMixedLineAccounting(breakdown) });
+        }
+        return breakdowns;
+    }
+
+    static sumSections(sections: LanguageSection[]): LineBreakdown {
+        return sections.reduce((total, section) => ({
+            codeLines: total.codeLines + section.codeLines,
+            commentLines: total.commentLines + section.commentLines,
+            blankLines: total.blankLines + section.blankLines,
+            mixedLines: total.mixedLines + section.mixedLines
+        }), { codeLines: 0, commentLines: 0, blankLines: 0, mixedLines: 0 });
+    }
+
+    /**
+     * Fold mixed (code + trailing comment) lines into the code and/or comment totals
+     * according to the codeCounter.mixedLineAccounting setting. mixedLines is kept as-is
+     * so reports can show it as its own metric.
+     */
+    private applyMixedLineAccounting(breakdown: LineBreakdown): LineBreakdown {
+        const countsAsCode = this.mixedLineAccounting === 'code' || this.mixedLineAccounting === 'both';
+        const countsAsComment = this.mixedLineAccounting === 'comment' || this.mixedLineAccounting === 'both';
+
+        return {
+            codeLines: breakdown.codeLines + (countsAsCode ? breakdown.mixedLines : 0),
+            commentLines: breakdown.commentLines + (countsAsComment ? breakdown.mixedLines : 0),
+            blankLines: breakdown.blankLines,
+            mixedLines: breakdown.mixedLines
+        };
+    }
+}
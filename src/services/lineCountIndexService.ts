@@ -0,0 +1,304 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FileInfo, MixedLineAccounting } from '../types';
+import { DebugService } from './debugService';
+import { LanguageDetector } from './languageDetector';
+import { LanguageRegistry } from './languageRegistry';
+import { LanguageTable } from './languageTable';
+import { CountedFile, LineCountEngine } from './lineCountEngine';
+import { FileLineCountRecord, WorkspaceDatabaseService } from './workspaceDatabaseService';
+import { getWorkspaceService } from '../utils/workspaceUtils';
+
+/**
+ * Persistent line counts for one workspace, stored in the file_line_counts table.
+ * A stored count is reused while the file's size and modification time are unchanged;
+ * when only the modification time changed, the content hash decides. Counts made
+ * with other language definitions or mixed-line settings are never reused.
+ * Counters share one index per workspace folder, see getInstance.
+ */
+export class LineCountIndexService implements vscode.Disposable {
+    /** New counts are written in one transaction after this delay */
+    private static readonly FLUSH_DELAY_MS = 2000;
+    /** Files stat'ed concurrently during lookup */
+    private static readonly STAT_BATCH_SIZE = 200;
+
+    private static instances = new Map<string, LineCountIndexService>();
+
+    private debug = DebugService.getInstance();
+    private languageRegistry = LanguageRegistry.getInstance();
+    private languageDetector = new LanguageDetector();
+    private pendingRecords = new Map<string, FileLineCountRecord>();
+    private flushTimer: NodeJS.Timeout | undefined;
+    private signature: { table: LanguageTable; mixedLineAccounting: MixedLineAccounting; value: string } | undefined;
+
+    constructor(private workspacePath: string) {}
+
+    /**
+     * Shared index of a workspace folder, created on first use
+     */
+    static getInstance(workspacePath: string): LineCountIndexService {
+        const normalizedPath = path.normalize(workspacePath);
+        let index = LineCountIndexService.instances.get(normalizedPath);
+        if (!index) {
+            index = new LineCountIndexService(normalizedPath);
+            LineCountIndexService.instances.set(normalizedPath, index);
+        }
+        return index;
+    }
+
+    /**
+     * Write pending counts of a workspace folder that left the workspace and drop its index
+     */
+    static clear(workspacePath: string): void {
+        LineCountIndexService.instances.get(path.normalize(workspacePath))?.dispose();
+    }
+
+    static disposeAll(): void {
+        [...LineCountIndexService.instances.values()].forEach(index => index.dispose());
+    }
+
+    /** Looked up on each use, as the cached database service is replaced when settings change */
+    private get databaseService(): WorkspaceDatabaseService {
+        return getWorkspaceService(this.workspacePath);
+    }
+
+    /**
+     * Split files into those with a valid stored count and those that must be counted.
+     * `misses` keeps the order of `filePaths`.
+     */
+    async lookup(filePaths: string[]): Promise<{ hits: Map<string, FileInfo>; misses: string[] }> {
+        const records = await this.databaseService.getFileLineCounts();
+        const hits = new Map<string, FileInfo>();
+        const misses: string[] = [];
+
+        for (let batchStart = 0; batchStart < filePaths.length; batchStart += LineCountIndexService.STAT_BATCH_SIZE) {
+            const batch = filePaths.slice(batchStart, batchStart + LineCountIndexService.STAT_BATCH_SIZE);
+            const results = await Promise.all(batch.map(filePath => {
+                const relativePath = this.getRelativePath(filePath);
+                return this.validate(filePath, this.pendingRecords.get(relativePath) || records.get(relativePath));
+            }));
+            batch.forEach((filePath, index) => {
+                const fileInfo = results[index];
+                if (fileInfo) {
+                    hits.set(filePath, fileInfo);
+                } else {
+                    misses.push(filePath);
+                }
+            });
+        }
+
+        this.debug.verbose('Line count index lookup:', { files: filePaths.length, hits: hits.size, misses: misses.length });
+        return { hits, misses };
+    }
+
+    /**
+     * Stored count for a single file, or null when it must be counted
+     */
+    async get(filePath: string): Promise<FileInfo | null> {
+        const relativePath = this.getRelativePath(filePath);
+        const record = this.pendingRecords.get(relativePath) || await this.databaseService.getFileLineCount(relativePath);
+        return this.validate(filePath, record || undefined);
+    }
+
+    /**
+     * Queue counted files for storage; they are written together after a short delay
+     */
+    store(countedFiles: CountedFile[]): void {
+        if (countedFiles.length === 0) {
+            return;
+        }
+
+        const countingSignature = this.getCountingSignature();
+        for (const counted of countedFiles) {
+            const record = this.toRecord(counted, countingSignature);
+            this.pendingRecords.set(record.filePath, record);
+        }
+
+        if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => {
+                this.flush().catch(error => this.debug.error('Failed to flush line count index:', error));
+            }, LineCountIndexService.FLUSH_DELAY_MS);
+        }
+    }
+
+    /**
+     * Write queued counts to the database now
+     */
+    async flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = undefined;
+        }
+        if (this.pendingRecords.size === 0) {
+            return;
+        }
+
+        const records = [...this.pendingRecords.values()];
+        this.pendingRecords.clear();
+        await this.databaseService.setFileLineCounts(records);
+    }
+
+    /**
+     * Drop stored counts for files that no longer exist. Files in `currentFilePaths`
+     * were just counted or looked up, so only the other entries are checked.
+     */
+    async removeDeletedFiles(currentFilePaths: string[]): Promise<void> {
+        const current = new Set(currentFilePaths.map(filePath => this.getRelativePath(filePath)));
+        const records = await this.databaseService.getFileLineCounts();
+        const deleted: string[] = [];
+
+        for (const relativePath of records.keys()) {
+            if (current.has(relativePath)) {
+                continue;
+            }
+            try {
+                await fs.promises.access(path.resolve(this.workspacePath, relativePath));
+            } catch {
+                deleted.push(relativePath);
+            }
+        }
+        await this.databaseService.removeFileLineCounts(deleted);
+    }
+
+    /**
+     * Forget stored counts for files that were deleted or left the report
+     */
+    async remove(filePaths: string[]): Promise<void> {
+        const relativePaths = filePaths.map(filePath => this.getRelativePath(filePath));
+        relativePaths.forEach(relativePath => this.pendingRecords.delete(relativePath));
+        await this.databaseService.removeFileLineCounts(relativePaths);
+    }
+
+    /**
+     * Rebuild a FileInfo from a stored record if it still describes the file on disk
+     */
+    private async validate(filePath: string, record: FileLineCountRecord | undefined): Promise<FileInfo | null> {
+        if (!record || record.countingSignature !== this.getCountingSignature()) {
+            return null;
+        }
+
+        // Open editors and files.associations may have changed the language since the count
+        const workspaceDetection = this.languageDetector.detectFromWorkspace(filePath);
+        if (workspaceDetection
+            ? workspaceDetection.language !== record.language
+            : record.languageSource === 'languageId' || record.languageSource === 'association') {
+            return null;
+        }
+
+        let stats: fs.Stats;
+        try {
+            stats = await fs.promises.stat(filePath);
+        } catch {
+            return null;
+        }
+        if (stats.size !== record.fileSize) {
+            return null;
+        }
+
+        const modificationTime = Math.floor(stats.mtimeMs);
+        if (modificationTime !== record.modificationTime) {
+            // Touched but possibly unchanged (checkouts, build tools): compare content
+            const content = await LineCountEngine.readContent(filePath, stats.size);
+            if (LineCountEngine.hashContent(content) !== record.contentHash) {
+                return null;
+            }
+            this.pendingRecords.set(record.filePath, { ...record, modificationTime });
+        }
+
+        const relativePath = path.relative(this.workspacePath, filePath);
+        return {
+            path: filePath,
+            relativePath,
+            fullPath: relativePath.replace(/\\/g, '/'),
+            language: record.language,
+            languageSource: record.languageSource,
+            lines: record.lines,
+            codeLines: record.codeLines,
+            commentLines: record.commentLines,
+            blankLines: record.blankLines,
+            mixedLines: record.mixedLines,
+            size: record.contentLength,
+            ...(record.languageSections ? { languageSections: record.languageSections } : {})
+        };
+    }
+
+    private toRecord(counted: CountedFile, countingSignature: string): FileLineCountRecord {
+        const { fileInfo } = counted;
+        return {
+            filePath: this.getRelativePath(fileInfo.path),
+            modificationTime: counted.modificationTime,
+            fileSize: counted.fileSize,
+            contentHash: counted.contentHash,
+            countingSignature,
+            language: fileInfo.language,
+            languageSource: fileInfo.languageSource,
+            lines: fileInfo.lines,
+            codeLines: fileInfo.codeLines,
+            commentLines: fileInfo.commentLines,
+            blankLines: fileInfo.blankLines,
+            mixedLines: fileInfo.mixedLines,
+            contentLength: fileInfo.size,
+            languageSections: fileInfo.languageSections
+        };
+    }
+
+    /**
+     * Hash of everything besides the file itself that affects its counts
+     */
+    private getCountingSignature(): string {
+        const table = this.languageRegistry.getTable();
+        // A resource setting: the value of this workspace folder, as used when counting it
+        const config = vscode.workspace.getConfiguration('codeCounter', vscode.Uri.file(this.workspacePath));
+        const mixedLineAccounting = config.get<MixedLineAccounting>('mixedLineAccounting', 'code');
+
+        if (!this.signature || this.signature.table !== table || this.signature.mixedLineAccounting !== mixedLineAccounting) {
+            const value = crypto.createHash('sha1')
+                .update(JSON.stringify({ ...table.getDefinitions(), mixedLineAccounting }))
+                .digest('hex');
+            this.signature = { table, mixedLineAccounting, value };
+        }
+        return this.signature.value;
+    }
+
+    private getRelativePath(filePath: string): string {
+        return path.relative(this.workspacePath, filePath).replace(/\\/g, '/');
+    }
+
+    dispose(): void {
+        const normalizedPath = path.normalize(this.workspacePath);
+        if (LineCountIndexService.instances.get(normalizedPath) === this) {
+            LineCountIndexService.instances.delete(normalizedPath);
+        }
+        this.flush().catch(error => this.debug.error('Failed to flush line count index:', error));
+    }
+}
@@ -0,0 +1,189 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Worker } from 'worker_threads';
+import { DebugService } from './debugService';
+import { CountedFile } from './lineCountEngine';
+import {
+    LineCountWorkerData,
+    LineCountWorkerFile,
+    LineCountWorkerRequest,
+    LineCountWorkerResponse
+} from '../workers/lineCountMessages';
+
+export interface LineCountWorkerPoolOptions {
+    /** Files sent to a worker at a time */
+    chunkSize: number;
+    /** Called for each counted file as soon as its worker reports it */
+    onResult: (counted: CountedFile) => void;
+    /** Called for each file a worker could not read or classify */
+    onError: (filePath: string, message: string) => void;
+    cancellationToken?: vscode.CancellationToken;
+}
+
+/**
+ * Counts lines on worker threads so large workspaces do not block the extension host.
+ * Workers are started for each countFiles call and terminated when it settles;
+ * cancelling terminates them immediately.
+ */
+export class LineCountWorkerPool implements vscode.Disposable {
+    private static readonly MAX_WORKERS = 8;
+    private static readonly WORKER_SCRIPT = path.join(__dirname, '..', 'workers', 'lineCountWorker.js');
+
+    private debug = DebugService.getInstance();
+    private workers: Worker[] = [];
+
+    /**
+     * @param workerData Language definitions and settings every worker starts with
+     * @param size Maximum number of worker threads
+     */
+    constructor(private workerData: LineCountWorkerData, private size = LineCountWorkerPool.getDefaultSize()) {}
+
+    /**
+     * One worker per spare CPU core, keeping a core for the extension host
+     */
+    static getDefaultSize(): number {
+        return Math.max(1, Math.min(os.cpus().length - 1, LineCountWorkerPool.MAX_WORKERS));
+    }
+
+    /**
+     * False when the compiled worker script is missing (e.g. running from sources)
+     */
+    static isAvailable(): boolean {
+        return fs.existsSync(LineCountWorkerPool.WORKER_SCRIPT);
+    }
+
+    /**
+     * Count the given files in batches of `chunkSize`, streaming results through the callbacks.
+     * Rejects with 'Operation was cancelled by user' on cancellation, or with the worker
+     * error if a worker fails; results already reported stay valid in both cases.
+     */
+    async countFiles(files: LineCountWorkerFile[], workspacePath: string, options: LineCountWorkerPoolOptions): Promise<void> {
+        const batches: LineCountWorkerFile[][] = [];
+        for (let i = 0; i < files.length; i += options.chunkSize) {
+            batches.push(files.slice(i, i + options.chunkSize));
+        }
+        if (batches.length === 0) {
+            return;
+        }
+
+        const workerCount = Math.min(this.size, batches.length);
+        this.debug.info('Starting line count workers:', { workerCount, batches: batches.length, files: files.length });
+
+        try {
+            await new Promise<void>((resolve, reject) => {
+                let nextBatch = 0;
+                let activeBatches = 0;
+                let settled = false;
+                let cancellationListener: vscode.Disposable | undefined;
+
+                const finish = (error?: Error) => {
+                    if (settled) {
+                        return;
+                    }
+                    settled = true;
+                    cancellationListener?.dispose();
+                    if (error) {
+                        reject(error);
+                    } else {
+                        resolve();
+                    }
+                };
+
+                const isCancelled = () => {
+                    if (options.cancellationToken?.isCancellationRequested) {
+                        this.debug.info('Cancellation detected in line count workers');
+                        finish(new Error('Operation was cancelled by user'));
+                        return true;
+                    }
+                    return false;
+                };
+
+                const dispatch = (worker: Worker) => {
+                    if (settled || isCancelled()) {
+                        return;
+                    }
+                    if (nextBatch >= batches.length) {
+                        if (activeBatches === 0) {
+                            finish();
+                        }
+                        return;
+                    }
+                    const request: LineCountWorkerRequest = { type: 'count', batchId: nextBatch, workspacePath, files: batches[nextBatch] };
+                    nextBatch++;
+                    activeBatches++;
+                    worker.postMessage(request);
+                };
+
+                for (let i = 0; i < workerCount && !settled; i++) {
+                    const worker = new Worker(LineCountWorkerPool.WORKER_SCRIPT, { workerData: this.workerData });
+                    this.workers.push(worker);
+
+                    worker.on('message', (message: LineCountWorkerResponse) => {
+                        if (settled || isCancelled()) {
+                            return;
+                        }
+                        if (message.type === 'result') {
+                            options.onResult(message.counted);
+                        } else if (message.type === 'error') {
+                            options.onError(message.filePath, message.message);
+                        } else {
+                            activeBatches--;
+                            dispatch(worker);
+                        }
+                    });
+                    worker.on('error', error => finish(error));
+                    worker.on('exit', code => {
+                        if (code !== 0) {
+                            finish(new Error(`Line count worker exited with code ${code}`));
+                        }
+                    });
+                    dispatch(worker);
+                }
+
+                cancellationListener = options.cancellationToken?.onCancellationRequested?.(() => isCancelled());
+            });
+        } finally {
+            await this.terminateWorkers();
+        }
+    }
+
+    private async terminateWorkers(): Promise<void> {
+        const workers = this.workers;
+        this.workers = [];
+        await Promise.all(workers.map(worker => worker.terminate()));
+    }
+
+    dispose(): void {
+        this.terminateWorkers().catch(error => this.debug.error('Failed to terminate line count workers:', error));
+    }
+}
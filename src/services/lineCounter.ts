@@ -29,16 +29,52 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { FileInfo, LineCountResult } from '../types';
+import { FileInfo, LineCountResult, MixedLineAccounting } from '../types';
 import { PathBasedSettingsService } from './pathBasedSettingsService';
 import { DebugService } from './debugService';
 import { BinaryDetectionService } from './binaryDetectionService';
 import { BinaryClassificationService } from './binaryClassificationService';
+import { LineBreakdown } from './lineClassifier';
+import { LanguageRegistry } from './languageRegistry';
+import { LanguageDetector } from './languageDetector';
+import { CountedFile, LineCountEngine } from './lineCountEngine';
+import { LineCountWorkerPool } from './lineCountWorkerPool';
+import { LineCountIndexService } from './lineCountIndexService';
+import { GitService } from './gitService';
+import { IgnoreFileService } from './ignoreFileService';
+import { GitAttributesService } from './gitAttributesService';
+import { addToLanguageStats } from '../utils/languageStatsUtils';
+
+/**
+ * Ignore file and .gitattributes rules for one count of a workspace
+ */
+interface FileDiscoveryRules {
+    /** Set when codeCounter.discoveryMode honors ignore files */
+    ignoreFiles?: IgnoreFileService;
+    /** Set unless codeCounter.linguist is off */
+    gitAttributes?: GitAttributesService;
+    /** Whether files with a linguist category are left out of counts */
+    excludeLinguist: boolean;
+}
 
 export class LineCounterService {
     private debug = DebugService.getInstance();
     private binaryDetectionService: BinaryDetectionService | null = null;
     private binaryClassificationService: BinaryClassificationService | null = null;
+    private languageRegistry = LanguageRegistry.getInstance();
+    private languageDetector = new LanguageDetector();
+
+    // Configure minimatch options for v10+ compatibility
+    private static readonly MINIMATCH_OPTIONS = {
+        dot: true,           // Match dotfiles (like .gitignore)
+        nocase: false,       // Case sensitive matching
+        flipNegate: false,   // Standard negation behavior
+        nobrace: false,      // Allow brace expansion
+        noglobstar: false,   // Allow ** globstar
+        noext: false,        // Allow extglob patterns
+        nonull: false,       // Don't return null for non-matches
+        windowsPathsNoEscape: true  // Handle Windows paths properly
+    };
 
     /**
      * Initialize binary detection service for the workspace
@@ -50,6 +86,43 @@ export class LineCounterService {
         }
     }
 
+    /**
+     * Ignore file rules for one count of a workspace, when codeCounter.discoveryMode honors them
+     */
+    private createIgnoreFileService(workspacePath: string): IgnoreFileService | undefined {
+        return IgnoreFileService.isEnabled() ? new IgnoreFileService(workspacePath) : undefined;
+    }
+
+    /**
+     * Ignore file and .gitattributes rules for one count of a workspace, per codeCounter.discoveryMode
+     * and codeCounter.linguist
+     */
+    private createDiscoveryRules(workspacePath: string): FileDiscoveryRules {
+        const linguistMode = GitAttributesService.getMode();
+        return {
+            ignoreFiles: this.createIgnoreFileService(workspacePath),
+            gitAttributes: linguistMode !== 'off' ? new GitAttributesService(workspacePath) : undefined,
+            excludeLinguist: linguistMode === 'exclude'
+        };
+    }
+
+    /**
+     * Tag files with the linguist category of their .gitattributes, unless codeCounter.linguist is off
+     */
+    private async addLinguistCategories(files: FileInfo[], discovery: FileDiscoveryRules): Promise<void> {
+        if (!discovery.gitAttributes) {
+            return;
+        }
+        for (const file of files) {
+            const category = await discovery.gitAttributes.getLinguistCategory(file.path);
+            if (category) {
+                file.linguist = category;
+            } else {
+                delete file.linguist;
+            }
+        }
+    }
+
     /**
      * Calculate optimal chunk size for file processing based on workspace size
      */
@@ -83,11 +156,7 @@ export class LineCounterService {
                 totalFiles++;
                 
                 // Update language statistics
-                if (!languageStats[fileInfo.language]) {
-                    languageStats[fileInfo.language] = { files: 0, lines: 0 };
-                }
-                languageStats[fileInfo.language].files++;
-                languageStats[fileInfo.language].lines += fileInfo.lines;
+                addToLanguageStats(languageStats, fileInfo);
                 
             } catch (error) {
                 this.debug.warning(`Failed to count lines in ${filePath}:`, error);
@@ -143,11 +212,7 @@ export class LineCounterService {
                 totalFiles++;
                 
                 // Update language statistics
-                if (!languageStats[fileInfo.language]) {
-                    languageStats[fileInfo.language] = { files: 0, lines: 0 };
-                }
-                languageStats[fileInfo.language].files++;
-                languageStats[fileInfo.language].lines += fileInfo.lines;
+                addToLanguageStats(languageStats, fileInfo);
                 
             } catch (error) {
                 this.debug.warning(`Failed to count lines in ${filePath}:`, error);
@@ -200,15 +265,22 @@ export class LineCounterService {
             sampleFiles: files.slice(0, 5).map(f => f.fsPath)
         });
         
+        let filePaths = files.map(file => file.fsPath);
+        const ignoreFiles = this.createIgnoreFileService(workspacePath);
+        if (ignoreFiles) {
+            const ignored = await Promise.all(filePaths.map(filePath => ignoreFiles.isIgnored(filePath)));
+            filePaths = filePaths.filter((_, index) => !ignored[index]);
+        }
+        
         // Filter out binary files
-        const filePaths = files.map(file => file.fsPath);
         return await this.filterBinaryFiles(filePaths);
     }
 
     /**
-     * Fallback method to get files using Node.js file system when VS Code API fails
+     * Fallback method to get files using Node.js file system when VS Code API fails.
+     * With ignore files, ignored directories are skipped instead of the common ones.
      */
-    private async getFilesWithNodeJS(workspacePath: string): Promise<vscode.Uri[]> {
+    private async getFilesWithNodeJS(workspacePath: string, ignoreFiles?: IgnoreFileService): Promise<vscode.Uri[]> {
         const fs = require('fs').promises;
         const path = require('path');
         const files: vscode.Uri[] = [];
@@ -221,14 +293,18 @@ export class LineCounterService {
                     const fullPath = path.join(dir, entry.name);
                     
                     if (entry.isDirectory()) {
-                        // Skip common directories that should be ignored
-                        if (!entry.name.startsWith('.') && 
+                        if (ignoreFiles) {
+                            if (entry.name !== '.git' && !(await ignoreFiles.isIgnored(fullPath, true))) {
+                                await walkDir(fullPath);
+                            }
+                        } else if (!entry.name.startsWith('.') && 
                             entry.name !== 'node_modules' && 
                             entry.name !== 'out' && 
                             entry.name !== 'dist') {
+                            // Skip common directories that should be ignored
                             await walkDir(fullPath);
                         }
-                    } else if (entry.isFile()) {
+                    } else if (entry.isFile() && !(ignoreFiles && await ignoreFiles.isIgnored(fullPath))) {
                         // Add file to results
                         files.push(vscode.Uri.file(fullPath));
                     }
@@ -248,6 +324,7 @@ export class LineCounterService {
         
         // Get all files first without any filtering
         let allFiles = await vscode.workspace.findFiles(new vscode.RelativePattern(workspacePath, '**/*'));
+        const ignoreFiles = this.createIgnoreFileService(workspacePath);
         const { minimatch } = require('minimatch');
         
         // Configure minimatch options for v10+ compatibility
@@ -271,7 +348,7 @@ export class LineCounterService {
         // Fallback: If VS Code findFiles returns nothing, use Node.js fallback
         if (allFiles.length === 0) {
             this.debug.warning('VS Code findFiles returned 0 files in getFilesWithInclusions, using Node.js fallback');
-            allFiles = await this.getFilesWithNodeJS(workspacePath);
+            allFiles = await this.getFilesWithNodeJS(workspacePath, ignoreFiles);
             this.debug.info('Node.js fallback results in getFilesWithInclusions:', {
                 totalFilesFound: allFiles.length,
                 sampleFiles: allFiles.slice(0, 5).map(f => f.fsPath)
@@ -321,8 +398,9 @@ export class LineCounterService {
             for (const filePath of chunk) {
                 const relativePath = path.relative(workspacePath, filePath).replace(/\\/g, '/');
                 
-                // Check if file matches any exclusion pattern (using normalized patterns)
-                const isExcluded = normalizedExcludePatterns.some(pattern => minimatch(relativePath, pattern, minimatchOptions));
+                // Check if file matches any exclusion pattern (using normalized patterns) or is ignored by an ignore file
+                const isExcluded = normalizedExcludePatterns.some(pattern => minimatch(relativePath, pattern, minimatchOptions))
+                    || (!!ignoreFiles && await ignoreFiles.isIgnored(filePath));
                 
                 // Check if file matches any inclusion pattern (using normalized patterns)
                 const isIncluded = normalizedIncludePatterns.some(pattern => minimatch(relativePath, pattern, minimatchOptions));
@@ -363,6 +441,14 @@ export class LineCounterService {
     }
 
     async countFileLines(filePath: string, workspacePath?: string): Promise<FileInfo> {
+        return (await this.countFileWithStats(filePath, workspacePath)).fileInfo;
+    }
+
+    /**
+     * Count a file and also return the modification time, size and content hash
+     * it was counted from, as needed by the persistent line count index
+     */
+    async countFileWithStats(filePath: string, workspacePath?: string): Promise<CountedFile> {
         // Optimized timeout for better responsiveness
         const FILE_TIMEOUT_MS = 3000; // 3 second timeout per file (increased for parallel processing)
         
@@ -372,75 +458,14 @@ export class LineCounterService {
             }, FILE_TIMEOUT_MS);
             
             try {
-                // Use streaming for very large files to improve memory usage
-                const stats = await fs.promises.stat(filePath);
-                const LARGE_FILE_THRESHOLD = 10 * 1024 * 1024; // 10MB
-                
-                let content: string;
-                if (stats.size > LARGE_FILE_THRESHOLD) {
-                    // For large files, use streaming with early termination for performance
-                    const chunks: Buffer[] = [];
-                    const stream = fs.createReadStream(filePath, { encoding: 'utf8', highWaterMark: 64 * 1024 });
-                    
-                    for await (const chunk of stream) {
-                        chunks.push(Buffer.from(chunk, 'utf8'));
-                        // If file is extremely large, consider sampling instead of reading entirely
-                        if (chunks.length * 64 * 1024 > 50 * 1024 * 1024) { // 50MB limit
-                            stream.destroy();
-                            break;
-                        }
-                    }
-                    content = Buffer.concat(chunks).toString('utf8');
-                } else {
-                    content = await fs.promises.readFile(filePath, 'utf8');
-                }
-                
-                const lines = content.split('\n');
-                
-                let codeLines = 0;
-                let commentLines = 0;
-                let blankLines = 0;
-                
-                const language = this.detectLanguage(filePath);
-                const commentPatterns = this.getCommentPatterns(language);
-                
-                // Process lines in optimized batches
-                const LINE_BATCH_SIZE = 50000; // Smaller batches for better responsiveness
-                for (let i = 0; i < lines.length; i += LINE_BATCH_SIZE) {
-                    const batch = lines.slice(i, i + LINE_BATCH_SIZE);
-                    
-                    for (const line of batch) {
-                        const trimmed = line.trim();
-                        
-                        if (trimmed === '') {
-                            blankLines++;
-                        } else if (this.isCommentLine(trimmed, commentPatterns)) {
-                            commentLines++;
-                        } else {
-                            codeLines++;
-                        }
-                    }
-                    
-                    // Yield less frequently for better performance
-                    if (i + LINE_BATCH_SIZE < lines.length && i % (LINE_BATCH_SIZE * 4) === 0) {
-                        await new Promise(resolve => setImmediate(resolve));
-                    }
-                }
-
-                const relativePath = workspacePath ? path.relative(workspacePath, filePath) : path.relative(path.dirname(filePath), filePath);
+                const counted = await this.createLineCountEngine(workspacePath || filePath).countFile(
+                    filePath,
+                    content => this.languageDetector.detect(filePath, content),
+                    workspacePath
+                );
                 
                 clearTimeout(timeout);
-                resolve({
-                    path: filePath,
-                    relativePath,
-                    fullPath: relativePath.replace(/\\/g, '/'), // Use normalized relative path
-                    language,
-                    lines: lines.length,
-                    codeLines,
-                    commentLines,
-                    blankLines,
-                    size: content.length
-                });
+                resolve(counted);
             } catch (error) {
                 clearTimeout(timeout);
                 reject(error);
@@ -448,133 +473,47 @@ export class LineCounterService {
         });
     }
 
+    /**
+     * Classify in-memory content (e.g. an unsaved document) into code/comment/blank lines
+     * using the same block-comment-aware rules as countFileLines. Pass the document's
+     * `languageId` when the path alone cannot identify the open document.
+     */
+    classifyContent(content: string, filePath: string, languageId?: string): LineBreakdown {
+        const { language } = this.languageDetector.detect(filePath, content, languageId);
+        return LineCountEngine.sumSections(this.createLineCountEngine(filePath).classifyLanguageSections(language, content.split('\n')));
+    }
+
+    /**
+     * Classify content like classifyContent, totalling each line under the key returned for
+     * it, e.g. the author who last changed the line
+     */
+    classifyContentByLine(content: string, filePath: string, keyOf: (lineIndex: number) => string): Map<string, LineBreakdown & { lines: number }> {
+        const { language } = this.languageDetector.detect(filePath, content);
+        return this.createLineCountEngine(filePath).classifyLinesByKey(language, content.split('\n'), (_language, lineIndex) => keyOf(lineIndex));
+    }
+
+    /**
+     * Engine configured with the current language tables and the codeCounter.mixedLineAccounting
+     * of the workspace folder holding resourcePath
+     */
+    private createLineCountEngine(resourcePath: string): LineCountEngine {
+        return new LineCountEngine(this.languageRegistry.getTable(), LineCounterService.getMixedLineAccounting(resourcePath));
+    }
+
+    /**
+     * codeCounter.mixedLineAccounting is a resource setting, so each workspace folder can set its own
+     */
+    static getMixedLineAccounting(resourcePath: string): MixedLineAccounting {
+        const config = vscode.workspace.getConfiguration('codeCounter', vscode.Uri.file(resourcePath));
+        return config.get<MixedLineAccounting>('mixedLineAccounting', 'code');
+    }
+
     private detectLanguage(filePath: string): string {
-        const extension = path.extname(filePath).toLowerCase();
-        
-        const languageMap: { [ext: string]: string } = {
-            '.js': 'JavaScript',
-            '.ts': 'TypeScript',
-            '.jsx': 'JSX',
-            '.tsx': 'TSX',
-            '.py': 'Python',
-            '.java': 'Java',
-            '.c': 'C',
-            '.cpp': 'C++',
-            '.cs': 'C#',
-            '.php': 'PHP',
-            '.rb': 'Ruby',
-            '.go': 'Go',
-            '.rs': 'Rust',
-            '.swift': 'Swift',
-            '.kt': 'Kotlin',
-            '.scala': 'Scala',
-            '.dart': 'Dart',
-            '.lua': 'Lua',
-            '.r': 'R',
-            '.R': 'R',
-            '.m': 'MATLAB',
-            '.pl': 'Perl',
-            '.pm': 'Perl',
-            '.hs': 'Haskell',
-            '.erl': 'Erlang',
-            '.ex': 'Elixir',
-            '.exs': 'Elixir',
-            '.clj': 'Clojure',
-            '.cljs': 'Clojure',
-            '.fs': 'F#',
-            '.fsx': 'F#',
-            '.asm': 'Assembly',
-            '.s': 'Assembly',
-            '.cbl': 'COBOL',
-            '.cob': 'COBOL',
-            '.f': 'Fortran',
-            '.f90': 'Fortran',
-            '.f95': 'Fortran',
-            '.vb': 'Visual Basic',
-            '.pas': 'Pascal',
-            '.ads': 'Ada',
-            '.adb': 'Ada',
-            '.groovy': 'Groovy',
-            '.jl': 'Julia',
-            '.nim': 'Nim',
-            '.cr': 'Crystal',
-            '.mm': 'Objective-C',
-            '.dpr': 'Delphi',
-            '.dfm': 'Delphi',
-            '.vala': 'Vala',
-            '.zig': 'Zig',
-            '.v': 'V',
-            '.ml': 'OCaml',
-            '.mli': 'OCaml',
-            '.scm': 'Scheme',
-            '.ss': 'Scheme',
-            '.rkt': 'Racket',
-            '.coffee': 'CoffeeScript',
-            '.ls': 'LiveScript',
-            // Batch 4: Additional file extensions and config languages
-            '.kts': 'Kotlin',
-            '.sc': 'Scala',
-            '.sbt': 'Scala',
-            '.psm1': 'PowerShell',
-            '.psd1': 'PowerShell',
-            '.bash': 'Bash',
-            '.zsh': 'Zsh',
-            '.fish': 'Fish',
-            '.tcl': 'Tcl',
-            '.tk': 'Tcl',
-            '.awk': 'AWK',
-            '.gawk': 'AWK',
-            '.dockerfile': 'Dockerfile',
-            '.toml': 'TOML',
-            '.ini': 'INI',
-            '.cfg': 'Config',
-            '.conf': 'Config',
-            // Batch 5: Specialized languages and config files
-            '.sql': 'SQL',
-            '.graphql': 'GraphQL',
-            '.gql': 'GraphQL',
-            '.proto': 'Protocol Buffers',
-            '.g4': 'ANTLR',
-            '.cmake': 'CMake',
-            '.makefile': 'Makefile',
-            '.mk': 'Makefile',
-            '.env': 'Environment',
-            '.properties': 'Properties',
-            '.gitignore': 'GitIgnore',
-            '.editorconfig': 'EditorConfig',
-            '.html': 'HTML',
-            '.css': 'CSS',
-            '.scss': 'SCSS',
-            '.sass': 'Sass',
-            '.less': 'Less',
-            '.json': 'JSON',
-            '.xml': 'XML',
-            '.yaml': 'YAML',
-            '.yml': 'YAML',
-            '.md': 'Markdown',
-            '.txt': 'Text',
-            '.text': 'Text',
-            '.log': 'Text',
-            '.readme': 'Text',
-            '.csv': 'CSV',
-            '.sh': 'Shell',
-            '.bat': 'Batch',
-            '.ps1': 'PowerShell'
-        };
-        
-        // Check if it's a known language
-        if (languageMap[extension]) {
-            return languageMap[extension];
-        }
-        
-        // For unknown extensions that are being scanned (inclusion patterns),
-        // categorize by extension (e.g., ".xyz" instead of "Unknown")
-        if (extension) {
-            return extension; // Return the extension itself as the language
-        }
-        
-        return 'Unknown';
-    }    /**
+        // Path-only detection: file name, then extension, else the extension itself (or 'Unknown')
+        return this.languageDetector.detect(filePath).language;
+    }
+
+    /**
      * Enhanced language detection with binary detection for unknown extensions
      */
     async detectLanguageEnhanced(filePath: string): Promise<{ language: string; isUnsupported: boolean; isBinary: boolean }> {
@@ -757,18 +696,14 @@ export class LineCounterService {
     private async shouldIncludeFileWithBinaryFirst(filePath: string): Promise<boolean> {
         const ext = path.extname(filePath).toLowerCase();
         
-        // Get known extensions using same logic as decorator
-        const knownTextExtensions = this.getKnownTextExtensions();
-        const knownBinaryExtensions = this.getKnownBinaryExtensions();
-        
         // Step 1: Check known BINARY extensions FIRST (prevents images from being processed as text)
-        if (knownBinaryExtensions.has(ext)) {
+        if (this.languageRegistry.isKnownBinaryFile(filePath)) {
             this.debug.verbose('File excluded as known binary extension:', { filePath, ext });
             return false; // Exclude known binary files
         }
         
-        // Step 2: Check known TEXT extensions with binary detection
-        if (knownTextExtensions.has(ext)) {
+        // Step 2: Check known TEXT extensions (and file names) with binary detection
+        if (this.languageRegistry.isKnownTextFile(filePath)) {
             if (this.binaryDetectionService) {
                 try {
                     const binaryResult = await this.binaryDetectionService.isBinary(filePath);
@@ -793,104 +728,6 @@ export class LineCounterService {
         return false;
     }
 
-    /**
-     * Get comprehensive set of known text file extensions (same as decorator)
-     */
-    private getKnownTextExtensions(): Set<string> {
-        return new Set([
-            // Programming languages
-            '.js', '.jsx', '.ts', '.tsx', '.py', '.java', '.c', '.cpp', '.cc', '.cxx', '.h', '.hpp', '.hxx',
-            '.cs', '.php', '.rb', '.go', '.rs', '.swift', '.kt', '.kts', '.scala', '.sc', '.sbt',
-            '.dart', '.lua', '.r', '.R', '.m', '.pl', '.pm', '.hs', '.erl', '.ex', '.exs',
-            '.clj', '.cljs', '.cljc', '.fs', '.fsx', '.fsi', '.ml', '.mli', '.asm', '.s',
-            '.cbl', '.cob', '.cpy', '.f', '.f90', '.f95', '.f03', '.f08', '.vb', '.bas',
-            '.pas', '.pp', '.ads', '.adb', '.groovy', '.gradle', '.jl', '.nim', '.cr',
-            '.mm', '.dpr', '.dfm', '.vala', '.zig', '.v', '.scm', '.ss', '.rkt',
-            '.coffee', '.ls', '.elm', '.purs', '.tcl', '.tk', '.awk', '.gawk',
-            
-            // Shell and scripting
-            '.sh', '.bash', '.zsh', '.fish', '.csh', '.ksh', '.bat', '.cmd', '.ps1', '.psm1', '.psd1',
-            
-            // Web technologies
-            '.html', '.htm', '.xhtml', '.css', '.scss', '.sass', '.less', '.stylus',
-            '.vue', '.svelte', '.astro',
-            
-            // Data and config
-            '.json', '.jsonc', '.json5', '.xml', '.xsd', '.xsl', '.xslt', '.yaml', '.yml',
-            '.toml', '.ini', '.cfg', '.conf', '.config', '.properties', '.env',
-            '.htaccess', '.gitignore', '.gitattributes', '.editorconfig',
-            
-            // Documentation and text
-            '.md', '.markdown', '.mdown', '.mkd', '.rst', '.txt', '.text', '.rtf',
-            '.tex', '.latex', '.org', '.adoc', '.asciidoc',
-            
-            // Database and query
-            '.sql', '.psql', '.mysql', '.sqlite', '.cypher', '.sparql',
-            '.graphql', '.gql',
-            
-            // Build and project files
-            '.dockerfile', '.dockerignore', '.makefile', '.make', '.mk', '.cmake',
-            '.gradle', '.sbt', '.maven', '.ant', '.rake', '.gemfile',
-            
-            // Log and data files
-            '.log', '.logs', '.out', '.err', '.trace', '.csv', '.tsv', '.tab',
-            
-            // Specialized formats
-            '.proto', '.g4', '.bnf', '.ebnf', '.lex', '.yacc', '.bison'
-        ]);
-    }
-
-    /**
-     * Get comprehensive set of known binary file extensions (same as decorator)
-     */
-    private getKnownBinaryExtensions(): Set<string> {
-        return new Set([
-            // Images
-            '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.ico', '.tiff', '.tif', '.webp',
-            '.svg', '.psd', '.ai', '.eps', '.raw', '.cr2', '.nef', '.orf', '.sr2',
-            '.dng', '.heic', '.heif', '.avif', '.jxl',
-            
-            // Video
-            '.mp4', '.avi', '.mov', '.mkv', '.wmv', '.flv', '.webm', '.m4v',
-            '.mpg', '.mpeg', '.3gp', '.ogv', '.asf', '.rm', '.rmvb',
-            
-            // Audio
-            '.mp3', '.wav', '.flac', '.aac', '.ogg', '.wma', '.m4a', '.opus',
-            '.ape', '.ac3', '.dts', '.amr',
-            
-            // Archives and compression
-            '.zip', '.rar', '.7z', '.tar', '.gz', '.bz2', '.xz', '.lzma',
-            '.cab', '.iso', '.dmg', '.pkg', '.deb', '.rpm',
-            
-            // Documents
-            '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',
-            '.odt', '.ods', '.odp', '.pages', '.numbers', '.key',
-            
-            // Executables and libraries
-            '.exe', '.dll', '.so', '.dylib', '.app', '.msi', '.appx',
-            '.bin', '.run', '.snap', '.flatpak',
-            
-            // Database files
-            '.db', '.sqlite', '.sqlite3', '.mdb', '.accdb', '.dbf',
-            
-            // System and temporary
-            '.tmp', '.temp', '.cache', '.lock', '.pid', '.swap',
-            '.bak', '.backup', '.old', '.orig',
-            
-            // Fonts
-            '.ttf', '.otf', '.woff', '.woff2', '.eot',
-            
-            // CAD and 3D
-            '.dwg', '.dxf', '.step', '.iges', '.stl', '.obj', '.3ds',
-            
-            // Virtual machines
-            '.vmdk', '.vdi', '.qcow2', '.vhd', '.vhdx',
-            
-            // Game assets
-            '.unity', '.unitypackage', '.asset', '.prefab'
-        ]);
-    }
-
     /**
      * Check if file is in include patterns and should bypass binary detection
      */
@@ -920,100 +757,6 @@ export class LineCounterService {
         }
     }
 
-    private getCommentPatterns(language: string): string[] {
-        const commentMap: { [lang: string]: string[] } = {
-            'JavaScript': ['//', '/*', '*/'],
-            'TypeScript': ['//', '/*', '*/'],
-            'JSX': ['//', '/*', '*/'],
-            'TSX': ['//', '/*', '*/'],
-            'Java': ['//', '/*', '*/'],
-            'C': ['//', '/*', '*/'],
-            'C++': ['//', '/*', '*/'],
-            'C#': ['//', '/*', '*/'],
-            'PHP': ['//', '/*', '*/', '#'],
-            'Python': ['#', '"""', "'''"],
-            'Ruby': ['#'],
-            'Go': ['//', '/*', '*/'],
-            'Rust': ['//', '/*', '*/'],
-            'Swift': ['//', '/*', '*/'],
-            'Kotlin': ['//', '/*', '*/'],
-            'Scala': ['//', '/*', '*/'],
-            'Dart': ['//', '/*', '*/'],
-            'Lua': ['--', '--[[', '--]]'],
-            'R': ['#'],
-            'MATLAB': ['%', '%{', '%}'],
-            'Perl': ['#', '=pod', '=cut'],
-            'Haskell': ['--', '{-', '-}'],
-            'Erlang': ['%'],
-            'Elixir': ['#'],
-            'Clojure': [';', '#_'],
-            'F#': ['//', '(*', '*)'],
-            'Assembly': [';', '#', '//'],
-            'COBOL': ['*', 'SKIP'],
-            'Fortran': ['C', 'c', '!'],
-            'Visual Basic': ["'", 'REM'],
-            'Pascal': ['//', '{', '}', '(*', '*)'],
-            'Ada': ['--'],
-            'Groovy': ['//', '/*', '*/'],
-            'Julia': ['#', '#=', '=#'],
-            'Nim': ['#', '#[', ']#'],
-            'Crystal': ['#'],
-            'Objective-C': ['//', '/*', '*/'],
-            'Delphi': ['//', '{', '}', '(*', '*)'],
-            'Vala': ['//', '/*', '*/'],
-            'Zig': ['//', '///'],
-            'V': ['//', '/*', '*/'],
-            'OCaml': ['(*', '*)'],
-            'Scheme': [';'],
-            'Racket': [';', '#|', '|#'],
-            'CoffeeScript': ['#', '###'],
-            'LiveScript': ['#'],
-            // Batch 4: Additional languages and file types
-            'Bash': ['#'],
-            'Zsh': ['#'],
-            'Fish': ['#'],
-            'Tcl': ['#'],
-            'AWK': ['#'],
-            'Dockerfile': ['#'],
-            'TOML': ['#'],
-            'INI': [';', '#'],
-            'Config': ['#', ';'],
-            // Batch 5: Specialized languages and config files
-            'SQL': ['--', '/*', '*/'],
-            'GraphQL': ['#'],
-            'Protocol Buffers': ['//'],
-            'ANTLR': ['//', '/*', '*/'],
-            'CMake': ['#'],
-            'Makefile': ['#'],
-            'Environment': ['#'],
-            'Properties': ['#', '!'],
-            'Text': [], // Text files don't have formal comment syntax
-            'CSV': [], // CSV files don't have formal comment syntax
-            'GitIgnore': ['#'],
-            'EditorConfig': ['#', ';'],
-            'HTML': ['<!--', '-->'],
-            'XML': ['<!--', '-->'],
-            'CSS': ['/*', '*/'],
-            'SCSS': ['//', '/*', '*/'],
-            'Sass': ['//'],
-            'Less': ['//', '/*', '*/'],
-            'Shell': ['#'],
-            'Batch': ['REM', '::'],
-            'PowerShell': ['#', '<#', '#>']
-        };
-
-        return commentMap[language] || [];
-    }
-
-    private isCommentLine(line: string, commentPatterns: string[]): boolean {
-        for (const pattern of commentPatterns) {
-            if (line.startsWith(pattern)) {
-                return true;
-            }
-        }
-        return false;
-    }
-
     /**
      * Count lines using path-based settings for inclusion/exclusion patterns with progress tracking
      * This method uses PathBasedSettingsService to get patterns per file path,
@@ -1022,6 +765,7 @@ export class LineCounterService {
     async countLinesWithPathBasedSettings(workspacePath: string, progressCallback?: (processed: number, total: number, remaining: number) => void, cancellationToken?: vscode.CancellationToken): Promise<LineCountResult> {
         const startTime = Date.now();
         const pathBasedSettings = new PathBasedSettingsService();
+        const discovery = this.createDiscoveryRules(workspacePath);
         
         // Initialize binary detection and classification services
         this.initializeBinaryDetection(workspacePath);
@@ -1048,19 +792,6 @@ export class LineCounterService {
         
         // Get all files first without any filtering
         let allFiles = await vscode.workspace.findFiles(new vscode.RelativePattern(workspacePath, '**/*'));
-        const { minimatch } = require('minimatch');
-        
-        // Configure minimatch options for v10+ compatibility
-        const minimatchOptions = {
-            dot: true,           // Match dotfiles (like .gitignore)
-            nocase: false,       // Case sensitive matching
-            flipNegate: false,   // Standard negation behavior
-            nobrace: false,      // Allow brace expansion
-            noglobstar: false,   // Allow ** globstar
-            noext: false,        // Allow extglob patterns
-            nonull: false,       // Don't return null for non-matches
-            windowsPathsNoEscape: true  // Handle Windows paths properly
-        };
         
         this.debug.info('VS Code file discovery results:', {
             workspacePath,
@@ -1081,7 +812,7 @@ export class LineCounterService {
         // Fallback: If VS Code findFiles returns nothing, use Node.js file system
         if (allFiles.length === 0) {
             this.debug.warning('VS Code findFiles returned 0 files, using Node.js fallback');
-            allFiles = await this.getFilesWithNodeJS(workspacePath);
+            allFiles = await this.getFilesWithNodeJS(workspacePath, discovery.ignoreFiles);
             this.debug.info('Node.js fallback file discovery results:', {
                 totalFilesFound: allFiles.length,
                 sampleFiles: allFiles.slice(0, 5).map(f => f.fsPath || f)
@@ -1092,177 +823,20 @@ export class LineCounterService {
         let includedViaPattern = 0;
         let excludedCount = 0;
         
-        /**
-         * Filter out problematic patterns and replace with safe alternatives
-         */
-        const filterProblematicPatterns = (patterns: string[]): string[] => {
-            const safePatterns: string[] = [];
-            
-            for (const pattern of patterns) {
-                const trimmed = pattern.trim();
-                
-                // Remove patterns that would match everything
-                const globalMatchers = ['**/*', '*', '**', '**/**', '**.*', '*.*'];
-                if (globalMatchers.includes(trimmed)) {
-                    this.debug.warning('Filtered out global matcher pattern:', pattern);
-                    continue;
-                }
-                
-                // Handle hidden directory patterns - keep them as they work correctly
-                if (trimmed === '**/.*/**' || trimmed === '**/.*') {
-                    this.debug.verbose('Keeping hidden pattern (works correctly):', pattern);
-                    safePatterns.push(pattern);
-                    continue;
-                }
-                
-                // Keep other reasonable patterns
-                this.debug.verbose('Keeping exclude pattern:', pattern);
-                safePatterns.push(pattern);
-            }
-            
-            return safePatterns;
-        };
-        
         // Cache settings by directory to avoid repeated lookups
         const settingsCache = new Map<string, {exclude: string[], include: string[]}>();
         
         for (const fileUri of allFiles) {
             const filePath = fileUri.fsPath;
-            const relativePath = path.relative(workspacePath, filePath).replace(/\\/g, '/');
-            
-            // Get path-specific patterns for this file using directory-based caching
-            const dirPath = path.dirname(filePath);
-            let cachedSettings = settingsCache.get(dirPath);
-            
-            if (!cachedSettings) {
-                const rawExcludePatterns = await pathBasedSettings.getExcludePatternsForPath(filePath);
-                const includePatterns = await pathBasedSettings.getIncludePatternsForPath(filePath);
-                cachedSettings = { exclude: rawExcludePatterns, include: includePatterns };
-                settingsCache.set(dirPath, cachedSettings);
-            }
-            
-            let rawExcludePatterns = cachedSettings.exclude;
-            let includePatterns = cachedSettings.include;
-            
-            // Filter out problematic exclude patterns
-            const excludePatterns = filterProblematicPatterns(rawExcludePatterns);
-            
-            // Debug first few files to see what's happening
-            if (filteredFiles.length < 10) {
-                this.debug.info('File filtering debug:', {
-                    filePath,
-                    relativePath,
-                    rawExcludePatterns,
-                    filteredExcludePatterns: excludePatterns,
-                    includePatterns,
-                    // Test the problematic pattern manually
-                    manualTestDotPattern: minimatch(relativePath, '**/.*/**', minimatchOptions),
-                    pathParts: relativePath.split('/'),
-                    hasHiddenDirInPath: relativePath.split('/').some(part => part.startsWith('.') && part !== '.' && part !== '..')
-                });
-            }
-            
-            // Normalize patterns by removing leading slashes to fix minimatch compatibility
-            const normalizePattern = (pattern: string): string => {
-                return pattern.startsWith('/') ? pattern.substring(1) : pattern;
-            };
-
-            const normalizedExcludePatterns = excludePatterns.map(normalizePattern);
-            const normalizedIncludePatterns = includePatterns.map(normalizePattern);
-
-            // Check if file matches any exclusion pattern with detailed logging
-            let isExcluded = false;
-            let excludingPattern = '';
-            for (const pattern of normalizedExcludePatterns) {
-                if (minimatch(relativePath, pattern, minimatchOptions)) {
-                    isExcluded = true;
-                    excludingPattern = pattern;
-                    break;
-                }
-            }
-            
-            // Check if file matches any inclusion pattern (only when include patterns exist)
-            const hasIncludePatterns = normalizedIncludePatterns.length > 0;
-            const matchesInclusionPattern = hasIncludePatterns && normalizedIncludePatterns.some((pattern: string) => minimatch(relativePath, pattern, minimatchOptions));
-            
-            // Debug pattern matching results for first few files
-            if (filteredFiles.length < 10) {
-                this.debug.info('Pattern matching details:', {
-                    relativePath,
-                    isExcluded,
-                    excludingPattern: excludingPattern || 'none',
-                    hasIncludePatterns,
-                    matchesInclusionPattern,
-                    includePatterns,
-                    fileExtension: path.extname(relativePath),
-                    // Test simple patterns manually
-                    testSimple: {
-                        matchesNodeModules: minimatch(relativePath, '**/node_modules/**', minimatchOptions),
-                        matchesDotGit: minimatch(relativePath, '**/.git/**', minimatchOptions),
-                        matchesAnyJs: minimatch(relativePath, '**/*.js', minimatchOptions),
-                        matchesAnyTs: minimatch(relativePath, '**/*.ts', minimatchOptions),
-                        isRootFile: !relativePath.includes('/') && !relativePath.includes('\\')
-                    }
-                });
-            }
+            const inclusion = await this.checkFileInclusion(filePath, workspacePath, pathBasedSettings, settingsCache, discovery);
             
-            // Apply inclusion/exclusion logic exactly like the decorator:
-            // - If include patterns exist and file matches one, include it (overrides exclusion and binary detection)
-            // - If include patterns exist and file doesn't match any, exclude it
-            // - If no include patterns exist, include unless excluded or binary
-            let shouldIncludeFile: boolean;
-            if (hasIncludePatterns) {
-                shouldIncludeFile = matchesInclusionPattern; // Only include if explicitly included (bypasses binary detection)
-            } else {
-                shouldIncludeFile = !isExcluded; // Include unless explicitly excluded, but still need to check for binary
-            }
-            
-            // For files not explicitly included via patterns, also check if they're binary
-            if (shouldIncludeFile && !matchesInclusionPattern) {
-                // Check if file is binary using centralized classification service
-                if (this.binaryClassificationService) {
-                    try {
-                        const result = await this.binaryClassificationService.classifyFile(filePath);
-                        if (!result.shouldInclude) {
-                            shouldIncludeFile = false;
-                            excludedCount++; // Count binary files as excluded
-                        }
-                    } catch (error) {
-                        this.debug.warning('Binary classification error for', filePath, '- assuming binary');
-                        shouldIncludeFile = false;
-                        excludedCount++;
-                    }
-                } else {
-                    // Fallback to simple binary detection if classification service not available
-                    if (await this.isFileBinary(filePath)) {
-                        shouldIncludeFile = false;
-                        excludedCount++; // Count binary files as excluded
-                    }
-                }
-            }
-            
-            if (shouldIncludeFile) {
+            if (inclusion.include) {
                 filteredFiles.push(filePath);
-                if (matchesInclusionPattern) {
+                if (inclusion.matchesInclusionPattern) {
                     includedViaPattern++;
                 }
-                this.debug.verbose('File included:', { 
-                    relativePath, 
-                    matchesInclusionPattern, 
-                    isExcluded,
-                    hasIncludePatterns,
-                    reason: matchesInclusionPattern ? 'inclusion pattern override' : 'not excluded and not binary' 
-                });
             } else {
                 excludedCount++;
-                this.debug.verbose('File excluded:', { 
-                    relativePath, 
-                    isExcluded, 
-                    excludingPattern: excludingPattern || 'none',
-                    matchesInclusionPattern,
-                    hasIncludePatterns,
-                    reason: hasIncludePatterns ? 'no inclusion pattern match' : (isExcluded ? 'matched exclusion pattern' : 'binary file')
-                });
             }
             
             // Yield periodically during file filtering to prevent UI blocking
@@ -1291,7 +865,16 @@ export class LineCounterService {
             sampleFiles: filteredFiles.slice(0, 3)
         });
         
+        // Files unchanged since they were last counted come straight from the workspace database
+        const lineCountIndex = LineCountIndexService.getInstance(workspacePath);
+        const { hits: indexedFiles, misses: filesToCount } = await lineCountIndex.lookup(filteredFiles);
+        this.debug.info('Reusing stored line counts:', { reused: indexedFiles.size, toCount: filesToCount.length });
+        if (cancellationToken?.isCancellationRequested) {
+            throw new Error('Operation was cancelled by user');
+        }
+
         // Now count lines for the filtered files using adaptive chunked processing
+        const countedFiles = new Map<string, FileInfo>(indexedFiles);
         const fileInfos: FileInfo[] = [];
         let totalLines = 0;
         let totalFiles = 0;
@@ -1310,31 +893,53 @@ export class LineCounterService {
         });
         
         const progressIncrement = Math.max(1, Math.floor(filteredFiles.length / 50)); // Update progress more frequently
-        let processedCount = 0;
+        let processedCount = indexedFiles.size;
+
+        // Large workspaces are read and classified on worker threads; whatever they
+        // did not get to (e.g. a worker crashed) falls through to the loop below
+        const WORKER_THREAD_MIN_FILES = 200;
+        const useWorkerThreads = vscode.workspace.getConfiguration('codeCounter').get<boolean>('useWorkerThreads', true);
+        let pendingFiles = filesToCount;
+        if (useWorkerThreads && filesToCount.length >= WORKER_THREAD_MIN_FILES && LineCountWorkerPool.isAvailable()) {
+            let lastProgressTime = 0;
+            const workerResults = await this.countFilesWithWorkers(filesToCount, workspacePath, CHUNK_SIZE, counted => {
+                if (counted) {
+                    countedFiles.set(counted.fileInfo.path, counted.fileInfo);
+                    lineCountIndex.store([counted]);
+                }
+                processedCount++;
+                const currentTime = Date.now();
+                if (progressCallback && currentTime - lastProgressTime > YIELD_INTERVAL) {
+                    progressCallback(processedCount, filteredFiles.length, filteredFiles.length - processedCount);
+                    lastProgressTime = currentTime;
+                }
+            }, cancellationToken);
+            pendingFiles = filesToCount.filter(filePath => !workerResults.has(filePath));
+        }
 
         // Process files in batches for better performance
-        for (let batchStart = 0; batchStart < filteredFiles.length; batchStart += CHUNK_SIZE) {
+        for (let batchStart = 0; batchStart < pendingFiles.length; batchStart += CHUNK_SIZE) {
             // IMMEDIATE cancellation check before each batch
             if (cancellationToken?.isCancellationRequested) {
                 this.debug.info('Cancellation detected before processing batch at:', batchStart);
                 throw new Error('Operation was cancelled by user');
             }
             
-            const batchEnd = Math.min(batchStart + CHUNK_SIZE, filteredFiles.length);
-            const batch = filteredFiles.slice(batchStart, batchEnd);
+            const batchEnd = Math.min(batchStart + CHUNK_SIZE, pendingFiles.length);
+            const batch = pendingFiles.slice(batchStart, batchEnd);
             
             // Process the batch concurrently for better I/O efficiency
             const batchPromises = batch.map(async (filePath) => {
                 try {
                     this.debug.verbose(`Counting lines in: ${filePath}`);
-                    const fileInfo = await this.countFileLines(filePath, workspacePath);
+                    const counted = await this.countFileWithStats(filePath, workspacePath);
                     this.debug.verbose(`Line count result for ${filePath}:`, {
-                        lines: fileInfo.lines,
-                        language: fileInfo.language,
-                        fileSize: fileInfo.size || 'unknown'
+                        lines: counted.fileInfo.lines,
+                        language: counted.fileInfo.language,
+                        fileSize: counted.fileInfo.size || 'unknown'
                     });
                     
-                    return { success: true, fileInfo, filePath };
+                    return { success: true, counted, filePath };
                 } catch (error) {
                     this.debug.error(`Failed to count lines in ${filePath}:`, error);
                     return { success: false, error, filePath };
@@ -1346,24 +951,16 @@ export class LineCounterService {
             
             // Process results and update statistics
             for (const result of batchResults) {
-                if (result.success && result.fileInfo) {
-                    fileInfos.push(result.fileInfo);
-                    totalLines += result.fileInfo.lines;
-                    totalFiles++;
-                    
-                    // Update language statistics
-                    if (!languageStats[result.fileInfo.language]) {
-                        languageStats[result.fileInfo.language] = { files: 0, lines: 0 };
-                    }
-                    languageStats[result.fileInfo.language].files++;
-                    languageStats[result.fileInfo.language].lines += result.fileInfo.lines;
+                if (result.success && result.counted) {
+                    countedFiles.set(result.filePath, result.counted.fileInfo);
+                    lineCountIndex.store([result.counted]);
                 }
                 processedCount++; // Count both successful and failed files for progress tracking
             }
             
             // Update progress and yield after each batch
             const currentTime = Date.now();
-            if (currentTime - lastYieldTime > YIELD_INTERVAL || batchStart === 0 || batchEnd >= filteredFiles.length) {
+            if (currentTime - lastYieldTime > YIELD_INTERVAL || batchStart === 0 || batchEnd >= pendingFiles.length) {
                 const progressPercent = Math.round((processedCount / filteredFiles.length) * 100);
                 const filesRemaining = filteredFiles.length - processedCount;
                 this.debug.info(`Progress: ${progressPercent}% (${processedCount}/${filteredFiles.length} files) - ${filesRemaining} files remaining`);
@@ -1385,6 +982,23 @@ export class LineCounterService {
             }
         }
         
+        // Keep the workspace order regardless of where each count came from
+        for (const filePath of filteredFiles) {
+            const fileInfo = countedFiles.get(filePath);
+            if (fileInfo) {
+                fileInfos.push(fileInfo);
+                totalLines += fileInfo.lines;
+                totalFiles++;
+                
+                // Update language statistics
+                addToLanguageStats(languageStats, fileInfo);
+            }
+        }
+
+        await lineCountIndex.flush();
+        await lineCountIndex.removeDeletedFiles(filteredFiles);
+        await this.addLinguistCategories(fileInfos, discovery);
+        
         this.debug.info('Line counting completed:', {
             totalFilesProcessed: filteredFiles.length,
             successfulCounts: fileInfos.length,
@@ -1415,4 +1029,343 @@ export class LineCounterService {
             generatedAt: new Date()
         };
     }
-}
\ No newline at end of file
+
+    /**
+     * Recount only the given files under the same inclusion rules as a full count.
+     * Each path maps to its new FileInfo, or null when the file is gone or no
+     * longer belongs in the report.
+     */
+    async countChangedFiles(workspacePath: string, filePaths: string[]): Promise<Map<string, FileInfo | null>> {
+        this.initializeBinaryDetection(workspacePath);
+        const pathBasedSettings = new PathBasedSettingsService();
+        const settingsCache = new Map<string, {exclude: string[], include: string[]}>();
+        const discovery = this.createDiscoveryRules(workspacePath);
+        const lineCountIndex = LineCountIndexService.getInstance(workspacePath);
+        const results = new Map<string, FileInfo | null>();
+        const includedFiles: string[] = [];
+
+        for (const filePath of filePaths) {
+            let isFile = false;
+            try {
+                isFile = (await fs.promises.stat(filePath)).isFile();
+            } catch {
+                // Deleted (or renamed away) since the change was reported
+            }
+            if (isFile && (await this.checkFileInclusion(filePath, workspacePath, pathBasedSettings, settingsCache, discovery)).include) {
+                includedFiles.push(filePath);
+            } else {
+                results.set(filePath, null);
+            }
+        }
+
+        const { hits, misses } = await lineCountIndex.lookup(includedFiles);
+        hits.forEach((fileInfo, filePath) => results.set(filePath, fileInfo));
+        for (const filePath of misses) {
+            try {
+                const counted = await this.countFileWithStats(filePath, workspacePath);
+                results.set(filePath, counted.fileInfo);
+                lineCountIndex.store([counted]);
+            } catch (error) {
+                this.debug.error(`Failed to count lines in ${filePath}:`, error);
+                results.set(filePath, null);
+            }
+        }
+
+        await lineCountIndex.flush();
+        await lineCountIndex.remove([...results.keys()].filter(filePath => results.get(filePath) === null));
+        await this.addLinguistCategories([...results.values()].filter((fileInfo): fileInfo is FileInfo => fileInfo !== null), discovery);
+        return results;
+    }
+
+    /**
+     * Count files that are not read from the working copy, such as the blobs of a past
+     * commit, under the same path-based patterns, binary classification and language
+     * detection as a full count. filePaths are where the files would be in the workspace;
+     * readContents loads a batch of them and is never asked for excluded paths.
+     */
+    async countContents(
+        workspacePath: string,
+        filePaths: string[],
+        readContents: (filePaths: string[]) => Promise<Map<string, Buffer>>,
+        cancellationToken?: vscode.CancellationToken
+    ): Promise<LineCountResult> {
+        const CONTENT_BATCH_SIZE = 200;
+        this.initializeBinaryDetection(workspacePath);
+        const pathBasedSettings = new PathBasedSettingsService();
+        const settingsCache = new Map<string, {exclude: string[], include: string[]}>();
+        const discovery = this.createDiscoveryRules(workspacePath);
+        const engine = this.createLineCountEngine(workspacePath);
+
+        const candidates: Array<{ filePath: string; matchesInclusionPattern: boolean }> = [];
+        for (const filePath of filePaths) {
+            const { include, matchesInclusionPattern } = await this.matchPathPatterns(filePath, workspacePath, pathBasedSettings, settingsCache, discovery);
+            if (include) {
+                candidates.push({ filePath, matchesInclusionPattern });
+            }
+        }
+
+        const files: FileInfo[] = [];
+        const languageStats: { [language: string]: { files: number; lines: number } } = {};
+        for (let batchStart = 0; batchStart < candidates.length; batchStart += CONTENT_BATCH_SIZE) {
+            if (cancellationToken?.isCancellationRequested) {
+                throw new Error('Operation was cancelled by user');
+            }
+
+            const batch = candidates.slice(batchStart, batchStart + CONTENT_BATCH_SIZE);
+            const contents = await readContents(batch.map(candidate => candidate.filePath));
+            for (const { filePath, matchesInclusionPattern } of batch) {
+                const content = contents.get(filePath);
+                if (!content) {
+                    continue;
+                }
+                if (!matchesInclusionPattern && this.binaryClassificationService
+                    && !(await this.binaryClassificationService.classifyContent(filePath, content)).shouldInclude) {
+                    continue;
+                }
+
+                const text = content.toString('utf8');
+                const fileInfo = await engine.createFileInfo(filePath, text, this.languageDetector.detect(filePath, text), workspacePath);
+                files.push(fileInfo);
+                addToLanguageStats(languageStats, fileInfo);
+            }
+            await new Promise(resolve => setImmediate(resolve));
+        }
+        await this.addLinguistCategories(files, discovery);
+
+        return {
+            workspacePath,
+            totalFiles: files.length,
+            totalLines: files.reduce((sum, fileInfo) => sum + fileInfo.lines, 0),
+            files,
+            languageStats,
+            generatedAt: new Date()
+        };
+    }
+
+    /**
+     * Count the files of a git commit below the workspace folder, read from the object
+     * database so the working copy is left alone. relativePaths limits the count to those
+     * files. Throws when the commit's files cannot be listed.
+     */
+    async countCommit(
+        workspacePath: string,
+        commit: string,
+        relativePaths?: string[],
+        cancellationToken?: vscode.CancellationToken
+    ): Promise<LineCountResult> {
+        const git = GitService.getInstance();
+        const treeFiles = await git.listFiles(workspacePath, commit);
+        if (!treeFiles) {
+            throw new Error(`Could not list the files of commit ${commit.substring(0, 8)}`);
+        }
+
+        const wanted = relativePaths && new Set(relativePaths.map(relativePath => relativePath.replace(/\\/g, '/')));
+        const blobs = new Map(treeFiles
+            .filter(file => !wanted || wanted.has(file.path))
+            .map(file => [path.join(workspacePath, file.path), file.blob]));
+
+        return this.countContents(workspacePath, [...blobs.keys()], async filePaths => {
+            const contents = await git.readBlobs(workspacePath, filePaths.map(filePath => blobs.get(filePath)!));
+            const byPath = new Map<string, Buffer>();
+            for (const filePath of filePaths) {
+                const content = contents.get(blobs.get(filePath)!);
+                if (content) {
+                    byPath.set(filePath, content);
+                }
+            }
+            return byPath;
+        }, cancellationToken);
+    }
+
+    /**
+     * Decide whether a file belongs in the report using its path-based exclude/include
+     * patterns, ignore files, linguist attributes and binary classification. Settings are cached per directory.
+     */
+    private async checkFileInclusion(
+        filePath: string,
+        workspacePath: string,
+        pathBasedSettings: PathBasedSettingsService,
+        settingsCache: Map<string, {exclude: string[], include: string[]}>,
+        discovery?: FileDiscoveryRules
+    ): Promise<{ include: boolean; matchesInclusionPattern: boolean }> {
+        const patternMatch = await this.matchPathPatterns(filePath, workspacePath, pathBasedSettings, settingsCache, discovery);
+        const { relativePath, matchesInclusionPattern, isExcluded, excludingPattern, hasIncludePatterns } = patternMatch;
+        let shouldIncludeFile = patternMatch.include;
+        
+        // For files not explicitly included via patterns, also check if they're binary
+        if (shouldIncludeFile && !matchesInclusionPattern) {
+            // Check if file is binary using centralized classification service
+            if (this.binaryClassificationService) {
+                try {
+                    const result = await this.binaryClassificationService.classifyFile(filePath);
+                    shouldIncludeFile = result.shouldInclude;
+                } catch (error) {
+                    this.debug.warning('Binary classification error for', filePath, '- assuming binary');
+                    shouldIncludeFile = false;
+                }
+            } else {
+                // Fallback to simple binary detection if classification service not available
+                shouldIncludeFile = !(await this.isFileBinary(filePath));
+            }
+        }
+        
+        if (shouldIncludeFile) {
+            this.debug.verbose('File included:', { 
+                relativePath, 
+                matchesInclusionPattern, 
+                isExcluded,
+                hasIncludePatterns,
+                reason: matchesInclusionPattern ? 'inclusion pattern override' : 'not excluded and not binary' 
+            });
+        } else {
+            this.debug.verbose('File excluded:', { 
+                relativePath, 
+                isExcluded, 
+                excludingPattern: excludingPattern || 'none',
+                matchesInclusionPattern,
+                hasIncludePatterns,
+                reason: hasIncludePatterns ? 'no inclusion pattern match' : (isExcluded ? 'matched exclusion pattern' : 'binary file')
+            });
+        }
+        
+        return { include: shouldIncludeFile, matchesInclusionPattern };
+    }
+
+    /**
+     * The path-based exclusion and inclusion patterns part of checkFileInclusion; include
+     * is before the binary check, which applies unless matchesInclusionPattern. Files ignored
+     * by ignore files, or left out for their linguist category, count as excluded, so inclusion
+     * patterns still override them.
+     */
+    private async matchPathPatterns(
+        filePath: string,
+        workspacePath: string,
+        pathBasedSettings: PathBasedSettingsService,
+        settingsCache: Map<string, {exclude: string[], include: string[]}>,
+        discovery?: FileDiscoveryRules
+    ): Promise<{ include: boolean; matchesInclusionPattern: boolean; relativePath: string; isExcluded: boolean; excludingPattern: string; hasIncludePatterns: boolean }> {
+        const { minimatch } = require('minimatch');
+        const relativePath = path.relative(workspacePath, filePath).replace(/\\/g, '/');
+        
+        // Get path-specific patterns for this file using directory-based caching
+        const dirPath = path.dirname(filePath);
+        let cachedSettings = settingsCache.get(dirPath);
+        
+        if (!cachedSettings) {
+            const rawExcludePatterns = await pathBasedSettings.getExcludePatternsForPath(filePath);
+            const includePatterns = await pathBasedSettings.getIncludePatternsForPath(filePath);
+            cachedSettings = { exclude: rawExcludePatterns, include: includePatterns };
+            settingsCache.set(dirPath, cachedSettings);
+        }
+        
+        // Normalize patterns by removing leading slashes to fix minimatch compatibility
+        const normalizePattern = (pattern: string): string => {
+            return pattern.startsWith('/') ? pattern.substring(1) : pattern;
+        };
+
+        const normalizedExcludePatterns = this.filterProblematicPatterns(cachedSettings.exclude).map(normalizePattern);
+        const normalizedIncludePatterns = cachedSettings.include.map(normalizePattern);
+
+        // Check if file matches any exclusion pattern
+        const minimatchOptions = LineCounterService.MINIMATCH_OPTIONS;
+        let excludingPattern = normalizedExcludePatterns.find(pattern => minimatch(relativePath, pattern, minimatchOptions)) || '';
+        if (!excludingPattern && discovery?.ignoreFiles) {
+            const ignoringRule = await discovery.ignoreFiles.getIgnoringRule(filePath);
+            if (ignoringRule) {
+                excludingPattern = `${ignoringRule.pattern} (${ignoringRule.source})`;
+            }
+        }
+        if (!excludingPattern && discovery?.excludeLinguist && discovery.gitAttributes) {
+            const category = await discovery.gitAttributes.getLinguistCategory(filePath);
+            if (category) {
+                excludingPattern = `linguist-${category} (.gitattributes)`;
+            }
+        }
+        const isExcluded = excludingPattern !== '';
+        
+        // Check if file matches any inclusion pattern (only when include patterns exist)
+        const hasIncludePatterns = normalizedIncludePatterns.length > 0;
+        const matchesInclusionPattern = hasIncludePatterns && normalizedIncludePatterns.some((pattern: string) => minimatch(relativePath, pattern, minimatchOptions));
+        
+        // Apply inclusion/exclusion logic exactly like the decorator:
+        // - If include patterns exist and file matches one, include it (overrides exclusion and binary detection)
+        // - If include patterns exist and file doesn't match any, exclude it
+        // - If no include patterns exist, include unless excluded or binary
+        let shouldIncludeFile: boolean;
+        if (hasIncludePatterns) {
+            shouldIncludeFile = matchesInclusionPattern; // Only include if explicitly included (bypasses binary detection)
+        } else {
+            shouldIncludeFile = !isExcluded; // Include unless explicitly excluded, but still need to check for binary
+        }
+        
+        return { include: shouldIncludeFile, matchesInclusionPattern, relativePath, isExcluded, excludingPattern, hasIncludePatterns };
+    }
+
+    /**
+     * Filter out problematic patterns and replace with safe alternatives
+     */
+    private filterProblematicPatterns(patterns: string[]): string[] {
+        const safePatterns: string[] = [];
+        
+        for (const pattern of patterns) {
+            const trimmed = pattern.trim();
+            
+            // Remove patterns that would match everything
+            const globalMatchers = ['**/*', '*', '**', '**/**', '**.*', '*.*'];
+            if (globalMatchers.includes(trimmed)) {
+                this.debug.warning('Filtered out global matcher pattern:', pattern);
+                continue;
+            }
+            
+            // Keep other reasonable patterns (hidden directory patterns like **/.*/** work correctly)
+            safePatterns.push(pattern);
+        }
+        
+        return safePatterns;
+    }
+
+    /**
+     * Count files on worker threads, reporting each file as it finishes (null when
+     * it could not be counted). Returns the paths of every finished file; on worker
+     * failure the rest are left out so the caller can count them on the main thread.
+     */
+    private async countFilesWithWorkers(
+        filePaths: string[],
+        workspacePath: string,
+        chunkSize: number,
+        onFileCounted: (counted: CountedFile | null) => void,
+        cancellationToken?: vscode.CancellationToken
+    ): Promise<Set<string>> {
+        const finished = new Set<string>();
+        const pool = new LineCountWorkerPool({
+            ...this.languageRegistry.getTable().getDefinitions(),
+            mixedLineAccounting: LineCounterService.getMixedLineAccounting(workspacePath)
+        });
+        // Open editors and files.associations are only visible from the extension host
+        const files = filePaths.map(filePath => ({ filePath, detection: this.languageDetector.detectFromWorkspace(filePath) }));
+
+        try {
+            await pool.countFiles(files, workspacePath, {
+                chunkSize,
+                cancellationToken,
+                onResult: counted => {
+                    finished.add(counted.fileInfo.path);
+                    onFileCounted(counted);
+                },
+                onError: (filePath, message) => {
+                    this.debug.error(`Failed to count lines in ${filePath}:`, message);
+                    finished.add(filePath);
+                    onFileCounted(null);
+                }
+            });
+        } catch (error) {
+            if (cancellationToken?.isCancellationRequested) {
+                throw error;
+            }
+            this.debug.warning('Line count workers failed, counting remaining files on the main thread:', error);
+        } finally {
+            pool.dispose();
+        }
+        return finished;
+    }
+}
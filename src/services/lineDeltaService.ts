@@ -0,0 +1,225 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ChangeSizeService } from './changeSizeService';
+import { DebugService } from './debugService';
+import { GitService } from './gitService';
+import { FileSizeChange } from '../utils/diffUtils';
+import { getWorkspaceFolderPath } from '../utils/workspaceUtils';
+
+export type DecorationMode = 'lineCount' | 'lineDelta';
+
+/**
+ * Line count changes of a workspace folder's working tree against the base ref
+ */
+export interface WorkspaceLineDelta {
+    baseRef: string;
+    /** The base ref and the commit compared with, e.g. "HEAD (1a2b3c4d)" */
+    baseTitle: string;
+    /** Files whose line count changed, by absolute path, with their threshold tiers on both sides */
+    files: Map<string, FileSizeChange>;
+}
+
+/**
+ * Keeps the line delta of every changed file against codeCounter.lineDelta.baseRef for the
+ * explorer badges and the status bar. Baselines are counted from the git objects of the
+ * commit where HEAD forked off the base ref, so nothing is checked out.
+ */
+export class LineDeltaService {
+    private static readonly REFRESH_DELAY_MS = 1000;
+
+    private static instance: LineDeltaService | undefined;
+    private debug = DebugService.getInstance();
+    private git = GitService.getInstance();
+    private changeSize = ChangeSizeService.getInstance();
+    /** Deltas per workspace folder; null outside a git repository or for an unknown ref */
+    private deltas = new Map<string, WorkspaceLineDelta | null>();
+    private pending = new Map<string, Promise<WorkspaceLineDelta | null>>();
+    private refreshTimeouts = new Map<string, NodeJS.Timeout>();
+    private headWatchers = new Map<string, vscode.FileSystemWatcher>();
+
+    private _onDidChangeDeltas: vscode.EventEmitter<string[]> = new vscode.EventEmitter<string[]>();
+    /** Fires with the paths of the files and folders whose delta changed */
+    readonly onDidChangeDeltas: vscode.Event<string[]> = this._onDidChangeDeltas.event;
+
+    public static getInstance(): LineDeltaService {
+        if (!LineDeltaService.instance) {
+            LineDeltaService.instance = new LineDeltaService();
+        }
+        return LineDeltaService.instance;
+    }
+
+    /**
+     * Whether codeCounter.decorationMode shows line deltas instead of line counts
+     */
+    isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('codeCounter').get<DecorationMode>('decorationMode', 'lineCount') === 'lineDelta';
+    }
+
+    /**
+     * Deltas of the workspace folder containing a path, counted on first use; undefined
+     * outside a git repository
+     */
+    async getDeltas(filePath: string): Promise<WorkspaceLineDelta | undefined> {
+        const workspacePath = getWorkspaceFolderPath(filePath);
+        if (!workspacePath) {
+            return undefined;
+        }
+        if (this.deltas.has(workspacePath)) {
+            return this.deltas.get(workspacePath) || undefined;
+        }
+        return await this.compute(workspacePath) || undefined;
+    }
+
+    /**
+     * Recount the deltas of the workspace folder containing a saved, created or deleted
+     * path once changes settle; the current deltas stay in use until then
+     */
+    invalidate(filePath: string): void {
+        const workspacePath = getWorkspaceFolderPath(filePath);
+        if (!workspacePath || !this.deltas.has(workspacePath)) {
+            return;
+        }
+        const pending = this.refreshTimeouts.get(workspacePath);
+        if (pending) {
+            clearTimeout(pending);
+        }
+        this.refreshTimeouts.set(workspacePath, setTimeout(() => {
+            this.refreshTimeouts.delete(workspacePath);
+            this.compute(workspacePath).catch(error => this.debug.warning('Failed to refresh line deltas:', error));
+        }, LineDeltaService.REFRESH_DELAY_MS));
+    }
+
+    /**
+     * Drop the deltas of one or all workspace folders, e.g. when the base ref or the
+     * thresholds change
+     */
+    clear(workspacePath?: string): void {
+        const workspacePaths = workspacePath ? [workspacePath] : [...new Set([...this.deltas.keys(), ...this.pending.keys()])];
+        for (const current of workspacePaths) {
+            this.deltas.delete(current);
+            this.pending.delete(current);
+            const timeout = this.refreshTimeouts.get(current);
+            if (timeout) {
+                clearTimeout(timeout);
+                this.refreshTimeouts.delete(current);
+            }
+            this.headWatchers.get(current)?.dispose();
+            this.headWatchers.delete(current);
+        }
+    }
+
+    private compute(workspacePath: string): Promise<WorkspaceLineDelta | null> {
+        const existing = this.pending.get(workspacePath);
+        if (existing && !this.deltas.has(workspacePath)) {
+            return existing;
+        }
+
+        const baseRef = vscode.workspace.getConfiguration('codeCounter').get<string>('lineDelta.baseRef', 'HEAD').trim() || 'HEAD';
+        const pending: Promise<WorkspaceLineDelta | null> = this.countDeltas(workspacePath, baseRef).then(delta => {
+            if (this.pending.get(workspacePath) !== pending) {
+                return delta;
+            }
+            this.pending.delete(workspacePath);
+            const previous = this.deltas.get(workspacePath);
+            this.deltas.set(workspacePath, delta);
+            this.watchHead(workspacePath);
+            if (previous !== undefined) {
+                const changedPaths = this.getChangedPaths(workspacePath, previous, delta);
+                if (changedPaths.length > 0) {
+                    this._onDidChangeDeltas.fire(changedPaths);
+                }
+            }
+            return delta;
+        });
+        this.pending.set(workspacePath, pending);
+        return pending;
+    }
+
+    private async countDeltas(workspacePath: string, baseRef: string): Promise<WorkspaceLineDelta | null> {
+        try {
+            const diff = await this.changeSize.countChanges(workspacePath, baseRef, 'workingTree');
+            const files = new Map<string, FileSizeChange>();
+            for (const file of [...diff.added, ...diff.removed, ...diff.grown, ...diff.shrunk]) {
+                files.set(path.join(workspacePath, file.filePath), file);
+            }
+            this.debug.info(`Line deltas of ${workspacePath} against ${diff.base.title}: ${files.size} changed files`);
+            return { baseRef, baseTitle: diff.base.title, files };
+        } catch (error) {
+            this.debug.verbose(`No line deltas for ${workspacePath}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Recount when HEAD moves; the reflog of HEAD grows with every commit, checkout and pull
+     */
+    private async watchHead(workspacePath: string): Promise<void> {
+        if (this.headWatchers.has(workspacePath)) {
+            return;
+        }
+        const repositoryRoot = await this.git.getRepositoryRoot(workspacePath);
+        if (!repositoryRoot || this.headWatchers.has(workspacePath) || !this.deltas.has(workspacePath)) {
+            return;
+        }
+        const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(repositoryRoot, '.git/logs/HEAD'));
+        watcher.onDidChange(() => this.invalidate(workspacePath));
+        watcher.onDidCreate(() => this.invalidate(workspacePath));
+        this.headWatchers.set(workspacePath, watcher);
+    }
+
+    /**
+     * Files whose delta or tier changed between two counts, with their folders up to the workspace folder
+     */
+    private getChangedPaths(workspacePath: string, previous: WorkspaceLineDelta | null, current: WorkspaceLineDelta | null): string[] {
+        const before = previous?.files || new Map<string, FileSizeChange>();
+        const after = current?.files || new Map<string, FileSizeChange>();
+        const changedPaths = new Set<string>();
+        for (const filePath of new Set([...before.keys(), ...after.keys()])) {
+            const old = before.get(filePath);
+            const updated = after.get(filePath);
+            if (old?.change !== updated?.change || old?.tier !== updated?.tier || old?.baseTier !== updated?.baseTier) {
+                changedPaths.add(filePath);
+                for (let folder = path.dirname(filePath); folder.startsWith(workspacePath); folder = path.dirname(folder)) {
+                    changedPaths.add(folder);
+                    if (folder === workspacePath) {
+                        break;
+                    }
+                }
+            }
+        }
+        return [...changedPaths];
+    }
+
+    dispose(): void {
+        this.clear();
+        this._onDidChangeDeltas.dispose();
+    }
+}
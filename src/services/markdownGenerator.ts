@@ -0,0 +1,113 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+import { ColorThreshold, lineThresholdService } from './lineThresholdService';
+import { FileSizeChange, formatLineChange, formatPercentChange, LineCountDiff } from '../utils/diffUtils';
+
+export class MarkdownGeneratorService {
+
+    /**
+     * Markdown summary of a comparison, sized to paste into a pull request description;
+     * file lists are folded into <details> blocks
+     */
+    generateDiffMarkdown(diff: LineCountDiff): string {
+        const withLineChanges = diff.totals.linesAdded !== undefined;
+        const lines: string[] = [
+            `## 📏 Code Counter: ${this.escape(diff.base.title)} → ${this.escape(diff.current.title)}`,
+            '',
+            '| | Base | Current | Change |',
+            '|---|---:|---:|---:|',
+            `| Lines | ${diff.totals.baseLines.toLocaleString()} | ${diff.totals.lines.toLocaleString()} | ${formatLineChange(diff.totals.change)} (${formatPercentChange(diff.totals.percentChange)}) |`,
+            `| Files | ${diff.totals.baseFiles.toLocaleString()} | ${diff.totals.files.toLocaleString()} | ${formatLineChange(diff.totals.files - diff.totals.baseFiles)} |`
+        ];
+        if (withLineChanges) {
+            lines.push(`| Lines added / removed | | | +${diff.totals.linesAdded!.toLocaleString()} / −${diff.totals.linesRemoved!.toLocaleString()} |`);
+        }
+
+        if (diff.languages.length > 0) {
+            lines.push('', '### Languages', '');
+            lines.push(withLineChanges
+                ? '| Language | Files | Lines | Added | Removed | Net | Change |'
+                : '| Language | Files | Lines | Net | Change |');
+            lines.push(withLineChanges ? '|---|---:|---:|---:|---:|---:|---:|' : '|---|---:|---:|---:|---:|');
+            for (const language of diff.languages) {
+                const cells = [
+                    this.escape(language.language),
+                    `${language.baseFiles.toLocaleString()} → ${language.files.toLocaleString()}`,
+                    `${language.baseLines.toLocaleString()} → ${language.lines.toLocaleString()}`,
+                    ...(withLineChanges ? [`+${language.linesAdded!.toLocaleString()}`, `−${language.linesRemoved!.toLocaleString()}`] : []),
+                    formatLineChange(language.change),
+                    formatPercentChange(language.percentChange)
+                ];
+                lines.push(`| ${cells.join(' | ')} |`);
+            }
+        }
+
+        if (diff.tierChanges && diff.tierChanges.length > 0) {
+            lines.push('', '### 🚦 Threshold Changes', '', '| File | Lines | Tier |', '|---|---:|---|');
+            for (const file of diff.tierChanges) {
+                const tiers = `${file.baseTier ? `${this.formatTier(file.baseTier)} → ` : ''}${this.formatTier(file.tier!)}`;
+                lines.push(`| ${this.formatPath(file.filePath)} | ${file.baseLines.toLocaleString()} → ${file.lines.toLocaleString()} | ${tiers} |`);
+            }
+        }
+
+        const sections: Array<[string, FileSizeChange[]]> = [
+            ['🆕 New files', diff.added],
+            ['🗑️ Deleted files', diff.removed],
+            ['📈 Grown files', diff.grown],
+            ['📉 Shrunk files', diff.shrunk]
+        ];
+        for (const [title, files] of sections.filter(([, files]) => files.length > 0)) {
+            lines.push('', `<details><summary>${title} (${files.length.toLocaleString()})</summary>`, '');
+            lines.push('| File | Language | Before | After | Change |', '|---|---|---:|---:|---:|');
+            for (const file of files) {
+                lines.push(`| ${this.formatPath(file.filePath)} | ${this.escape(file.language)} | ${file.baseLines.toLocaleString()} | ${file.lines.toLocaleString()} | ${formatLineChange(file.change)} (${formatPercentChange(file.percentChange)}) |`);
+            }
+            lines.push('', '</details>');
+        }
+
+        if (diff.unchangedFiles > 0) {
+            lines.push('', `${diff.unchangedFiles.toLocaleString()} file${diff.unchangedFiles === 1 ? '' : 's'} kept the same line count.`);
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    private formatTier(tier: ColorThreshold): string {
+        return `${lineThresholdService.getThemeEmoji(tier)} ${tier}`;
+    }
+
+    private formatPath(filePath: string): string {
+        return `\`${filePath.replace(/`/g, "'").replace(/\|/g, '\\|')}\``;
+    }
+
+    /**
+     * Escape the characters that would break a table cell or start Markdown formatting
+     */
+    private escape(text: string): string {
+        return text.replace(/[\\|*_`<>[\]]/g, character => `\\${character}`);
+    }
+}
@@ -31,6 +31,7 @@ import { WorkspaceDatabaseService, ResolvedSettings } from './workspaceDatabaseS
 import { DebugService } from './debugService';
 import { SettingsCache } from './settingsCache';
 import { FileMetadataCache } from './fileMetadataCache';
+import { DEFAULT_FOLDER_THRESHOLDS, FolderAggregationMode, FolderThresholds, isFolderAggregationMode } from '../utils/folderAggregationUtils';
 
 export type ColorThreshold = 'normal' | 'warning' | 'danger';
 
@@ -52,6 +53,11 @@ export interface ColorThresholdConfig {
     highThreshold: number;
 }
 
+export interface FolderAggregationConfig {
+    mode: FolderAggregationMode;
+    thresholds: FolderThresholds;
+}
+
 export class PathBasedSettingsService implements vscode.Disposable {
     private debug = DebugService.getInstance();
     private workspaceServices: Map<string, WorkspaceDatabaseService> = new Map();
@@ -178,7 +184,14 @@ export class PathBasedSettingsService implements vscode.Disposable {
                 'codeCounter.emojis.folders.danger': folderEmojiConfig.get('danger', '🟥'),
                 'codeCounter.lineThresholds.midThreshold': config.get('lineThresholds.midThreshold', 300),
                 'codeCounter.lineThresholds.highThreshold': config.get('lineThresholds.highThreshold', 1000),
-                'codeCounter.showNotificationOnAutoGenerate': config.get('showNotificationOnAutoGenerate', false)
+                'codeCounter.symbolThresholds.midThreshold': config.get('symbolThresholds.midThreshold', 50),
+                'codeCounter.symbolThresholds.highThreshold': config.get('symbolThresholds.highThreshold', 150),
+                'codeCounter.emojis.symbols.normal': emojiConfig.get('symbols.normal', '🟢'),
+                'codeCounter.emojis.symbols.warning': emojiConfig.get('symbols.warning', '🟡'),
+                'codeCounter.emojis.symbols.danger': emojiConfig.get('symbols.danger', '🔴'),
+                'codeCounter.showNotificationOnAutoGenerate': config.get('showNotificationOnAutoGenerate', false),
+                'codeCounter.folderAggregation.mode': config.get('folderAggregation.mode', 'average'),
+                'codeCounter.folderAggregation.thresholds': config.get('folderAggregation.thresholds', {})
             } as ResolvedSettings;
         } else {
             try {
@@ -213,7 +226,14 @@ export class PathBasedSettingsService implements vscode.Disposable {
                     'codeCounter.emojis.folders.danger': folderEmojiConfig.get('danger', '🟥'),
                     'codeCounter.lineThresholds.midThreshold': config.get('lineThresholds.midThreshold', 300),
                     'codeCounter.lineThresholds.highThreshold': config.get('lineThresholds.highThreshold', 1000),
-                    'codeCounter.showNotificationOnAutoGenerate': config.get('showNotificationOnAutoGenerate', false)
+                    'codeCounter.symbolThresholds.midThreshold': config.get('symbolThresholds.midThreshold', 50),
+                    'codeCounter.symbolThresholds.highThreshold': config.get('symbolThresholds.highThreshold', 150),
+                    'codeCounter.emojis.symbols.normal': emojiConfig.get('symbols.normal', '🟢'),
+                    'codeCounter.emojis.symbols.warning': emojiConfig.get('symbols.warning', '🟡'),
+                    'codeCounter.emojis.symbols.danger': emojiConfig.get('symbols.danger', '🔴'),
+                'codeCounter.showNotificationOnAutoGenerate': config.get('showNotificationOnAutoGenerate', false),
+                    'codeCounter.folderAggregation.mode': config.get('folderAggregation.mode', 'average'),
+                    'codeCounter.folderAggregation.thresholds': config.get('folderAggregation.thresholds', {})
                 } as ResolvedSettings;
             }
         }
@@ -347,6 +367,85 @@ export class PathBasedSettingsService implements vscode.Disposable {
         }
     }
 
+    /**
+     * Get the folder badge metric and its folder thresholds for a specific folder path
+     */
+    async getFolderAggregationForPath(folderPath: string): Promise<FolderAggregationConfig> {
+        const resolvedSettings = await this.getResolvedSettingsForPath(folderPath);
+        const config = vscode.workspace.getConfiguration('codeCounter');
+        const configuredMode = resolvedSettings
+            ? resolvedSettings['codeCounter.folderAggregation.mode']
+            : config.get<string>('folderAggregation.mode', 'average');
+        const mode: FolderAggregationMode = isFolderAggregationMode(configuredMode) ? configuredMode : 'average';
+
+        const configuredThresholds: ResolvedSettings['codeCounter.folderAggregation.thresholds'] = (resolvedSettings
+            ? resolvedSettings['codeCounter.folderAggregation.thresholds']
+            : config.get('folderAggregation.thresholds', {})) || {};
+        const midThreshold = configuredThresholds[mode]?.mid ?? DEFAULT_FOLDER_THRESHOLDS[mode].mid;
+        let highThreshold = configuredThresholds[mode]?.high ?? DEFAULT_FOLDER_THRESHOLDS[mode].high;
+
+        // Ensure High threshold is higher than mid threshold
+        if (highThreshold <= midThreshold) {
+            highThreshold = midThreshold + 1;
+            this.debug.warning(`Folder ${mode} high threshold must be higher than mid threshold (${midThreshold}). Using ${highThreshold} instead.`);
+        }
+
+        return { mode, thresholds: { mid: midThreshold, high: highThreshold } };
+    }
+
+    /**
+     * Get color threshold classification for a folder metric
+     */
+    getFolderColorThreshold(value: number, thresholds: FolderThresholds): ColorThreshold {
+        if (value >= thresholds.high) {
+            return 'danger';
+        } else if (value >= thresholds.mid) {
+            return 'warning';
+        }
+        return 'normal';
+    }
+
+    /**
+     * Get the function, method and class size thresholds for a specific file path
+     */
+    async getSymbolThresholdConfigForPath(filePath: string): Promise<ColorThresholdConfig> {
+        const resolvedSettings = await this.getResolvedSettingsForPath(filePath);
+        const config = vscode.workspace.getConfiguration('codeCounter.symbolThresholds');
+        const midThreshold = resolvedSettings?.['codeCounter.symbolThresholds.midThreshold'] ?? config.get<number>('midThreshold', 50);
+        let highThreshold = resolvedSettings?.['codeCounter.symbolThresholds.highThreshold'] ?? config.get<number>('highThreshold', 150);
+
+        // Ensure High threshold is higher than mid threshold
+        if (highThreshold <= midThreshold) {
+            highThreshold = midThreshold + 1;
+            this.debug.warning(`Symbol high threshold must be higher than mid threshold (${midThreshold}). Using ${highThreshold} instead.`);
+        }
+
+        return { enabled: true, midThreshold, highThreshold };
+    }
+
+    /**
+     * Get color threshold classification for the line count of a symbol in a specific file
+     */
+    async getSymbolColorThresholdForPath(lineCount: number, filePath: string): Promise<ColorThreshold> {
+        const config = await this.getSymbolThresholdConfigForPath(filePath);
+        if (lineCount >= config.highThreshold) {
+            return 'danger';
+        } else if (lineCount >= config.midThreshold) {
+            return 'warning';
+        }
+        return 'normal';
+    }
+
+    /**
+     * Get symbol emoji for threshold at specific path
+     */
+    async getSymbolEmojiForPath(threshold: ColorThreshold, filePath: string): Promise<string> {
+        const resolvedSettings = await this.getResolvedSettingsForPath(filePath);
+        const config = vscode.workspace.getConfiguration('codeCounter.emojis.symbols');
+        const defaults: CustomEmojis = { normal: '🟢', warning: '🟡', danger: '🔴' };
+        return resolvedSettings?.[`codeCounter.emojis.symbols.${threshold}`] ?? config.get<string>(threshold, defaults[threshold]);
+    }
+
     /**
      * Get theme emoji for threshold at specific path
      */
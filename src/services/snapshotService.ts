@@ -0,0 +1,128 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as vscode from 'vscode';
+import { LineCountResult } from '../types';
+import { DebugService } from './debugService';
+import { GitService } from './gitService';
+import { LineCountSnapshot, SnapshotLanguageRecord, SnapshotTrigger } from './workspaceDatabaseService';
+import { createSnapshotContent, selectSnapshotsToPrune, SnapshotRetentionPolicy } from '../utils/snapshotUtils';
+import { getWorkspaceService } from '../utils/workspaceUtils';
+
+/**
+ * Records line count history in the workspace database of each workspace folder and
+ * applies the retention policy
+ */
+export class SnapshotService {
+    private static instance: SnapshotService | undefined;
+
+    private debug = DebugService.getInstance();
+    private git = GitService.getInstance();
+    private readonly _onDidChangeSnapshots = new vscode.EventEmitter<string>();
+
+    /** Fires with the workspace path whose snapshots were added, changed or removed */
+    readonly onDidChangeSnapshots = this._onDidChangeSnapshots.event;
+
+    public static getInstance(): SnapshotService {
+        if (!SnapshotService.instance) {
+            SnapshotService.instance = new SnapshotService();
+        }
+        return SnapshotService.instance;
+    }
+
+    /**
+     * Store a count result as a snapshot, tagged with the current commit and branch unless
+     * the commit it was counted from is given, then prune snapshots beyond the retention policy
+     */
+    async recordSnapshot(result: LineCountResult, trigger: SnapshotTrigger, label?: string, revision?: { commit: string; branch?: string }): Promise<LineCountSnapshot> {
+        const workspacePath = result.workspacePath;
+        const { totals, files, languages } = createSnapshotContent(result);
+        const [commit, branch] = revision ? [revision.commit, revision.branch] : await Promise.all([
+            this.git.getHeadCommit(workspacePath),
+            this.git.getCurrentBranch(workspacePath)
+        ]);
+
+        const snapshot: Omit<LineCountSnapshot, 'id'> = {
+            createdAt: result.generatedAt,
+            label: label && label.trim() !== '' ? label.trim() : undefined,
+            trigger,
+            commit,
+            branch,
+            ...totals
+        };
+        const id = await getWorkspaceService(workspacePath).addSnapshot(snapshot, files, languages);
+        this.debug.info(`Recorded ${trigger} snapshot ${id} for ${workspacePath}: ${totals.files} files, ${totals.lines} lines`);
+
+        await this.pruneSnapshots(workspacePath);
+        this._onDidChangeSnapshots.fire(workspacePath);
+        return { id, ...snapshot };
+    }
+
+    /**
+     * Snapshots of a workspace folder, newest first
+     */
+    async getSnapshots(workspacePath: string): Promise<LineCountSnapshot[]> {
+        return getWorkspaceService(workspacePath).getSnapshots();
+    }
+
+    async getSnapshotLanguages(workspacePath: string, id: number): Promise<SnapshotLanguageRecord[]> {
+        return getWorkspaceService(workspacePath).getSnapshotLanguages(id);
+    }
+
+    async labelSnapshot(workspacePath: string, id: number, label: string | undefined): Promise<void> {
+        await getWorkspaceService(workspacePath).setSnapshotLabel(id, label);
+        this._onDidChangeSnapshots.fire(workspacePath);
+    }
+
+    async deleteSnapshots(workspacePath: string, ids: number[]): Promise<void> {
+        await getWorkspaceService(workspacePath).deleteSnapshots(ids);
+        this._onDidChangeSnapshots.fire(workspacePath);
+    }
+
+    /**
+     * Delete the snapshots beyond the retention policy; returns how many were deleted
+     */
+    async pruneSnapshots(workspacePath: string, policy: SnapshotRetentionPolicy = this.getRetentionPolicy()): Promise<number> {
+        const workspaceService = getWorkspaceService(workspacePath);
+        const pruned = selectSnapshotsToPrune(await workspaceService.getSnapshots(), policy);
+        if (pruned.length > 0) {
+            await workspaceService.deleteSnapshots(pruned.map(snapshot => snapshot.id));
+            this.debug.info(`Pruned ${pruned.length} snapshots for ${workspacePath}`);
+            this._onDidChangeSnapshots.fire(workspacePath);
+        }
+        return pruned.length;
+    }
+
+    getRetentionPolicy(): SnapshotRetentionPolicy {
+        const config = vscode.workspace.getConfiguration('codeCounter');
+        return {
+            maxCount: Math.max(0, config.get<number>('snapshots.retention.maxCount', 200)),
+            maxAgeDays: Math.max(0, config.get<number>('snapshots.retention.maxAgeDays', 0))
+        };
+    }
+}
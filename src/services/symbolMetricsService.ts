@@ -0,0 +1,141 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import * as vscode from 'vscode';
+import { FileInfo, LargestSymbol } from '../types';
+import { DebugService } from './debugService';
+
+/**
+ * Line count of one function, method or class
+ */
+export interface SymbolMetric {
+    name: string;
+    kind: vscode.SymbolKind;
+    range: vscode.Range;
+    lines: number;
+}
+
+/**
+ * Measures functions, methods and classes through the document symbol providers of
+ * the installed language extensions
+ */
+export class SymbolMetricsService {
+    private static instance: SymbolMetricsService | undefined;
+    private static readonly MEASURED_KINDS = new Set<vscode.SymbolKind>([
+        vscode.SymbolKind.Function,
+        vscode.SymbolKind.Method,
+        vscode.SymbolKind.Constructor,
+        vscode.SymbolKind.Class,
+        vscode.SymbolKind.Struct
+    ]);
+    private static readonly REPORT_CONCURRENCY = 4;
+
+    private debug = DebugService.getInstance();
+
+    public static getInstance(): SymbolMetricsService {
+        if (!SymbolMetricsService.instance) {
+            SymbolMetricsService.instance = new SymbolMetricsService();
+        }
+        return SymbolMetricsService.instance;
+    }
+
+    /**
+     * Every function, method and class of a document, nested ones included, in document order
+     */
+    async getSymbolMetrics(uri: vscode.Uri): Promise<SymbolMetric[]> {
+        const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined>(
+            'vscode.executeDocumentSymbolProvider',
+            uri
+        );
+
+        const metrics: SymbolMetric[] = [];
+        const collect = (symbol: vscode.DocumentSymbol | vscode.SymbolInformation) => {
+            const range = 'location' in symbol ? symbol.location.range : symbol.range;
+            if (SymbolMetricsService.MEASURED_KINDS.has(symbol.kind)) {
+                metrics.push({
+                    name: symbol.name,
+                    kind: symbol.kind,
+                    range,
+                    lines: range.end.line - range.start.line + 1
+                });
+            }
+            if ('children' in symbol) {
+                symbol.children.forEach(collect);
+            }
+        };
+        (symbols || []).forEach(collect);
+
+        return metrics.sort((a, b) => a.range.start.line - b.range.start.line);
+    }
+
+    /**
+     * The largest function, method or class of a file, if its language has a symbol provider
+     */
+    async getLargestSymbol(uri: vscode.Uri): Promise<LargestSymbol | undefined> {
+        const metrics = await this.getSymbolMetrics(uri);
+        const largest = metrics.reduce<SymbolMetric | undefined>((max, metric) => !max || metric.lines > max.lines ? metric : max, undefined);
+        return largest && {
+            name: largest.name,
+            kind: SymbolMetricsService.getKindLabel(largest.kind),
+            lines: largest.lines,
+            line: largest.range.start.line + 1
+        };
+    }
+
+    /**
+     * Attach the largest symbol to each counted file for the report and the exports.
+     * Files whose language has no symbol provider are left without one. Off by default,
+     * as every file is opened as a document and its language server started.
+     */
+    async addLargestSymbols(files: FileInfo[]): Promise<void> {
+        const config = vscode.workspace.getConfiguration('codeCounter');
+        if (!config.get<boolean>('symbolMetrics.includeInReport', false)) {
+            return;
+        }
+
+        let next = 0;
+        const worker = async () => {
+            while (next < files.length) {
+                const file = files[next++];
+                try {
+                    file.largestSymbol = await this.getLargestSymbol(vscode.Uri.file(file.path));
+                } catch (error) {
+                    this.debug.verbose(`No symbols for ${file.path}:`, error);
+                }
+            }
+        };
+
+        const startTime = Date.now();
+        await Promise.all(Array.from({ length: Math.min(SymbolMetricsService.REPORT_CONCURRENCY, files.length) }, worker));
+        this.debug.info(`Measured symbols of ${files.length} files in ${Date.now() - startTime}ms`);
+    }
+
+    static getKindLabel(kind: vscode.SymbolKind): string {
+        return vscode.SymbolKind[kind] || 'Symbol';
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import { DebugService } from './debugService';
+import { LineCountSnapshot, WorkspaceDatabaseService } from './workspaceDatabaseService';
+import { buildReportTrends, buildTrendTimeline, ReportTrends, SnapshotDetails } from '../utils/trendUtils';
+import { getWorkspaceService } from '../utils/workspaceUtils';
+
+/**
+ * Builds the report's line count trends from the snapshots of one or more workspace folders
+ */
+export class TrendService {
+    private static instance: TrendService | undefined;
+
+    /** Number of most recent points with per-file history, drawn as sparklines in the file table */
+    private static readonly FILE_HISTORY_POINTS = 30;
+
+    private debug = DebugService.getInstance();
+
+    public static getInstance(): TrendService {
+        if (!TrendService.instance) {
+            TrendService.instance = new TrendService();
+        }
+        return TrendService.instance;
+    }
+
+    /**
+     * Trends of the given workspace folders; rootPrefixes holds the path prefix of each
+     * folder's files in the report. Folders without a database have no history.
+     */
+    async getTrends(workspacePaths: string[], rootPrefixes: string[] = []): Promise<ReportTrends> {
+        const roots = await Promise.all(workspacePaths.map(async workspacePath =>
+            WorkspaceDatabaseService.hasDatabase(workspacePath) ? getWorkspaceService(workspacePath).getSnapshots() : []
+        ));
+        const timeline = buildTrendTimeline(roots);
+        const historyStart = Math.max(0, timeline.length - TrendService.FILE_HISTORY_POINTS);
+
+        const details = new Map<LineCountSnapshot, SnapshotDetails>();
+        for (const [index, entry] of timeline.entries()) {
+            for (const [rootIndex, snapshot] of entry.snapshots.entries()) {
+                if (!snapshot) {
+                    continue;
+                }
+                const workspaceService = getWorkspaceService(workspacePaths[rootIndex]);
+                let snapshotDetails = details.get(snapshot);
+                if (!snapshotDetails) {
+                    snapshotDetails = { languages: await workspaceService.getSnapshotLanguages(snapshot.id) };
+                    details.set(snapshot, snapshotDetails);
+                }
+                if (index >= historyStart && !snapshotDetails.files) {
+                    snapshotDetails.files = await workspaceService.getSnapshotFiles(snapshot.id);
+                }
+            }
+        }
+
+        const trends = buildReportTrends(timeline, (_rootIndex, snapshot) => details.get(snapshot)!, rootPrefixes, TrendService.FILE_HISTORY_POINTS);
+        this.debug.verbose(`Loaded ${trends.points.length} trend points with history for ${Object.keys(trends.fileHistory).length} files`);
+        return trends;
+    }
+}
@@ -33,9 +33,25 @@ import { XmlGeneratorService } from './xmlGenerator';
 import { CsvGeneratorService } from './csvGenerator';
 import { JsonGeneratorService } from './jsonGenerator';
 import { ExportAllService } from './exportAllService';
-import { LineCountResult } from '../types';
+import { FileAuthor, FileHotspot, FileInfo, LineCountResult, LanguageDetectionSource, LanguageSection, LargestSymbol, LinguistCategory } from '../types';
 import { DebugService } from './debugService';
 import { LineCounterService } from './lineCounter';
+import { IncrementalReportService, ReportDelta } from './incrementalReportService';
+import { SnapshotService } from './snapshotService';
+import { TrendService } from './trendService';
+import { aggregateLanguages, addToLanguageStats } from '../utils/languageStatsUtils';
+import { filterTrendPoints, formatTrendsCsv, ReportTrends } from '../utils/trendUtils';
+import { ReportAuthorship, summarizeAuthorship } from '../utils/authorshipUtils';
+import { getHotspotThresholds, ReportHotspots } from '../utils/hotspotUtils';
+
+/**
+ * Narrows the file table when the report opens, e.g. from the Code Counter tree view
+ */
+export interface ReportFilter {
+    language?: string;
+    /** Absolute path of a file or directory */
+    path?: string;
+}
 
 export interface ReportData {
     summary: {
@@ -44,6 +60,7 @@ export interface ReportData {
         totalCodeLines: number;
         totalCommentLines: number;
         totalBlankLines: number;
+        totalMixedLines: number;
         languageCount: number;
     };
     languages: Array<{
@@ -53,6 +70,7 @@ export interface ReportData {
         codeLines: number;
         commentLines: number;
         blankLines: number;
+        mixedLines: number;
     }>;
     files: Array<{
         path: string;
@@ -60,14 +78,41 @@ export interface ReportData {
         directory: string;
         fileName: string;
         language: string;
+        languageSource?: LanguageDetectionSource;
         lines: number;
         codeLines: number;
         commentLines: number;
         blankLines: number;
+        mixedLines: number;
         size: number;
+        /** Per-language totals when the file embeds other languages; the file is still listed once */
+        languageSections?: LanguageSection[];
+        /** Largest function, method or class of the file */
+        largestSymbol?: LargestSymbol;
+        /** Who last changed the file's lines according to git blame */
+        authors?: FileAuthor[];
+        /** Recent commits, changed lines and hotspot score of the file */
+        hotspot?: FileHotspot;
+        /** Generated, vendored or documentation per the file's .gitattributes */
+        linguist?: LinguistCategory;
+        /** Workspace folder name when the report combines several roots */
+        root?: string;
+    }>;
+    /** Subtotals per workspace folder when the report combines several roots */
+    roots?: Array<{
+        name: string;
+        path: string;
+        summary: ReportData['summary'];
     }>;
     workspacePath: string;
     generatedDate: string;
+    filter?: ReportFilter;
+    /** Line count history from the recorded snapshots, for the Trends tab */
+    trends?: ReportTrends;
+    /** Lines per author, team, directory and language, for the Authors tab */
+    authorship?: ReportAuthorship;
+    /** Quadrant thresholds and history window, for the Hotspots tab */
+    hotspots?: ReportHotspots;
 }
 
 export class WebViewReportService {
@@ -75,6 +120,7 @@ export class WebViewReportService {
     private static instance: WebViewReportService;
     private currentPanel: vscode.WebviewPanel | undefined;
     private currentData: ReportData | undefined;
+    private currentResults: LineCountResult[] = [];
     private htmlGenerator: HtmlGeneratorService;
     private xmlGenerator: XmlGeneratorService;
     private csvGenerator: CsvGeneratorService;
@@ -87,6 +133,12 @@ export class WebViewReportService {
         this.csvGenerator = new CsvGeneratorService();
         this.jsonGenerator = new JsonGeneratorService();
         this.exportAllService = new ExportAllService();
+
+        SnapshotService.getInstance().onDidChangeSnapshots(workspacePath => {
+            if (this.currentResults.some(result => result.workspacePath === workspacePath)) {
+                this.updatePanelTrends().catch(error => this.debug.error('❌ Failed to update trends:', error));
+            }
+        });
     }
 
     public static getInstance(): WebViewReportService {
@@ -106,6 +158,7 @@ export class WebViewReportService {
         
         // Store current data for export functionality
         this.currentData = data;
+        this.currentResults = [];
         
         // If panel already exists, reveal it and update data
         if (this.currentPanel) {
@@ -155,17 +208,21 @@ export class WebViewReportService {
                                 return;
                             }
 
-                            // Generate new data using the same pattern as CountLinesCommand
+                            // Generate new data for every root folder using the same pattern as CountLinesCommand
                             this.debug.info('🔄 Regenerating line count data...');
                             const lineCounter = new LineCounterService();
-                            const folder = workspaceFolders[0];
-                            const results = await lineCounter.countLinesWithPathBasedSettings(folder.uri.fsPath);
-                            
-                            // Convert to ReportData format (using the same conversion logic)
-                            const newData = this.convertLineCountToReportData(results, folder.uri.fsPath);
+                            const results: LineCountResult[] = [];
+                            for (const folder of workspaceFolders) {
+                                const result = await lineCounter.countLinesWithPathBasedSettings(folder.uri.fsPath);
+                                IncrementalReportService.getInstance().setBaseline(result);
+                                results.push(result);
+                            }
                             
                             this.debug.info('🔄 New data generated, updating panel');
-                            await this.updatePanelData(newData);
+                            const data = this.createReportData(results);
+                            data.trends = await this.loadTrends(results);
+                            await this.updatePanelData(data);
+                            this.currentResults = results;
                             
                         } catch (error) {
                             this.debug.error('❌ Error during refresh:', error);
@@ -253,6 +310,21 @@ export class WebViewReportService {
                             vscode.window.showErrorMessage('No data available for export');
                         }
                         break;
+                    case 'exportTrendsCSV':
+                        // Handle trend series export requests for the date range picked in the Trends tab
+                        this.debug.info('💾 Trends CSV export requested from webview');
+                        if (this.currentData?.trends) {
+                            try {
+                                const points = filterTrendPoints(this.currentData.trends.points, message.from || undefined, message.to || undefined);
+                                await this.saveCSVFile(formatTrendsCsv(points), `code-counter-trends-${this.getDateString()}.csv`);
+                            } catch (error) {
+                                this.debug.error('❌ Failed to export trends CSV:', error);
+                                vscode.window.showErrorMessage(`Failed to export trends CSV: ${error instanceof Error ? error.message : String(error)}`);
+                            }
+                        } else {
+                            vscode.window.showErrorMessage('No line count history available for export');
+                        }
+                        break;
                     case 'debugLog':
                         // Handle debug messages from webview
                         const webviewPrefix = '[WEBVIEW-REPORT]';
@@ -278,6 +350,88 @@ export class WebViewReportService {
         );
     }
 
+    /**
+     * Show the line counts of one or more workspace folders. With several roots the report
+     * combines them, prefixing file paths with the folder name and adding per-root subtotals.
+     */
+    public async showResults(results: LineCountResult[], filter?: ReportFilter): Promise<void> {
+        const data = this.createReportData(results);
+        data.filter = filter;
+        data.trends = await this.loadTrends(results);
+        await this.showReport(data);
+        this.currentResults = results;
+    }
+
+    /**
+     * Report data for one or more workspace folders
+     */
+    public createReportData(results: LineCountResult[]): ReportData {
+        if (results.length === 1) {
+            const singleRootData = this.convertLineCountToReportData(results[0], results[0].workspacePath);
+            singleRootData.authorship = summarizeAuthorship(singleRootData.files);
+            singleRootData.hotspots = this.getReportHotspots(singleRootData.files);
+            return singleRootData;
+        }
+
+        const roots: NonNullable<ReportData['roots']> = [];
+        const files: FileInfo[] = [];
+        const fileRoots: string[] = [];
+        for (const result of results) {
+            const name = this.getRootName(result.workspacePath);
+            roots.push({ name, path: result.workspacePath, summary: this.convertLineCountToReportData(result, result.workspacePath).summary });
+            for (const file of result.files) {
+                files.push({ ...file, relativePath: `${name}/${file.relativePath}` });
+                fileRoots.push(name);
+            }
+        }
+
+        const data = this.convertLineCountToReportData({ files }, results[0]?.workspacePath || '');
+        data.files.forEach((file, index) => file.root = fileRoots[index]);
+        data.roots = roots;
+        data.authorship = summarizeAuthorship(data.files);
+        data.hotspots = this.getReportHotspots(data.files);
+        return data;
+    }
+
+    /**
+     * Hotspot thresholds of the report's files; undefined when none has git history
+     */
+    private getReportHotspots(files: ReportData['files']): ReportHotspots | undefined {
+        const thresholds = getHotspotThresholds(files);
+        const windowDays = vscode.workspace.getConfiguration('codeCounter').get<number>('hotspots.windowDays', 90);
+        return thresholds && { ...thresholds, windowDays };
+    }
+
+    private getRootName(workspacePath: string): string {
+        const folder = vscode.workspace.workspaceFolders?.find(candidate => candidate.uri.fsPath === workspacePath);
+        return folder?.name || path.basename(workspacePath);
+    }
+
+    /**
+     * Trends of the report's workspace folders; undefined when the history cannot be read
+     */
+    private async loadTrends(results: LineCountResult[]): Promise<ReportTrends | undefined> {
+        try {
+            const rootPrefixes = results.length > 1 ? results.map(result => `${this.getRootName(result.workspacePath)}/`) : [];
+            return await TrendService.getInstance().getTrends(results.map(result => result.workspacePath), rootPrefixes);
+        } catch (error) {
+            this.debug.warning('⚠️ Failed to load line count trends:', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Reload the trends of the open panel after snapshots were recorded or removed
+     */
+    private async updatePanelTrends(): Promise<void> {
+        if (!this.currentPanel || !this.currentData) {
+            return;
+        }
+        const trends = await this.loadTrends(this.currentResults);
+        this.currentData.trends = trends;
+        this.currentPanel?.webview.postMessage({ command: 'updateTrends', trends });
+    }
+
     private async updatePanelData(data: ReportData): Promise<void> {
         this.debug.info('🔄 DEBUG: updatePanelData called');
         this.debug.info('- Data summary:', data?.summary);
@@ -297,6 +451,40 @@ export class WebViewReportService {
         }
     }
 
+    /**
+     * Apply an incremental update to the open panel, sending only the changed files
+     * along with the new summary and language totals
+     */
+    public async applyReportDelta(delta: ReportDelta): Promise<void> {
+        const rootIndex = this.currentResults.findIndex(result => result.workspacePath === delta.workspacePath);
+        if (rootIndex < 0) {
+            return;
+        }
+
+        this.currentResults[rootIndex] = delta.result;
+        const data = this.createReportData(this.currentResults);
+        const updatedPaths = new Set(delta.updatedFiles.map(file => file.path));
+        data.trends = this.currentData?.trends;
+        this.currentData = data;
+
+        if (this.currentPanel) {
+            this.debug.info('📤 Posting report delta to webview:', { updated: updatedPaths.size, removed: delta.removedFiles.length });
+            this.currentPanel.webview.postMessage({
+                command: 'applyDelta',
+                delta: {
+                    updatedFiles: data.files.filter(file => updatedPaths.has(file.path)),
+                    removedFiles: delta.removedFiles,
+                    summary: data.summary,
+                    languages: data.languages,
+                    roots: data.roots,
+                    authorship: data.authorship,
+                    hotspots: data.hotspots,
+                    generatedDate: data.generatedDate
+                }
+            });
+        }
+    }
+
     private async generateWebViewHTML(data: ReportData): Promise<string> {
         this.debug.info('🎨 Generating webview HTML with external assets');
         
@@ -328,6 +516,9 @@ export class WebViewReportService {
             'tabulator-manager-common.js',  // Load common utilities first
             'data-manager.js', 
             'ui-handlers.js',
+            'trends-manager.js',
+            'authors-manager.js',
+            'hotspots-manager.js',
             'tabulator-manager.js',
             'filter-manager.js',
             'webview-report.js'
@@ -525,11 +716,18 @@ export class WebViewReportService {
                 path: file.path,
                 relativePath: file.relativePath,
                 language: file.language,
+                languageSource: file.languageSource,
                 lines: file.lines,
                 codeLines: file.codeLines,
                 commentLines: file.commentLines,
                 blankLines: file.blankLines,
-                size: file.size
+                mixedLines: file.mixedLines,
+                size: file.size,
+                languageSections: file.languageSections,
+                largestSymbol: file.largestSymbol,
+                authors: file.authors,
+                hotspot: file.hotspot,
+                linguist: file.linguist
             }))
         };
 
@@ -637,31 +835,12 @@ export class WebViewReportService {
             totalCodeLines: results.files?.reduce((sum: number, file: any) => sum + (file.codeLines || 0), 0) || 0,
             totalCommentLines: results.files?.reduce((sum: number, file: any) => sum + (file.commentLines || 0), 0) || 0,
             totalBlankLines: results.files?.reduce((sum: number, file: any) => sum + (file.blankLines || 0), 0) || 0,
+            totalMixedLines: results.files?.reduce((sum: number, file: any) => sum + (file.mixedLines || 0), 0) || 0,
             languageCount: 0
         };
 
-        // Group files by language
-        const languageGroups: { [key: string]: any[] } = {};
-        results.files?.forEach((file: any) => {
-            const lang = file.language || 'Unknown';
-            if (!languageGroups[lang]) {
-                languageGroups[lang] = [];
-            }
-            languageGroups[lang].push(file);
-        });
-
-        // Calculate language statistics
-        const languages = Object.keys(languageGroups).map(langName => {
-            const langFiles = languageGroups[langName];
-            return {
-                name: langName,
-                files: langFiles.length,
-                lines: langFiles.reduce((sum, file) => sum + (file.lines || 0), 0),
-                codeLines: langFiles.reduce((sum, file) => sum + (file.codeLines || 0), 0),
-                commentLines: langFiles.reduce((sum, file) => sum + (file.commentLines || 0), 0),
-                blankLines: langFiles.reduce((sum, file) => sum + (file.blankLines || 0), 0)
-            };
-        });
+        // Calculate language statistics (embedded languages count toward their own language)
+        const languages = aggregateLanguages(results.files || []);
 
         summary.languageCount = languages.length;
 
@@ -670,11 +849,18 @@ export class WebViewReportService {
             path: file.path || '',
             relativePath: file.relativePath || '',
             language: file.language || 'Unknown',
+            languageSource: file.languageSource,
             lines: file.lines || 0,
             codeLines: file.codeLines || 0,
             commentLines: file.commentLines || 0,
             blankLines: file.blankLines || 0,
-            size: file.size || 0
+            mixedLines: file.mixedLines || 0,
+            size: file.size || 0,
+            languageSections: file.languageSections,
+            largestSymbol: file.largestSymbol,
+            authors: file.authors,
+            hotspot: file.hotspot,
+            linguist: file.linguist
         })) || [];
 
         return {
@@ -918,24 +1104,25 @@ export class WebViewReportService {
                 path: file.path,
                 relativePath: file.relativePath,
                 language: file.language,
+                languageSource: file.languageSource,
                 lines: file.lines,
                 codeLines: file.codeLines,
                 commentLines: file.commentLines,
                 blankLines: file.blankLines,
-                size: file.size
+                mixedLines: file.mixedLines,
+                size: file.size,
+                languageSections: file.languageSections,
+                largestSymbol: file.largestSymbol,
+                authors: file.authors,
+                hotspot: file.hotspot,
+                linguist: file.linguist
             })),
             languageStats: {},
             generatedAt: new Date(this.currentData.generatedDate)
         };
 
         // Calculate language stats from files
-        this.currentData.files.forEach(file => {
-            if (!lineCountResult.languageStats[file.language]) {
-                lineCountResult.languageStats[file.language] = { files: 0, lines: 0 };
-            }
-            lineCountResult.languageStats[file.language].files += 1;
-            lineCountResult.languageStats[file.language].lines += file.lines;
-        });
+        this.currentData.files.forEach(file => addToLanguageStats(lineCountResult.languageStats, file));
 
         return lineCountResult;
     }
@@ -32,6 +32,9 @@ import * as vscode from 'vscode';
 import initSqlJs, { Database } from 'sql.js';
 import { DebugService } from './debugService';
 import { DatabaseConnectionPool } from './databaseConnectionPool';
+import { LanguageDefinition } from './languageRegistry';
+import { LanguageDetectionSource, LanguageSection } from '../types';
+import { FolderAggregationMode, FolderThresholds } from '../utils/folderAggregationUtils';
 
 export interface WorkspaceSettings {
     'codeCounter.lineThresholds.midThreshold'?: number;
@@ -42,9 +45,16 @@ export interface WorkspaceSettings {
     'codeCounter.emojis.folders.normal'?: string;
     'codeCounter.emojis.folders.warning'?: string;
     'codeCounter.emojis.folders.danger'?: string;
+    'codeCounter.symbolThresholds.midThreshold'?: number;
+    'codeCounter.symbolThresholds.highThreshold'?: number;
+    'codeCounter.emojis.symbols.normal'?: string;
+    'codeCounter.emojis.symbols.warning'?: string;
+    'codeCounter.emojis.symbols.danger'?: string;
     'codeCounter.excludePatterns'?: string[];
     'codeCounter.includePatterns'?: string[];
     'codeCounter.showNotificationOnAutoGenerate'?: boolean;
+    'codeCounter.folderAggregation.mode'?: FolderAggregationMode;
+    'codeCounter.folderAggregation.thresholds'?: Partial<Record<FolderAggregationMode, Partial<FolderThresholds>>>;
 }
 
 export interface ResolvedSettings {
@@ -56,9 +66,16 @@ export interface ResolvedSettings {
     'codeCounter.emojis.folders.normal': string;
     'codeCounter.emojis.folders.warning': string;
     'codeCounter.emojis.folders.danger': string;
+    'codeCounter.symbolThresholds.midThreshold': number;
+    'codeCounter.symbolThresholds.highThreshold': number;
+    'codeCounter.emojis.symbols.normal': string;
+    'codeCounter.emojis.symbols.warning': string;
+    'codeCounter.emojis.symbols.danger': string;
     'codeCounter.excludePatterns': string[];
     'codeCounter.includePatterns': string[];
     'codeCounter.showNotificationOnAutoGenerate': boolean;
+    'codeCounter.folderAggregation.mode': FolderAggregationMode;
+    'codeCounter.folderAggregation.thresholds': Partial<Record<FolderAggregationMode, Partial<FolderThresholds>>>;
 }
 
 export interface SettingsWithInheritance {
@@ -78,6 +95,68 @@ export interface BinaryFileCache {
     updatedAt?: Date;
 }
 
+export interface FileLineCountRecord {
+    /** Path relative to the workspace, as in binary_files */
+    filePath: string;
+    modificationTime: number;
+    fileSize: number;
+    contentHash: string;
+    /** Identifies the language definitions and settings the counts were made with */
+    countingSignature: string;
+    language: string;
+    languageSource?: LanguageDetectionSource;
+    lines: number;
+    codeLines: number;
+    commentLines: number;
+    blankLines: number;
+    mixedLines: number;
+    /** Content length in characters (FileInfo.size) */
+    contentLength: number;
+    languageSections?: LanguageSection[];
+}
+
+/**
+ * What recorded a line count snapshot
+ */
+export type SnapshotTrigger = 'manual' | 'scheduled' | 'commit' | 'backfill';
+
+export interface SnapshotTotals {
+    files: number;
+    lines: number;
+    codeLines: number;
+    commentLines: number;
+    blankLines: number;
+    mixedLines: number;
+}
+
+/**
+ * Workspace line count totals at one point in time
+ */
+export interface LineCountSnapshot extends SnapshotTotals {
+    id: number;
+    createdAt: Date;
+    label?: string;
+    trigger: SnapshotTrigger;
+    /** HEAD commit and branch when the workspace is a git repository; the counted commit for backfilled snapshots */
+    commit?: string;
+    branch?: string;
+}
+
+export interface SnapshotFileRecord {
+    /** Path relative to the workspace */
+    filePath: string;
+    language: string;
+    lines: number;
+    codeLines: number;
+    commentLines: number;
+    blankLines: number;
+    mixedLines: number;
+}
+
+export interface SnapshotLanguageRecord extends SnapshotTotals {
+    language: string;
+}
+
 /**
  * Database-powered workspace settings service
  * Replaces scattered .code-counter.json files with a lightweight SQLite database
@@ -96,7 +175,7 @@ export class WorkspaceDatabaseService implements vscode.Disposable {
         this.workspacePath = workspacePath;
         this.codeCounterDir = path.join(workspacePath, '.vscode', 'code-counter');
         this.reportsDir = path.join(this.codeCounterDir, 'reports');
-        this.dbPath = path.join(this.codeCounterDir, 'code-counter.db');
+        this.dbPath = WorkspaceDatabaseService.getDatabasePath(workspacePath);
         
         this.debug.verbose('WorkspaceDatabaseService created for path:', workspacePath, 'instanceId:', this.instanceId, 'dbPath:', this.dbPath);
         
@@ -201,6 +280,73 @@ export class WorkspaceDatabaseService implements vscode.Disposable {
             
             CREATE INDEX IF NOT EXISTS idx_binary_files_mod_time 
                 ON binary_files(modification_time);
+
+            CREATE TABLE IF NOT EXISTS file_line_counts (
+                file_path TEXT PRIMARY KEY,
+                modification_time INTEGER NOT NULL,
+                file_size INTEGER NOT NULL,
+                content_hash TEXT NOT NULL,
+                counting_signature TEXT NOT NULL,
+                language TEXT NOT NULL,
+                language_source TEXT,
+                lines INTEGER NOT NULL,
+                code_lines INTEGER NOT NULL,
+                comment_lines INTEGER NOT NULL,
+                blank_lines INTEGER NOT NULL,
+                mixed_lines INTEGER NOT NULL,
+                content_length INTEGER NOT NULL,
+                language_sections TEXT,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            );
+
+            CREATE TABLE IF NOT EXISTS custom_languages (
+                name TEXT PRIMARY KEY,
+                definition TEXT NOT NULL,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            );
+
+            CREATE TABLE IF NOT EXISTS snapshots (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                created_at INTEGER NOT NULL,
+                label TEXT,
+                trigger TEXT NOT NULL,
+                commit_hash TEXT,
+                branch TEXT,
+                files INTEGER NOT NULL,
+                lines INTEGER NOT NULL,
+                code_lines INTEGER NOT NULL,
+                comment_lines INTEGER NOT NULL,
+                blank_lines INTEGER NOT NULL,
+                mixed_lines INTEGER NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_snapshots_created_at 
+                ON snapshots(created_at);
+
+            CREATE TABLE IF NOT EXISTS snapshot_files (
+                snapshot_id INTEGER NOT NULL,
+                file_path TEXT NOT NULL,
+                language TEXT NOT NULL,
+                lines INTEGER NOT NULL,
+                code_lines INTEGER NOT NULL,
+                comment_lines INTEGER NOT NULL,
+                blank_lines INTEGER NOT NULL,
+                mixed_lines INTEGER NOT NULL,
+                PRIMARY KEY (snapshot_id, file_path)
+            );
+
+            CREATE TABLE IF NOT EXISTS snapshot_languages (
+                snapshot_id INTEGER NOT NULL,
+                language TEXT NOT NULL,
+                files INTEGER NOT NULL,
+                lines INTEGER NOT NULL,
+                code_lines INTEGER NOT NULL,
+                comment_lines INTEGER NOT NULL,
+                blank_lines INTEGER NOT NULL,
+                mixed_lines INTEGER NOT NULL,
+                PRIMARY KEY (snapshot_id, language)
+            );
         `);
         
         // Save the database to disk through connection pool
@@ -532,8 +678,15 @@ export class WorkspaceDatabaseService implements vscode.Disposable {
             'emojis.folders.normal': 'codeCounter.emojis.folders.normal',
             'emojis.folders.warning': 'codeCounter.emojis.folders.warning',
             'emojis.folders.danger': 'codeCounter.emojis.folders.danger',
+            'emojis.symbols.normal': 'codeCounter.emojis.symbols.normal',
+            'emojis.symbols.warning': 'codeCounter.emojis.symbols.warning',
+            'emojis.symbols.danger': 'codeCounter.emojis.symbols.danger',
+            'symbolThresholds.midThreshold': 'codeCounter.symbolThresholds.midThreshold',
+            'symbolThresholds.highThreshold': 'codeCounter.symbolThresholds.highThreshold',
             'excludePatterns': 'codeCounter.excludePatterns',
             'includePatterns': 'codeCounter.includePatterns',
+            'folderAggregation.mode': 'codeCounter.folderAggregation.mode',
+            'folderAggregation.thresholds': 'codeCounter.folderAggregation.thresholds',
             // Support group resets
             'emojis': [
                 'codeCounter.emojis.normal',
@@ -541,11 +694,22 @@ export class WorkspaceDatabaseService implements vscode.Disposable {
                 'codeCounter.emojis.danger',
                 'codeCounter.emojis.folders.normal',
                 'codeCounter.emojis.folders.warning',
-                'codeCounter.emojis.folders.danger'
+                'codeCounter.emojis.folders.danger',
+                'codeCounter.emojis.symbols.normal',
+                'codeCounter.emojis.symbols.warning',
+                'codeCounter.emojis.symbols.danger'
             ],
             'lineThresholds': [
                 'codeCounter.lineThresholds.midThreshold',
                 'codeCounter.lineThresholds.highThreshold'
+            ],
+            'symbolThresholds': [
+                'codeCounter.symbolThresholds.midThreshold',
+                'codeCounter.symbolThresholds.highThreshold'
+            ],
+            'folderAggregation': [
+                'codeCounter.folderAggregation.mode',
+                'codeCounter.folderAggregation.thresholds'
             ]
         };
         
@@ -810,9 +974,16 @@ export class WorkspaceDatabaseService implements vscode.Disposable {
             'codeCounter.emojis.folders.normal': folderEmojiConfig.get<string>('normal', '🟩'),
             'codeCounter.emojis.folders.warning': folderEmojiConfig.get<string>('warning', '🟨'),
             'codeCounter.emojis.folders.danger': folderEmojiConfig.get<string>('danger', '🟥'),
+            'codeCounter.symbolThresholds.midThreshold': config.get<number>('symbolThresholds.midThreshold', 50),
+            'codeCounter.symbolThresholds.highThreshold': config.get<number>('symbolThresholds.highThreshold', 150),
+            'codeCounter.emojis.symbols.normal': emojiConfig.get<string>('symbols.normal', '🟢'),
+            'codeCounter.emojis.symbols.warning': emojiConfig.get<string>('symbols.warning', '🟡'),
+            'codeCounter.emojis.symbols.danger': emojiConfig.get<string>('symbols.danger', '🔴'),
             'codeCounter.excludePatterns': config.get<string[]>('excludePatterns', []),
             'codeCounter.includePatterns': config.get<string[]>('includePatterns', []),
-            'codeCounter.showNotificationOnAutoGenerate': config.get<boolean>('showNotificationOnAutoGenerate', false)
+            'codeCounter.showNotificationOnAutoGenerate': config.get<boolean>('showNotificationOnAutoGenerate', false),
+            'codeCounter.folderAggregation.mode': config.get<FolderAggregationMode>('folderAggregation.mode', 'average'),
+            'codeCounter.folderAggregation.thresholds': config.get('folderAggregation.thresholds', {})
         };
     }
 
@@ -1065,6 +1236,432 @@ export class WorkspaceDatabaseService implements vscode.Disposable {
         }
     }
 
+    /**
+     * Get every stored line count, keyed by relative file path
+     */
+    async getFileLineCounts(): Promise<Map<string, FileLineCountRecord>> {
+        await this.initPromise;
+
+        const records = new Map<string, FileLineCountRecord>();
+        try {
+            const db = await this.getDatabase();
+            const stmt = db.prepare('SELECT * FROM file_line_counts');
+            while (stmt.step()) {
+                const record = this.toFileLineCountRecord(stmt.getAsObject());
+                records.set(record.filePath, record);
+            }
+            stmt.free();
+        } catch (error) {
+            this.debug.error('Failed to get file line counts:', error);
+        }
+        return records;
+    }
+
+    /**
+     * Get the stored line count for one file (relative path)
+     */
+    async getFileLineCount(filePath: string): Promise<FileLineCountRecord | null> {
+        await this.initPromise;
+
+        try {
+            const db = await this.getDatabase();
+            const stmt = db.prepare('SELECT * FROM file_line_counts WHERE file_path = ?');
+            stmt.bind([filePath]);
+            const record = stmt.step() ? this.toFileLineCountRecord(stmt.getAsObject()) : null;
+            stmt.free();
+            return record;
+        } catch (error) {
+            this.debug.error('Failed to get file line count:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Store line counts in one transaction and save the database once
+     */
+    async setFileLineCounts(records: FileLineCountRecord[]): Promise<void> {
+        await this.initPromise;
+
+        if (records.length === 0) {
+            return;
+        }
+
+        try {
+            const db = await this.getDatabase();
+            const stmt = db.prepare(`
+                INSERT OR REPLACE INTO file_line_counts
+                (file_path, modification_time, file_size, content_hash, counting_signature, language, language_source,
+                 lines, code_lines, comment_lines, blank_lines, mixed_lines, content_length, language_sections, updated_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+            `);
+            db.run('BEGIN TRANSACTION');
+            try {
+                for (const record of records) {
+                    stmt.run([
+                        record.filePath, record.modificationTime, record.fileSize, record.contentHash,
+                        record.countingSignature, record.language, record.languageSource || null,
+                        record.lines, record.codeLines, record.commentLines, record.blankLines, record.mixedLines,
+                        record.contentLength, record.languageSections ? JSON.stringify(record.languageSections) : null
+                    ]);
+                }
+                db.run('COMMIT');
+            } catch (error) {
+                db.run('ROLLBACK');
+                throw error;
+            } finally {
+                stmt.free();
+            }
+            this.connectionPool.saveDatabase(this.dbPath);
+            this.debug.verbose('setFileLineCounts:', { count: records.length });
+        } catch (error) {
+            this.debug.error('Failed to set file line counts:', error);
+        }
+    }
+
+    /**
+     * Remove stored line counts for the given relative paths
+     */
+    async removeFileLineCounts(filePaths: string[]): Promise<void> {
+        await this.initPromise;
+
+        if (filePaths.length === 0) {
+            return;
+        }
+
+        try {
+            const db = await this.getDatabase();
+            const stmt = db.prepare('DELETE FROM file_line_counts WHERE file_path = ?');
+            for (const filePath of filePaths) {
+                stmt.run([filePath]);
+            }
+            stmt.free();
+            this.connectionPool.saveDatabase(this.dbPath);
+            this.debug.verbose('removeFileLineCounts:', { count: filePaths.length });
+        } catch (error) {
+            this.debug.error('Failed to remove file line counts:', error);
+        }
+    }
+
+    /**
+     * Clear all stored line counts
+     */
+    async clearFileLineCounts(): Promise<void> {
+        await this.initPromise;
+
+        try {
+            const db = await this.getDatabase();
+            db.run('DELETE FROM file_line_counts');
+            this.connectionPool.saveDatabase(this.dbPath);
+            this.debug.info('Cleared file line counts');
+        } catch (error) {
+            this.debug.error('Failed to clear file line counts:', error);
+        }
+    }
+
+    private toFileLineCountRecord(row: { [column: string]: any }): FileLineCountRecord {
+        let languageSections: LanguageSection[] | undefined;
+        if (row['language_sections']) {
+            try {
+                languageSections = JSON.parse(row['language_sections']);
+            } catch (parseError) {
+                this.debug.warning('Ignoring invalid language sections for:', row['file_path']);
+            }
+        }
+
+        return {
+            filePath: row['file_path'],
+            modificationTime: row['modification_time'],
+            fileSize: row['file_size'],
+            contentHash: row['content_hash'],
+            countingSignature: row['counting_signature'],
+            language: row['language'],
+            languageSource: row['language_source'] || undefined,
+            lines: row['lines'],
+            codeLines: row['code_lines'],
+            commentLines: row['comment_lines'],
+            blankLines: row['blank_lines'],
+            mixedLines: row['mixed_lines'],
+            contentLength: row['content_length'],
+            languageSections
+        };
+    }
+
+    /**
+     * Get workspace-specific language definitions
+     */
+    async getCustomLanguages(): Promise<LanguageDefinition[]> {
+        await this.initPromise;
+
+        try {
+            const db = await this.getDatabase();
+            const stmt = db.prepare('SELECT definition FROM custom_languages ORDER BY name');
+            const languages: LanguageDefinition[] = [];
+            while (stmt.step()) {
+                const row = stmt.getAsObject();
+                try {
+                    languages.push(JSON.parse(row['definition'] as string));
+                } catch (parseError) {
+                    this.debug.warning('Skipping invalid custom language definition:', row['definition']);
+                }
+            }
+            stmt.free();
+            return languages;
+        } catch (error) {
+            this.debug.error('Failed to get custom languages:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Add or replace a workspace-specific language definition
+     */
+    async saveCustomLanguage(definition: LanguageDefinition): Promise<void> {
+        await this.initPromise;
+
+        if (!definition.name || definition.name.trim() === '') {
+            throw new Error('Custom language definition requires a name');
+        }
+
+        const db = await this.getDatabase();
+        const stmt = db.prepare(`
+            INSERT OR REPLACE INTO custom_languages (name, definition, updated_at)
+            VALUES (?, ?, datetime('now'))
+        `);
+        stmt.run([definition.name, JSON.stringify(definition)]);
+        stmt.free();
+        this.connectionPool.saveDatabase(this.dbPath);
+        this.debug.verbose('saveCustomLanguage:', definition.name);
+    }
+
+    /**
+     * Remove a workspace-specific language definition
+     */
+    async deleteCustomLanguage(name: string): Promise<void> {
+        await this.initPromise;
+
+        const db = await this.getDatabase();
+        const stmt = db.prepare('DELETE FROM custom_languages WHERE name = ?');
+        stmt.run([name]);
+        stmt.free();
+        this.connectionPool.saveDatabase(this.dbPath);
+        this.debug.verbose('deleteCustomLanguage:', name);
+    }
+
+    /**
+     * Store a snapshot with its per-file and per-language rows in one transaction; returns the new snapshot id
+     */
+    async addSnapshot(snapshot: Omit<LineCountSnapshot, 'id'>, files: SnapshotFileRecord[], languages: SnapshotLanguageRecord[]): Promise<number> {
+        await this.initPromise;
+
+        const db = await this.getDatabase();
+        db.run('BEGIN TRANSACTION');
+        try {
+            db.run(`
+                INSERT INTO snapshots
+                (created_at, label, trigger, commit_hash, branch, files, lines, code_lines, comment_lines, blank_lines, mixed_lines)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `, [
+                snapshot.createdAt.getTime(), snapshot.label || null, snapshot.trigger, snapshot.commit || null, snapshot.branch || null,
+                snapshot.files, snapshot.lines, snapshot.codeLines, snapshot.commentLines, snapshot.blankLines, snapshot.mixedLines
+            ]);
+            const id = db.exec('SELECT last_insert_rowid() AS id')[0].values[0][0] as number;
+
+            const fileStmt = db.prepare(`
+                INSERT INTO snapshot_files
+                (snapshot_id, file_path, language, lines, code_lines, comment_lines, blank_lines, mixed_lines)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            `);
+            try {
+                for (const file of files) {
+                    fileStmt.run([id, file.filePath, file.language, file.lines, file.codeLines, file.commentLines, file.blankLines, file.mixedLines]);
+                }
+            } finally {
+                fileStmt.free();
+            }
+
+            const languageStmt = db.prepare(`
+                INSERT INTO snapshot_languages
+                (snapshot_id, language, files, lines, code_lines, comment_lines, blank_lines, mixed_lines)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            `);
+            try {
+                for (const language of languages) {
+                    languageStmt.run([
+                        id, language.language, language.files, language.lines,
+                        language.codeLines, language.commentLines, language.blankLines, language.mixedLines
+                    ]);
+                }
+            } finally {
+                languageStmt.free();
+            }
+
+            db.run('COMMIT');
+            this.connectionPool.saveDatabase(this.dbPath);
+            this.debug.verbose('addSnapshot:', { id, files: files.length, languages: languages.length });
+            return id;
+        } catch (error) {
+            db.run('ROLLBACK');
+            throw error;
+        }
+    }
+
+    /**
+     * Get every snapshot, newest first
+     */
+    async getSnapshots(): Promise<LineCountSnapshot[]> {
+        await this.initPromise;
+
+        const snapshots: LineCountSnapshot[] = [];
+        try {
+            const db = await this.getDatabase();
+            const stmt = db.prepare('SELECT * FROM snapshots ORDER BY created_at DESC, id DESC');
+            while (stmt.step()) {
+                snapshots.push(this.toSnapshot(stmt.getAsObject()));
+            }
+            stmt.free();
+        } catch (error) {
+            this.debug.error('Failed to get snapshots:', error);
+        }
+        return snapshots;
+    }
+
+    async getSnapshot(id: number): Promise<LineCountSnapshot | null> {
+        await this.initPromise;
+
+        try {
+            const db = await this.getDatabase();
+            const stmt = db.prepare('SELECT * FROM snapshots WHERE id = ?');
+            stmt.bind([id]);
+            const snapshot = stmt.step() ? this.toSnapshot(stmt.getAsObject()) : null;
+            stmt.free();
+            return snapshot;
+        } catch (error) {
+            this.debug.error('Failed to get snapshot:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Get the per-file rows of a snapshot, ordered by path
+     */
+    async getSnapshotFiles(id: number): Promise<SnapshotFileRecord[]> {
+        await this.initPromise;
+
+        const files: SnapshotFileRecord[] = [];
+        try {
+            const db = await this.getDatabase();
+            const stmt = db.prepare('SELECT * FROM snapshot_files WHERE snapshot_id = ? ORDER BY file_path');
+            stmt.bind([id]);
+            while (stmt.step()) {
+                const row = stmt.getAsObject();
+                files.push({
+                    filePath: row['file_path'] as string,
+                    language: row['language'] as string,
+                    lines: row['lines'] as number,
+                    codeLines: row['code_lines'] as number,
+                    commentLines: row['comment_lines'] as number,
+                    blankLines: row['blank_lines'] as number,
+                    mixedLines: row['mixed_lines'] as number
+                });
+            }
+            stmt.free();
+        } catch (error) {
+            this.debug.error('Failed to get snapshot files:', error);
+        }
+        return files;
+    }
+
+    /**
+     * Get the per-language rows of a snapshot, largest first
+     */
+    async getSnapshotLanguages(id: number): Promise<SnapshotLanguageRecord[]> {
+        await this.initPromise;
+
+        const languages: SnapshotLanguageRecord[] = [];
+        try {
+            const db = await this.getDatabase();
+            const stmt = db.prepare('SELECT * FROM snapshot_languages WHERE snapshot_id = ? ORDER BY lines DESC, language');
+            stmt.bind([id]);
+            while (stmt.step()) {
+                const row = stmt.getAsObject();
+                languages.push({
+                    language: row['language'] as string,
+                    files: row['files'] as number,
+                    lines: row['lines'] as number,
+                    codeLines: row['code_lines'] as number,
+                    commentLines: row['comment_lines'] as number,
+                    blankLines: row['blank_lines'] as number,
+                    mixedLines: row['mixed_lines'] as number
+                });
+            }
+            stmt.free();
+        } catch (error) {
+            this.debug.error('Failed to get snapshot languages:', error);
+        }
+        return languages;
+    }
+
+    /**
+     * Set or clear (empty label) the label of a snapshot
+     */
+    async setSnapshotLabel(id: number, label: string | undefined): Promise<void> {
+        await this.initPromise;
+
+        const db = await this.getDatabase();
+        const stmt = db.prepare('UPDATE snapshots SET label = ? WHERE id = ?');
+        stmt.run([label && label.trim() !== '' ? label.trim() : null, id]);
+        stmt.free();
+        this.connectionPool.saveDatabase(this.dbPath);
+        this.debug.verbose('setSnapshotLabel:', { id, label });
+    }
+
+    /**
+     * Remove snapshots together with their per-file and per-language rows
+     */
+    async deleteSnapshots(ids: number[]): Promise<void> {
+        await this.initPromise;
+
+        if (ids.length === 0) {
+            return;
+        }
+
+        const db = await this.getDatabase();
+        db.run('BEGIN TRANSACTION');
+        try {
+            for (const table of ['snapshot_files', 'snapshot_languages']) {
+                const stmt = db.prepare(`DELETE FROM ${table} WHERE snapshot_id = ?`);
+                ids.forEach(id => stmt.run([id]));
+                stmt.free();
+            }
+            const stmt = db.prepare('DELETE FROM snapshots WHERE id = ?');
+            ids.forEach(id => stmt.run([id]));
+            stmt.free();
+            db.run('COMMIT');
+        } catch (error) {
+            db.run('ROLLBACK');
+            throw error;
+        }
+        this.connectionPool.saveDatabase(this.dbPath);
+        this.debug.verbose('deleteSnapshots:', { count: ids.length });
+    }
+
+    private toSnapshot(row: { [column: string]: any }): LineCountSnapshot {
+        return {
+            id: row['id'],
+            createdAt: new Date(row['created_at']),
+            label: row['label'] || undefined,
+            trigger: row['trigger'],
+            commit: row['commit_hash'] || undefined,
+            branch: row['branch'] || undefined,
+            files: row['files'],
+            lines: row['lines'],
+            codeLines: row['code_lines'],
+            commentLines: row['comment_lines'],
+            blankLines: row['blank_lines'],
+            mixedLines: row['mixed_lines']
+        };
+    }
+
     /**
      * Dispose of resources
      */
@@ -1124,6 +1721,17 @@ export class WorkspaceDatabaseService implements vscode.Disposable {
         this.debug.info('Database reloaded successfully for instance:', this.instanceId);
     }
 
+    static getDatabasePath(workspacePath: string): string {
+        return path.join(workspacePath, '.vscode', 'code-counter', 'code-counter.db');
+    }
+
+    /**
+     * Whether a workspace has saved a database, checked without creating one
+     */
+    static hasDatabase(workspacePath: string): boolean {
+        return fs.existsSync(WorkspaceDatabaseService.getDatabasePath(workspacePath));
+    }
+
     /**
      * Reload all active instances for a workspace from disk
      */
@@ -27,6 +27,7 @@
  */
 import { XMLBuilder } from 'fast-xml-parser';
 import { LineCountResult, FileInfo } from '../types';
+import { FileSizeChange, LineChangeStats, LineCountDiff, SizeChange } from '../utils/diffUtils';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -70,6 +71,76 @@ export class XmlGeneratorService {
         return builder.build(xmlData);
     }
 
+    generateDiffXml(diff: LineCountDiff): string {
+        const packageJsonPath = path.join(__dirname, '../../package.json');
+        const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+        const version = packageJson.version;
+
+        const xmlData = {
+            codeCounterDiff: {
+                '@_generatedAt': new Date().toISOString(),
+                '@_generatedBy': `VS Code Code Counter v${version} by DelightfulGames`,
+                '@_generatorUrl': 'https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter',
+                '@_version': version,
+                base: { '@_title': diff.base.title, ...(diff.base.generatedAt ? { '@_generatedAt': diff.base.generatedAt } : {}) },
+                current: { '@_title': diff.current.title, ...(diff.current.generatedAt ? { '@_generatedAt': diff.current.generatedAt } : {}) },
+                totals: this.convertSizeChangeToXml(diff.totals),
+                languages: {
+                    language: diff.languages.map(language => ({ '@_name': language.language, ...this.convertSizeChangeToXml(language) }))
+                },
+                files: {
+                    '@_unchanged': diff.unchangedFiles,
+                    file: [...diff.added, ...diff.removed, ...diff.grown, ...diff.shrunk].map(file => this.convertFileChangeToXml(file))
+                },
+                ...(diff.tierChanges ? {
+                    tierChanges: { file: diff.tierChanges.map(file => ({ '@_relativePath': file.filePath })) }
+                } : {})
+            }
+        };
+
+        const builder = new XMLBuilder({
+            attributeNamePrefix: '@_',
+            ignoreAttributes: false,
+            format: true,
+            indentBy: '  '
+        });
+
+        return builder.build(xmlData);
+    }
+
+    private convertSizeChangeToXml(change: SizeChange) {
+        return {
+            '@_baseFiles': change.baseFiles,
+            '@_files': change.files,
+            '@_baseLines': change.baseLines,
+            '@_lines': change.lines,
+            '@_change': change.change,
+            ...(change.percentChange !== undefined ? { '@_percentChange': change.percentChange } : {}),
+            ...this.convertLineChangesToXml(change)
+        };
+    }
+
+    private convertFileChangeToXml(file: FileSizeChange) {
+        return {
+            '@_relativePath': file.filePath,
+            '@_language': file.language,
+            '@_status': file.status,
+            '@_baseLines': file.baseLines,
+            '@_lines': file.lines,
+            '@_change': file.change,
+            ...(file.percentChange !== undefined ? { '@_percentChange': file.percentChange } : {}),
+            ...this.convertLineChangesToXml(file),
+            ...(file.baseTier ? { '@_baseTier': file.baseTier } : {}),
+            ...(file.tier ? { '@_tier': file.tier } : {})
+        };
+    }
+
+    private convertLineChangesToXml(change: Partial<LineChangeStats>) {
+        return change.linesAdded !== undefined && change.linesRemoved !== undefined
+            ? { '@_linesAdded': change.linesAdded, '@_linesRemoved': change.linesRemoved }
+            : {};
+    }
+
     private convertFileToXml(file: FileInfo) {
         const fileName = require('path').basename(file.relativePath);
         const directory = require('path').dirname(file.relativePath);
@@ -79,11 +150,45 @@ export class XmlGeneratorService {
             '@_fileName': fileName,
             '@_directory': directory === '.' ? '' : directory,
             '@_language': file.language,
+            '@_languageSource': file.languageSource || 'unknown',
             '@_lines': file.lines,
             '@_codeLines': file.codeLines,
             '@_commentLines': file.commentLines,
             '@_blankLines': file.blankLines,
-            '@_size': file.size
+            '@_mixedLines': file.mixedLines || 0,
+            '@_size': file.size,
+            ...(file.linguist ? { '@_linguist': file.linguist } : {}),
+            ...(file.largestSymbol ? {
+                largestSymbol: {
+                    '@_name': file.largestSymbol.name,
+                    '@_kind': file.largestSymbol.kind,
+                    '@_lines': file.largestSymbol.lines,
+                    '@_line': file.largestSymbol.line
+                }
+            } : {}),
+            ...(file.authors ? {
+                authors: {
+                    author: file.authors.map(author => ({
+                        '@_name': author.name,
+                        '@_email': author.email,
+                        ...(author.team ? { '@_team': author.team } : {}),
+                        '@_lines': author.lines,
+                        '@_codeLines': author.codeLines,
+                        '@_commentLines': author.commentLines,
+                        '@_blankLines': author.blankLines
+                    }))
+                }
+            } : {}),
+            ...(file.hotspot ? {
+                hotspot: {
+                    '@_commits': file.hotspot.commits,
+                    '@_linesAdded': file.hotspot.linesAdded,
+                    '@_linesRemoved': file.hotspot.linesRemoved,
+                    '@_score': file.hotspot.score,
+                    ...(file.hotspot.rank !== undefined ? { '@_rank': file.hotspot.rank } : {}),
+                    '@_quadrant': file.hotspot.quadrant
+                }
+            } : {})
         };
     }
 }
\ No newline at end of file
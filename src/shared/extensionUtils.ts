@@ -13,6 +13,7 @@ import { FileExplorerDecorationProvider } from '../providers/fileExplorerDecorat
 import { DebugService } from '../services/debugService';
 import { ResolvedSettings } from '../services/workspaceSettingsService';
 import { getDirectoryTreeFromDatabase } from './directoryUtils';
+import { getWorkspaceFolderPath } from '../utils/workspaceUtils';
 
 // Initialize debug service
 const debug = DebugService.getInstance();
@@ -335,7 +336,7 @@ export async function findNearestConfigDirectory(filePath: string): Promise<stri
         throw new Error('No workspace folder is open');
     }
 
-    const workspacePath = workspaceFolders[0].uri.fsPath;
+    const workspacePath = getWorkspaceFolderPath(filePath)!;
     
     const workspaceService = new WorkspaceDatabaseService(workspacePath);
     
@@ -389,7 +390,7 @@ export async function addExclusionPattern(filePath: string, pattern: string): Pr
         throw new Error('No workspace folder is open');
     }
 
-    const workspacePath = workspaceFolders[0].uri.fsPath;
+    const workspacePath = getWorkspaceFolderPath(filePath)!;
     const workspaceService = getWorkspaceService(workspacePath);
     
     // Find the appropriate directory for this file
@@ -204,6 +204,90 @@ export const createVSCodeMock = () => {
             SymbolicLink: 64
         },
 
+        TreeItemCollapsibleState: {
+            None: 0,
+            Collapsed: 1,
+            Expanded: 2
+        },
+
+        TreeItem: class MockTreeItem {
+            description?: string;
+            tooltip?: string;
+            iconPath?: any;
+            contextValue?: string;
+            command?: any;
+            constructor(public label: string, public collapsibleState: number = 0) {}
+        },
+
+        ThemeIcon: class MockThemeIcon {
+            constructor(public id: string) {}
+        },
+
+        SymbolKind: (() => {
+            const kinds = ['File', 'Module', 'Namespace', 'Package', 'Class', 'Method', 'Property', 'Field', 'Constructor',
+                'Enum', 'Interface', 'Function', 'Variable', 'Constant', 'String', 'Number', 'Boolean', 'Array', 'Object',
+                'Key', 'Null', 'EnumMember', 'Struct', 'Event', 'Operator', 'TypeParameter'];
+            const symbolKind: { [key: string]: number | string } = {};
+            kinds.forEach((kind, index) => {
+                symbolKind[kind] = index;
+                symbolKind[index] = kind;
+            });
+            return symbolKind;
+        })(),
+
+        Position: class MockPosition {
+            constructor(public line: number, public character: number) {}
+        },
+
+        Range: class MockRange {
+            start: { line: number; character: number };
+            end: { line: number; character: number };
+            constructor(start: any, end: any, endLine?: number, endCharacter?: number) {
+                if (typeof start === 'number') {
+                    this.start = { line: start, character: end };
+                    this.end = { line: endLine || 0, character: endCharacter || 0 };
+                } else {
+                    this.start = start;
+                    this.end = end;
+                }
+            }
+        },
+
+        CodeLens: class MockCodeLens {
+            constructor(public range: any, public command?: any) {}
+        },
+
+        DiagnosticSeverity: {
+            Error: 0,
+            Warning: 1,
+            Information: 2,
+            Hint: 3
+        },
+
+        Diagnostic: class MockDiagnostic {
+            source?: string;
+            code?: string | number;
+            constructor(public range: any, public message: string, public severity: number = 0) {}
+        },
+
+        CodeActionKind: {
+            QuickFix: 'quickfix'
+        },
+
+        CodeAction: class MockCodeAction {
+            command?: any;
+            edit?: any;
+            diagnostics?: any[];
+            constructor(public title: string, public kind?: string) {}
+        },
+
+        WorkspaceEdit: class MockWorkspaceEdit {
+            edits: Array<{ uri: any; position: any; text: string }> = [];
+            insert(uri: any, position: any, text: string) {
+                this.edits.push({ uri, position, text });
+            }
+        },
+
         // Window API
         window: {
             createWebviewPanel: (viewType: string, title: string, viewColumn: number, options: any) => {
@@ -267,6 +351,13 @@ export const createVSCodeMock = () => {
                 return disposable;
             },
 
+            onDidOpenTextDocument: (callback: (document: MockTextDocument) => void) => {
+                mockEventEmitter.on('document-opened', callback);
+                const disposable = { dispose: () => mockEventEmitter.off('document-opened', callback) };
+                disposables.push(disposable);
+                return disposable;
+            },
+
             onDidSaveTextDocument: (callback: (document: MockTextDocument) => void) => {
                 mockEventEmitter.on('document-saved', callback);
                 const disposable = { dispose: () => mockEventEmitter.off('document-saved', callback) };
@@ -274,6 +365,20 @@ export const createVSCodeMock = () => {
                 return disposable;
             },
 
+            onDidCloseTextDocument: (callback: (document: MockTextDocument) => void) => {
+                mockEventEmitter.on('document-closed', callback);
+                const disposable = { dispose: () => mockEventEmitter.off('document-closed', callback) };
+                disposables.push(disposable);
+                return disposable;
+            },
+
+            onDidRenameFiles: (callback: (event: { files: Array<{ oldUri: MockUri; newUri: MockUri }> }) => void) => {
+                mockEventEmitter.on('files-renamed', callback);
+                const disposable = { dispose: () => mockEventEmitter.off('files-renamed', callback) };
+                disposables.push(disposable);
+                return disposable;
+            },
+
             createFileSystemWatcher: (pattern: string) => {
                 mockEventEmitter.emit('fs-watcher-created', pattern);
                 return mockFileSystemWatcher;
@@ -283,8 +388,16 @@ export const createVSCodeMock = () => {
                 return mockWorkspaceFolder;
             },
 
+            asRelativePath: (pathOrUri: string | MockUri) => {
+                const fsPath = typeof pathOrUri === 'string' ? pathOrUri : pathOrUri.fsPath;
+                const folder = vscode.workspace.workspaceFolders.find(folder => fsPath.startsWith(folder.uri.fsPath + '/'));
+                return folder ? fsPath.substring(folder.uri.fsPath.length + 1) : fsPath;
+            },
+
             workspaceFolders: [mockWorkspaceFolder],
 
+            textDocuments: [] as MockTextDocument[],
+
             findFiles: async (include: string | any, exclude?: any, maxResults?: number) => {
                 mockEventEmitter.emit('find-files', { include, exclude, maxResults });
                 
@@ -403,6 +516,33 @@ export const createVSCodeMock = () => {
             }
         },
 
+        // Languages API
+        languages: {
+            registerCodeLensProvider: (selector: any, provider: any) => {
+                const disposable = { dispose: () => {} };
+                disposables.push(disposable);
+                return disposable;
+            },
+
+            registerCodeActionsProvider: (selector: any, provider: any, metadata?: any) => {
+                const disposable = { dispose: () => {} };
+                disposables.push(disposable);
+                return disposable;
+            },
+
+            createDiagnosticCollection: (name?: string) => {
+                const entries = new Map<string, any[]>();
+                return {
+                    name,
+                    set: (uri: MockUri, diagnostics: any[]) => entries.set(uri.toString(), diagnostics),
+                    get: (uri: MockUri) => entries.get(uri.toString()),
+                    delete: (uri: MockUri) => entries.delete(uri.toString()),
+                    clear: () => entries.clear(),
+                    dispose: () => entries.clear()
+                };
+            }
+        },
+
         // Uri API
         Uri: {
             file: (path: string) => mockUri(path),
@@ -428,6 +568,10 @@ export const createVSCodeMock = () => {
             fire(data?: any) {
                 this.emitter.emit('event', data);
             }
+            
+            dispose() {
+                this.emitter.removeAllListeners();
+            }
         },
 
         // Extensions API
@@ -0,0 +1,147 @@
+import { expect } from 'chai';
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { AuthorshipService } from '../../services/authorshipService';
+import { CsvGeneratorService } from '../../services/csvGenerator';
+import { JsonGeneratorService } from '../../services/jsonGenerator';
+import { XmlGeneratorService } from '../../services/xmlGenerator';
+import { FileAuthor, FileInfo, LineCountResult } from '../../types';
+import { resolveTeam, summarizeAuthorship } from '../../utils/authorshipUtils';
+
+suite('Authorship Tests', () => {
+    let sandbox: sinon.SinonSandbox;
+    let tempDir: string;
+    let settings: { [key: string]: any };
+
+    const teams = { 'alice@example.com': 'Platform', '@contractor.example': 'Contractors' };
+
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: tempDir, encoding: 'utf8' }).trim();
+
+    const commitAs = (name: string, email: string, message: string) => {
+        git('add', '-A');
+        git('-c', `user.name=${name}`, '-c', `user.email=${email}`, 'commit', '-q', '-m', message);
+    };
+
+    const write = (relativePath: string, content: string) => {
+        const filePath = path.join(tempDir, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+    };
+
+    const fileInfo = (relativePath: string, language: string, authors?: FileAuthor[]): FileInfo => ({
+        path: path.join(tempDir, relativePath), relativePath, language,
+        lines: 5, codeLines: 2, commentLines: 1, blankLines: 2, mixedLines: 1, size: 50,
+        ...(authors ? { authors } : {})
+    });
+
+    const author = (name: string, email: string, lines: number, team?: string): FileAuthor => ({
+        name, email, ...(team ? { team } : {}), lines, codeLines: lines, commentLines: 0, blankLines: 0
+    });
+
+    setup(async function () {
+        this.timeout(10000);
+        sandbox = sinon.createSandbox();
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'authorship-'));
+        settings = { 'codeCounter.authorship.enabled': true, 'codeCounter.authorship.teams': teams };
+        sandbox.stub(vscode.workspace, 'getConfiguration').callsFake((section?: string) => ({
+            get: (key: string, defaultValue?: any) => settings[`${section}.${key}`] ?? defaultValue
+        }) as vscode.WorkspaceConfiguration);
+
+        git('init', '-q');
+        write('src/app.ts', '// App entry\nconst a = 1;\n\n');
+        commitAs('Alice', 'alice@old.example', 'First');
+        write('src/app.ts', '// App entry\nconst a = 1;\n\nconst b = 2; // note\n');
+        write('.mailmap', 'Alice Smith <alice@example.com> <alice@old.example>\n');
+        commitAs('Bob', 'bob@contractor.example', 'Second');
+    });
+
+    teardown(async () => {
+        sandbox.restore();
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should attribute code, comment and blank lines to authors with the mailmap and teams applied', async function () {
+        this.timeout(20000);
+        const files = [fileInfo('src/app.ts', 'TypeScript')];
+
+        await AuthorshipService.getInstance().addAuthors(files);
+
+        // Bob's mixed line counts as code and the empty line after the trailing newline goes to him too
+        expect(files[0].authors).to.deep.equal([
+            { name: 'Alice Smith', email: 'alice@example.com', team: 'Platform', lines: 3, codeLines: 1, commentLines: 1, blankLines: 1 },
+            { name: 'Bob', email: 'bob@contractor.example', team: 'Contractors', lines: 2, codeLines: 1, commentLines: 0, blankLines: 1 }
+        ]);
+    });
+
+    test('should leave untracked files and disabled authorship without authors', async function () {
+        this.timeout(20000);
+        write('src/scratch.ts', 'const draft = true;\n');
+        write('src/app.ts', '// App entry\nconst a = 1;\n\nconst b = 2; // note\nconst c = 3;\n');
+        const files = [fileInfo('src/scratch.ts', 'TypeScript'), fileInfo('src/app.ts', 'TypeScript')];
+
+        await AuthorshipService.getInstance().addAuthors(files);
+
+        expect(files[0].authors).to.be.undefined;
+        expect(files[1].authors!.map(current => [current.name, current.lines])).to.deep.equal([
+            ['Alice Smith', 3], ['Not Committed Yet', 2], ['Bob', 1]
+        ]);
+
+        settings['codeCounter.authorship.enabled'] = false;
+        const disabled = [fileInfo('src/app.ts', 'TypeScript')];
+        await AuthorshipService.getInstance().addAuthors(disabled);
+        expect(disabled[0].authors).to.be.undefined;
+    });
+
+    test('should total authors per team, directory and language', () => {
+        expect(resolveTeam('Alice@Example.com', teams)).to.equal('Platform');
+        expect(resolveTeam('carol@contractor.example', teams)).to.equal('Contractors');
+        expect(resolveTeam('dave@elsewhere.example', teams)).to.be.undefined;
+
+        const alice = (lines: number) => author('Alice', 'alice@example.com', lines, 'Platform');
+        const bob = (lines: number) => author('Bob', 'bob@example.com', lines);
+        const authorship = summarizeAuthorship([
+            fileInfo('src/app.ts', 'TypeScript', [alice(30), bob(10)]),
+            fileInfo('src\\lib\\util.ts', 'TypeScript', [bob(20)]),
+            fileInfo('README.md', 'Markdown', [alice(5)]),
+            fileInfo('untracked.ts', 'TypeScript')
+        ])!;
+
+        expect(authorship.attributedFiles).to.equal(3);
+        expect(authorship.authors.map(current => [current.name, current.files, current.lines])).to.deep.equal([['Alice', 2, 35], ['Bob', 2, 30]]);
+        expect(authorship.teams.map(team => [team.team, team.authors, team.files, team.lines])).to.deep.equal([
+            ['Platform', 1, 2, 35], ['No team', 1, 2, 30]
+        ]);
+        expect(authorship.directories.map(directory => [directory.name, directory.lines, directory.owners.map(owner => owner.name)])).to.deep.equal([
+            ['src', 40, ['Alice', 'Bob']], ['src/lib', 20, ['Bob']], ['', 5, ['Alice']]
+        ]);
+        expect(authorship.languages.map(language => [language.name, language.files, language.lines])).to.deep.equal([
+            ['TypeScript', 2, 60], ['Markdown', 1, 5]
+        ]);
+        expect(summarizeAuthorship([fileInfo('untracked.ts', 'TypeScript')])).to.be.undefined;
+    });
+
+    test('should export the authors of each file as CSV, JSON and XML', () => {
+        const result: LineCountResult = {
+            workspacePath: tempDir,
+            totalFiles: 1,
+            totalLines: 5,
+            files: [fileInfo('src/app.ts', 'TypeScript', [author('Alice', 'alice@example.com', 3, 'Platform'), author('Bob, Jr.', 'bob@example.com', 2)])],
+            languageStats: {},
+            generatedAt: new Date(Date.UTC(2026, 2, 1))
+        };
+
+        const csv = new CsvGeneratorService().generateFileCsv(result).split('\n');
+        expect(csv[0]).to.match(/,Primary Author,Primary Author Team,Primary Author Lines,Authors$/);
+        expect(csv[1]).to.match(/,Alice <alice@example.com>,Platform,3,"Alice <alice@example.com>: 3; Bob, Jr. <bob@example.com>: 2"$/);
+
+        const json = JSON.parse(new JsonGeneratorService().generateJson(result));
+        expect(json.files[0].authors[1]).to.deep.equal(author('Bob, Jr.', 'bob@example.com', 2));
+
+        const xml = new XmlGeneratorService().generateXml(result);
+        expect(xml).to.contain('<author name="Alice" email="alice@example.com" team="Platform" lines="3" codeLines="3" commentLines="0" blankLines="0"');
+    });
+});
@@ -0,0 +1,134 @@
+import { expect } from 'chai';
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { ChangeSizeService } from '../../services/changeSizeService';
+import { JsonGeneratorService } from '../../services/jsonGenerator';
+import { MarkdownGeneratorService } from '../../services/markdownGenerator';
+import { getWorkspaceService, invalidateWorkspaceServiceCache } from '../../utils/workspaceUtils';
+
+suite('Change Size Tests', () => {
+    let sandbox: sinon.SinonSandbox;
+    let tempDir: string;
+
+    const settings: { [key: string]: any } = {
+        'codeCounter.lineThresholds.midThreshold': 5,
+        'codeCounter.lineThresholds.highThreshold': 10
+    };
+
+    const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+        cwd: tempDir,
+        encoding: 'utf8'
+    }).trim();
+
+    const write = (relativePath: string, lineCount: number, prefix = 'line') => {
+        // No trailing newline, so git also reports the previous last line as changed when lines are added
+        const filePath = path.join(tempDir, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, Array.from({ length: lineCount }, (_, index) => `const ${prefix}${index} = ${index};`).join('\n'));
+    };
+
+    const commit = (message: string) => {
+        git('add', '-A');
+        git('commit', '-q', '-m', message);
+    };
+
+    setup(async function () {
+        this.timeout(10000);
+        sandbox = sinon.createSandbox();
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'change-size-'));
+        sandbox.stub(vscode.workspace, 'getConfiguration').callsFake((section?: string) => ({
+            get: (key: string, defaultValue?: any) => settings[`${section}.${key}`] ?? defaultValue
+        }) as vscode.WorkspaceConfiguration);
+
+        git('init', '-q', '-b', 'main');
+        write('src/app.ts', 3);
+        write('src/big.ts', 4);
+        write('notes.md', 2);
+        commit('Base');
+
+        git('checkout', '-q', '-b', 'feature');
+        write('src/app.ts', 4, 'renamed');
+        write('src/big.ts', 7);
+        fs.rmSync(path.join(tempDir, 'notes.md'));
+        write('src/tool.py', 2);
+        commit('Feature');
+
+        // Work on main after the fork must not show up in the branch's changes
+        git('checkout', '-q', 'main');
+        write('src/main-only.ts', 20);
+        commit('Main only');
+        git('checkout', '-q', 'feature');
+    });
+
+    teardown(async () => {
+        sandbox.restore();
+        getWorkspaceService(tempDir).dispose();
+        invalidateWorkspaceServiceCache(tempDir);
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should count the files a branch changes since it forked off the base', async function () {
+        this.timeout(20000);
+        const diff = await ChangeSizeService.getInstance().countChanges(tempDir, 'main', 'HEAD');
+
+        expect(diff.added.map(file => [file.filePath, file.lines, file.linesAdded])).to.deep.equal([['src/tool.py', 2, 2]]);
+        expect(diff.removed.map(file => [file.filePath, file.baseLines, file.linesRemoved])).to.deep.equal([['notes.md', 2, 2]]);
+        expect(diff.grown.map(file => [file.filePath, file.change, file.linesAdded, file.linesRemoved])).to.deep.equal([
+            ['src/big.ts', 3, 4, 1],
+            ['src/app.ts', 1, 4, 3]
+        ]);
+        const typeScript = diff.languages.find(language => language.language === 'TypeScript')!;
+        expect(typeScript).to.include({ baseLines: 7, lines: 11, change: 4, linesAdded: 8, linesRemoved: 4 });
+        expect(diff.totals).to.include({ linesAdded: 10, linesRemoved: 6 });
+        expect(diff.tierChanges!.map(file => [file.filePath, file.baseTier, file.tier])).to.deep.equal([['src/big.ts', 'normal', 'warning']]);
+    });
+
+    test('should include uncommitted and untracked files when comparing the working tree', async function () {
+        this.timeout(20000);
+        write('src/big.ts', 12);
+        write('src/scratch.ts', 1);
+
+        const diff = await ChangeSizeService.getInstance().countChanges(tempDir, 'main', 'workingTree');
+
+        expect(diff.added.map(file => file.filePath)).to.deep.equal(['src/tool.py', 'src/scratch.ts']);
+        expect(diff.grown.find(file => file.filePath === 'src/big.ts')).to.include({ lines: 12, tier: 'danger' });
+        expect(diff.current.title).to.equal('feature (working tree)');
+    });
+
+    test('should reject a ref that does not exist', async () => {
+        let message = '';
+        try {
+            await ChangeSizeService.getInstance().countChanges(tempDir, 'no-such-branch', 'HEAD');
+        } catch (error) {
+            message = (error as Error).message;
+        }
+        expect(message).to.equal('Unknown git ref: no-such-branch');
+    });
+
+    test('should render the changes as Markdown for a pull request', async function () {
+        this.timeout(20000);
+        const diff = await ChangeSizeService.getInstance().countChanges(tempDir, 'main', 'HEAD');
+
+        const markdown = new MarkdownGeneratorService().generateDiffMarkdown(diff);
+
+        expect(markdown).to.contain('| Lines added / removed | | | +10 / −6 |');
+        expect(markdown).to.contain('| Language | Files | Lines | Added | Removed | Net | Change |');
+        expect(markdown).to.match(/\| `src\/big\.ts` \| 4 → 7 \| .* normal → .* warning \|/);
+        expect(markdown).to.contain('<details><summary>🆕 New files (1)</summary>');
+    });
+
+    test('should export the files that changed tier as JSON', async function () {
+        this.timeout(20000);
+        const diff = await ChangeSizeService.getInstance().countChanges(tempDir, 'main', 'HEAD');
+
+        const json = JSON.parse(new JsonGeneratorService().generateDiffJson(diff));
+
+        expect(json.tierChanges).to.deep.equal([
+            { relativePath: 'src/big.ts', baseLines: 4, lines: 7, baseTier: 'normal', tier: 'warning' }
+        ]);
+    });
+});
@@ -0,0 +1,100 @@
+import { expect } from 'chai';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { CodeCounterTreeProvider, CodeCounterTreeNode } from '../../providers/codeCounterTreeProvider';
+import { DirectoryAggregateIndexService } from '../../services/directoryAggregateIndexService';
+import { LineCounterService } from '../../services/lineCounter';
+
+suite('Code Counter Tree Provider Tests', () => {
+    let tempDir: string;
+    let provider: CodeCounterTreeProvider;
+    let sandbox: sinon.SinonSandbox;
+    const directoryIndex = DirectoryAggregateIndexService.getInstance();
+
+    const writeFile = async (relativePath: string, lineCount: number) => {
+        const filePath = path.join(tempDir, relativePath);
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, Array.from({ length: lineCount }, (_, i) => `const v${i} = ${i};`).join('\n'));
+        return filePath;
+    };
+
+    const sectionChildren = async (section: string) => {
+        const sections = await provider.getChildren();
+        return provider.getChildren(sections.find(node => node.kind === 'section' && node.section === section));
+    };
+
+    const fileNames = (nodes: CodeCounterTreeNode[]) =>
+        nodes.map(node => node.kind === 'file' ? path.basename(node.file.path) : undefined);
+
+    setup(async function () {
+        this.timeout(10000);
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'code-counter-tree-'));
+        sandbox = sinon.createSandbox();
+        sandbox.stub(vscode.workspace, 'workspaceFolders').value([{ uri: vscode.Uri.file(tempDir), name: 'project', index: 0 }]);
+
+        const lineCounter = new LineCounterService();
+        const filePaths = [
+            await writeFile('src/big.ts', 450),
+            await writeFile('src/huge.ts', 1200),
+            await writeFile('src/lib/small.ts', 20),
+            await writeFile('scripts/tool.py', 40)
+        ];
+        directoryIndex.setFiles(tempDir, await Promise.all(filePaths.map(filePath => lineCounter.countFileLines(filePath, tempDir))));
+        provider = new CodeCounterTreeProvider();
+    });
+
+    teardown(async () => {
+        provider.dispose();
+        directoryIndex.clear(tempDir);
+        sandbox.restore();
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should list the sections at the root', async () => {
+        const sections = await provider.getChildren();
+        expect(sections.map(node => node.kind === 'section' && node.section)).to.deep.equal([
+            'largestFiles', 'languages', 'directories', 'overThreshold', 'recentlyChanged'
+        ]);
+    });
+
+    test('should sort files, languages and directories by line count', async function () {
+        this.timeout(10000);
+        expect(fileNames(await sectionChildren('largestFiles'))).to.deep.equal(['huge.ts', 'big.ts', 'tool.py', 'small.ts']);
+
+        const languages = await sectionChildren('languages');
+        expect(languages.map(node => node.kind === 'language' && [node.language, node.files.length])).to.deep.equal([
+            ['TypeScript', 3], ['Python', 1]
+        ]);
+        expect(fileNames(await provider.getChildren(languages[0]))).to.deep.equal(['huge.ts', 'big.ts', 'small.ts']);
+
+        const directories = await sectionChildren('directories');
+        expect(directories.map(node => node.kind === 'directory' && node.aggregate.path)).to.deep.equal([
+            tempDir, path.join(tempDir, 'src'), path.join(tempDir, 'scripts'), path.join(tempDir, 'src/lib')
+        ]);
+    });
+
+    test('should list only files in the warning and danger tiers', async function () {
+        this.timeout(10000);
+        expect(fileNames(await sectionChildren('overThreshold'))).to.deep.equal(['huge.ts', 'big.ts']);
+    });
+
+    test('should label nodes with their count and tier emoji', async function () {
+        this.timeout(10000);
+        const [huge] = await sectionChildren('largestFiles');
+        const fileItem = await provider.getTreeItem(huge);
+        expect(fileItem.label).to.equal('🔴 huge.ts');
+        expect(fileItem.description).to.equal(`${(1200).toLocaleString()} lines · src`);
+        expect(fileItem.contextValue).to.equal('codeCounterFile');
+        expect(fileItem.command!.command).to.equal('codeCounter.tree.openFile');
+        expect(provider.getUri(huge)!.fsPath).to.equal(path.join(tempDir, 'src/huge.ts'));
+
+        const [root] = await sectionChildren('directories');
+        const directoryItem = await provider.getTreeItem(root);
+        expect(directoryItem.label).to.match(/ project$/);
+        expect(directoryItem.description).to.equal(`${(1710).toLocaleString()} lines · 4 files`);
+        expect(directoryItem.contextValue).to.equal('codeCounterDirectory');
+    });
+});
@@ -170,67 +170,83 @@ suite('Decorator Integration Tests', () => {
             const fileName = path.basename(filePath);
             const mockCounts: { [key: string]: CachedLineCount } = {
                 'short.ts': {
+                    language: 'TypeScript',
                     lines: 2,
                     codeLines: 2,
                     commentLines: 0,
                     blankLines: 0,
+                    mixedLines: 0,
                     lastModified: Date.now(),
                     size: 100
                 },
                 'medium.ts': {
+                    language: 'TypeScript',
                     lines: 150,
                     codeLines: 150,
                     commentLines: 0,
                     blankLines: 0,
+                    mixedLines: 0,
                     lastModified: Date.now(),
                     size: 3000
                 },
                 'long.spec.ts': {
+                    language: 'TypeScript',
                     lines: 800,
                     codeLines: 800,
                     commentLines: 0,
                     blankLines: 0,
+                    mixedLines: 0,
                     lastModified: Date.now(),
                     size: 16000
                 },
                 // Add missing test files
                 'button.ts': {
+                    language: 'TypeScript',
                     lines: 150,
                     codeLines: 150,
                     commentLines: 0,
                     blankLines: 0,
+                    mixedLines: 0,
                     lastModified: Date.now(),
                     size: 3000
                 },
                 'component.ts': {
+                    language: 'TypeScript',
                     lines: 4,
                     codeLines: 4,
                     commentLines: 0,
                     blankLines: 0,
+                    mixedLines: 0,
                     lastModified: Date.now(),
                     size: 80
                 },
                 'test.ts': {
+                    language: 'TypeScript',
                     lines: 25,
                     codeLines: 25,
                     commentLines: 0,
                     blankLines: 0,
+                    mixedLines: 0,
                     lastModified: Date.now(),
                     size: 500
                 },
                 'module.ts': {
+                    language: 'TypeScript',
                     lines: 1,
                     codeLines: 1,
                     commentLines: 0,
                     blankLines: 0,
+                    mixedLines: 0,
                     lastModified: Date.now(),
                     size: 40
                 },
                 'icon.ts': {
+                    language: 'TypeScript',
                     lines: 3,
                     codeLines: 3,
                     commentLines: 0,
                     blankLines: 0,
+                    mixedLines: 0,
                     lastModified: Date.now(),
                     size: 50
                 }
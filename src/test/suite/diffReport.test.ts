@@ -0,0 +1,99 @@
+import { expect } from 'chai';
+import { CsvGeneratorService } from '../../services/csvGenerator';
+import { HtmlGeneratorService } from '../../services/htmlGenerator';
+import { JsonGeneratorService } from '../../services/jsonGenerator';
+import { XmlGeneratorService } from '../../services/xmlGenerator';
+import { SnapshotFileRecord } from '../../services/workspaceDatabaseService';
+import { FileInfo, LineCountResult } from '../../types';
+import { compareLineCounts, DiffSource, parseLineCountExport } from '../../utils/diffUtils';
+
+suite('Diff Report Tests', () => {
+    const record = (filePath: string, language: string, lines: number): SnapshotFileRecord => ({
+        filePath, language, lines, codeLines: lines, commentLines: 0, blankLines: 0, mixedLines: 0
+    });
+
+    const source = (title: string, files: SnapshotFileRecord[]): DiffSource => ({ title, files });
+
+    const base = source('Release 1.0', [
+        record('src/app.ts', 'TypeScript', 100),
+        record('src/util.ts', 'TypeScript', 50),
+        record('src/legacy.js', 'JavaScript', 30),
+        record('README.md', 'Markdown', 20)
+    ]);
+    const current = source('Workspace (current)', [
+        record('src\\app.ts', 'TypeScript', 150),
+        record('src/util.ts', 'TypeScript', 40),
+        record('src/new & shiny.py', 'Python', 25),
+        record('README.md', 'Markdown', 20)
+    ]);
+
+    test('should classify new, deleted, grown and shrunk files with absolute and percent changes', () => {
+        const diff = compareLineCounts(base, current);
+
+        expect(diff.added.map(file => [file.filePath, file.change, file.percentChange])).to.deep.equal([['src/new & shiny.py', 25, undefined]]);
+        expect(diff.removed.map(file => [file.filePath, file.change, file.percentChange])).to.deep.equal([['src/legacy.js', -30, -100]]);
+        expect(diff.grown.map(file => [file.filePath, file.change, file.percentChange])).to.deep.equal([['src/app.ts', 50, 50]]);
+        expect(diff.shrunk.map(file => [file.filePath, file.change, file.percentChange])).to.deep.equal([['src/util.ts', -10, -20]]);
+        expect(diff.unchangedFiles).to.equal(1);
+        expect(diff.totals).to.deep.include({ baseFiles: 4, files: 4, baseLines: 200, lines: 235, change: 35, percentChange: 17.5 });
+        expect(diff.languages.map(language => [language.language, language.change])).to.deep.equal([
+            ['TypeScript', 40], ['JavaScript', -30], ['Python', 25], ['Markdown', 0]
+        ]);
+    });
+
+    test('should read the files of JSON and XML exports', () => {
+        const fileInfo = (relativePath: string, language: string, lines: number): FileInfo => ({
+            path: `/workspace/${relativePath}`, relativePath, language, lines,
+            codeLines: lines - 2, commentLines: 1, blankLines: 1, mixedLines: 0, size: lines * 10
+        });
+        const result: LineCountResult = {
+            workspacePath: '/workspace',
+            totalFiles: 2,
+            totalLines: 60,
+            files: [fileInfo('src/main.ts', 'TypeScript', 40), fileInfo('docs/guide.md', 'Markdown', 20)],
+            languageStats: {},
+            generatedAt: new Date(Date.UTC(2026, 2, 1))
+        };
+
+        for (const [content, format] of [
+            [new JsonGeneratorService().generateJson(result), 'json'],
+            [new XmlGeneratorService().generateXml(result), 'xml']
+        ] as Array<[string, 'json' | 'xml']>) {
+            const parsed = parseLineCountExport(content, format);
+
+            expect(parsed.generatedAt?.toISOString()).to.equal('2026-03-01T00:00:00.000Z');
+            expect(parsed.files).to.deep.equal([
+                { filePath: 'src/main.ts', language: 'TypeScript', lines: 40, codeLines: 38, commentLines: 1, blankLines: 1, mixedLines: 0 },
+                { filePath: 'docs/guide.md', language: 'Markdown', lines: 20, codeLines: 18, commentLines: 1, blankLines: 1, mixedLines: 0 }
+            ]);
+        }
+        expect(() => parseLineCountExport('{"files": {}}', 'json')).to.throw('Not a Code Counter JSON export');
+    });
+
+    test('should export the diff as CSV, JSON and XML', () => {
+        const diff = compareLineCounts(base, current);
+
+        const csv = new CsvGeneratorService().generateDiffCsv(diff).split('\n');
+        expect(csv[0]).to.equal('Scope,Name,Language,Status,Base Files,Files,Base Lines,Lines,Change,Change (%)');
+        expect(csv).to.include('File,src/new & shiny.py,Python,added,,,0,25,25,');
+        expect(csv).to.include('File,src/legacy.js,JavaScript,removed,,,30,0,-30,-100');
+
+        const json = JSON.parse(new JsonGeneratorService().generateDiffJson(diff));
+        expect(json.metadata.base.title).to.equal('Release 1.0');
+        expect(json.totals.change).to.equal(35);
+        expect(json.files.grown[0].filePath).to.equal('src/app.ts');
+        expect(json.files.unchanged).to.equal(1);
+
+        const xml = new XmlGeneratorService().generateDiffXml(diff);
+        expect(xml).to.contain('<codeCounterDiff');
+        expect(xml).to.match(/<file relativePath="src\/util.ts" language="TypeScript" status="shrunk"[^>]*change="-10"/);
+    });
+
+    test('should escape file names in the HTML diff report', async () => {
+        const html = await new HtmlGeneratorService().generateDiffHtml(compareLineCounts(base, current));
+
+        expect(html).to.contain('src/new &amp; shiny.py');
+        expect(html).to.contain('Release 1.0');
+        expect(html).not.to.contain('{{');
+    });
+});
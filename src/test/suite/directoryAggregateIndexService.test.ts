@@ -0,0 +1,119 @@
+import { expect } from 'chai';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { DirectoryAggregateIndexService } from '../../services/directoryAggregateIndexService';
+import { LineCounterService } from '../../services/lineCounter';
+import { FileInfo } from '../../types';
+
+suite('Directory Aggregate Index Service Tests', () => {
+    let tempDir: string;
+    let service: DirectoryAggregateIndexService;
+
+    const writeFile = async (relativePath: string, lineCount: number, comment = '//') => {
+        const filePath = path.join(tempDir, relativePath);
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        const lines = Array.from({ length: lineCount }, (_, i) => i === 0 ? `${comment} header` : `const v${i} = ${i};`);
+        await fs.promises.writeFile(filePath, lines.join('\n'));
+        return filePath;
+    };
+
+    const countFiles = (filePaths: string[]): Promise<FileInfo[]> => {
+        const lineCounter = new LineCounterService();
+        return Promise.all(filePaths.map(filePath => lineCounter.countFileLines(filePath, tempDir)));
+    };
+
+    setup(async () => {
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'directory-index-'));
+        service = new DirectoryAggregateIndexService();
+    });
+
+    teardown(async () => {
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should aggregate every file below a directory, however deep', async function () {
+        this.timeout(10000);
+        const files = await countFiles([
+            await writeFile('src/a.ts', 10),
+            await writeFile('src/one/two/three/deep.ts', 40),
+            await writeFile('src/one/b.js', 20),
+            await writeFile('main.ts', 5)
+        ]);
+        service.setFiles(tempDir, files);
+
+        const src = service.getAggregate(path.join(tempDir, 'src'))!;
+        expect(src.files).to.equal(3);
+        expect(src.lines).to.equal(70);
+        expect(src.commentLines).to.equal(3);
+        expect(src.codeLines).to.equal(67);
+        expect(src.averageLines).to.equal(23);
+        expect(src.maxLines).to.equal(40);
+        expect(src.maxFilePath).to.equal(path.join(tempDir, 'src/one/two/three/deep.ts'));
+        expect(src.languages).to.deep.equal({ TypeScript: { files: 2, lines: 50 }, JavaScript: { files: 1, lines: 20 } });
+
+        expect(service.getAggregate(tempDir)!.lines).to.equal(75);
+        expect(service.getAggregate(path.join(tempDir, 'src/one/two'))!.files).to.equal(1);
+        expect(service.getAggregate(path.join(tempDir, 'missing'))).to.be.undefined;
+    });
+
+    test('should update totals and the largest file incrementally', async function () {
+        this.timeout(10000);
+        const largePath = await writeFile('src/large.ts', 50);
+        const smallPath = await writeFile('src/lib/small.ts', 10);
+        const otherPath = await writeFile('src/lib/other.ts', 30);
+        service.setFiles(tempDir, await countFiles([largePath, smallPath, otherPath]));
+        expect(service.getLineCounts(path.join(tempDir, 'src'))).to.deep.equal([10, 30, 50]);
+
+        const events: string[][] = [];
+        const subscription = service.onDidChangeIndex(directories => events.push(directories));
+        await writeFile('src/large.ts', 5);
+        await fs.promises.rm(otherPath);
+        const directories = await service.applyChanges(tempDir, [largePath, otherPath]);
+        subscription.dispose();
+
+        expect(directories.sort()).to.deep.equal([tempDir, path.join(tempDir, 'src'), path.join(tempDir, 'src/lib')].sort());
+        expect(events).to.deep.equal([directories]);
+
+        const src = service.getAggregate(path.join(tempDir, 'src'))!;
+        expect(src.files).to.equal(2);
+        expect(src.lines).to.equal(15);
+        expect(src.maxLines).to.equal(10);
+        expect(src.maxFilePath).to.equal(smallPath);
+        expect(service.getAggregate(path.join(tempDir, 'src/lib'))!.maxFilePath).to.equal(smallPath);
+        expect(service.getLineCounts(path.join(tempDir, 'src'))).to.deep.equal([5, 10]);
+    });
+
+    test('should add created directories and drop deleted ones', async function () {
+        this.timeout(10000);
+        const appPath = await writeFile('app.ts', 10);
+        const nestedPath = await writeFile('old/nested/b.ts', 20);
+        service.setFiles(tempDir, await countFiles([appPath, nestedPath]));
+
+        await fs.promises.rm(path.join(tempDir, 'old'), { recursive: true });
+        await writeFile('added/inner/c.py', 15, '#');
+        await service.applyChanges(tempDir, [path.join(tempDir, 'old'), path.join(tempDir, 'added')]);
+
+        expect(service.getAggregate(path.join(tempDir, 'old'))).to.be.undefined;
+        expect(service.getAggregate(path.join(tempDir, 'old/nested'))).to.be.undefined;
+        const added = service.getAggregate(path.join(tempDir, 'added'))!;
+        expect(added.files).to.equal(1);
+        expect(added.languages).to.deep.equal({ Python: { files: 1, lines: 15 } });
+
+        const root = service.getAggregate(tempDir)!;
+        expect(root.files).to.equal(2);
+        expect(root.maxLines).to.equal(15);
+    });
+
+    test('should ignore changes before the index is built and after it is cleared', async function () {
+        this.timeout(10000);
+        const appPath = await writeFile('app.ts', 10);
+        expect(await service.applyChanges(tempDir, [appPath])).to.be.empty;
+        expect(service.hasIndex(tempDir)).to.be.false;
+
+        service.setFiles(tempDir, await countFiles([appPath]));
+        expect(service.hasIndex(tempDir)).to.be.true;
+        service.clear(tempDir);
+        expect(service.getAggregate(tempDir)).to.be.undefined;
+    });
+});
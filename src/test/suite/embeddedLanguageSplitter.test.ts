@@ -0,0 +1,171 @@
+import { expect } from 'chai';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { EmbeddedLanguageSplitter } from '../../services/embeddedLanguageSplitter';
+import { LineCounterService } from '../../services/lineCounter';
+import { LanguageRegistry } from '../../services/languageRegistry';
+import { aggregateLanguages } from '../../utils/languageStatsUtils';
+
+suite('Embedded Language Splitter Tests', () => {
+    let splitter: EmbeddedLanguageSplitter;
+
+    setup(() => {
+        splitter = new EmbeddedLanguageSplitter(LanguageRegistry.getInstance());
+    });
+
+    suite('Script and style blocks', () => {
+        test('should split a Vue single-file component', () => {
+            const segments = splitter.split('Vue', [
+                '<template>',
+                '  <div>{{ msg }}</div>',
+                '</template>',
+                '<script lang="ts">',
+                'export default {}',
+                '</script>',
+                '<style lang="scss" scoped>',
+                '.a { .b { color: red; } }',
+                '</style>'
+            ]);
+            expect(segments).to.deep.equal([
+                { language: 'Vue', start: 0, end: 4 },
+                { language: 'TypeScript', start: 4, end: 5 },
+                { language: 'Vue', start: 5, end: 7 },
+                { language: 'SCSS', start: 7, end: 8 },
+                { language: 'Vue', start: 8, end: 9 }
+            ]);
+        });
+
+        test('should default to JavaScript and CSS in HTML', () => {
+            const segments = splitter.split('HTML', [
+                '<script type="module">',
+                'import a from "./a.js";',
+                '</script>',
+                '<style>',
+                'body { margin: 0; }',
+                '</style>'
+            ]);
+            expect(segments.map(segment => segment.language)).to.deep.equal(['HTML', 'JavaScript', 'HTML', 'CSS', 'HTML']);
+        });
+
+        test('should keep single-line and template scripts with the host', () => {
+            const segments = splitter.split('HTML', [
+                '<script src="app.js"></script>',
+                '<script type="text/x-template">',
+                '<div></div>',
+                '</script>'
+            ]);
+            expect(segments).to.deep.equal([{ language: 'HTML', start: 0, end: 4 }]);
+        });
+
+        test('should treat Astro frontmatter as TypeScript', () => {
+            const segments = splitter.split('Astro', ['---', 'const title = "Hi";', '---', '<h1>{title}</h1>']);
+            expect(segments).to.deep.equal([
+                { language: 'Astro', start: 0, end: 1 },
+                { language: 'TypeScript', start: 1, end: 2 },
+                { language: 'Astro', start: 2, end: 4 }
+            ]);
+        });
+    });
+
+    suite('Markdown and Razor', () => {
+        test('should attribute fenced code blocks to their language', () => {
+            const segments = splitter.split('Markdown', [
+                '# Title',
+                '```python',
+                'print("hi")',
+                '```',
+                '~~~',
+                'plain text',
+                '~~~',
+                '```unknown-lang',
+                'x',
+                '```'
+            ]);
+            expect(segments).to.deep.equal([
+                { language: 'Markdown', start: 0, end: 2 },
+                { language: 'Python', start: 2, end: 3 },
+                { language: 'Markdown', start: 3, end: 10 }
+            ]);
+        });
+
+        test('should attribute Razor code blocks to C#', () => {
+            const segments = splitter.split('Razor', [
+                '@page "/counter"',
+                '<p>@count</p>',
+                '@code {',
+                '    private int count = 0;',
+                '    void Increment() { count++; }',
+                '}'
+            ]);
+            expect(segments).to.deep.equal([
+                { language: 'Razor', start: 0, end: 3 },
+                { language: 'C#', start: 3, end: 5 },
+                { language: 'Razor', start: 5, end: 6 }
+            ]);
+        });
+
+        test('should leave other languages as a single segment', () => {
+            expect(splitter.split('TypeScript', ['const a = "<script>";', '```'])).to.deep.equal([
+                { language: 'TypeScript', start: 0, end: 2 }
+            ]);
+        });
+    });
+
+    suite('LineCounterService integration', () => {
+        let tempDir: string;
+
+        suiteSetup(async () => {
+            tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'embedded-languages-'));
+        });
+
+        suiteTeardown(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        test('should count embedded blocks with their own syntax and report sections', async () => {
+            const filePath = path.join(tempDir, 'Hello.vue');
+            await fs.promises.writeFile(filePath, [
+                '<template>',
+                '  <!-- greeting -->',
+                '  <p>{{ msg }}</p>',
+                '</template>',
+                '<script lang="ts">',
+                '// component logic',
+                'export default { data: () => ({ msg: "hi" }) };',
+                '</script>',
+                '<style lang="scss">',
+                '/* theme */',
+                'p { color: red; }',
+                '</style>'
+            ].join('\n'));
+
+            const fileInfo = await new LineCounterService().countFileLines(filePath, tempDir);
+            expect(fileInfo.language).to.equal('Vue');
+            expect(fileInfo.lines).to.equal(12);
+            expect(fileInfo.commentLines).to.equal(3);
+            expect(fileInfo.codeLines).to.equal(9);
+            expect(fileInfo.languageSections).to.deep.equal([
+                { language: 'Vue', lines: 8, codeLines: 7, commentLines: 1, blankLines: 0, mixedLines: 0 },
+                { language: 'TypeScript', lines: 2, codeLines: 1, commentLines: 1, blankLines: 0, mixedLines: 0 },
+                { language: 'SCSS', lines: 2, codeLines: 1, commentLines: 1, blankLines: 0, mixedLines: 0 }
+            ]);
+
+            const languages = aggregateLanguages([fileInfo]);
+            expect(languages.map(language => [language.name, language.files, language.lines])).to.deep.equal([
+                ['Vue', 1, 8], ['TypeScript', 1, 2], ['SCSS', 1, 2]
+            ]);
+        });
+
+        test('should not add sections to files without embedded languages', async () => {
+            const filePath = path.join(tempDir, 'plain.ts');
+            await fs.promises.writeFile(filePath, 'const a = 1;\n');
+
+            const fileInfo = await new LineCounterService().countFileLines(filePath, tempDir);
+            expect(fileInfo.languageSections).to.be.undefined;
+            expect(aggregateLanguages([fileInfo])).to.deep.equal([
+                { name: 'TypeScript', files: 1, lines: 2, codeLines: 1, commentLines: 0, blankLines: 1, mixedLines: 0 }
+            ]);
+        });
+    });
+});
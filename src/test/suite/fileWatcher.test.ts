@@ -1,6 +1,9 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import * as sinon from 'sinon';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { FileWatcherProvider } from '../../providers/fileWatcher';
 import { CountLinesCommand } from '../../commands/countLines';
 
@@ -77,11 +80,34 @@ suite('FileWatcher Provider Tests', () => {
         assert.ok(createWatcherStub.calledOnce, 'Should create one file system watcher');
         
         const watchPattern = createWatcherStub.firstCall.args[0];
-        assert.ok(watchPattern.includes('**/*.{'), 'Should use glob pattern for multiple file types');
-        assert.ok(watchPattern.includes('js'), 'Should include JavaScript files');
-        assert.ok(watchPattern.includes('ts'), 'Should include TypeScript files');
-        assert.ok(watchPattern.includes('py'), 'Should include Python files');
-        assert.ok(watchPattern.includes('md'), 'Should include Markdown files');
+        assert.strictEqual(watchPattern, '**/*', 'Should watch files without an extension too');
+    });
+
+    test('should only queue files in a known language', async () => {
+        const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'file-watcher-'));
+        mockWorkspace.withArgs('files').returns({ get: () => ({}) });
+        try {
+            const files: Record<string, string> = {
+                'Dockerfile': 'FROM node:20\n',
+                'deploy': '#!/usr/bin/env bash\necho deploy\n',
+                'notes': 'nothing to count\n'
+            };
+            for (const [name, content] of Object.entries(files)) {
+                await fs.promises.writeFile(path.join(tempDir, name), content);
+            }
+
+            const createCallback = mockFileSystemWatcher.onDidCreate.firstCall.args[0];
+            const deleteCallback = mockFileSystemWatcher.onDidDelete.firstCall.args[0];
+            for (const name of Object.keys(files)) {
+                await createCallback(vscode.Uri.file(path.join(tempDir, name)));
+            }
+            await deleteCallback(vscode.Uri.file(path.join(tempDir, 'removed')));
+
+            const pendingChanges = [...(fileWatcher as any).pendingChanges].map(filePath => path.basename(filePath)).sort();
+            assert.deepStrictEqual(pendingChanges, ['Dockerfile', 'deploy', 'removed']);
+        } finally {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        }
     });
 
     test('should set up file system event listeners', () => {
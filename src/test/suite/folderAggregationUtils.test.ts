@@ -0,0 +1,33 @@
+import { expect } from 'chai';
+import { computeFolderMetrics, formatFolderMetric, percentile } from '../../utils/folderAggregationUtils';
+
+suite('Folder Aggregation Utils Tests', () => {
+    test('should compute every folder aggregate from sorted line counts', () => {
+        const metrics = computeFolderMetrics([10, 20, 30, 40, 50, 60, 70, 80, 90, 1200], 1000);
+        expect(metrics).to.deep.equal({
+            total: 1650,
+            average: 165,
+            median: 55,
+            p90: 90,
+            max: 1200,
+            dangerShare: 10
+        });
+    });
+
+    test('should use the middle value for odd file counts', () => {
+        expect(computeFolderMetrics([1, 5, 100], 1000).median).to.equal(5);
+        expect(computeFolderMetrics([], 1000)).to.deep.equal({ total: 0, average: 0, median: 0, p90: 0, max: 0, dangerShare: 0 });
+    });
+
+    test('should use nearest-rank percentiles', () => {
+        expect(percentile([5], 90)).to.equal(5);
+        expect(percentile([1, 2, 3, 4], 90)).to.equal(4);
+        expect(percentile([1, 2, 3, 4], 50)).to.equal(2);
+        expect(percentile([], 90)).to.equal(0);
+    });
+
+    test('should format percentages and line counts', () => {
+        expect(formatFolderMetric('dangerShare', 12)).to.equal('12% of files');
+        expect(formatFolderMetric('total', 1234)).to.equal(`${(1234).toLocaleString()} lines`);
+    });
+});
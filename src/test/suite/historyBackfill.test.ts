@@ -0,0 +1,136 @@
+import { expect } from 'chai';
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { HistoryBackfillService } from '../../services/historyBackfillService';
+import { GitCommit, GitService } from '../../services/gitService';
+import { selectBackfillCommits } from '../../utils/snapshotUtils';
+import { getWorkspaceService, invalidateWorkspaceServiceCache } from '../../utils/workspaceUtils';
+
+suite('History Backfill Tests', () => {
+    let sandbox: sinon.SinonSandbox;
+    let tempDir: string;
+    let commits: string[];
+
+    const git = (...args: string[]) => execFileSync('git', args, {
+        cwd: tempDir,
+        encoding: 'utf8',
+        env: { ...process.env, GIT_AUTHOR_DATE: process.env.GIT_COMMITTER_DATE }
+    }).trim();
+
+    const commit = (message: string, date: string) => {
+        process.env.GIT_COMMITTER_DATE = date;
+        try {
+            git('add', '-A');
+            git('-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', message);
+        } finally {
+            delete process.env.GIT_COMMITTER_DATE;
+        }
+        return git('rev-parse', 'HEAD');
+    };
+
+    const write = (relativePath: string, content: string | Buffer) => {
+        const filePath = path.join(tempDir, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+    };
+
+    const history = (...days: number[]): GitCommit[] => days.map((day, index) => ({
+        hash: `commit${index}`,
+        date: new Date(Date.UTC(2026, 0, day))
+    }));
+
+    setup(async function () {
+        this.timeout(10000);
+        sandbox = sinon.createSandbox();
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'backfill-'));
+        sandbox.stub(vscode.workspace, 'getConfiguration').callsFake(() => ({
+            get: (key: string, defaultValue?: any) => key === 'excludePatterns' ? ['**/node_modules/**'] : defaultValue
+        }) as vscode.WorkspaceConfiguration);
+
+        git('init', '-q');
+        write('src/app.ts', 'const a = 1;\n// note\nexport { a };');
+        write('README.md', '# Demo');
+        const first = commit('First', '2024-03-01T10:00:00Z');
+        git('-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'tag', '-a', 'v1.0', '-m', 'Release 1.0');
+
+        write('src/app.ts', 'const a = 1;\n// note\nconst b = 2;\n\nexport { a, b };');
+        write('node_modules/lib/index.js', 'module.exports = 1;');
+        write('logo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]));
+        const second = commit('Second', '2024-04-01T10:00:00Z');
+        commits = [first, second];
+
+        // Uncommitted edit that a backfill must neither count nor touch
+        write('src/app.ts', 'uncommitted');
+    });
+
+    teardown(async () => {
+        sandbox.restore();
+        getWorkspaceService(tempDir).dispose();
+        invalidateWorkspaceServiceCache(tempDir);
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should space commits by count or days, keeping the newest', () => {
+        const commitsByDay = history(1, 2, 3, 4, 5, 6, 7);
+
+        expect(selectBackfillCommits(commitsByDay, { kind: 'commits', every: 3 }).map(current => current.hash))
+            .to.deep.equal(['commit0', 'commit3', 'commit6']);
+        expect(selectBackfillCommits(history(1, 2, 9, 10, 15), { kind: 'days', every: 7 }).map(current => current.hash))
+            .to.deep.equal(['commit1', 'commit4']);
+        expect(selectBackfillCommits(commitsByDay, { kind: 'tags' })).to.deep.equal(commitsByDay);
+    });
+
+    test('should record a snapshot of each commit from the object database', async function () {
+        this.timeout(20000);
+        const service = HistoryBackfillService.getInstance();
+
+        const plan = await service.planBackfill(tempDir, { kind: 'commits', every: 1 });
+        const recorded = await service.runBackfill(plan!);
+
+        expect(recorded.map(snapshot => [snapshot.commit, snapshot.trigger, snapshot.createdAt.toISOString()])).to.deep.equal([
+            [commits[0], 'backfill', '2024-03-01T10:00:00.000Z'],
+            [commits[1], 'backfill', '2024-04-01T10:00:00.000Z']
+        ]);
+        const files = await getWorkspaceService(tempDir).getSnapshotFiles(recorded[1].id);
+        expect(files.map(file => [file.filePath, file.language, file.lines, file.commentLines]).sort()).to.deep.equal([
+            ['README.md', 'Markdown', 1, 0],
+            ['src/app.ts', 'TypeScript', 5, 1]
+        ]);
+        expect(fs.readFileSync(path.join(tempDir, 'src/app.ts'), 'utf8')).to.equal('uncommitted');
+        expect(git('rev-parse', 'HEAD')).to.equal(commits[1]);
+    });
+
+    test('should resume a cancelled backfill with the commits still missing', async function () {
+        this.timeout(20000);
+        const service = HistoryBackfillService.getInstance();
+        const token = { isCancellationRequested: false } as vscode.CancellationToken & { isCancellationRequested: boolean };
+
+        const recorded = await service.runBackfill((await service.planBackfill(tempDir, { kind: 'commits', every: 1 }))!, (_commit, index) => {
+            token.isCancellationRequested = index === 1;
+        }, token);
+        const resumed = await service.planBackfill(tempDir, { kind: 'commits', every: 1 });
+
+        expect(recorded.map(snapshot => snapshot.commit)).to.deep.equal([commits[0]]);
+        expect(resumed!.alreadyRecorded).to.equal(1);
+        expect(resumed!.commits.map(current => current.hash)).to.deep.equal([commits[1]]);
+    });
+
+    test('should label tagged commits and list files relative to a subfolder', async function () {
+        this.timeout(20000);
+        const service = HistoryBackfillService.getInstance();
+
+        const plan = await service.planBackfill(tempDir, { kind: 'tags' });
+        const [snapshot] = await service.runBackfill(plan!);
+        const subfolderFiles = await GitService.getInstance().listFiles(path.join(tempDir, 'src'), commits[1]);
+
+        expect(snapshot.label).to.equal('v1.0');
+        expect(snapshot.commit).to.equal(commits[0]);
+        expect(snapshot).to.include({ files: 2, lines: 4 });
+        expect(subfolderFiles!.map(file => file.path)).to.deep.equal(['app.ts']);
+        expect(await service.planBackfill(os.tmpdir(), { kind: 'tags' })).to.be.undefined;
+    });
+});
@@ -0,0 +1,151 @@
+import { expect } from 'chai';
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { GitService } from '../../services/gitService';
+import { HotspotService } from '../../services/hotspotService';
+import { CsvGeneratorService } from '../../services/csvGenerator';
+import { JsonGeneratorService } from '../../services/jsonGenerator';
+import { XmlGeneratorService } from '../../services/xmlGenerator';
+import { FileInfo, LineCountResult } from '../../types';
+import { getHotspotThresholds, rankHotspots } from '../../utils/hotspotUtils';
+
+suite('Hotspot Tests', () => {
+    let sandbox: sinon.SinonSandbox;
+    let tempDir: string;
+    let settings: { [key: string]: any };
+
+    const git = (args: string[], env: NodeJS.ProcessEnv = {}) => execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+        cwd: tempDir,
+        encoding: 'utf8',
+        env: { ...process.env, ...env }
+    }).trim();
+
+    const write = (relativePath: string, lines: string[]) => {
+        const filePath = path.join(tempDir, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, lines.map(line => `${line}\n`).join(''));
+    };
+
+    const commit = (message: string, daysAgo = 0) => {
+        const date = new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString();
+        git(['add', '-A']);
+        git(['commit', '-q', '-m', message], { GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date });
+    };
+
+    const fileInfo = (relativePath: string, lines: number): FileInfo => ({
+        path: path.join(tempDir, relativePath), relativePath, language: 'TypeScript',
+        lines, codeLines: lines, commentLines: 0, blankLines: 0, mixedLines: 0, size: lines * 10
+    });
+
+    setup(async function () {
+        this.timeout(10000);
+        sandbox = sinon.createSandbox();
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'hotspots-'));
+        settings = {};
+        sandbox.stub(vscode.workspace, 'getConfiguration').callsFake((section?: string) => ({
+            get: (key: string, defaultValue?: any) => settings[`${section}.${key}`] ?? defaultValue
+        }) as vscode.WorkspaceConfiguration);
+
+        git(['init', '-q']);
+        write('src/a.ts', ['one', 'two', 'three']);
+        write('src/b.ts', ['alpha']);
+        commit('Old', 200);
+        write('src/a.ts', ['one', 'two', 'three', 'four', 'five']);
+        write('src/b.ts', ['beta']);
+        commit('Recent', 10);
+        write('src/a.ts', ['one', 'two', 'three', 'four', 'five', 'six']);
+        commit('Latest', 1);
+    });
+
+    teardown(async () => {
+        sandbox.restore();
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should read commits and changed lines per file from the git history within the window', async function () {
+        this.timeout(20000);
+        const recent = await GitService.getInstance().getFileChurn(tempDir, new Date(Date.now() - 90 * 24 * 60 * 60 * 1000));
+        expect(Object.fromEntries(recent!)).to.deep.equal({
+            'src/a.ts': { commits: 2, linesAdded: 3, linesRemoved: 0 },
+            'src/b.ts': { commits: 1, linesAdded: 1, linesRemoved: 1 }
+        });
+
+        const all = await GitService.getInstance().getFileChurn(path.join(tempDir, 'src'));
+        expect(all!.get('a.ts')).to.deep.equal({ commits: 3, linesAdded: 6, linesRemoved: 0 });
+        expect(all!.get('b.ts')).to.deep.equal({ commits: 2, linesAdded: 2, linesRemoved: 1 });
+    });
+
+    test('should rank the counted files of a repository and skip disabled or untracked workspaces', async function () {
+        this.timeout(20000);
+        write('src/scratch.ts', ['draft']);
+        const files = [fileInfo('src/a.ts', 6), fileInfo('src/b.ts', 1), fileInfo('src/scratch.ts', 1)];
+
+        await HotspotService.getInstance().addHotspots(tempDir, files);
+
+        expect(files.map(file => [file.relativePath, file.hotspot!.commits, file.hotspot!.rank])).to.deep.equal([
+            ['src/a.ts', 2, 1], ['src/b.ts', 1, 2], ['src/scratch.ts', 0, undefined]
+        ]);
+        expect(files[0].hotspot).to.include({ score: 100, quadrant: 'hotspot' });
+        expect(files[2].hotspot).to.include({ commits: 0, score: 0 });
+
+        settings['codeCounter.hotspots.enabled'] = false;
+        const disabled = [fileInfo('src/a.ts', 6)];
+        await HotspotService.getInstance().addHotspots(tempDir, disabled);
+        expect(disabled[0].hotspot).to.be.undefined;
+
+        settings['codeCounter.hotspots.enabled'] = true;
+        const outsideDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'hotspots-none-'));
+        try {
+            const outside = [fileInfo('a.ts', 6)];
+            await HotspotService.getInstance().addHotspots(outsideDir, outside);
+            expect(outside[0].hotspot).to.be.undefined;
+        } finally {
+            await fs.promises.rm(outsideDir, { recursive: true, force: true });
+        }
+    });
+
+    test('should score size against churn and split the files into quadrants at the medians', () => {
+        const files = [fileInfo('big.ts', 100), fileInfo('mid.ts', 50), fileInfo('small.ts', 10), fileInfo('idle.ts', 40)];
+        rankHotspots(files, new Map([
+            ['big.ts', { commits: 4, linesAdded: 30, linesRemoved: 10 }],
+            ['mid.ts', { commits: 1, linesAdded: 5, linesRemoved: 5 }],
+            ['small.ts', { commits: 8, linesAdded: 60, linesRemoved: 20 }]
+        ]));
+
+        expect(files.map(file => [file.relativePath, file.hotspot!.score, file.hotspot!.quadrant, file.hotspot!.rank])).to.deep.equal([
+            ['big.ts', 50, 'hotspot', 1],
+            ['mid.ts', 6.3, 'large', 3],
+            ['small.ts', 10, 'churning', 2],
+            ['idle.ts', 0, 'stable', undefined]
+        ]);
+        expect(getHotspotThresholds(files)).to.deep.equal({ sizeThreshold: 45, churnThreshold: 4 });
+        expect(getHotspotThresholds([fileInfo('untracked.ts', 5)])).to.be.undefined;
+    });
+
+    test('should export the hotspot of each file as CSV, JSON and XML', () => {
+        const file = fileInfo('src/app.ts', 100);
+        file.hotspot = { commits: 4, linesAdded: 30, linesRemoved: 10, score: 50, rank: 1, quadrant: 'hotspot' };
+        const result: LineCountResult = {
+            workspacePath: tempDir,
+            totalFiles: 1,
+            totalLines: 100,
+            files: [file],
+            languageStats: {},
+            generatedAt: new Date(Date.UTC(2026, 2, 1))
+        };
+
+        const csv = new CsvGeneratorService().generateFileCsv(result).split('\n');
+        expect(csv[0]).to.contain(',Commits,Lines Changed,Hotspot Score,Hotspot Quadrant,Primary Author,');
+        expect(csv[1]).to.contain(',4,40,50,hotspot,');
+
+        const json = JSON.parse(new JsonGeneratorService().generateJson(result));
+        expect(json.files[0].hotspot).to.deep.equal(file.hotspot);
+
+        const xml = new XmlGeneratorService().generateXml(result);
+        expect(xml).to.contain('<hotspot commits="4" linesAdded="30" linesRemoved="10" score="50" rank="1" quadrant="hotspot"');
+    });
+});
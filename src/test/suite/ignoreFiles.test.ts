@@ -0,0 +1,137 @@
+import { expect } from 'chai';
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { IgnoreFileService } from '../../services/ignoreFileService';
+import { LineCounterService } from '../../services/lineCounter';
+import { findMatchingIgnoreRule, parseIgnoreFile } from '../../utils/ignoreFileUtils';
+
+suite('Ignore File Tests', () => {
+    let sandbox: sinon.SinonSandbox;
+    let tempDir: string;
+    let settings: { [key: string]: any };
+
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: tempDir, encoding: 'utf8' }).trim();
+
+    const write = (relativePath: string, content: string) => {
+        const filePath = path.join(tempDir, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+    };
+
+    const countedPaths = async () => {
+        const result = await new LineCounterService().countLinesWithPathBasedSettings(tempDir);
+        return result.files.map(file => file.relativePath.replace(/\\/g, '/')).sort();
+    };
+
+    setup(async function () {
+        this.timeout(10000);
+        sandbox = sinon.createSandbox();
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ignore-files-'));
+        settings = { 'codeCounter.discoveryMode': 'ignoreFiles' };
+        sandbox.stub(vscode.workspace, 'getConfiguration').callsFake((section?: string) => ({
+            get: (key: string, defaultValue?: any) => settings[`${section}.${key}`] ?? defaultValue
+        }) as vscode.WorkspaceConfiguration);
+
+        git('init', '-q');
+        git('config', 'core.excludesFile', path.join(tempDir, '.git', 'global-excludes'));
+        write('.git/global-excludes', '*.tmp.ts\n');
+        write('.git/info/exclude', 'scratch/\n');
+        write('.gitignore', [
+            '# Build output',
+            'build/',
+            '!build/keep.ts',
+            '/root-only.ts',
+            'docs/*.ts',
+            '!important.tmp.ts',
+            '\\#hash.ts   '
+        ].join('\n'));
+        write('lib/.gitignore', '*.gen.ts\n');
+        write('lib/.ignore', '!api.gen.ts\n');
+        for (const relativePath of [
+            'app.ts', 'build/out.ts', 'build/keep.ts', 'lib/build/nested.ts', 'root-only.ts', 'lib/root-only.ts',
+            'docs/guide.ts', 'docs/api/reference.ts', '#hash.ts', 'lib/model.gen.ts', 'lib/api.gen.ts',
+            'scratch/draft.ts', 'notes.tmp.ts', 'important.tmp.ts'
+        ]) {
+            write(relativePath, 'const value = 1;');
+        }
+    });
+
+    teardown(async () => {
+        sandbox.restore();
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should parse ignore files with gitignore comments, escapes, negation and anchoring', () => {
+        const rules = parseIgnoreFile('# comment\n\n!keep.log\n\\!bang.ts\n/anchored.ts \nout/\ndeep/**/x.ts\\ \n', '/repo', '/repo/.gitignore');
+
+        expect(rules.map(rule => [rule.pattern, rule.negated, rule.directoryOnly])).to.deep.equal([
+            ['!keep.log', true, false],
+            ['\\!bang.ts', false, false],
+            ['/anchored.ts', false, false],
+            ['out/', false, true],
+            ['deep/**/x.ts\\ ', false, false]
+        ]);
+        const matches = (filePath: string, isDirectory = false) => findMatchingIgnoreRule(rules, filePath, isDirectory)?.pattern;
+        expect(matches('/repo/src/!bang.ts')).to.equal('\\!bang.ts');
+        expect(matches('/repo/anchored.ts')).to.equal('/anchored.ts');
+        expect(matches('/repo/src/anchored.ts')).to.be.undefined;
+        expect(matches('/repo/src/out', true)).to.equal('out/');
+        expect(matches('/repo/src/out')).to.be.undefined;
+        expect(matches('/repo/deep/a/b/x.ts ')).to.equal('deep/**/x.ts\\ ');
+        expect(matches('/repo/deep/x.ts ')).to.equal('deep/**/x.ts\\ ');
+        expect(matches('/other/keep.log')).to.be.undefined;
+    });
+
+    test('should combine nested ignore files, the repository exclude file and the global excludes', async function () {
+        this.timeout(20000);
+        const ignoreFiles = new IgnoreFileService(tempDir);
+        const ignored = async (relativePath: string) => ignoreFiles.isIgnored(path.join(tempDir, relativePath));
+
+        expect(await ignored('app.ts')).to.be.false;
+        // A file below an ignored directory cannot be re-included
+        expect(await ignored('build/out.ts')).to.be.true;
+        expect(await ignored('build/keep.ts')).to.be.true;
+        expect(await ignored('lib/build/nested.ts')).to.be.true;
+        expect(await ignored('root-only.ts')).to.be.true;
+        expect(await ignored('lib/root-only.ts')).to.be.false;
+        expect(await ignored('docs/guide.ts')).to.be.true;
+        expect(await ignored('docs/api/reference.ts')).to.be.false;
+        expect(await ignored('#hash.ts')).to.be.true;
+        expect(await ignored('lib/model.gen.ts')).to.be.true;
+        // .ignore takes precedence over .gitignore in the same directory
+        expect(await ignored('lib/api.gen.ts')).to.be.false;
+        expect(await ignored('scratch/draft.ts')).to.be.true;
+        // The repository's .gitignore takes precedence over the global excludes
+        expect(await ignored('notes.tmp.ts')).to.be.true;
+        expect(await ignored('important.tmp.ts')).to.be.false;
+
+        const rule = await ignoreFiles.getIgnoringRule(path.join(tempDir, 'build', 'keep.ts'));
+        expect(rule).to.include({ pattern: 'build/', source: path.join(tempDir, '.gitignore') });
+    });
+
+    test('should leave out ignored files when counting, unless inclusion patterns bring them back', async function () {
+        this.timeout(20000);
+        const counted = ['.gitignore', 'app.ts', 'docs/api/reference.ts', 'important.tmp.ts', 'lib/.gitignore', 'lib/api.gen.ts', 'lib/root-only.ts'];
+        expect(await countedPaths()).to.deep.equal(counted);
+
+        // The Node.js fallback skips ignored directories instead of the hardcoded ones
+        const findFiles = sandbox.stub(vscode.workspace, 'findFiles').resolves([]);
+        expect(await countedPaths()).to.deep.equal(counted);
+
+        findFiles.restore();
+        settings['codeCounter.includePatterns'] = ['build/**'];
+        expect(await countedPaths()).to.deep.equal(['build/keep.ts', 'build/out.ts']);
+    });
+
+    test('should count ignored files with the patterns discovery mode', async function () {
+        this.timeout(20000);
+        settings['codeCounter.discoveryMode'] = 'patterns';
+
+        expect(IgnoreFileService.isEnabled()).to.be.false;
+        expect(await countedPaths()).to.include.members(['build/out.ts', 'root-only.ts', 'lib/model.gen.ts', 'scratch/draft.ts', 'notes.tmp.ts']);
+    });
+});
@@ -0,0 +1,119 @@
+import { expect } from 'chai';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as sinon from 'sinon';
+import { IncrementalReportService } from '../../services/incrementalReportService';
+import { LineCounterService } from '../../services/lineCounter';
+import { LineCountResult } from '../../types';
+import { addToLanguageStats } from '../../utils/languageStatsUtils';
+
+suite('Incremental Report Service Tests', () => {
+    let tempDir: string;
+    let service: IncrementalReportService;
+    let sandbox: sinon.SinonSandbox;
+
+    const writeFile = async (relativePath: string, content: string) => {
+        const filePath = path.join(tempDir, relativePath);
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, content);
+        return filePath;
+    };
+
+    const countAll = async (filePaths: string[]): Promise<LineCountResult> => {
+        const lineCounter = new LineCounterService();
+        const files = await Promise.all(filePaths.map(filePath => lineCounter.countFileLines(filePath, tempDir)));
+        const languageStats: LineCountResult['languageStats'] = {};
+        files.forEach(file => addToLanguageStats(languageStats, file));
+        return {
+            workspacePath: tempDir,
+            totalFiles: files.length,
+            totalLines: files.reduce((sum, file) => sum + file.lines, 0),
+            files,
+            languageStats,
+            generatedAt: new Date()
+        };
+    };
+
+    setup(async function () {
+        this.timeout(10000);
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'incremental-report-'));
+        service = new IncrementalReportService();
+        sandbox = sinon.createSandbox();
+    });
+
+    teardown(async () => {
+        sandbox.restore();
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should update only changed, created and deleted files', async function () {
+        this.timeout(10000);
+        const appPath = await writeFile('src/app.ts', 'const a = 1;\n');
+        const stylePath = await writeFile('src/styles/site.css', '/* theme */\nbody { margin: 0; }\n');
+        const readmePath = await writeFile('README.md', '# Title\n');
+        service.setBaseline(await countAll([appPath, stylePath, readmePath]));
+
+        await fs.promises.writeFile(appPath, 'const a = 1;\n// two\nconst b = 2;\n');
+        const newPath = await writeFile('src/util.py', 'print("hi")\n');
+        await fs.promises.rm(stylePath);
+        const countSpy = sandbox.spy(LineCounterService.prototype, 'countFileWithStats');
+
+        const delta = await service.applyChanges(tempDir, [appPath, newPath, stylePath]);
+
+        expect(countSpy.getCalls().map(call => call.args[0]).sort()).to.deep.equal([appPath, newPath].sort());
+        expect(delta!.updatedFiles.map(file => file.relativePath).sort()).to.deep.equal(['src/app.ts', 'src/util.py']);
+        expect(delta!.removedFiles).to.deep.equal([stylePath]);
+
+        const expected = await countAll([appPath, readmePath, newPath]);
+        expect(delta!.result.files.map(file => file.path)).to.deep.equal([appPath, readmePath, newPath]);
+        expect(delta!.result.totalFiles).to.equal(3);
+        expect(delta!.result.totalLines).to.equal(expected.totalLines);
+        expect(delta!.result.languageStats).to.deep.equal(expected.languageStats);
+
+        const directories = new Map(delta!.directories.map(directory => [directory.path, directory]));
+        expect(directories.get('src')!.files).to.equal(2);
+        expect(directories.get('src/styles')!.files).to.equal(0);
+        expect(service.getDirectoryTotals(tempDir, '')!.lines).to.equal(expected.totalLines);
+        expect(service.getDirectoryTotals(tempDir, 'src/styles')).to.be.undefined;
+    });
+
+    test('should remove every file below a deleted directory', async function () {
+        this.timeout(10000);
+        const libPath = await writeFile('lib/a.ts', 'export const a = 1;\n');
+        const nestedPath = await writeFile('lib/nested/b.ts', 'export const b = 2;\n');
+        const mainPath = await writeFile('main.ts', 'import "./lib/a";\n');
+        service.setBaseline(await countAll([libPath, nestedPath, mainPath]));
+
+        await fs.promises.rm(path.join(tempDir, 'lib'), { recursive: true });
+        const delta = await service.applyChanges(tempDir, [path.join(tempDir, 'lib')]);
+
+        expect(delta!.removedFiles.sort()).to.deep.equal([libPath, nestedPath].sort());
+        expect(delta!.result.files.map(file => file.path)).to.deep.equal([mainPath]);
+        expect(delta!.result.languageStats).to.deep.equal({ TypeScript: { files: 1, lines: 2 } });
+    });
+
+    test('should leave excluded files out of the report', async function () {
+        this.timeout(10000);
+        const appPath = await writeFile('app.ts', 'const a = 1;\n');
+        service.setBaseline(await countAll([appPath]));
+
+        const imagePath = await writeFile('logo.png', '\x89PNG\r\n\x1a\n\0\0\0\rIHDR');
+        const delta = await service.applyChanges(tempDir, [imagePath]);
+
+        expect(delta!.updatedFiles).to.be.empty;
+        expect(delta!.removedFiles).to.be.empty;
+        expect(delta!.result.totalFiles).to.equal(1);
+    });
+
+    test('should ask for a full count without a baseline or when a directory is added', async function () {
+        this.timeout(10000);
+        const appPath = await writeFile('app.ts', 'const a = 1;\n');
+        expect(await service.applyChanges(tempDir, [appPath])).to.be.undefined;
+
+        service.setBaseline(await countAll([appPath]));
+        await writeFile('added/b.ts', 'const b = 2;\n');
+        expect(await service.applyChanges(tempDir, [path.join(tempDir, 'added')])).to.be.undefined;
+        expect(service.getResult(tempDir)!.totalFiles).to.equal(1);
+    });
+});
@@ -0,0 +1,181 @@
+import { expect } from 'chai';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { LanguageDetector } from '../../services/languageDetector';
+import { LineCounterService } from '../../services/lineCounter';
+import { BinaryClassificationService } from '../../services/binaryClassificationService';
+
+suite('Language Detector Tests', () => {
+    let tempDir: string;
+    let detector: LanguageDetector;
+
+    suiteSetup(async () => {
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'language-detector-'));
+    });
+
+    suiteTeardown(async () => {
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    setup(() => {
+        detector = new LanguageDetector();
+    });
+
+    suite('Detection pipeline', () => {
+        test('should detect by file name before extension', () => {
+            expect(detector.detect('/ci/Jenkinsfile')).to.deep.equal({ language: 'Groovy', source: 'filename' });
+            expect(detector.detect('/app/Gemfile')).to.deep.equal({ language: 'Ruby', source: 'filename' });
+            expect(detector.detect('/src/app.ts')).to.deep.equal({ language: 'TypeScript', source: 'extension' });
+        });
+
+        test('should keep an unambiguous extension over the shebang', () => {
+            const result = detector.detect('/scripts/run.js', '#!/usr/bin/env python3\nconsole.log(1);');
+            expect(result).to.deep.equal({ language: 'JavaScript', source: 'extension' });
+        });
+
+        test('should detect extensionless scripts by shebang', () => {
+            expect(detector.detect('/bin/deploy', '#!/usr/bin/env python3\nprint("hi")')).to.deep.equal({ language: 'Python', source: 'shebang' });
+            expect(detector.detect('/bin/build', '#!/bin/bash\necho hi')).to.deep.equal({ language: 'Bash', source: 'shebang' });
+            expect(detector.detect('/bin/tool', '#!/usr/bin/python3.12\n')).to.deep.equal({ language: 'Python', source: 'shebang' });
+        });
+
+        test('should detect by Vim and Emacs modelines', () => {
+            expect(detector.detect('/conf/rules', 'x = 1\n\n# vim: set ft=ruby :\n')).to.deep.equal({ language: 'Ruby', source: 'modeline' });
+            expect(detector.detect('/conf/setup', '// -*- mode: c++; indent-tabs-mode: nil -*-\nint x;')).to.deep.equal({ language: 'C++', source: 'modeline' });
+            expect(detector.detect('/conf/other', '-*- python -*-\n')).to.deep.equal({ language: 'Python', source: 'modeline' });
+        });
+
+        test('should ignore modelines in the middle of long files', () => {
+            const lines = Array.from({ length: 30 }, (_, i) => `line ${i}`);
+            lines[15] = '# vim: ft=python';
+            expect(detector.detect('/conf/notes', lines.join('\n'))).to.deep.equal({ language: 'Unknown', source: 'unknown' });
+        });
+
+        test('should resolve ambiguous .h headers with heuristics', () => {
+            expect(detector.detect('/include/a.h', '#include <vector>\nclass Foo {};')).to.deep.equal({ language: 'C++', source: 'heuristic' });
+            expect(detector.detect('/include/b.h', '#import <Foundation/Foundation.h>\n@interface Foo\n@end')).to.deep.equal({ language: 'Objective-C', source: 'heuristic' });
+            expect(detector.detect('/include/c.h', '#include <stdio.h>\nint add(int a, int b);')).to.deep.equal({ language: 'C', source: 'extension' });
+            expect(detector.detect('/include/d.h')).to.deep.equal({ language: 'C', source: 'extension' });
+        });
+
+        test('should fall back to the extension for unknown files', () => {
+            expect(detector.detect('/data/file.xyz', 'plain')).to.deep.equal({ language: '.xyz', source: 'unknown' });
+            expect(detector.detect('/data/README', 'plain')).to.deep.equal({ language: 'Unknown', source: 'unknown' });
+        });
+    });
+
+    suite('VS Code language associations', () => {
+        let vscodeMock: sinon.SinonSandbox;
+
+        const useAssociations = (associations: Record<string, string>) => {
+            vscodeMock.stub(vscode.workspace, 'getConfiguration').returns({
+                get: (key: string, defaultValue?: any) => key === 'associations' ? associations : defaultValue
+            } as any);
+        };
+
+        setup(() => {
+            vscodeMock = sinon.createSandbox();
+        });
+
+        teardown(() => {
+            vscodeMock.restore();
+        });
+
+        test('should honor files.associations before the extension map', () => {
+            useAssociations({ '*.inc': 'php', '**/templates/*.tpl': 'handlebars', '*.h': 'cpp' });
+
+            expect(detector.detect('/web/lib/db.inc')).to.deep.equal({ language: 'PHP', source: 'association' });
+            expect(detector.detect('/web/templates/page.tpl')).to.deep.equal({ language: 'Handlebars', source: 'association' });
+            expect(detector.detect('/web/other/page.tpl')).to.deep.equal({ language: '.tpl', source: 'unknown' });
+            expect(detector.detect('/include/a.h', '#include <stdio.h>')).to.deep.equal({ language: 'C++', source: 'association' });
+        });
+
+        test('should ignore associations to unknown language IDs', () => {
+            useAssociations({ '*.js': 'no-such-language' });
+            expect(detector.detect('/src/app.js')).to.deep.equal({ language: 'JavaScript', source: 'extension' });
+        });
+
+        test('should prefer the language ID of an open document', () => {
+            useAssociations({ '*.inc': 'php' });
+            vscodeMock.stub(vscode.workspace, 'textDocuments').value([
+                { uri: vscode.Uri.file('/web/lib/db.inc'), languageId: 'html' },
+                { uri: vscode.Uri.file('/web/notes.txt'), languageId: 'plaintext' }
+            ]);
+
+            expect(detector.detect('/web/lib/db.inc')).to.deep.equal({ language: 'HTML', source: 'languageId' });
+            expect(detector.detect('/web/notes.txt')).to.deep.equal({ language: 'Text', source: 'extension' });
+            expect(detector.detect('/untitled/Untitled-1', 'x', 'typescriptreact')).to.deep.equal({ language: 'TSX', source: 'languageId' });
+        });
+
+        test('should include associated files with unknown extensions in binary classification', async () => {
+            useAssociations({ '*.tpl': 'handlebars' });
+            const filePath = path.join(tempDir, 'page.tpl');
+            await fs.promises.writeFile(filePath, '{{! comment }}\n<p>{{title}}</p>\n');
+
+            const result = await new BinaryClassificationService().classifyFile(filePath);
+            expect(result.shouldInclude).to.be.true;
+            expect(result.reason).to.equal('text_content_detected');
+
+            const fileInfo = await new LineCounterService().countFileLines(filePath, tempDir);
+            expect(fileInfo.language).to.equal('Handlebars');
+            expect(fileInfo.languageSource).to.equal('association');
+            expect(fileInfo.commentLines).to.equal(1);
+        });
+    });
+
+    suite('Parsing helpers', () => {
+        test('should parse shebang interpreters', () => {
+            expect(LanguageDetector.parseShebang('#!/bin/sh')).to.equal('sh');
+            expect(LanguageDetector.parseShebang('#!/usr/bin/env node')).to.equal('node');
+            expect(LanguageDetector.parseShebang('#!/usr/bin/env -S deno run --allow-net')).to.equal('deno');
+            expect(LanguageDetector.parseShebang('#! /usr/bin/env LANG=C perl -w')).to.equal('perl');
+            expect(LanguageDetector.parseShebang('# not a shebang')).to.be.undefined;
+        });
+
+        test('should parse modeline language names', () => {
+            expect(LanguageDetector.findModeline(['/* vim: set filetype=javascript: */'])).to.equal('javascript');
+            expect(LanguageDetector.findModeline(['# -*- coding: utf-8 -*-'])).to.be.undefined;
+            expect(LanguageDetector.findModeline(['no modeline here'])).to.be.undefined;
+        });
+    });
+
+    suite('File integration', () => {
+        test('should count extensionless scripts and report the detection source', async () => {
+            const filePath = path.join(tempDir, 'deploy');
+            await fs.promises.writeFile(filePath, '#!/usr/bin/env python3\n# Deploy script\nprint("deploying")\n');
+
+            const fileInfo = await new LineCounterService().countFileLines(filePath, tempDir);
+            expect(fileInfo.language).to.equal('Python');
+            expect(fileInfo.languageSource).to.equal('shebang');
+            expect(fileInfo.commentLines).to.equal(2);
+            expect(fileInfo.codeLines).to.equal(1);
+        });
+
+        test('should include scripts identified by content in binary classification', async () => {
+            const scriptPath = path.join(tempDir, 'build');
+            const notesPath = path.join(tempDir, 'NOTES');
+            await fs.promises.writeFile(scriptPath, '#!/bin/bash\necho build\n');
+            await fs.promises.writeFile(notesPath, 'just some notes\n');
+
+            const classification = new BinaryClassificationService();
+            const script = await classification.classifyFile(scriptPath);
+            expect(script.shouldInclude).to.be.true;
+            expect(script.reason).to.equal('text_content_detected');
+
+            const notes = await classification.classifyFile(notesPath);
+            expect(notes.shouldInclude).to.be.false;
+            expect(notes.reason).to.equal('unknown_extension');
+        });
+
+        test('should read modelines from the tail of large files', async () => {
+            const filePath = path.join(tempDir, 'large-config');
+            const body = Array.from({ length: 2000 }, (_, i) => `key${i} = value`).join('\n');
+            await fs.promises.writeFile(filePath, `${body}\n# vim: ft=toml\n`);
+
+            expect(await detector.detectFromFile(filePath)).to.deep.equal({ language: 'TOML', source: 'modeline' });
+        });
+    });
+});
@@ -0,0 +1,195 @@
+import { expect } from 'chai';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { LanguageRegistry } from '../../services/languageRegistry';
+import { LineCounterService } from '../../services/lineCounter';
+import { BinaryClassificationService } from '../../services/binaryClassificationService';
+import { WorkspaceDatabaseService } from '../../services/workspaceDatabaseService';
+import { parseLanguageDefinition } from '../../commands/workspaceLanguages';
+
+suite('Language Registry Tests', () => {
+    let tempDir: string;
+    let registry: LanguageRegistry;
+
+    suiteSetup(async () => {
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'language-registry-'));
+    });
+
+    suiteTeardown(async () => {
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    setup(() => {
+        registry = LanguageRegistry.getInstance();
+    });
+
+    teardown(() => {
+        registry.setWorkspaceLanguages([]);
+    });
+
+    suite('Built-in definitions', () => {
+        test('should detect languages by extension regardless of case', () => {
+            expect(registry.getLanguageForFile('/src/app.ts')?.name).to.equal('TypeScript');
+            expect(registry.getLanguageForFile('/analysis/model.R')?.name).to.equal('R');
+            expect(registry.getLanguageForFile('/analysis/model.r')?.name).to.equal('R');
+            expect(registry.getLanguageForFile('/src/unknown.xyz')).to.be.undefined;
+        });
+
+        test('should detect languages by exact file name', () => {
+            expect(registry.getLanguageForFile('/project/Dockerfile')?.name).to.equal('Dockerfile');
+            expect(registry.getLanguageForFile('/project/Makefile')?.name).to.equal('Makefile');
+            expect(registry.getLanguageForFile('/project/CMakeLists.txt')?.name).to.equal('CMake');
+            expect(registry.getLanguageForFile('/project/.gitignore')?.name).to.equal('GitIgnore');
+        });
+
+        test('should look up languages by shebang interpreter', () => {
+            expect(registry.getLanguageByShebang('python3')?.name).to.equal('Python');
+            expect(registry.getLanguageByShebang('node')?.name).to.equal('JavaScript');
+            expect(registry.getLanguageByShebang('not-an-interpreter')).to.be.undefined;
+        });
+
+        test('should expose comment syntax for known languages', () => {
+            const syntax = registry.getSyntax('Haskell');
+            expect(syntax.lineComments).to.deep.equal(['--']);
+            expect(syntax.blockComments).to.deep.equal([{ start: '{-', end: '-}', nested: true }]);
+            expect(registry.getSyntax('NoSuchLanguage')).to.deep.equal({
+                lineComments: [], lineStartComments: [], wordStartComments: [], blockComments: [], strings: []
+            });
+        });
+
+        test('should share one text/binary extension list with binary classification', () => {
+            const classification = new BinaryClassificationService();
+            expect(classification.getKnownTextExtensions()).to.equal(registry.getKnownTextExtensions());
+            expect(classification.getKnownBinaryExtensions()).to.equal(registry.getKnownBinaryExtensions());
+            expect(registry.getKnownTextExtensions().has('.h')).to.be.true;
+            expect(registry.isKnownTextFile('/project/Dockerfile')).to.be.true;
+            expect(registry.isKnownBinaryFile('/assets/logo.png')).to.be.true;
+        });
+    });
+
+    suite('Workspace definitions', () => {
+        test('should add a new language from the workspace', () => {
+            registry.setWorkspaceLanguages([
+                { name: 'Acme DSL', extensions: ['acme'], filenames: ['Acmefile'], lineComments: ['--'] }
+            ]);
+
+            expect(registry.getLanguageForFile('/src/rules.acme')?.name).to.equal('Acme DSL');
+            expect(registry.getLanguageForFile('/src/Acmefile')?.name).to.equal('Acme DSL');
+            expect(registry.getKnownTextExtensions().has('.acme')).to.be.true;
+        });
+
+        test('should extend a built-in language with the same name', () => {
+            registry.setWorkspaceLanguages([{ name: 'SQL', extensions: ['.pgsql'] }]);
+
+            expect(registry.getLanguageForFile('/db/schema.pgsql')?.name).to.equal('SQL');
+            expect(registry.getLanguageForFile('/db/schema.sql')?.name).to.equal('SQL');
+            expect(registry.getSyntax('SQL').lineComments).to.deep.equal(['--']);
+        });
+
+        test('should treat a claimed binary extension as text', () => {
+            expect(registry.isKnownBinaryFile('/game/level.asset')).to.be.true;
+            registry.setWorkspaceLanguages([{ name: 'Asset YAML', extensions: ['.asset'], lineComments: ['#'] }]);
+
+            expect(registry.isKnownBinaryFile('/game/level.asset')).to.be.false;
+            expect(registry.isKnownTextFile('/game/level.asset')).to.be.true;
+        });
+
+        test('should fire a change event when workspace languages change', () => {
+            let fired = 0;
+            const listener = registry.onDidChangeLanguages(() => fired++);
+            registry.setWorkspaceLanguages([{ name: 'Acme DSL', extensions: ['.acme'] }]);
+            listener.dispose();
+
+            expect(fired).to.equal(1);
+        });
+
+        test('should count custom languages with their own comment syntax', async () => {
+            registry.setWorkspaceLanguages([
+                { name: 'Acme DSL', extensions: ['.acme'], lineComments: ['--'], blockComments: [{ start: '{-', end: '-}' }] }
+            ]);
+            const filePath = path.join(tempDir, 'rules.acme');
+            await fs.promises.writeFile(filePath, '{-\n  header\n-}\nrule a -- note\n-- comment\n');
+
+            const fileInfo = await new LineCounterService().countFileLines(filePath, tempDir);
+            expect(fileInfo.language).to.equal('Acme DSL');
+            expect(fileInfo.commentLines).to.equal(4);
+            expect(fileInfo.codeLines).to.equal(1);
+            expect(fileInfo.mixedLines).to.equal(1);
+        });
+    });
+
+    suite('Settings definitions', () => {
+        let vscodeMock: sinon.SinonSandbox;
+
+        setup(() => {
+            vscodeMock = sinon.createSandbox();
+        });
+
+        teardown(() => {
+            vscodeMock.restore();
+            // Rebuild from default settings for the remaining tests
+            LanguageRegistry.getInstance().dispose();
+        });
+
+        test('should load languages from codeCounter.languages', () => {
+            vscodeMock.stub(vscode.workspace, 'getConfiguration').returns({
+                get: (key: string, defaultValue?: any) => key === 'languages'
+                    ? [{ name: 'Acme DSL', extensions: ['.acme'] }, { extensions: ['.nameless'] }]
+                    : defaultValue
+            } as any);
+            LanguageRegistry.getInstance().dispose();
+
+            const fromSettings = LanguageRegistry.getInstance();
+            expect(fromSettings).to.not.equal(registry);
+            expect(fromSettings.getLanguageForFile('/src/rules.acme')?.name).to.equal('Acme DSL');
+            expect(fromSettings.getLanguageForFile('/src/file.nameless')).to.be.undefined;
+        });
+    });
+
+    suite('Workspace database storage', () => {
+        let dbService: WorkspaceDatabaseService;
+
+        suiteSetup(() => {
+            dbService = new WorkspaceDatabaseService(tempDir);
+        });
+
+        suiteTeardown(() => {
+            dbService.dispose();
+        });
+
+        test('should save, list and delete custom languages', async () => {
+            await dbService.saveCustomLanguage({ name: 'Acme DSL', extensions: ['.acme'], lineComments: ['--'] });
+            await dbService.saveCustomLanguage({ name: 'Beta DSL', extensions: ['.beta'] });
+            await dbService.saveCustomLanguage({ name: 'Acme DSL', extensions: ['.acme', '.acm'] });
+
+            let languages = await dbService.getCustomLanguages();
+            expect(languages.map(language => language.name)).to.deep.equal(['Acme DSL', 'Beta DSL']);
+            expect(languages[0].extensions).to.deep.equal(['.acme', '.acm']);
+
+            await dbService.deleteCustomLanguage('Beta DSL');
+            languages = await dbService.getCustomLanguages();
+            expect(languages.map(language => language.name)).to.deep.equal(['Acme DSL']);
+        });
+
+        test('should reject definitions without a name', async () => {
+            let error: Error | undefined;
+            try {
+                await dbService.saveCustomLanguage({ name: '  ' });
+            } catch (e) {
+                error = e as Error;
+            }
+            expect(error?.message).to.contain('requires a name');
+        });
+
+        test('should parse definitions typed into the manage languages command', () => {
+            expect(parseLanguageDefinition('{"name": " Acme DSL ", "extensions": [".acme"]}')).to.deep.equal({ name: 'Acme DSL', extensions: ['.acme'] });
+            expect(parseLanguageDefinition('{"name": "Acme DSL"')).to.contain('as JSON');
+            expect(parseLanguageDefinition('[]')).to.contain('JSON object');
+            expect(parseLanguageDefinition('{"extensions": [".acme"]}')).to.contain('requires a "name"');
+            expect(parseLanguageDefinition('{"name": "Acme DSL", "extensions": ".acme"}')).to.equal('"extensions" must be an array');
+        });
+    });
+});
@@ -0,0 +1,301 @@
+import { expect } from 'chai';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { LineClassifier, LanguageSyntax } from '../../services/lineClassifier';
+import { LineCounterService } from '../../services/lineCounter';
+
+suite('Line Classifier Tests', () => {
+    const cStyle: LanguageSyntax = {
+        lineComments: ['//'],
+        blockComments: [{ start: '/*', end: '*/' }],
+        strings: [
+            { start: '"', end: '"', escape: '\\' },
+            { start: "'", end: "'", escape: '\\' },
+            { start: '`', end: '`', escape: '\\', multiline: true }
+        ]
+    };
+
+    suite('C-style syntax', () => {
+        test('should count the middle of a block comment as comment', () => {
+            const classifier = new LineClassifier(cStyle);
+            const result = classifier.classifyContent([
+                '/*',
+                ' * Documentation line',
+                ' no leading star here',
+                ' */',
+                'const x = 1;'
+            ]);
+            expect(result).to.deep.equal({ codeLines: 1, commentLines: 4, blankLines: 0, mixedLines: 0 });
+        });
+
+        test('should treat comment markers inside strings as code', () => {
+            const classifier = new LineClassifier(cStyle);
+            const result = classifier.classifyContent([
+                'const url = "http://example.com";',
+                "const glob = '/* not a comment */';"
+            ]);
+            expect(result).to.deep.equal({ codeLines: 2, commentLines: 0, blankLines: 0, mixedLines: 0 });
+        });
+
+        test('should treat code after a closing block comment as code', () => {
+            const classifier = new LineClassifier(cStyle);
+            const result = classifier.classifyContent([
+                '/* start',
+                'end */ doSomething();'
+            ]);
+            expect(result).to.deep.equal({ codeLines: 0, commentLines: 1, blankLines: 0, mixedLines: 1 });
+        });
+
+        test('should keep comment-like lines inside template literals as code', () => {
+            const classifier = new LineClassifier(cStyle);
+            const result = classifier.classifyContent([
+                'const sql = `',
+                '// not a comment',
+                '`;'
+            ]);
+            expect(result).to.deep.equal({ codeLines: 3, commentLines: 0, blankLines: 0, mixedLines: 0 });
+        });
+
+        test('should count blank lines inside block comments as blank', () => {
+            const classifier = new LineClassifier(cStyle);
+            const result = classifier.classifyContent(['/*', '', '   ', '*/']);
+            expect(result).to.deep.equal({ codeLines: 0, commentLines: 2, blankLines: 2, mixedLines: 0 });
+        });
+
+        test('should handle escaped quotes in strings', () => {
+            const classifier = new LineClassifier(cStyle);
+            const result = classifier.classifyContent([
+                'const s = "say \\"hi\\" // still string";',
+                '// real comment'
+            ]);
+            expect(result).to.deep.equal({ codeLines: 1, commentLines: 1, blankLines: 0, mixedLines: 0 });
+        });
+    });
+
+    suite('Nested block comments', () => {
+        test('should track nesting depth for Rust', () => {
+            const classifier = new LineClassifier({
+                lineComments: ['//'],
+                blockComments: [{ start: '/*', end: '*/', nested: true }],
+                strings: [{ start: '"', end: '"', escape: '\\', multiline: true }]
+            });
+            const result = classifier.classifyContent([
+                '/* outer',
+                '   /* inner */',
+                '   still comment',
+                '*/',
+                'fn main() {}'
+            ]);
+            expect(result).to.deep.equal({ codeLines: 1, commentLines: 4, blankLines: 0, mixedLines: 0 });
+        });
+
+        test('should not open a string at Rust character literals or lifetimes', () => {
+            const classifier = new LineClassifier({
+                lineComments: ['//'],
+                blockComments: [{ start: '/*', end: '*/', nested: true }],
+                strings: [
+                    { start: '"', end: '"', escape: '\\', multiline: true },
+                    { start: "'", end: "'", escape: '\\', char: true }
+                ]
+            });
+            const result = classifier.classifyContent([
+                "let q = '\"';",
+                '// comment',
+                "let e = '\\''; let u = '\\u{1F600}'; // trailing",
+                "fn longest<'a>(x: &'a str) -> &'a str { x }",
+                '/* block */',
+                "let s = \"it's // text\";"
+            ]);
+            expect(result).to.deep.equal({ codeLines: 3, commentLines: 2, blankLines: 0, mixedLines: 1 });
+        });
+
+        test('should track nesting depth for Haskell', () => {
+            const classifier = new LineClassifier({
+                lineComments: ['--'],
+                blockComments: [{ start: '{-', end: '-}', nested: true }],
+                strings: [{ start: '"', end: '"', escape: '\\' }]
+            });
+            const result = classifier.classifyContent([
+                '{- {- nested -}',
+                'comment -}',
+                'main = putStrLn "hi"'
+            ]);
+            expect(result).to.deep.equal({ codeLines: 1, commentLines: 2, blankLines: 0, mixedLines: 0 });
+        });
+    });
+
+    suite('Line-start delimiters', () => {
+        const python: LanguageSyntax = {
+            lineComments: ['#'],
+            blockComments: [{ start: '"""', end: '"""', lineStart: true }],
+            strings: [
+                { start: '"""', end: '"""', escape: '\\', multiline: true },
+                { start: '"', end: '"', escape: '\\' }
+            ]
+        };
+
+        test('should count Python docstrings as comments', () => {
+            const classifier = new LineClassifier(python);
+            const result = classifier.classifyContent([
+                'def f():',
+                '    """',
+                '    Docstring body',
+                '    """',
+                '    return 1'
+            ]);
+            expect(result).to.deep.equal({ codeLines: 2, commentLines: 3, blankLines: 0, mixedLines: 0 });
+        });
+
+        test('should count triple-quoted assignments as code', () => {
+            const classifier = new LineClassifier(python);
+            const result = classifier.classifyContent([
+                'x = """',
+                '# not a comment',
+                '"""'
+            ]);
+            expect(result).to.deep.equal({ codeLines: 3, commentLines: 0, blankLines: 0, mixedLines: 0 });
+        });
+
+        test('should prefer the longest delimiter for Lua block comments', () => {
+            const classifier = new LineClassifier({
+                lineComments: ['--'],
+                blockComments: [{ start: '--[[', end: ']]' }],
+                strings: [{ start: '"', end: '"', escape: '\\' }]
+            });
+            const result = classifier.classifyContent([
+                '--[[',
+                'local x = 1',
+                ']]',
+                'local y = 2 -- trailing'
+            ]);
+            expect(result).to.deep.equal({ codeLines: 0, commentLines: 3, blankLines: 0, mixedLines: 1 });
+        });
+
+        test('should only start shell comments at a word start', () => {
+            const classifier = new LineClassifier({
+                lineComments: [],
+                wordStartComments: ['#'],
+                blockComments: [],
+                strings: [
+                    { start: '"', end: '"', escape: '\\', multiline: true },
+                    { start: "'", end: "'", multiline: true }
+                ]
+            });
+            const result = classifier.classifyContent([
+                '#!/bin/bash',
+                'if [ $# -eq 0 ]; then',
+                '    echo ${#arr[@]}',
+                '    name=${path##*/} # basename',
+                '    echo ${var#prefix}',
+                'fi'
+            ]);
+            expect(result).to.deep.equal({ codeLines: 4, commentLines: 1, blankLines: 0, mixedLines: 1 });
+        });
+
+        test('should match the level of Lua long brackets', () => {
+            const classifier = new LineClassifier({
+                lineComments: ['--'],
+                blockComments: [{ start: '--[[', end: ']]', leveled: true }],
+                strings: [
+                    { start: '[[', end: ']]', multiline: true, leveled: true },
+                    { start: '"', end: '"', escape: '\\' }
+                ]
+            });
+            const result = classifier.classifyContent([
+                '--[==[',
+                'commented ]] still comment',
+                ']==]',
+                'local s = [=[',
+                '-- not a comment ]]',
+                ']=]',
+                '-- real comment'
+            ]);
+            expect(result).to.deep.equal({ codeLines: 3, commentLines: 4, blankLines: 0, mixedLines: 0 });
+        });
+    });
+
+    suite('Mixed line accounting', () => {
+        let vscodeMock: sinon.SinonSandbox;
+        const content = 'int a = 1; // trailing\n// comment\nint b = 2;';
+
+        const useAccounting = (accounting: string) => {
+            vscodeMock.stub(vscode.workspace, 'getConfiguration').returns({
+                get: (key: string, defaultValue?: any) => key === 'mixedLineAccounting' ? accounting : defaultValue
+            } as any);
+        };
+
+        setup(() => {
+            vscodeMock = sinon.createSandbox();
+        });
+
+        teardown(() => {
+            vscodeMock.restore();
+        });
+
+        test('should count mixed lines as code by default', () => {
+            const breakdown = new LineCounterService().classifyContent(content, 'main.c');
+            expect(breakdown).to.deep.equal({ codeLines: 2, commentLines: 1, blankLines: 0, mixedLines: 1 });
+        });
+
+        test('should count mixed lines as comments when configured', () => {
+            useAccounting('comment');
+            const breakdown = new LineCounterService().classifyContent(content, 'main.c');
+            expect(breakdown).to.deep.equal({ codeLines: 1, commentLines: 2, blankLines: 0, mixedLines: 1 });
+        });
+
+        test('should count mixed lines as both code and comment when configured', () => {
+            useAccounting('both');
+            const breakdown = new LineCounterService().classifyContent(content, 'main.c');
+            expect(breakdown).to.deep.equal({ codeLines: 2, commentLines: 2, blankLines: 0, mixedLines: 1 });
+        });
+
+        test('should read the accounting of the workspace folder holding the file', () => {
+            vscodeMock.stub(vscode.workspace, 'getConfiguration').callsFake((_section?: string, scope?: any) => ({
+                get: (key: string, defaultValue?: any) =>
+                    key === 'mixedLineAccounting' && scope?.fsPath?.startsWith('/docs-folder/') ? 'comment' : defaultValue
+            }) as any);
+            const lineCounter = new LineCounterService();
+            expect(lineCounter.classifyContent(content, '/docs-folder/main.c').commentLines).to.equal(2);
+            expect(lineCounter.classifyContent(content, '/app-folder/main.c').commentLines).to.equal(1);
+        });
+    });
+
+    suite('LineCounterService integration', () => {
+        let tempDir: string;
+
+        suiteSetup(async () => {
+            tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'line-classifier-'));
+        });
+
+        suiteTeardown(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        test('should count block comments in files', async () => {
+            const filePath = path.join(tempDir, 'sample.ts');
+            await fs.promises.writeFile(filePath, [
+                '/**',
+                ' * Header',
+                ' */',
+                '',
+                'const a = "//"; // trailing',
+                'export default a;'
+            ].join('\n'));
+
+            const fileInfo = await new LineCounterService().countFileLines(filePath, tempDir);
+            expect(fileInfo.lines).to.equal(6);
+            expect(fileInfo.codeLines).to.equal(2);
+            expect(fileInfo.commentLines).to.equal(3);
+            expect(fileInfo.blankLines).to.equal(1);
+            expect(fileInfo.mixedLines).to.equal(1);
+        });
+
+        test('should classify in-memory content by file name', () => {
+            const breakdown = new LineCounterService().classifyContent('# comment\nx = 1\n', 'script.py');
+            expect(breakdown).to.deep.equal({ codeLines: 1, commentLines: 1, blankLines: 1, mixedLines: 0 });
+        });
+    });
+});
@@ -0,0 +1,118 @@
+import { expect } from 'chai';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { LineCounterService } from '../../services/lineCounter';
+import { LineCountIndexService } from '../../services/lineCountIndexService';
+import { WorkspaceDatabaseService } from '../../services/workspaceDatabaseService';
+
+suite('Line Count Index Service Tests', () => {
+    let tempDir: string;
+    let appPath: string;
+    let stylePath: string;
+    let lineCounter: LineCounterService;
+    let index: LineCountIndexService;
+
+    const reopenIndex = async () => {
+        await index.flush();
+        index.dispose();
+        index = new LineCountIndexService(tempDir);
+    };
+
+    setup(async function () {
+        this.timeout(10000);
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'line-count-index-'));
+        appPath = path.join(tempDir, 'app.ts');
+        stylePath = path.join(tempDir, 'style.css');
+        await fs.promises.writeFile(appPath, '// entry point\nconst a = 1; // inline\n\nexport default a;\n');
+        await fs.promises.writeFile(stylePath, '/* theme */\nbody { margin: 0; }\n');
+
+        lineCounter = new LineCounterService();
+        index = new LineCountIndexService(tempDir);
+        index.store([
+            await lineCounter.countFileWithStats(appPath, tempDir),
+            await lineCounter.countFileWithStats(stylePath, tempDir)
+        ]);
+    });
+
+    teardown(async () => {
+        index.dispose();
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should reuse stored counts after a restart', async function () {
+        this.timeout(10000);
+        await reopenIndex();
+
+        const { hits, misses } = await index.lookup([appPath, stylePath]);
+        expect(misses).to.be.empty;
+        expect(hits.get(appPath)).to.deep.equal(await lineCounter.countFileLines(appPath, tempDir));
+        expect(hits.get(stylePath)).to.deep.equal(await lineCounter.countFileLines(stylePath, tempDir));
+    });
+
+    test('should recount changed files only', async function () {
+        this.timeout(10000);
+        await reopenIndex();
+        await fs.promises.writeFile(stylePath, '/* theme */\nbody { margin: 0; }\np { color: red; }\n');
+
+        const { hits, misses } = await index.lookup([appPath, stylePath, path.join(tempDir, 'new.ts')]);
+        expect([...hits.keys()]).to.deep.equal([appPath]);
+        expect(misses).to.deep.equal([stylePath, path.join(tempDir, 'new.ts')]);
+    });
+
+    test('should reuse counts for touched files with unchanged content', async function () {
+        this.timeout(10000);
+        await reopenIndex();
+        const later = new Date(Date.now() + 60000);
+        await fs.promises.utimes(appPath, later, later);
+
+        expect(await index.get(appPath)).to.not.be.null;
+    });
+
+    test('should not reuse counts made with other settings', async function () {
+        this.timeout(10000);
+        await reopenIndex();
+        const sandbox = sinon.createSandbox();
+        sandbox.stub(vscode.workspace, 'getConfiguration').returns({
+            get: (key: string, defaultValue?: any) => key === 'mixedLineAccounting' ? 'comment' : defaultValue
+        } as any);
+        try {
+            expect(await index.get(appPath)).to.be.null;
+        } finally {
+            sandbox.restore();
+        }
+    });
+
+    test('should remove entries for deleted files', async function () {
+        this.timeout(10000);
+        await reopenIndex();
+        await fs.promises.unlink(stylePath);
+
+        await index.removeDeletedFiles([appPath]);
+
+        const database = new WorkspaceDatabaseService(tempDir);
+        try {
+            expect([...(await database.getFileLineCounts()).keys()]).to.deep.equal(['app.ts']);
+        } finally {
+            database.dispose();
+        }
+    });
+
+    test('should share one index per workspace folder between counters', async function () {
+        this.timeout(10000);
+        const shared = LineCountIndexService.getInstance(tempDir);
+        try {
+            expect(LineCountIndexService.getInstance(path.join(tempDir, '.'))).to.equal(shared);
+            shared.store([await lineCounter.countFileWithStats(appPath, tempDir)]);
+
+            // Pending counts of one counter are visible to the others before they are written
+            expect(await LineCountIndexService.getInstance(tempDir).get(appPath)).to.not.be.null;
+        } finally {
+            LineCountIndexService.clear(tempDir);
+        }
+        expect(LineCountIndexService.getInstance(tempDir)).to.not.equal(shared);
+        LineCountIndexService.clear(tempDir);
+    });
+});
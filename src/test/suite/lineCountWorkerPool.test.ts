@@ -0,0 +1,111 @@
+import { expect } from 'chai';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { FileInfo } from '../../types';
+import { LanguageRegistry } from '../../services/languageRegistry';
+import { LineCounterService } from '../../services/lineCounter';
+import { LineCountWorkerPool } from '../../services/lineCountWorkerPool';
+
+suite('Line Count Worker Pool Tests', () => {
+    let tempDir: string;
+    let filePaths: string[];
+
+    const createPool = () => new LineCountWorkerPool({
+        ...LanguageRegistry.getInstance().getTable().getDefinitions(),
+        mixedLineAccounting: 'code'
+    }, 2);
+
+    suiteSetup(async () => {
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'line-count-workers-'));
+        const files: { [name: string]: string } = {
+            'app.ts': '// entry point\nconst a = 1; // inline\n\nexport default a;\n',
+            'deploy': '#!/usr/bin/env python3\n# Deploy script\nprint("deploying")\n',
+            'Hello.vue': '<template>\n  <p>{{ msg }}</p>\n</template>\n<script lang="ts">\n// logic\nexport default {};\n</script>\n',
+            'style.css': '/* theme */\nbody {\n  margin: 0;\n}\n'
+        };
+        filePaths = [];
+        for (const [name, content] of Object.entries(files)) {
+            const filePath = path.join(tempDir, name);
+            await fs.promises.writeFile(filePath, content);
+            filePaths.push(filePath);
+        }
+    });
+
+    suiteTeardown(async () => {
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should report the same counts as the main thread', async function () {
+        this.timeout(20000);
+        const results: FileInfo[] = [];
+        const pool = createPool();
+
+        await pool.countFiles(filePaths.map(filePath => ({ filePath })), tempDir, {
+            chunkSize: 1,
+            onResult: counted => results.push(counted.fileInfo),
+            onError: (filePath, message) => expect.fail(`${filePath}: ${message}`)
+        });
+
+        const lineCounter = new LineCounterService();
+        for (const filePath of filePaths) {
+            const expected = await lineCounter.countFileLines(filePath, tempDir);
+            expect(results.find(fileInfo => fileInfo.path === filePath)).to.deep.equal(expected);
+        }
+    });
+
+    test('should use the language detected by the extension host when given', async function () {
+        this.timeout(20000);
+        const results: FileInfo[] = [];
+
+        await createPool().countFiles([{ filePath: filePaths[0], detection: { language: 'JavaScript', source: 'association' } }], tempDir, {
+            chunkSize: 20,
+            onResult: counted => results.push(counted.fileInfo),
+            onError: () => undefined
+        });
+
+        expect(results).to.have.length(1);
+        expect(results[0].language).to.equal('JavaScript');
+        expect(results[0].languageSource).to.equal('association');
+    });
+
+    test('should report unreadable files as errors and keep going', async function () {
+        this.timeout(20000);
+        const results: FileInfo[] = [];
+        const errors: string[] = [];
+
+        await createPool().countFiles([{ filePath: path.join(tempDir, 'missing.ts') }, { filePath: filePaths[3] }], tempDir, {
+            chunkSize: 20,
+            onResult: counted => results.push(counted.fileInfo),
+            onError: filePath => errors.push(filePath)
+        });
+
+        expect(errors).to.deep.equal([path.join(tempDir, 'missing.ts')]);
+        expect(results.map(fileInfo => fileInfo.language)).to.deep.equal(['CSS']);
+    });
+
+    test('should stop with the standard error when cancelled', async function () {
+        this.timeout(20000);
+        const token = {
+            isCancellationRequested: true,
+            onCancellationRequested: () => ({ dispose: () => undefined })
+        } as unknown as vscode.CancellationToken;
+        const results: FileInfo[] = [];
+
+        let error: Error | undefined;
+        try {
+            await createPool().countFiles(filePaths.map(filePath => ({ filePath })), tempDir, {
+                chunkSize: 1,
+                cancellationToken: token,
+                onResult: counted => results.push(counted.fileInfo),
+                onError: () => undefined
+            });
+        } catch (caught) {
+            error = caught as Error;
+        }
+
+        expect(error?.message).to.equal('Operation was cancelled by user');
+        expect(results).to.be.empty;
+    });
+});
@@ -0,0 +1,137 @@
+import { expect } from 'chai';
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { LineDeltaService } from '../../services/lineDeltaService';
+import { formatLineDelta, formatLineDeltaBadge, isTierRaised, summarizeFolderDelta } from '../../utils/lineDeltaUtils';
+import { getWorkspaceService, invalidateWorkspaceServiceCache } from '../../utils/workspaceUtils';
+
+suite('Line Delta Tests', () => {
+    let sandbox: sinon.SinonSandbox;
+    let tempDir: string;
+    let settings: { [key: string]: any };
+
+    const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+        cwd: tempDir,
+        encoding: 'utf8'
+    }).trim();
+
+    const write = (relativePath: string, lineCount: number) => {
+        // No trailing newline, so each file counts exactly lineCount lines
+        const filePath = path.join(tempDir, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, Array.from({ length: lineCount }, (_, index) => `const line${index} = ${index};`).join('\n'));
+    };
+
+    const commit = (message: string) => {
+        git('add', '-A');
+        git('commit', '-q', '-m', message);
+    };
+
+    setup(async function () {
+        this.timeout(10000);
+        sandbox = sinon.createSandbox();
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'line-delta-'));
+        settings = {
+            'codeCounter.decorationMode': 'lineDelta',
+            'codeCounter.lineThresholds.midThreshold': 5,
+            'codeCounter.lineThresholds.highThreshold': 10
+        };
+        sandbox.stub(vscode.workspace, 'getConfiguration').callsFake((section?: string) => ({
+            get: (key: string, defaultValue?: any) => settings[`${section}.${key}`] ?? defaultValue
+        }) as vscode.WorkspaceConfiguration);
+        sandbox.stub(vscode.workspace, 'getWorkspaceFolder').returns({ uri: vscode.Uri.file(tempDir), name: 'line-delta', index: 0 });
+
+        git('init', '-q', '-b', 'main');
+        write('src/app.ts', 3);
+        write('src/big.ts', 4);
+        write('notes.md', 2);
+        commit('Base');
+    });
+
+    teardown(async () => {
+        LineDeltaService.getInstance().clear();
+        sandbox.restore();
+        getWorkspaceService(tempDir).dispose();
+        invalidateWorkspaceServiceCache(tempDir);
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should count the line delta of each changed file against HEAD and roll it up per folder', async function () {
+        this.timeout(20000);
+        write('src/app.ts', 2);
+        write('src/big.ts', 7);
+        write('src/new.ts', 1);
+        fs.rmSync(path.join(tempDir, 'notes.md'));
+
+        const lineDelta = (await LineDeltaService.getInstance().getDeltas(path.join(tempDir, 'src', 'app.ts')))!;
+
+        expect(lineDelta.baseTitle).to.match(/^HEAD \([0-9a-f]{8}\)$/);
+        const changes = [...lineDelta.files.entries()]
+            .map(([filePath, file]) => [path.relative(tempDir, filePath).replace(/\\/g, '/'), file.change, isTierRaised(file)])
+            .sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+        expect(changes).to.deep.equal([
+            ['notes.md', -2, false],
+            ['src/app.ts', -1, false],
+            ['src/big.ts', 3, true],
+            ['src/new.ts', 1, false]
+        ]);
+        expect(summarizeFolderDelta(lineDelta.files, path.join(tempDir, 'src'))).to.deep.equal({ files: 3, change: 3, grownLines: 4, shrunkLines: 1, raisedTiers: 1 });
+        expect(summarizeFolderDelta(lineDelta.files, tempDir)).to.include({ files: 4, change: 1, shrunkLines: 3 });
+        expect(summarizeFolderDelta(lineDelta.files, path.join(tempDir, 'docs'))).to.be.undefined;
+    });
+
+    test('should compare with where HEAD forked off a base branch and recount after changes', async function () {
+        this.timeout(20000);
+        git('checkout', '-q', '-b', 'feature');
+        write('src/big.ts', 12);
+        commit('Feature');
+        settings['codeCounter.lineDelta.baseRef'] = 'main';
+
+        const service = LineDeltaService.getInstance();
+        const bigPath = path.join(tempDir, 'src', 'big.ts');
+        const lineDelta = (await service.getDeltas(bigPath))!;
+        expect(lineDelta.baseTitle).to.match(/^main \(/);
+        expect(lineDelta.files.get(bigPath)).to.include({ baseLines: 4, lines: 12, change: 8, baseTier: 'normal', tier: 'danger' });
+
+        const changed = new Promise<string[]>(resolve => {
+            const listener = service.onDidChangeDeltas(changedPaths => {
+                listener.dispose();
+                resolve(changedPaths);
+            });
+        });
+        write('src/app.ts', 5);
+        service.invalidate(path.join(tempDir, 'src', 'app.ts'));
+
+        expect((await changed).sort()).to.deep.equal([tempDir, path.join(tempDir, 'src'), path.join(tempDir, 'src', 'app.ts')].sort());
+        expect((await service.getDeltas(bigPath))!.files.get(path.join(tempDir, 'src', 'app.ts'))).to.include({ change: 2 });
+    });
+
+    test('should have no deltas outside a git repository or for an unknown base ref', async function () {
+        this.timeout(20000);
+        settings['codeCounter.lineDelta.baseRef'] = 'no-such-branch';
+        expect(await LineDeltaService.getInstance().getDeltas(path.join(tempDir, 'notes.md'))).to.be.undefined;
+
+        const outsideDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'line-delta-none-'));
+        try {
+            (vscode.workspace.getWorkspaceFolder as sinon.SinonStub).returns({ uri: vscode.Uri.file(outsideDir), name: 'none', index: 0 });
+            expect(await LineDeltaService.getInstance().getDeltas(path.join(outsideDir, 'app.ts'))).to.be.undefined;
+        } finally {
+            await fs.promises.rm(outsideDir, { recursive: true, force: true });
+        }
+
+        expect(LineDeltaService.getInstance().isEnabled()).to.be.true;
+        settings['codeCounter.decorationMode'] = 'lineCount';
+        expect(LineDeltaService.getInstance().isEnabled()).to.be.false;
+    });
+
+    test('should format line deltas to fit the two character explorer badges', () => {
+        expect([120, -30, 0, 1234].map(formatLineDelta)).to.deep.equal(['+120', '-30', '±0', '+1,234']);
+        expect([7, -3, 0, 10, -120].map(formatLineDeltaBadge)).to.deep.equal(['+7', '-3', '±0', '↑', '↓']);
+        expect(isTierRaised({ tier: 'warning' })).to.be.true;
+        expect(isTierRaised({ baseTier: 'danger', tier: 'warning' })).to.be.false;
+    });
+});
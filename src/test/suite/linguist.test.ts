@@ -0,0 +1,141 @@
+import { expect } from 'chai';
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { GitAttributesService } from '../../services/gitAttributesService';
+import { LineCounterService } from '../../services/lineCounter';
+import { CsvGeneratorService } from '../../services/csvGenerator';
+import { JsonGeneratorService } from '../../services/jsonGenerator';
+import { XmlGeneratorService } from '../../services/xmlGenerator';
+import { FileInfo, LineCountResult } from '../../types';
+import { getLinguistCategory, parseGitAttributes } from '../../utils/gitAttributesUtils';
+
+suite('Linguist Attribute Tests', () => {
+    let sandbox: sinon.SinonSandbox;
+    let tempDir: string;
+    let settings: { [key: string]: any };
+
+    const write = (relativePath: string, content: string) => {
+        const filePath = path.join(tempDir, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+    };
+
+    const countedFiles = async () => {
+        const result = await new LineCounterService().countLinesWithPathBasedSettings(tempDir);
+        return result.files
+            .filter(file => file.language === 'TypeScript')
+            .map(file => [file.relativePath.replace(/\\/g, '/'), file.linguist])
+            .sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+    };
+
+    setup(async function () {
+        this.timeout(10000);
+        sandbox = sinon.createSandbox();
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'linguist-'));
+        settings = {};
+        sandbox.stub(vscode.workspace, 'getConfiguration').callsFake((section?: string) => ({
+            get: (key: string, defaultValue?: any) => settings[`${section}.${key}`] ?? defaultValue
+        }) as vscode.WorkspaceConfiguration);
+
+        execFileSync('git', ['init', '-q'], { cwd: tempDir });
+        write('.gitattributes', [
+            '# Linguist overrides',
+            '*.pb.ts linguist-generated',
+            'vendor/** linguist-vendored',
+            'vendor/patched.ts -linguist-vendored',
+            'docs/** linguist-documentation=true'
+        ].join('\n'));
+        write('src/.gitattributes', 'api.pb.ts linguist-generated=false\n');
+        for (const relativePath of ['src/app.ts', 'src/api.pb.ts', 'src/model.pb.ts', 'vendor/lib.ts', 'vendor/patched.ts', 'docs/example.ts']) {
+            write(relativePath, 'const value = 1;');
+        }
+    });
+
+    teardown(async () => {
+        sandbox.restore();
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should read linguist attributes with git attribute semantics', () => {
+        const rules = parseGitAttributes([
+            '[attr]generated linguist-generated',
+            '!*.ts linguist-vendored',
+            'build/ linguist-generated',
+            '*.ts text eol=lf',
+            '*.gen.ts linguist-generated linguist-vendored',
+            'third_party/** linguist-vendored',
+            'third_party/own.ts !linguist-vendored',
+            'docs/*.ts linguist-documentation',
+            'docs/api.ts linguist-documentation=false'
+        ].join('\n'), '/repo');
+
+        expect(rules.map(rule => rule.pattern)).to.deep.equal(['*.gen.ts', 'third_party/**', 'third_party/own.ts', 'docs/*.ts', 'docs/api.ts']);
+        const category = (relativePath: string) => getLinguistCategory(rules, path.join('/repo', relativePath));
+        expect(category('src/types.gen.ts')).to.equal('generated');
+        expect(category('third_party/lib/index.ts')).to.equal('vendored');
+        expect(category('third_party/own.ts')).to.be.undefined;
+        expect(category('docs/guide.ts')).to.equal('documentation');
+        expect(category('docs/api.ts')).to.be.undefined;
+        expect(category('docs/nested/guide.ts')).to.be.undefined;
+        expect(category('src/app.ts')).to.be.undefined;
+    });
+
+    test('should tag counted files with the category of their nested .gitattributes', async function () {
+        this.timeout(20000);
+        const gitAttributes = new GitAttributesService(tempDir);
+        expect(await gitAttributes.getLinguistCategory(path.join(tempDir, 'src', 'model.pb.ts'))).to.equal('generated');
+        // The deeper .gitattributes takes precedence
+        expect(await gitAttributes.getLinguistCategory(path.join(tempDir, 'src', 'api.pb.ts'))).to.be.undefined;
+
+        expect(await countedFiles()).to.deep.equal([
+            ['docs/example.ts', 'documentation'],
+            ['src/api.pb.ts', undefined],
+            ['src/app.ts', undefined],
+            ['src/model.pb.ts', 'generated'],
+            ['vendor/lib.ts', 'vendored'],
+            ['vendor/patched.ts', undefined]
+        ]);
+
+        const changed = await new LineCounterService().countChangedFiles(tempDir, [path.join(tempDir, 'vendor', 'lib.ts')]);
+        expect(changed.get(path.join(tempDir, 'vendor', 'lib.ts'))!.linguist).to.equal('vendored');
+    });
+
+    test('should leave marked files out in exclude mode, unless inclusion patterns bring them back', async function () {
+        this.timeout(20000);
+        settings['codeCounter.linguist'] = 'exclude';
+        expect(await countedFiles()).to.deep.equal([['src/api.pb.ts', undefined], ['src/app.ts', undefined], ['vendor/patched.ts', undefined]]);
+
+        settings['codeCounter.includePatterns'] = ['vendor/**'];
+        expect(await countedFiles()).to.deep.equal([['vendor/lib.ts', 'vendored'], ['vendor/patched.ts', undefined]]);
+
+        settings['codeCounter.linguist'] = 'off';
+        settings['codeCounter.includePatterns'] = [];
+        expect((await countedFiles()).every(([, linguist]) => linguist === undefined)).to.be.true;
+    });
+
+    test('should export the linguist category of each file as CSV, JSON and XML', () => {
+        const file: FileInfo = {
+            path: path.join(tempDir, 'src/api.pb.ts'), relativePath: 'src/api.pb.ts', language: 'TypeScript',
+            lines: 10, codeLines: 10, commentLines: 0, blankLines: 0, mixedLines: 0, size: 100, linguist: 'generated'
+        };
+        const result: LineCountResult = {
+            workspacePath: tempDir,
+            totalFiles: 1,
+            totalLines: 10,
+            files: [file],
+            languageStats: {},
+            generatedAt: new Date(Date.UTC(2026, 2, 1))
+        };
+
+        const csv = new CsvGeneratorService().generateFileCsv(result).split('\n');
+        expect(csv[0]).to.contain(',Largest Symbol Lines,Linguist Category,Commits,');
+        expect(csv[1]).to.contain(',,generated,');
+
+        expect(JSON.parse(new JsonGeneratorService().generateJson(result)).files[0].linguist).to.equal('generated');
+        expect(new XmlGeneratorService().generateXml(result)).to.contain('linguist="generated"');
+    });
+});
@@ -248,6 +248,58 @@ suite('PathBasedSettingsService Tests', () => {
         });
     });
 
+    suite('Folder Aggregation', () => {
+        test('should default to the average metric with its folder thresholds', async () => {
+            const aggregation = await service.getFolderAggregationForPath(path.join(tempDir, 'tests'));
+            expect(aggregation).to.deep.equal({ mode: 'average', thresholds: { mid: 300, high: 1000 } });
+        });
+
+        test('should use the folder metric and thresholds of the closest directory settings', async () => {
+            await workspaceDatabaseService.saveWorkspaceSettings(path.join(tempDir, 'src'), {
+                'codeCounter.folderAggregation.mode': 'dangerShare',
+                'codeCounter.folderAggregation.thresholds': { dangerShare: { mid: 5 } }
+            });
+            service.clearCaches();
+
+            const aggregation = await service.getFolderAggregationForPath(path.join(tempDir, 'src', 'components'));
+            expect(aggregation).to.deep.equal({ mode: 'dangerShare', thresholds: { mid: 5, high: 25 } });
+            expect(service.getFolderColorThreshold(4, aggregation.thresholds)).to.equal('normal');
+            expect(service.getFolderColorThreshold(5, aggregation.thresholds)).to.equal('warning');
+            expect(service.getFolderColorThreshold(30, aggregation.thresholds)).to.equal('danger');
+        });
+
+        test('should ignore unknown folder metrics', async () => {
+            await workspaceDatabaseService.saveWorkspaceSettings(path.join(tempDir, 'tests'), {
+                'codeCounter.folderAggregation.mode': 'mode' as any
+            });
+            service.clearCaches();
+
+            const aggregation = await service.getFolderAggregationForPath(path.join(tempDir, 'tests', 'unit'));
+            expect(aggregation.mode).to.equal('average');
+        });
+    });
+
+    suite('Symbol Thresholds', () => {
+        test('should resolve symbol thresholds and emojis from the closest directory settings', async () => {
+            await workspaceDatabaseService.saveWorkspaceSettings(path.join(tempDir, 'tests'), {
+                'codeCounter.symbolThresholds.midThreshold': 40,
+                'codeCounter.symbolThresholds.highThreshold': 100,
+                'codeCounter.emojis.symbols.danger': '🧨'
+            });
+            service.clearCaches();
+
+            const filePath = path.join(tempDir, 'tests', 'spec.ts');
+            const thresholds = await service.getSymbolThresholdConfigForPath(filePath);
+            expect(thresholds.midThreshold).to.equal(40);
+            expect(thresholds.highThreshold).to.equal(100);
+            expect(await service.getSymbolColorThresholdForPath(39, filePath)).to.equal('normal');
+            expect(await service.getSymbolColorThresholdForPath(40, filePath)).to.equal('warning');
+            expect(await service.getSymbolColorThresholdForPath(100, filePath)).to.equal('danger');
+            expect(await service.getSymbolEmojiForPath('danger', filePath)).to.equal('🧨');
+            expect(await service.getSymbolEmojiForPath('warning', filePath)).to.equal('🟡');
+        });
+    });
+
     suite('Formatting Methods', () => {
         test('should format line count with correct emoji based on path', async () => {
             // First create subdirectory settings with the thresholds we need
@@ -0,0 +1,144 @@
+import { expect } from 'chai';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { SnapshotService } from '../../services/snapshotService';
+import { GitService } from '../../services/gitService';
+import { LineCountSnapshot } from '../../services/workspaceDatabaseService';
+import { FileInfo, LineCountResult } from '../../types';
+import { createSnapshotContent, selectSnapshotsToPrune } from '../../utils/snapshotUtils';
+import { getWorkspaceService, invalidateWorkspaceServiceCache } from '../../utils/workspaceUtils';
+
+suite('Snapshot Service Tests', () => {
+    let sandbox: sinon.SinonSandbox;
+    let tempDir: string;
+    let settings: { [key: string]: any };
+    let service: SnapshotService;
+
+    const file = (relativePath: string, language: string, lines: number, codeLines: number): FileInfo => ({
+        path: path.join(tempDir, relativePath),
+        relativePath,
+        language,
+        lines,
+        codeLines,
+        commentLines: 1,
+        blankLines: lines - codeLines - 1,
+        mixedLines: 0,
+        size: lines * 20
+    });
+
+    const countResult = (files: FileInfo[], generatedAt = new Date()): LineCountResult => ({
+        workspacePath: tempDir,
+        totalFiles: files.length,
+        totalLines: files.reduce((sum, current) => sum + current.lines, 0),
+        files,
+        languageStats: {},
+        generatedAt
+    });
+
+    const snapshot = (id: number, daysAgo: number, label?: string): LineCountSnapshot => ({
+        id,
+        createdAt: new Date(Date.UTC(2026, 0, 31) - daysAgo * 24 * 60 * 60 * 1000),
+        label,
+        trigger: 'manual',
+        files: 1, lines: 10, codeLines: 8, commentLines: 1, blankLines: 1, mixedLines: 0
+    });
+
+    setup(async function () {
+        this.timeout(10000);
+        sandbox = sinon.createSandbox();
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'snapshots-'));
+        settings = {};
+        sandbox.stub(vscode.workspace, 'getConfiguration').callsFake(() => ({
+            get: (key: string, defaultValue?: any) => settings[key] ?? defaultValue
+        }) as vscode.WorkspaceConfiguration);
+        sandbox.stub(GitService.prototype, 'getHeadCommit').resolves('0123456789abcdef0123456789abcdef01234567');
+        sandbox.stub(GitService.prototype, 'getCurrentBranch').resolves('main');
+        service = SnapshotService.getInstance();
+    });
+
+    teardown(async () => {
+        sandbox.restore();
+        getWorkspaceService(tempDir).dispose();
+        invalidateWorkspaceServiceCache(tempDir);
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should store totals, files and languages of a count with the current commit', async function () {
+        this.timeout(10000);
+        const changed = sandbox.spy();
+        const listener = service.onDidChangeSnapshots(changed);
+
+        const recorded = await service.recordSnapshot(countResult([
+            file('src/app.ts', 'TypeScript', 40, 30),
+            file('src\\util.ts', 'TypeScript', 10, 8),
+            file('README.md', 'Markdown', 5, 4)
+        ]), 'manual', '  Sprint 1 ');
+        listener.dispose();
+
+        const [stored] = await service.getSnapshots(tempDir);
+        expect(stored).to.deep.equal(recorded);
+        expect(stored).to.include({ label: 'Sprint 1', trigger: 'manual', branch: 'main', files: 3, lines: 55, codeLines: 42, commentLines: 3 });
+        expect(stored.commit).to.equal('0123456789abcdef0123456789abcdef01234567');
+        expect(changed.calledWith(tempDir)).to.be.true;
+
+        const workspaceService = getWorkspaceService(tempDir);
+        expect((await workspaceService.getSnapshotFiles(stored.id)).map(row => [row.filePath, row.lines])).to.deep.equal([
+            ['README.md', 5], ['src/app.ts', 40], ['src/util.ts', 10]
+        ]);
+        expect((await service.getSnapshotLanguages(tempDir, stored.id)).map(row => [row.language, row.files, row.lines])).to.deep.equal([
+            ['TypeScript', 2, 50], ['Markdown', 1, 5]
+        ]);
+    });
+
+    test('should label and delete snapshots with their rows', async function () {
+        this.timeout(10000);
+        const first = await service.recordSnapshot(countResult([file('a.ts', 'TypeScript', 3, 2)], new Date(2026, 0, 1)), 'scheduled');
+        const second = await service.recordSnapshot(countResult([file('a.ts', 'TypeScript', 6, 4)], new Date(2026, 0, 2)), 'commit');
+
+        await service.labelSnapshot(tempDir, first.id, 'v1.0');
+        expect((await service.getSnapshots(tempDir)).map(stored => [stored.id, stored.label, stored.trigger])).to.deep.equal([
+            [second.id, undefined, 'commit'], [first.id, 'v1.0', 'scheduled']
+        ]);
+
+        await service.labelSnapshot(tempDir, first.id, '');
+        await service.deleteSnapshots(tempDir, [second.id]);
+        expect((await service.getSnapshots(tempDir)).map(stored => [stored.id, stored.label])).to.deep.equal([[first.id, undefined]]);
+        expect(await getWorkspaceService(tempDir).getSnapshotFiles(second.id)).to.be.empty;
+        expect(await service.getSnapshotLanguages(tempDir, second.id)).to.be.empty;
+    });
+
+    test('should prune unlabelled snapshots beyond the retention policy', async function () {
+        this.timeout(10000);
+        settings['snapshots.retention.maxCount'] = 2;
+        await service.recordSnapshot(countResult([file('a.ts', 'TypeScript', 3, 2)], new Date(2026, 0, 1)), 'manual', 'baseline');
+        for (let day = 2; day <= 5; day++) {
+            await service.recordSnapshot(countResult([file('a.ts', 'TypeScript', day, 1)], new Date(2026, 0, day)), 'manual');
+        }
+
+        expect((await service.getSnapshots(tempDir)).map(stored => stored.label || stored.lines)).to.deep.equal([5, 4, 'baseline']);
+    });
+
+    test('should select snapshots over the age and count limits', () => {
+        const snapshots = [snapshot(1, 400), snapshot(2, 300, 'release'), snapshot(3, 20), snapshot(4, 10), snapshot(5, 1)];
+        const now = new Date(Date.UTC(2026, 0, 31));
+
+        expect(selectSnapshotsToPrune(snapshots, { maxCount: 0, maxAgeDays: 0 }, now)).to.be.empty;
+        expect(selectSnapshotsToPrune(snapshots, { maxCount: 0, maxAgeDays: 30 }, now).map(pruned => pruned.id)).to.deep.equal([1]);
+        expect(selectSnapshotsToPrune(snapshots, { maxCount: 2, maxAgeDays: 0 }, now).map(pruned => pruned.id)).to.deep.equal([3, 1]);
+        expect(selectSnapshotsToPrune(snapshots, { maxCount: 1, maxAgeDays: 15 }, now).map(pruned => pruned.id)).to.deep.equal([4, 3, 1]);
+    });
+
+    test('should attribute embedded languages to their own language rows', () => {
+        const vue = { ...file('App.vue', 'Vue', 12, 9), languageSections: [
+            { language: 'Vue', lines: 8, codeLines: 7, commentLines: 1, blankLines: 0, mixedLines: 0 },
+            { language: 'TypeScript', lines: 4, codeLines: 2, commentLines: 1, blankLines: 1, mixedLines: 0 }
+        ] };
+
+        const content = createSnapshotContent(countResult([vue]));
+        expect(content.totals).to.deep.equal({ files: 1, lines: 12, codeLines: 9, commentLines: 1, blankLines: 2, mixedLines: 0 });
+        expect(content.languages.map(language => [language.language, language.lines])).to.deep.equal([['Vue', 8], ['TypeScript', 4]]);
+    });
+});
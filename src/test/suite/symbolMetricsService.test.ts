@@ -0,0 +1,107 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { SymbolMetricsService } from '../../services/symbolMetricsService';
+import { PathBasedSettingsService } from '../../services/pathBasedSettingsService';
+import { SymbolCodeLensProvider } from '../../providers/symbolCodeLensProvider';
+import { FileInfo } from '../../types';
+
+suite('Symbol Metrics Service Tests', () => {
+    let sandbox: sinon.SinonSandbox;
+    let service: SymbolMetricsService;
+    let settings: { [key: string]: any };
+
+    const range = (startLine: number, endLine: number) => new vscode.Range(startLine, 0, endLine, 1);
+
+    const documentSymbol = (name: string, kind: vscode.SymbolKind, startLine: number, endLine: number, children: any[] = []) =>
+        ({ name, kind, range: range(startLine, endLine), selectionRange: range(startLine, startLine), children });
+
+    const classSymbols = [
+        documentSymbol('Parser', vscode.SymbolKind.Class, 2, 61, [
+            documentSymbol('constructor', vscode.SymbolKind.Constructor, 3, 6),
+            documentSymbol('name', vscode.SymbolKind.Property, 7, 7),
+            documentSymbol('parse', vscode.SymbolKind.Method, 10, 59)
+        ]),
+        documentSymbol('helper', vscode.SymbolKind.Function, 70, 74),
+        documentSymbol('VERSION', vscode.SymbolKind.Constant, 0, 0)
+    ];
+
+    setup(() => {
+        sandbox = sinon.createSandbox();
+        service = new SymbolMetricsService();
+        settings = {};
+        sandbox.stub(vscode.workspace, 'getConfiguration').callsFake(() => ({
+            get: (key: string, defaultValue?: any) => settings[key] ?? defaultValue
+        }) as vscode.WorkspaceConfiguration);
+    });
+
+    teardown(() => {
+        sandbox.restore();
+    });
+
+    test('should measure nested functions, methods and classes in document order', async () => {
+        sandbox.stub(vscode.commands, 'executeCommand').resolves(classSymbols);
+
+        const metrics = await service.getSymbolMetrics(vscode.Uri.file('/project/parser.ts'));
+
+        expect(metrics.map(metric => [metric.name, SymbolMetricsService.getKindLabel(metric.kind), metric.lines])).to.deep.equal([
+            ['Parser', 'Class', 60],
+            ['constructor', 'Constructor', 4],
+            ['parse', 'Method', 50],
+            ['helper', 'Function', 5]
+        ]);
+    });
+
+    test('should accept flat symbol information and files without a symbol provider', async () => {
+        const executeCommand = sandbox.stub(vscode.commands, 'executeCommand');
+        executeCommand.onFirstCall().resolves([
+            { name: 'main', kind: vscode.SymbolKind.Function, location: { range: range(4, 23) } }
+        ]);
+        executeCommand.onSecondCall().resolves(undefined);
+
+        expect(await service.getLargestSymbol(vscode.Uri.file('/project/main.go'))).to.deep.equal({
+            name: 'main', kind: 'Function', lines: 20, line: 5
+        });
+        expect(await service.getLargestSymbol(vscode.Uri.file('/project/notes.txt'))).to.be.undefined;
+    });
+
+    test('should add the largest symbol to each file only when enabled', async () => {
+        const executeCommand = sandbox.stub(vscode.commands, 'executeCommand').callsFake(async (_command: string, uri: any) =>
+            uri.fsPath.endsWith('.ts') ? classSymbols : []);
+        const files = [{ path: '/project/parser.ts' }, { path: '/project/README.md' }] as FileInfo[];
+
+        await service.addLargestSymbols(files);
+        expect(executeCommand.called).to.be.false;
+
+        settings['symbolMetrics.includeInReport'] = false;
+        await service.addLargestSymbols(files);
+        expect(files[0].largestSymbol).to.be.undefined;
+
+        settings['symbolMetrics.includeInReport'] = true;
+        await service.addLargestSymbols(files);
+        expect(files[0].largestSymbol).to.deep.equal({ name: 'Parser', kind: 'Class', lines: 60, line: 3 });
+        expect(files[1].largestSymbol).to.be.undefined;
+    });
+
+    test('should show a CodeLens with the tier emoji above each symbol', async () => {
+        sandbox.stub(vscode.commands, 'executeCommand').resolves(classSymbols);
+        const pathBasedSettings = new PathBasedSettingsService();
+        sandbox.stub(pathBasedSettings, 'getSymbolThresholdConfigForPath').resolves({ enabled: true, midThreshold: 10, highThreshold: 55 });
+        sandbox.stub(pathBasedSettings, 'getSymbolColorThresholdForPath').callsFake(async (lines: number) =>
+            lines >= 55 ? 'danger' : lines >= 10 ? 'warning' : 'normal');
+        sandbox.stub(pathBasedSettings, 'getSymbolEmojiForPath').callsFake(async threshold =>
+            ({ normal: '🟢', warning: '🟡', danger: '🔴' })[threshold]);
+        const provider = new SymbolCodeLensProvider(pathBasedSettings);
+        const document = { uri: vscode.Uri.file('/project/parser.ts') } as vscode.TextDocument;
+        const token = { isCancellationRequested: false } as vscode.CancellationToken;
+
+        const lenses = await provider.provideCodeLenses(document, token);
+        expect(lenses.map(lens => lens.command!.title)).to.deep.equal(['🔴 60 lines', '🟢 4 lines', '🟡 50 lines', '🟢 5 lines']);
+        expect(lenses[2].range.start.line).to.equal(10);
+        expect(lenses[2].command!.tooltip).to.equal('Method parse: 50 lines (warning at 10, danger at 55)');
+
+        settings['codeLens.enabled'] = false;
+        expect(await provider.provideCodeLenses(document, token)).to.be.empty;
+        provider.dispose();
+    });
+});
@@ -0,0 +1,184 @@
+import { expect } from 'chai';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { ThresholdDiagnosticsProvider } from '../../providers/thresholdDiagnosticsProvider';
+import { PathBasedSettingsService } from '../../services/pathBasedSettingsService';
+import { WorkspaceDatabaseService } from '../../services/workspaceDatabaseService';
+
+suite('Threshold Diagnostics Provider Tests', () => {
+    let sandbox: sinon.SinonSandbox;
+    let tempDir: string;
+    let settings: { [key: string]: any };
+    let pathBasedSettings: PathBasedSettingsService;
+    let provider: ThresholdDiagnosticsProvider;
+    let collection: vscode.DiagnosticCollection;
+
+    const classSymbol = (startLine: number, endLine: number) => ({
+        name: 'Parser',
+        kind: vscode.SymbolKind.Class,
+        range: new vscode.Range(startLine, 0, endLine, 1),
+        selectionRange: new vscode.Range(startLine, 0, startLine, 1),
+        children: []
+    });
+
+    const openDocument = async (fileName: string, lines: string[]): Promise<vscode.TextDocument> => {
+        const filePath = path.join(tempDir, fileName);
+        await fs.promises.writeFile(filePath, lines.join('\n'));
+        return {
+            uri: vscode.Uri.file(filePath),
+            lineCount: lines.length,
+            getText: () => lines.join('\n'),
+            lineAt: (line: number) => ({ text: lines[line], range: new vscode.Range(line, 0, line, lines[line].length) })
+        } as unknown as vscode.TextDocument;
+    };
+
+    const contextFor = (document: vscode.TextDocument) =>
+        ({ diagnostics: collection.get(document.uri) || [] }) as unknown as vscode.CodeActionContext;
+
+    setup(async () => {
+        sandbox = sinon.createSandbox();
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'threshold-diagnostics-'));
+        settings = {};
+        sandbox.stub(vscode.workspace, 'getConfiguration').callsFake(() => ({
+            get: (key: string, defaultValue?: any) => settings[key] ?? defaultValue
+        }) as vscode.WorkspaceConfiguration);
+
+        pathBasedSettings = new PathBasedSettingsService();
+        sandbox.stub(pathBasedSettings, 'getExcludePatternsForPath').resolves([]);
+        sandbox.stub(pathBasedSettings, 'getThresholdConfigForPath').resolves({ enabled: true, midThreshold: 4, highThreshold: 8 });
+        sandbox.stub(pathBasedSettings, 'getColorThresholdForPath').callsFake(async (lines: number) =>
+            lines >= 8 ? 'danger' : lines >= 4 ? 'warning' : 'normal');
+        sandbox.stub(pathBasedSettings, 'getSymbolThresholdConfigForPath').resolves({ enabled: true, midThreshold: 3, highThreshold: 20 });
+        sandbox.stub(pathBasedSettings, 'getSymbolColorThresholdForPath').callsFake(async (lines: number) =>
+            lines >= 20 ? 'danger' : lines >= 3 ? 'warning' : 'normal');
+
+        const createCollection = sandbox.spy(vscode.languages, 'createDiagnosticCollection');
+        provider = new ThresholdDiagnosticsProvider(pathBasedSettings);
+        collection = createCollection.returnValues[0];
+    });
+
+    teardown(async () => {
+        provider.dispose();
+        sandbox.restore();
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should report files and symbols with the severity of their tier', async () => {
+        sandbox.stub(vscode.commands, 'executeCommand').resolves([classSymbol(1, 4)]);
+        const document = await openDocument('parser.ts', [
+            'import { a } from "./a";', 'class Parser {', '    parse() {', '    }', '}', 'export { Parser };', '', '', ''
+        ]);
+
+        await provider.update(document);
+
+        const diagnostics = collection.get(document.uri)!;
+        expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.range.start.line, diagnostic.severity, diagnostic.source])).to.deep.equal([
+            ['file-size', 0, vscode.DiagnosticSeverity.Error, 'Code Counter'],
+            ['symbol-size', 1, vscode.DiagnosticSeverity.Warning, 'Code Counter']
+        ]);
+        expect(diagnostics[0].message).to.equal('File has 9 lines (danger threshold: 8)');
+        expect(diagnostics[1].message).to.equal("Class 'Parser' has 4 lines (warning threshold: 3)");
+
+        settings['diagnostics.dangerSeverity'] = 'none';
+        settings['diagnostics.warningSeverity'] = 'hint';
+        await provider.update(document);
+        expect(collection.get(document.uri)!.map(diagnostic => [diagnostic.code, diagnostic.severity])).to.deep.equal([
+            ['symbol-size', vscode.DiagnosticSeverity.Hint]
+        ]);
+
+        settings['diagnostics.enabled'] = false;
+        await provider.update(document);
+        expect(collection.get(document.uri)).to.be.undefined;
+    });
+
+    test('should honour inline ignore directives', async () => {
+        sandbox.stub(vscode.commands, 'executeCommand').resolves([classSymbol(2, 6)]);
+        const document = await openDocument('ignored.ts', [
+            '// code-counter-ignore-file', '// code-counter-ignore', 'class Parser {', '', '', '', '}', '', ''
+        ]);
+
+        await provider.update(document);
+
+        expect(collection.get(document.uri)).to.be.undefined;
+    });
+
+    test('should only honour the symbol directive in a comment', async () => {
+        sandbox.stub(vscode.commands, 'executeCommand').resolves([classSymbol(1, 5)]);
+        const inString = await openDocument('string.ts', [
+            'const marker = "code-counter-ignore";', 'class Parser { marker = "code-counter-ignore";', '', '', '', '}'
+        ]);
+        const trailingComment = await openDocument('trailing.ts', [
+            'import { a } from "./a";', 'class Parser { // code-counter-ignore', '', '', '', '}'
+        ]);
+
+        await provider.update(inString);
+        expect(collection.get(inString.uri)!.map(diagnostic => diagnostic.code)).to.deep.equal(['file-size', 'symbol-size']);
+
+        await provider.update(trailingComment);
+        expect(collection.get(trailingComment.uri)!.map(diagnostic => diagnostic.code)).to.deep.equal(['file-size']);
+    });
+
+    test('should only honour the file directive in a header comment', async () => {
+        sandbox.stub(vscode.commands, 'executeCommand').resolves([]);
+        const inString = await openDocument('string.ts', [
+            'const directive = "// code-counter-ignore-file";', '', '', '', '', '', '', '', ''
+        ]);
+        const belowHeader = await openDocument('below.ts', [
+            'import { a } from "./a";', '', '', '', '', '', '', '', '// code-counter-ignore-file'
+        ]);
+        const inBlockComment = await openDocument('block.ts', [
+            '/**', ' * Generated parser', ' * code-counter-ignore-file', ' */', '', '', '', '', ''
+        ]);
+
+        await provider.update(inString);
+        expect(collection.get(inString.uri)!.map(diagnostic => diagnostic.code)).to.deep.equal(['file-size']);
+
+        await provider.update(belowHeader);
+        expect(collection.get(belowHeader.uri)!.map(diagnostic => diagnostic.code)).to.deep.equal(['file-size']);
+
+        await provider.update(inBlockComment);
+        expect(collection.get(inBlockComment.uri)).to.be.undefined;
+    });
+
+    test('should offer to exclude the file, raise the threshold or add an ignore directive', async () => {
+        sandbox.stub(vscode.commands, 'executeCommand').resolves([classSymbol(2, 5)]);
+        const document = await openDocument('tool.py', ['#!/usr/bin/env python3', '', '    class Parser:', '        pass', '', '', '', '', '']);
+        await provider.update(document);
+
+        const actions = provider.provideCodeActions(document, new vscode.Range(0, 0, 0, 0), contextFor(document));
+
+        expect(actions.map(action => action.title)).to.deep.equal([
+            'Exclude this file from Code Counter',
+            'Raise the file threshold of this directory to 10 lines',
+            'Ignore the size of this file',
+            'Exclude this file from Code Counter',
+            'Raise the symbol threshold of this directory to 5 lines',
+            'Ignore the size of this symbol'
+        ]);
+        expect(actions[0].command!.command).to.equal('codeCounter.diagnostics.excludeFile');
+        expect(actions[4].command!.arguments!.slice(1)).to.deep.equal(['symbol', 4]);
+        expect((actions[2].edit as any).edits.map((edit: any) => [edit.position.line, edit.text])).to.deep.equal([[1, '# code-counter-ignore-file\n']]);
+        expect((actions[5].edit as any).edits.map((edit: any) => [edit.position.line, edit.text])).to.deep.equal([[2, '    # code-counter-ignore\n']]);
+    });
+
+    test('should raise the thresholds of the file directory above its size', async () => {
+        const save = sandbox.stub(WorkspaceDatabaseService.prototype, 'saveWorkspaceSettings').resolves();
+        sandbox.stub(vscode.workspace, 'getWorkspaceFolder').returns({ uri: vscode.Uri.file(tempDir), name: 'project', index: 0 });
+        const filePath = path.join(tempDir, 'src', 'parser.ts');
+
+        await provider.raiseThreshold(vscode.Uri.file(filePath), 'file', 12);
+        await provider.raiseThreshold(vscode.Uri.file(filePath), 'symbol', 30);
+
+        expect(save.firstCall.args).to.deep.equal([path.dirname(filePath), {
+            'codeCounter.lineThresholds.midThreshold': 13,
+            'codeCounter.lineThresholds.highThreshold': 14
+        }]);
+        expect(save.secondCall.args[1]).to.deep.equal({
+            'codeCounter.symbolThresholds.midThreshold': 31,
+            'codeCounter.symbolThresholds.highThreshold': 32
+        });
+    });
+});
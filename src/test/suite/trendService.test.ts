@@ -0,0 +1,133 @@
+import { expect } from 'chai';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as sinon from 'sinon';
+import { TrendService } from '../../services/trendService';
+import { SnapshotService } from '../../services/snapshotService';
+import { GitService } from '../../services/gitService';
+import { LineCountSnapshot } from '../../services/workspaceDatabaseService';
+import { FileInfo, LineCountResult } from '../../types';
+import { buildReportTrends, buildTrendTimeline, filterTrendPoints, formatTrendsCsv, TrendPoint } from '../../utils/trendUtils';
+import { getWorkspaceService, invalidateWorkspaceServiceCache } from '../../utils/workspaceUtils';
+
+suite('Trend Service Tests', () => {
+    let sandbox: sinon.SinonSandbox;
+    let tempDir: string;
+
+    const file = (relativePath: string, language: string, lines: number): FileInfo => ({
+        path: path.join(tempDir, relativePath),
+        relativePath,
+        language,
+        lines,
+        codeLines: lines - 1,
+        commentLines: 1,
+        blankLines: 0,
+        mixedLines: 0,
+        size: lines * 20
+    });
+
+    const countResult = (files: FileInfo[], generatedAt: Date): LineCountResult => ({
+        workspacePath: tempDir,
+        totalFiles: files.length,
+        totalLines: files.reduce((sum, current) => sum + current.lines, 0),
+        files,
+        languageStats: {},
+        generatedAt
+    });
+
+    const snapshot = (id: number, day: number, lines: number, label?: string): LineCountSnapshot => ({
+        id,
+        createdAt: new Date(Date.UTC(2026, 0, day, 12)),
+        label,
+        trigger: 'manual',
+        files: 1, lines, codeLines: lines, commentLines: 0, blankLines: 0, mixedLines: 0
+    });
+
+    const point = (date: string, lines: number, languages: Record<string, number>, label?: string): TrendPoint => ({
+        date, label, files: 1, lines, codeLines: lines, commentLines: 0, blankLines: 0, mixedLines: 0, languages
+    });
+
+    setup(async function () {
+        this.timeout(10000);
+        sandbox = sinon.createSandbox();
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'trends-'));
+        sandbox.stub(GitService.prototype, 'getHeadCommit').resolves(undefined);
+        sandbox.stub(GitService.prototype, 'getCurrentBranch').resolves(undefined);
+    });
+
+    teardown(async () => {
+        sandbox.restore();
+        getWorkspaceService(tempDir).dispose();
+        invalidateWorkspaceServiceCache(tempDir);
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('should load totals, languages and file history of recorded snapshots, oldest first', async function () {
+        this.timeout(10000);
+        const snapshots = SnapshotService.getInstance();
+        await snapshots.recordSnapshot(countResult([file('src/app.ts', 'TypeScript', 40)], new Date(Date.UTC(2026, 0, 1))), 'manual');
+        await snapshots.recordSnapshot(countResult([
+            file('src\\app.ts', 'TypeScript', 55),
+            file('style.css', 'CSS', 10)
+        ], new Date(Date.UTC(2026, 0, 2))), 'scheduled');
+
+        const trends = await TrendService.getInstance().getTrends([tempDir]);
+
+        expect(trends.points.map(current => [current.date, current.files, current.lines])).to.deep.equal([
+            ['2026-01-01T00:00:00.000Z', 1, 40],
+            ['2026-01-02T00:00:00.000Z', 2, 65]
+        ]);
+        expect(trends.points[1].languages).to.deep.equal({ TypeScript: 55, CSS: 10 });
+        expect(trends.fileHistoryStart).to.equal(0);
+        expect(trends.fileHistory).to.deep.equal({ 'src/app.ts': [40, 55], 'style.css': [null, 10] });
+    });
+
+    test('should have no history for a folder without a database', async () => {
+        const missing = path.join(tempDir, 'never-counted');
+
+        const trends = await TrendService.getInstance().getTrends([missing]);
+
+        expect(trends.points).to.be.empty;
+        expect(fs.existsSync(missing)).to.be.false;
+    });
+
+    test('should combine the latest snapshot of each root and prefix their files', () => {
+        const timeline = buildTrendTimeline([
+            [snapshot(2, 3, 30), snapshot(1, 1, 10)],
+            [snapshot(1, 2, 100, 'Backend v1')]
+        ]);
+        const frontendFiles = [{ filePath: 'a.ts', language: 'TypeScript', lines: 10, codeLines: 10, commentLines: 0, blankLines: 0, mixedLines: 0 }];
+
+        const trends = buildReportTrends(
+            timeline,
+            (rootIndex, current) => ({
+                languages: [{ language: rootIndex === 0 ? 'TypeScript' : 'Go', ...current }],
+                files: rootIndex === 0 && current.id === 2 ? frontendFiles : []
+            }),
+            ['frontend/', 'backend/'],
+            2
+        );
+
+        expect(trends.points.map(current => [current.lines, current.label])).to.deep.equal([[10, undefined], [110, 'Backend v1'], [130, undefined]]);
+        expect(trends.points[2].languages).to.deep.equal({ TypeScript: 30, Go: 100 });
+        expect(trends.fileHistoryStart).to.equal(1);
+        expect(trends.fileHistory).to.deep.equal({ 'frontend/a.ts': [null, 10] });
+    });
+
+    test('should export the points of a date range as CSV with a column per language', () => {
+        const points = [
+            point(new Date(2026, 0, 1, 9).toISOString(), 100, { TypeScript: 100 }),
+            point(new Date(2026, 0, 5, 9).toISOString(), 130, { TypeScript: 110, Python: 20 }, 'Release, v2'),
+            point(new Date(2026, 0, 9, 9).toISOString(), 150, { TypeScript: 120, Python: 30 })
+        ];
+
+        const inRange = filterTrendPoints(points, '2026-01-02', '2026-01-09');
+        const csv = formatTrendsCsv(inRange).split('\n');
+
+        expect(inRange).to.have.length(2);
+        expect(csv[0]).to.equal('Date,Label,Commit,Files,Total Lines,Code Lines,Comment Lines,Blank Lines,Mixed Lines,TypeScript,Python');
+        expect(csv[1]).to.equal(`${points[1].date},"Release, v2",,1,130,130,0,0,0,110,20`);
+        expect(filterTrendPoints(points, undefined, '2026-01-01')).to.deep.equal([points[0]]);
+    });
+});
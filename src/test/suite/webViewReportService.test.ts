@@ -10,6 +10,7 @@ import * as sinon from 'sinon';
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import { WebViewReportService, ReportData } from '../../services/webViewReportService';
+import { FileInfo, LineCountResult } from '../../types';
 
 suite('WebViewReportService Basic Tests', () => {
     let service: WebViewReportService;
@@ -27,6 +28,7 @@ suite('WebViewReportService Basic Tests', () => {
             totalCodeLines: 800,
             totalCommentLines: 150,
             totalBlankLines: 50,
+            totalMixedLines: 0,
             languageCount: 3
         },
         languages: [
@@ -36,7 +38,8 @@ suite('WebViewReportService Basic Tests', () => {
                 lines: 800,
                 codeLines: 600,
                 commentLines: 120,
-                blankLines: 80
+                blankLines: 80,
+                mixedLines: 0
             },
             {
                 name: 'JavaScript',
@@ -44,7 +47,8 @@ suite('WebViewReportService Basic Tests', () => {
                 lines: 200,
                 codeLines: 180,
                 commentLines: 10,
-                blankLines: 10
+                blankLines: 10,
+                mixedLines: 0
             }
         ],
         files: [
@@ -58,6 +62,7 @@ suite('WebViewReportService Basic Tests', () => {
                 codeLines: 200,
                 commentLines: 30,
                 blankLines: 20,
+                mixedLines: 0,
                 size: 8192
             }
         ],
@@ -342,6 +347,7 @@ suite('WebViewReportService Basic Tests', () => {
                     totalCodeLines: 0,
                     totalCommentLines: 0,
                     totalBlankLines: 0,
+                    totalMixedLines: 0,
                     languageCount: 0
                 },
                 languages: [],
@@ -455,6 +461,7 @@ suite('WebViewReportService Basic Tests', () => {
                     codeLines: 40,
                     commentLines: 5,
                     blankLines: 5,
+                    mixedLines: 0,
                     size: 1024
                 }],
                 workspacePath: '/workspace/测试项目'
@@ -483,6 +490,7 @@ suite('WebViewReportService Basic Tests', () => {
                 codeLines: 80 + i,
                 commentLines: 15,
                 blankLines: 5,
+                mixedLines: 0,
                 size: 1024 * (i + 1)
             }));
             
@@ -569,4 +577,82 @@ suite('WebViewReportService Basic Tests', () => {
             expect((service as any).currentData).to.equal(newData);
         });
     });
-});
\ No newline at end of file
+
+    suite('Multi-root Reports', () => {
+        const createFile = (workspacePath: string, relativePath: string, lines: number): FileInfo => ({
+            path: `${workspacePath}/${relativePath}`,
+            relativePath,
+            language: 'TypeScript',
+            lines,
+            codeLines: lines,
+            commentLines: 0,
+            blankLines: 0,
+            mixedLines: 0,
+            size: lines * 10
+        });
+
+        const createResult = (workspacePath: string, files: FileInfo[]): LineCountResult => ({
+            workspacePath,
+            totalFiles: files.length,
+            totalLines: files.reduce((sum, file) => sum + file.lines, 0),
+            files,
+            languageStats: {},
+            generatedAt: new Date()
+        });
+
+        const frontend = createResult('/repos/frontend', [createFile('/repos/frontend', 'src/app.ts', 100)]);
+        const backend = createResult('/repos/backend', [
+            createFile('/repos/backend', 'src/server.ts', 40),
+            createFile('/repos/backend', 'src/db.ts', 20)
+        ]);
+
+        test('should combine roots with per-root subtotals', () => {
+            const data = service.createReportData([frontend, backend]);
+
+            expect(data.summary.totalFiles).to.equal(3);
+            expect(data.summary.totalLines).to.equal(160);
+            expect(data.roots!.map(root => [root.name, root.summary.totalFiles, root.summary.totalLines])).to.deep.equal([
+                ['frontend', 1, 100], ['backend', 2, 60]
+            ]);
+            expect(data.files.map(file => [file.root, file.relativePath])).to.deep.equal([
+                ['frontend', 'frontend/src/app.ts'], ['backend', 'backend/src/server.ts'], ['backend', 'backend/src/db.ts']
+            ]);
+        });
+
+        test('should keep single-root reports unchanged', () => {
+            const data = service.createReportData([frontend]);
+
+            expect(data.roots).to.be.undefined;
+            expect(data.workspacePath).to.equal('/repos/frontend');
+            expect(data.files[0].relativePath).to.equal('src/app.ts');
+            expect(data.files[0].root).to.be.undefined;
+        });
+
+        test('should apply a delta to its own root only', async () => {
+            await service.showResults([frontend, backend]);
+            const updated = createFile('/repos/backend', 'src/db.ts', 50);
+
+            await service.applyReportDelta({
+                workspacePath: '/repos/backend',
+                updatedFiles: [updated],
+                removedFiles: ['/repos/backend/src/server.ts'],
+                directories: [],
+                result: createResult('/repos/backend', [updated])
+            });
+
+            const message = mockWebview.postMessage.lastCall.args[0];
+            expect(message.command).to.equal('applyDelta');
+            expect(message.delta.updatedFiles.map((file: any) => [file.root, file.relativePath, file.lines])).to.deep.equal([
+                ['backend', 'backend/src/db.ts', 50]
+            ]);
+            expect(message.delta.summary.totalLines).to.equal(150);
+            expect(message.delta.roots.map((root: any) => root.summary.totalLines)).to.deep.equal([100, 50]);
+
+            mockWebview.postMessage.resetHistory();
+            await service.applyReportDelta({
+                workspacePath: '/repos/other', updatedFiles: [], removedFiles: [], directories: [], result: createResult('/repos/other', [])
+            });
+            expect(mockWebview.postMessage.called).to.be.false;
+        });
+    });
+});
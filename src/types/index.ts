@@ -30,13 +30,101 @@ export interface FileInfo {
     relativePath: string;
     fullPath?: string;
     language: string;
+    /** How the language was determined (file name, extension, shebang, ...) */
+    languageSource?: LanguageDetectionSource;
     lines: number;
     codeLines: number;
     commentLines: number;
     blankLines: number;
+    /** Lines holding code and a comment; already folded into code/comment per mixedLineAccounting */
+    mixedLines: number;
     size: number;
+    /** Per-language totals for files with embedded languages (e.g. a .vue file's script and style blocks) */
+    languageSections?: LanguageSection[];
+    /** Largest function, method or class reported by the language's symbol provider */
+    largestSymbol?: LargestSymbol;
+    /** Who last changed the file's lines according to git blame, most lines first */
+    authors?: FileAuthor[];
+    /** How often the file changed recently, combined with its size */
+    hotspot?: FileHotspot;
+    /** Marked generated, vendored or documentation for GitHub Linguist in .gitattributes */
+    linguist?: LinguistCategory;
 }
 
+/**
+ * Size of the largest function, method or class in a file
+ */
+export interface LargestSymbol {
+    name: string;
+    /** Symbol kind such as Function, Method or Class */
+    kind: string;
+    lines: number;
+    /** 1-based line the symbol starts on */
+    line: number;
+}
+
+/**
+ * Lines of a file last changed by one author; mixed lines are folded in per mixedLineAccounting
+ */
+export interface FileAuthor {
+    name: string;
+    email: string;
+    /** Team from codeCounter.authorship.teams */
+    team?: string;
+    lines: number;
+    codeLines: number;
+    commentLines: number;
+    blankLines: number;
+}
+
+/**
+ * Category of files GitHub Linguist leaves out of a repository's language statistics, from the
+ * linguist-generated, linguist-vendored and linguist-documentation attributes
+ */
+export type LinguistCategory = 'generated' | 'vendored' | 'documentation';
+
+/**
+ * Where a file falls on the size / change frequency chart: large and often changed files are
+ * hotspots, small ones that change often are churning, large ones that rarely change are large
+ */
+export type HotspotQuadrant = 'hotspot' | 'churning' | 'large' | 'stable';
+
+/**
+ * Commits and changed lines of a file within the codeCounter.hotspots.windowDays window
+ */
+export interface FileHotspot {
+    commits: number;
+    linesAdded: number;
+    linesRemoved: number;
+    /** 0-100: relative size times relative churn within the workspace folder */
+    score: number;
+    /** 1 for the file with the highest score; undefined for files that did not change */
+    rank?: number;
+    quadrant: HotspotQuadrant;
+}
+
+/**
+ * Line totals for one language inside a file
+ */
+export interface LanguageSection {
+    language: string;
+    lines: number;
+    codeLines: number;
+    commentLines: number;
+    blankLines: number;
+    mixedLines: number;
+}
+
+/**
+ * Where lines holding both code and a comment are counted in the totals
+ */
+export type MixedLineAccounting = 'code' | 'comment' | 'both';
+
+/**
+ * Which step of the language detection pipeline matched a file
+ */
+export type LanguageDetectionSource = 'languageId' | 'association' | 'filename' | 'extension' | 'shebang' | 'modeline' | 'heuristic' | 'unknown';
+
 export interface LineCountResult {
     workspacePath: string;
     totalFiles: number;
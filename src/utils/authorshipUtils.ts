@@ -0,0 +1,182 @@
+/**
+ * Authorship helpers for VS Code Code Counter Extension
+ */
+
+import { FileAuthor } from '../types';
+
+const MAX_OWNERS = 5;
+
+export interface AuthorTotals {
+    name: string;
+    email: string;
+    team?: string;
+    files: number;
+    lines: number;
+    codeLines: number;
+    commentLines: number;
+    blankLines: number;
+}
+
+export interface TeamTotals {
+    team: string;
+    authors: number;
+    files: number;
+    lines: number;
+    codeLines: number;
+    commentLines: number;
+    blankLines: number;
+}
+
+/**
+ * Attributed lines of a directory or language and the authors with the most of them
+ */
+export interface OwnershipBreakdown {
+    name: string;
+    files: number;
+    lines: number;
+    /** Most lines first, at most five */
+    owners: Array<{ name: string; email: string; lines: number }>;
+}
+
+/**
+ * Authorship totals of a report, for the Authors tab
+ */
+export interface ReportAuthorship {
+    /** Files with authors; the others could not be blamed */
+    attributedFiles: number;
+    authors: AuthorTotals[];
+    /** Empty unless some author has a team; authors without one are listed under "No team" */
+    teams: TeamTotals[];
+    /** By the directory holding the files, '' for the root */
+    directories: OwnershipBreakdown[];
+    languages: OwnershipBreakdown[];
+}
+
+export interface AuthoredFile {
+    relativePath: string;
+    language: string;
+    authors?: FileAuthor[];
+}
+
+/**
+ * Team of an email address from codeCounter.authorship.teams, whose keys are addresses or
+ * "@domain" for a whole domain; exact addresses win
+ */
+export function resolveTeam(email: string, teams: Record<string, string>): string | undefined {
+    const address = email.toLowerCase();
+    const entries = Object.entries(teams).map(([key, team]) => [key.trim().toLowerCase(), team] as const);
+    const exact = entries.find(([key]) => key === address);
+    if (exact) {
+        return exact[1];
+    }
+    return entries.find(([key]) => key.startsWith('@') && address.endsWith(key))?.[1];
+}
+
+/**
+ * Totals per author, team, directory and language; undefined when no file has authors
+ */
+export function summarizeAuthorship(files: AuthoredFile[]): ReportAuthorship | undefined {
+    const authored = files.filter(file => file.authors && file.authors.length > 0);
+    if (authored.length === 0) {
+        return undefined;
+    }
+
+    const authors = new Map<string, AuthorTotals>();
+    const directories = new Map<string, { files: number; lines: number; owners: Map<string, OwnershipBreakdown['owners'][number]> }>();
+    const languages = new Map<string, { files: number; lines: number; owners: Map<string, OwnershipBreakdown['owners'][number]> }>();
+    const addOwnership = (breakdowns: typeof directories, name: string, fileAuthors: FileAuthor[]) => {
+        let breakdown = breakdowns.get(name);
+        if (!breakdown) {
+            breakdown = { files: 0, lines: 0, owners: new Map() };
+            breakdowns.set(name, breakdown);
+        }
+        breakdown.files++;
+        for (const author of fileAuthors) {
+            const key = getAuthorKey(author);
+            const owner = breakdown.owners.get(key) || { name: author.name, email: author.email, lines: 0 };
+            owner.lines += author.lines;
+            breakdown.owners.set(key, owner);
+            breakdown.lines += author.lines;
+        }
+    };
+
+    for (const file of authored) {
+        for (const author of file.authors!) {
+            const key = getAuthorKey(author);
+            const totals = authors.get(key) || {
+                name: author.name,
+                email: author.email,
+                ...(author.team ? { team: author.team } : {}),
+                files: 0, lines: 0, codeLines: 0, commentLines: 0, blankLines: 0
+            };
+            totals.files++;
+            totals.lines += author.lines;
+            totals.codeLines += author.codeLines;
+            totals.commentLines += author.commentLines;
+            totals.blankLines += author.blankLines;
+            authors.set(key, totals);
+        }
+
+        const relativePath = file.relativePath.replace(/\\/g, '/');
+        addOwnership(directories, relativePath.includes('/') ? relativePath.substring(0, relativePath.lastIndexOf('/')) : '', file.authors!);
+        addOwnership(languages, file.language, file.authors!);
+    }
+
+    const authorTotals = [...authors.values()].sort((a, b) => b.lines - a.lines || a.name.localeCompare(b.name));
+    const toBreakdowns = (breakdowns: typeof directories): OwnershipBreakdown[] => [...breakdowns.entries()]
+        .map(([name, breakdown]) => ({
+            name,
+            files: breakdown.files,
+            lines: breakdown.lines,
+            owners: [...breakdown.owners.values()].sort((a, b) => b.lines - a.lines || a.name.localeCompare(b.name)).slice(0, MAX_OWNERS)
+        }))
+        .sort((a, b) => b.lines - a.lines || a.name.localeCompare(b.name));
+
+    return {
+        attributedFiles: authored.length,
+        authors: authorTotals,
+        teams: summarizeTeams(authored),
+        directories: toBreakdowns(directories),
+        languages: toBreakdowns(languages)
+    };
+}
+
+/**
+ * An author as "Name <email>"
+ */
+export function formatAuthor(author: Pick<FileAuthor, 'name' | 'email'>): string {
+    return author.email ? `${author.name} <${author.email}>` : author.name;
+}
+
+function summarizeTeams(files: AuthoredFile[]): TeamTotals[] {
+    if (!files.some(file => file.authors!.some(author => author.team))) {
+        return [];
+    }
+
+    const teams = new Map<string, TeamTotals & { authorKeys: Set<string> }>();
+    for (const file of files) {
+        const fileTeams = new Set<string>();
+        for (const author of file.authors!) {
+            const name = author.team || 'No team';
+            const totals = teams.get(name) || { team: name, authors: 0, files: 0, lines: 0, codeLines: 0, commentLines: 0, blankLines: 0, authorKeys: new Set() };
+            totals.authorKeys.add(getAuthorKey(author));
+            totals.lines += author.lines;
+            totals.codeLines += author.codeLines;
+            totals.commentLines += author.commentLines;
+            totals.blankLines += author.blankLines;
+            if (!fileTeams.has(name)) {
+                fileTeams.add(name);
+                totals.files++;
+            }
+            teams.set(name, totals);
+        }
+    }
+
+    return [...teams.values()]
+        .map(({ authorKeys, ...totals }) => ({ ...totals, authors: authorKeys.size }))
+        .sort((a, b) => b.lines - a.lines || a.team.localeCompare(b.team));
+}
+
+function getAuthorKey(author: Pick<FileAuthor, 'name' | 'email'>): string {
+    return `${author.name}\0${author.email}`;
+}
@@ -0,0 +1,267 @@
+/**
+ * Line count comparison helpers for VS Code Code Counter Extension
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { ColorThreshold } from '../services/lineThresholdService';
+import { SnapshotFileRecord } from '../services/workspaceDatabaseService';
+
+/**
+ * One side of a comparison: a snapshot, the current workspace or an export file
+ */
+export interface DiffSource {
+    title: string;
+    generatedAt?: Date;
+    files: SnapshotFileRecord[];
+}
+
+export type FileChangeStatus = 'added' | 'removed' | 'grown' | 'shrunk';
+
+/**
+ * Lines added and removed according to git, when comparing two revisions
+ */
+export interface LineChangeStats {
+    linesAdded: number;
+    linesRemoved: number;
+}
+
+/**
+ * Line count change of one file; percentChange is undefined for added files
+ */
+export interface FileSizeChange extends Partial<LineChangeStats> {
+    filePath: string;
+    language: string;
+    status: FileChangeStatus;
+    baseLines: number;
+    lines: number;
+    change: number;
+    percentChange?: number;
+    /** Threshold tiers on each side, when known; baseTier is undefined for added files */
+    baseTier?: ColorThreshold;
+    tier?: ColorThreshold;
+}
+
+export interface SizeChange extends Partial<LineChangeStats> {
+    baseFiles: number;
+    files: number;
+    baseLines: number;
+    lines: number;
+    change: number;
+    percentChange?: number;
+}
+
+export interface LanguageSizeChange extends SizeChange {
+    language: string;
+}
+
+/**
+ * Differences between two line count results, from the base to the current side
+ */
+export interface LineCountDiff {
+    base: { title: string; generatedAt?: string };
+    current: { title: string; generatedAt?: string };
+    totals: SizeChange;
+    /** Biggest changes first */
+    languages: LanguageSizeChange[];
+    added: FileSizeChange[];
+    removed: FileSizeChange[];
+    grown: FileSizeChange[];
+    shrunk: FileSizeChange[];
+    unchangedFiles: number;
+    /** Files that moved to another threshold tier, when tiers are known */
+    tierChanges?: FileSizeChange[];
+}
+
+/**
+ * Compare two line count results. lineChanges, keyed by path, adds git's lines added and
+ * removed to each file, language and the totals; files without an entry count their whole
+ * line count change.
+ */
+export function compareLineCounts(base: DiffSource, current: DiffSource, lineChanges?: Map<string, LineChangeStats>): LineCountDiff {
+    const baseFiles = new Map(base.files.map(file => [normalizeDiffPath(file.filePath), file]));
+    const currentFiles = new Map(current.files.map(file => [normalizeDiffPath(file.filePath), file]));
+
+    const added: FileSizeChange[] = [];
+    const removed: FileSizeChange[] = [];
+    const grown: FileSizeChange[] = [];
+    const shrunk: FileSizeChange[] = [];
+    let unchangedFiles = 0;
+
+    for (const [filePath, file] of currentFiles) {
+        const before = baseFiles.get(filePath);
+        if (!before) {
+            added.push(createFileChange(filePath, file.language, 'added', 0, file.lines));
+        } else if (file.lines > before.lines) {
+            grown.push(createFileChange(filePath, file.language, 'grown', before.lines, file.lines));
+        } else if (file.lines < before.lines) {
+            shrunk.push(createFileChange(filePath, file.language, 'shrunk', before.lines, file.lines));
+        } else {
+            unchangedFiles++;
+        }
+    }
+    for (const [filePath, file] of baseFiles) {
+        if (!currentFiles.has(filePath)) {
+            removed.push(createFileChange(filePath, file.language, 'removed', file.lines, 0));
+        }
+    }
+
+    const totals = createSizeChange(base.files.length, current.files.length, sumLines(base.files), sumLines(current.files));
+    const languages = compareLanguages(base.files, current.files);
+    if (lineChanges) {
+        addLineChanges(baseFiles, currentFiles, lineChanges, [...added, ...removed, ...grown, ...shrunk], languages, totals);
+    }
+
+    const byChange = (a: FileSizeChange, b: FileSizeChange) => Math.abs(b.change) - Math.abs(a.change) || a.filePath.localeCompare(b.filePath);
+    return {
+        base: { title: base.title, generatedAt: base.generatedAt?.toISOString() },
+        current: { title: current.title, generatedAt: current.generatedAt?.toISOString() },
+        totals,
+        languages,
+        added: added.sort(byChange),
+        removed: removed.sort(byChange),
+        grown: grown.sort(byChange),
+        shrunk: shrunk.sort(byChange),
+        unchangedFiles
+    };
+}
+
+/**
+ * Files and date of a code-counter-data.json or .xml export. Throws when the content
+ * is not a Code Counter export.
+ */
+export function parseLineCountExport(content: string, format: 'json' | 'xml'): Omit<DiffSource, 'title'> {
+    let generatedAt: unknown;
+    let files: unknown;
+    if (format === 'json') {
+        const data = JSON.parse(content);
+        generatedAt = data?.metadata?.generatedAt;
+        files = data?.files;
+    } else {
+        const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_', isArray: name => name === 'file' });
+        const root = parser.parse(content)?.codeCounter;
+        generatedAt = root?.['@_generatedAt'];
+        files = root?.files ? root.files.file || [] : undefined;
+    }
+
+    if (!Array.isArray(files)) {
+        throw new Error(`Not a Code Counter ${format.toUpperCase()} export: no file list found`);
+    }
+
+    const attribute = (file: any, name: string) => format === 'json' ? file[name] : file[`@_${name}`];
+    const count = (file: any, name: string) => Number(attribute(file, name)) || 0;
+    const date = typeof generatedAt === 'string' ? new Date(generatedAt) : undefined;
+    return {
+        generatedAt: date && !isNaN(date.getTime()) ? date : undefined,
+        files: files
+            .filter(file => typeof attribute(file, 'relativePath') === 'string')
+            .map(file => ({
+                filePath: normalizeDiffPath(attribute(file, 'relativePath')),
+                language: String(attribute(file, 'language') || 'Unknown'),
+                lines: count(file, 'lines'),
+                codeLines: count(file, 'codeLines'),
+                commentLines: count(file, 'commentLines'),
+                blankLines: count(file, 'blankLines'),
+                mixedLines: count(file, 'mixedLines')
+            }))
+    };
+}
+
+/**
+ * Percentage change rounded to one decimal; undefined when there was nothing before
+ */
+export function getPercentChange(before: number, after: number): number | undefined {
+    if (before === 0) {
+        return undefined;
+    }
+    return Math.round(((after - before) / before) * 1000) / 10;
+}
+
+export function formatLineChange(change: number): string {
+    return `${change > 0 ? '+' : ''}${change.toLocaleString()}`;
+}
+
+export function formatPercentChange(percentChange: number | undefined): string {
+    return percentChange === undefined ? 'new' : `${percentChange > 0 ? '+' : ''}${percentChange}%`;
+}
+
+/**
+ * Attach lines added and removed to the changed files and sum them per language (the current
+ * one, else the base one) and in total
+ */
+function addLineChanges(
+    baseFiles: Map<string, SnapshotFileRecord>,
+    currentFiles: Map<string, SnapshotFileRecord>,
+    lineChanges: Map<string, LineChangeStats>,
+    changedFiles: FileSizeChange[],
+    languages: LanguageSizeChange[],
+    totals: SizeChange
+): void {
+    const normalizedChanges = new Map([...lineChanges.entries()].map(([filePath, stats]) => [normalizeDiffPath(filePath), stats]));
+    const statsOf = (filePath: string, baseLines: number, lines: number): LineChangeStats =>
+        normalizedChanges.get(filePath) || { linesAdded: Math.max(0, lines - baseLines), linesRemoved: Math.max(0, baseLines - lines) };
+
+    const byLanguage = new Map(languages.map(language => [language.language, language]));
+    for (const sizeChange of [...languages, totals]) {
+        sizeChange.linesAdded = 0;
+        sizeChange.linesRemoved = 0;
+    }
+    for (const filePath of new Set([...baseFiles.keys(), ...currentFiles.keys()])) {
+        const before = baseFiles.get(filePath);
+        const after = currentFiles.get(filePath);
+        const stats = statsOf(filePath, before?.lines || 0, after?.lines || 0);
+        for (const sizeChange of [byLanguage.get((after || before)!.language), totals]) {
+            if (sizeChange) {
+                sizeChange.linesAdded! += stats.linesAdded;
+                sizeChange.linesRemoved! += stats.linesRemoved;
+            }
+        }
+    }
+    for (const file of changedFiles) {
+        Object.assign(file, statsOf(file.filePath, file.baseLines, file.lines));
+    }
+}
+
+function compareLanguages(baseFiles: SnapshotFileRecord[], currentFiles: SnapshotFileRecord[]): LanguageSizeChange[] {
+    const totals = new Map<string, { baseFiles: number; files: number; baseLines: number; lines: number }>();
+    const totalsOf = (language: string) => {
+        let languageTotals = totals.get(language);
+        if (!languageTotals) {
+            languageTotals = { baseFiles: 0, files: 0, baseLines: 0, lines: 0 };
+            totals.set(language, languageTotals);
+        }
+        return languageTotals;
+    };
+    for (const file of baseFiles) {
+        const languageTotals = totalsOf(file.language);
+        languageTotals.baseFiles++;
+        languageTotals.baseLines += file.lines;
+    }
+    for (const file of currentFiles) {
+        const languageTotals = totalsOf(file.language);
+        languageTotals.files++;
+        languageTotals.lines += file.lines;
+    }
+
+    return [...totals.entries()]
+        .map(([language, languageTotals]) => ({
+            language,
+            ...createSizeChange(languageTotals.baseFiles, languageTotals.files, languageTotals.baseLines, languageTotals.lines)
+        }))
+        .sort((a, b) => Math.abs(b.change) - Math.abs(a.change) || b.lines - a.lines || a.language.localeCompare(b.language));
+}
+
+function createFileChange(filePath: string, language: string, status: FileChangeStatus, baseLines: number, lines: number): FileSizeChange {
+    return { filePath, language, status, baseLines, lines, change: lines - baseLines, percentChange: getPercentChange(baseLines, lines) };
+}
+
+function createSizeChange(baseFiles: number, files: number, baseLines: number, lines: number): SizeChange {
+    return { baseFiles, files, baseLines, lines, change: lines - baseLines, percentChange: getPercentChange(baseLines, lines) };
+}
+
+function sumLines(files: SnapshotFileRecord[]): number {
+    return files.reduce((sum, file) => sum + file.lines, 0);
+}
+
+function normalizeDiffPath(filePath: string): string {
+    return filePath.replace(/\\/g, '/');
+}
@@ -7,7 +7,7 @@ import * as fs from 'fs';
 import * as vscode from 'vscode';
 import { DebugService } from '../services/debugService';
 import { WorkspaceSettings } from '../services/workspaceDatabaseService';
-import { getWorkspaceService } from './workspaceUtils';
+import { getWorkspaceService, getWorkspaceFolderPath } from './workspaceUtils';
 import { safeRelativePath } from './pathUtils';
 import { refreshFileExplorerDecorator, invalidateWorkspaceServiceCache } from '../shared/extensionUtils';
 
@@ -22,7 +22,7 @@ export async function findNearestConfigDirectory(filePath: string): Promise<stri
         throw new Error('No workspace folder is open');
     }
 
-    const workspacePath = workspaceFolders[0].uri.fsPath;
+    const workspacePath = getWorkspaceFolderPath(filePath)!;
     debug.verbose('findNearestConfigDirectory: workspacePath =', workspacePath);
     debug.verbose('findNearestConfigDirectory: filePath =', filePath);
     
@@ -84,7 +84,7 @@ export async function addExclusionPattern(filePath: string, pattern: string): Pr
         throw new Error('No workspace folder is open');
     }
 
-    const workspacePath = workspaceFolders[0].uri.fsPath;
+    const workspacePath = getWorkspaceFolderPath(filePath)!;
     const workspaceService = getWorkspaceService(workspacePath);
     
     // Find the appropriate directory for this file
@@ -258,8 +258,8 @@ export async function handleExcludeRelativePath(resource: vscode.Uri): Promise<v
             return;
         }
 
-        const workspacePath = workspaceFolders[0].uri.fsPath;
         const filePath = resource.fsPath;
+        const workspacePath = getWorkspaceFolderPath(filePath)!;
         
         debug.verbose('handleExcludeRelativePath: resource =', resource);
         debug.verbose('handleExcludeRelativePath: resource.fsPath =', resource.fsPath);
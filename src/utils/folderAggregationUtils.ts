@@ -0,0 +1,94 @@
+/**
+ * Folder badge aggregation helpers for VS Code Code Counter Extension
+ */
+
+/**
+ * The folder metric that decides a folder badge's tier
+ */
+export type FolderAggregationMode = 'total' | 'average' | 'median' | 'p90' | 'max' | 'dangerShare';
+
+export interface FolderThresholds {
+    mid: number;
+    high: number;
+}
+
+/**
+ * Every folder aggregate; dangerShare is the percentage of files in the danger tier
+ */
+export interface FolderMetrics {
+    total: number;
+    average: number;
+    median: number;
+    p90: number;
+    max: number;
+    dangerShare: number;
+}
+
+export const FOLDER_AGGREGATION_MODES: FolderAggregationMode[] = ['total', 'average', 'median', 'p90', 'max', 'dangerShare'];
+
+export const FOLDER_AGGREGATION_LABELS: Record<FolderAggregationMode, string> = {
+    total: 'Total',
+    average: 'Average',
+    median: 'Median',
+    p90: '90th percentile',
+    max: 'Maximum',
+    dangerShare: 'Danger tier'
+};
+
+/**
+ * Folder thresholds per mode; line counts except dangerShare, which is a percentage
+ */
+export const DEFAULT_FOLDER_THRESHOLDS: Record<FolderAggregationMode, FolderThresholds> = {
+    total: { mid: 5000, high: 20000 },
+    average: { mid: 300, high: 1000 },
+    median: { mid: 300, high: 1000 },
+    p90: { mid: 600, high: 1500 },
+    max: { mid: 1000, high: 3000 },
+    dangerShare: { mid: 10, high: 25 }
+};
+
+export function isFolderAggregationMode(value: unknown): value is FolderAggregationMode {
+    return typeof value === 'string' && (FOLDER_AGGREGATION_MODES as string[]).includes(value);
+}
+
+/**
+ * Nearest-rank percentile of ascending line counts
+ */
+export function percentile(sortedLines: readonly number[], percent: number): number {
+    if (sortedLines.length === 0) {
+        return 0;
+    }
+    const rank = Math.ceil((percent / 100) * sortedLines.length);
+    return sortedLines[Math.min(Math.max(rank, 1), sortedLines.length) - 1];
+}
+
+/**
+ * All folder aggregates from the ascending line counts of the files below a folder.
+ * Files with at least dangerThreshold lines count toward dangerShare.
+ */
+export function computeFolderMetrics(sortedLines: readonly number[], dangerThreshold: number): FolderMetrics {
+    const count = sortedLines.length;
+    if (count === 0) {
+        return { total: 0, average: 0, median: 0, p90: 0, max: 0, dangerShare: 0 };
+    }
+
+    const total = sortedLines.reduce((sum, lines) => sum + lines, 0);
+    const middle = Math.floor(count / 2);
+    const median = count % 2 === 1
+        ? sortedLines[middle]
+        : Math.round((sortedLines[middle - 1] + sortedLines[middle]) / 2);
+    const dangerFiles = sortedLines.filter(lines => lines >= dangerThreshold).length;
+
+    return {
+        total,
+        average: Math.round(total / count),
+        median,
+        p90: percentile(sortedLines, 90),
+        max: sortedLines[count - 1],
+        dangerShare: Math.round((dangerFiles / count) * 100)
+    };
+}
+
+export function formatFolderMetric(mode: FolderAggregationMode, value: number): string {
+    return mode === 'dangerShare' ? `${value}% of files` : `${value.toLocaleString()} lines`;
+}
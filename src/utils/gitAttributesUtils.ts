@@ -0,0 +1,84 @@
+/**
+ * Git attributes (.gitattributes) helpers for VS Code Code Counter Extension
+ */
+
+import * as path from 'path';
+import { Minimatch } from 'minimatch';
+import { LinguistCategory } from '../types';
+import { createGitPatternMatcher } from './ignoreFileUtils';
+
+/**
+ * Linguist attributes and the category they mark, in order of precedence when a file has several
+ */
+export const LINGUIST_ATTRIBUTES: ReadonlyArray<[string, LinguistCategory]> = [
+    ['linguist-generated', 'generated'],
+    ['linguist-vendored', 'vendored'],
+    ['linguist-documentation', 'documentation']
+];
+
+/**
+ * One line of a .gitattributes file that sets linguist attributes
+ */
+export interface GitAttributesRule {
+    /** The pattern as written in the attributes file */
+    pattern: string;
+    /** Directory the pattern is relative to */
+    baseDir: string;
+    /** Categories the line sets (true), unsets (false) or resets to unspecified (undefined) */
+    linguist: Map<LinguistCategory, boolean | undefined>;
+    matcher: Minimatch;
+}
+
+/**
+ * Parse the linguist attributes of a .gitattributes file. Patterns follow gitignore anchoring;
+ * as in git, negative patterns and "[attr]" macro definitions are skipped, and "dir/" patterns
+ * match no file. "attr" and "attr=true" set an attribute, "-attr" and "attr=false" unset it and
+ * "!attr" makes it unspecified again.
+ */
+export function parseGitAttributes(content: string, baseDir: string): GitAttributesRule[] {
+    const rules: GitAttributesRule[] = [];
+    for (const rawLine of content.split(/\r?\n/)) {
+        const [pattern, ...attributes] = rawLine.trim().split(/\s+/);
+        if (!pattern || pattern.startsWith('#') || pattern.startsWith('!') || pattern.startsWith('[attr]') || pattern.endsWith('/')) {
+            continue;
+        }
+
+        const linguist = new Map<LinguistCategory, boolean | undefined>();
+        for (const attribute of attributes) {
+            const [, prefix, name, value] = /^([-!]?)([^=]+)(?:=(.*))?$/.exec(attribute) || [];
+            const category = LINGUIST_ATTRIBUTES.find(([attributeName]) => attributeName === name)?.[1];
+            if (!category) {
+                continue;
+            }
+            if (prefix === '!') {
+                linguist.set(category, undefined);
+            } else {
+                linguist.set(category, prefix !== '-' && value !== 'false');
+            }
+        }
+        if (linguist.size > 0) {
+            rules.push({ pattern, baseDir, linguist, matcher: createGitPatternMatcher(pattern) });
+        }
+    }
+    return rules;
+}
+
+/**
+ * Linguist category of a file, or undefined when it has none. For each attribute the last
+ * matching rule that mentions it wins, so rules of deeper .gitattributes files go last.
+ */
+export function getLinguistCategory(rules: GitAttributesRule[], filePath: string): LinguistCategory | undefined {
+    const matchingRules = rules.filter(rule => {
+        const relativePath = path.relative(rule.baseDir, filePath).replace(/\\/g, '/');
+        return relativePath && relativePath !== '..' && !relativePath.startsWith('../') && !path.isAbsolute(relativePath)
+            && rule.matcher.match(relativePath);
+    });
+
+    for (const [, category] of LINGUIST_ATTRIBUTES) {
+        const decidingRule = [...matchingRules].reverse().find(rule => rule.linguist.has(category));
+        if (decidingRule?.linguist.get(category)) {
+            return category;
+        }
+    }
+    return undefined;
+}
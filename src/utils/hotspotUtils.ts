@@ -0,0 +1,102 @@
+/**
+ * Hotspot analysis helpers for VS Code Code Counter Extension
+ */
+
+import { FileHotspot, FileInfo, HotspotQuadrant } from '../types';
+import { GitFileChurn } from '../services/gitService';
+
+/**
+ * Where the quadrant chart splits large from small files and often from rarely changed ones
+ */
+export interface HotspotThresholds {
+    /** Median lines of all files */
+    sizeThreshold: number;
+    /** Median commits of the files that changed in the window */
+    churnThreshold: number;
+}
+
+/**
+ * Hotspot settings and thresholds of a report, for the Hotspots tab
+ */
+export interface ReportHotspots extends HotspotThresholds {
+    /** History window in days; 0 for the whole history */
+    windowDays: number;
+}
+
+interface HotspotCandidate {
+    lines: number;
+    hotspot?: Pick<FileHotspot, 'commits'>;
+}
+
+/**
+ * Attach the churn of each file and rank the files by hotspot score: relative size times
+ * relative churn, where churn averages the relative commit count and lines changed
+ */
+export function rankHotspots(files: FileInfo[], churn: Map<string, GitFileChurn>): void {
+    const fileChurn = files.map(file => churn.get(file.relativePath.replace(/\\/g, '/')) || { commits: 0, linesAdded: 0, linesRemoved: 0 });
+    const maxLines = files.reduce((max, file) => Math.max(max, file.lines), 0);
+    const maxCommits = fileChurn.reduce((max, current) => Math.max(max, current.commits), 0);
+    const maxChanged = fileChurn.reduce((max, current) => Math.max(max, current.linesAdded + current.linesRemoved), 0);
+    const ratio = (value: number, max: number) => max > 0 ? value / max : 0;
+
+    files.forEach((file, index) => {
+        const { commits, linesAdded, linesRemoved } = fileChurn[index];
+        const churnRatio = (ratio(commits, maxCommits) + ratio(linesAdded + linesRemoved, maxChanged)) / 2;
+        file.hotspot = {
+            commits,
+            linesAdded,
+            linesRemoved,
+            score: Math.round(ratio(file.lines, maxLines) * churnRatio * 1000) / 10,
+            quadrant: 'stable'
+        };
+    });
+
+    const thresholds = getHotspotThresholds(files)!;
+    for (const file of files) {
+        file.hotspot!.quadrant = getHotspotQuadrant(file.lines, file.hotspot!.commits, thresholds);
+    }
+
+    files
+        .filter(file => file.hotspot!.commits > 0)
+        .sort((a, b) => b.hotspot!.score - a.hotspot!.score
+            || b.hotspot!.commits - a.hotspot!.commits
+            || (b.hotspot!.linesAdded + b.hotspot!.linesRemoved) - (a.hotspot!.linesAdded + a.hotspot!.linesRemoved)
+            || a.relativePath.localeCompare(b.relativePath))
+        .forEach((file, index) => file.hotspot!.rank = index + 1);
+}
+
+/**
+ * Quadrant thresholds of files with hotspot data; undefined when there is none
+ */
+export function getHotspotThresholds(files: HotspotCandidate[]): HotspotThresholds | undefined {
+    const analyzed = files.filter(file => file.hotspot);
+    if (analyzed.length === 0) {
+        return undefined;
+    }
+    return {
+        sizeThreshold: median(analyzed.map(file => file.lines)),
+        churnThreshold: median(analyzed.map(file => file.hotspot!.commits).filter(commits => commits > 0))
+    };
+}
+
+/**
+ * Quadrant of a file; a file changes often when it has at least the median commits of the
+ * changed files, and is large with at least the median lines
+ */
+export function getHotspotQuadrant(lines: number, commits: number, thresholds: HotspotThresholds): HotspotQuadrant {
+    const large = lines >= thresholds.sizeThreshold;
+    const often = commits > 0 && commits >= thresholds.churnThreshold;
+    if (often) {
+        return large ? 'hotspot' : 'churning';
+    }
+    return large ? 'large' : 'stable';
+}
+
+function median(values: number[]): number {
+    if (values.length === 0) {
+        return 0;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
@@ -0,0 +1,104 @@
+/**
+ * Ignore file (.gitignore, .ignore, git excludes) helpers for VS Code Code Counter Extension
+ */
+
+import * as path from 'path';
+import { Minimatch } from 'minimatch';
+
+/**
+ * One pattern line of an ignore file
+ */
+export interface IgnoreRule {
+    /** The pattern as written in the ignore file */
+    pattern: string;
+    /** Ignore file the pattern comes from */
+    source: string;
+    /** Directory the pattern is relative to */
+    baseDir: string;
+    /** "!pattern", which re-includes what earlier patterns ignored */
+    negated: boolean;
+    /** "pattern/", which only matches directories */
+    directoryOnly: boolean;
+    matcher: Minimatch;
+}
+
+// git globs have no braces or extglobs; "!" and "#" are handled while parsing
+const GIT_PATTERN_MINIMATCH_OPTIONS = {
+    dot: true,
+    nobrace: true,
+    noext: true,
+    nonegate: true,
+    nocomment: true
+};
+
+/**
+ * Parse the content of an ignore file with gitignore semantics: blank lines and "#" comments
+ * are skipped, "\#" and "\!" escape a leading "#" or "!", unescaped trailing spaces are trimmed,
+ * a slash at the start or in the middle anchors the pattern to baseDir, otherwise it matches at
+ * any depth, and a trailing slash only matches directories.
+ */
+export function parseIgnoreFile(content: string, baseDir: string, source: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const rawLine of content.split(/\r?\n/)) {
+        const trimmedLine = rawLine.replace(/(?<!\\)\s+$/, '');
+        if (!trimmedLine || trimmedLine.startsWith('#')) {
+            continue;
+        }
+
+        let line = trimmedLine;
+
+        const negated = line.startsWith('!');
+        if (negated) {
+            line = line.substring(1);
+        }
+        const directoryOnly = line.endsWith('/');
+        if (directoryOnly) {
+            line = line.replace(/\/+$/, '');
+        }
+        if (!line) {
+            continue;
+        }
+
+        rules.push({
+            pattern: trimmedLine,
+            source,
+            baseDir,
+            negated,
+            directoryOnly,
+            matcher: createGitPatternMatcher(line)
+        });
+    }
+    return rules;
+}
+
+/**
+ * Matcher of a gitignore or gitattributes pattern against paths relative to its file's
+ * directory: a slash at the start or in the middle anchors it there, otherwise it matches
+ * a name at any depth
+ */
+export function createGitPatternMatcher(pattern: string): Minimatch {
+    const glob = pattern.includes('/') ? pattern.replace(/^\/+/, '') : `**/${pattern}`;
+    return new Minimatch(glob, GIT_PATTERN_MINIMATCH_OPTIONS);
+}
+
+/**
+ * The last rule matching a path, which decides whether it is ignored: the path is ignored
+ * unless the rule is negated. Rules only see paths below their baseDir; later rules take
+ * precedence. Parent directories are not considered, see IgnoreFileService.
+ */
+export function findMatchingIgnoreRule(rules: IgnoreRule[], filePath: string, isDirectory: boolean): IgnoreRule | undefined {
+    for (let index = rules.length - 1; index >= 0; index--) {
+        const rule = rules[index];
+        if (rule.directoryOnly && !isDirectory) {
+            continue;
+        }
+        const relativePath = path.relative(rule.baseDir, filePath).replace(/\\/g, '/');
+        if (!relativePath || relativePath === '..' || relativePath.startsWith('../') || path.isAbsolute(relativePath)) {
+            continue;
+        }
+        if (rule.matcher.match(relativePath)) {
+            return rule;
+        }
+    }
+    return undefined;
+}
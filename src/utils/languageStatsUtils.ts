@@ -0,0 +1,108 @@
+/**
+ * Language statistics helpers for VS Code Code Counter Extension
+ */
+
+import { LanguageSection } from '../types';
+
+/**
+ * The per-file fields needed to attribute lines to languages
+ */
+export interface LanguageCountedFile {
+    language: string;
+    lines: number;
+    codeLines: number;
+    commentLines: number;
+    blankLines: number;
+    mixedLines?: number;
+    languageSections?: LanguageSection[];
+}
+
+export interface LanguageTotals {
+    name: string;
+    files: number;
+    lines: number;
+    codeLines: number;
+    commentLines: number;
+    blankLines: number;
+    mixedLines: number;
+}
+
+/**
+ * Lines of a file per language: its embedded-language sections when present,
+ * otherwise the whole file under its own language
+ */
+export function getLanguageSections(file: LanguageCountedFile): LanguageSection[] {
+    if (file.languageSections && file.languageSections.length > 0) {
+        return file.languageSections;
+    }
+    return [{
+        language: file.language || 'Unknown',
+        lines: file.lines || 0,
+        codeLines: file.codeLines || 0,
+        commentLines: file.commentLines || 0,
+        blankLines: file.blankLines || 0,
+        mixedLines: file.mixedLines || 0
+    }];
+}
+
+/**
+ * Totals per language. A file with embedded languages (e.g. .vue) counts once
+ * for every language it contains and adds only that language's lines to it.
+ */
+export function aggregateLanguages(files: LanguageCountedFile[]): LanguageTotals[] {
+    const totals = new Map<string, LanguageTotals>();
+
+    for (const file of files) {
+        for (const section of getLanguageSections(file)) {
+            let entry = totals.get(section.language);
+            if (!entry) {
+                entry = { name: section.language, files: 0, lines: 0, codeLines: 0, commentLines: 0, blankLines: 0, mixedLines: 0 };
+                totals.set(section.language, entry);
+            }
+            entry.files++;
+            entry.lines += section.lines;
+            entry.codeLines += section.codeLines;
+            entry.commentLines += section.commentLines;
+            entry.blankLines += section.blankLines;
+            entry.mixedLines += section.mixedLines;
+        }
+    }
+
+    return [...totals.values()];
+}
+
+/**
+ * Add one file to a LineCountResult.languageStats map
+ */
+export function addToLanguageStats(
+    languageStats: { [language: string]: { files: number; lines: number } },
+    file: LanguageCountedFile
+): void {
+    for (const section of getLanguageSections(file)) {
+        if (!languageStats[section.language]) {
+            languageStats[section.language] = { files: 0, lines: 0 };
+        }
+        languageStats[section.language].files++;
+        languageStats[section.language].lines += section.lines;
+    }
+}
+
+/**
+ * Take one file back out of a LineCountResult.languageStats map
+ */
+export function removeFromLanguageStats(
+    languageStats: { [language: string]: { files: number; lines: number } },
+    file: LanguageCountedFile
+): void {
+    for (const section of getLanguageSections(file)) {
+        const entry = languageStats[section.language];
+        if (!entry) {
+            continue;
+        }
+        entry.files--;
+        entry.lines -= section.lines;
+        if (entry.files <= 0) {
+            delete languageStats[section.language];
+        }
+    }
+}
@@ -0,0 +1,76 @@
+/**
+ * Line delta helpers for VS Code Code Counter Extension
+ */
+
+import * as path from 'path';
+import { ColorThreshold } from '../services/lineThresholdService';
+import { FileSizeChange } from './diffUtils';
+
+const TIER_ORDER: ColorThreshold[] = ['normal', 'warning', 'danger'];
+
+/**
+ * Rolled-up line delta of the changed files below a folder
+ */
+export interface FolderLineDelta {
+    files: number;
+    /** Net change of all changed files */
+    change: number;
+    /** Lines gained by the files that grew or were added */
+    grownLines: number;
+    /** Lines lost by the files that shrank or were removed */
+    shrunkLines: number;
+    /** Files that moved to a higher threshold tier */
+    raisedTiers: number;
+}
+
+/**
+ * Whether a file is in a higher threshold tier than at the base; added files start as normal
+ */
+export function isTierRaised(file: Pick<FileSizeChange, 'tier' | 'baseTier'>): boolean {
+    return !!file.tier && TIER_ORDER.indexOf(file.tier) > TIER_ORDER.indexOf(file.baseTier || 'normal');
+}
+
+/**
+ * Totals of the changed files, keyed by absolute path, below a folder; undefined when none changed
+ */
+export function summarizeFolderDelta(files: Map<string, FileSizeChange>, folderPath: string): FolderLineDelta | undefined {
+    const prefix = folderPath.endsWith(path.sep) ? folderPath : folderPath + path.sep;
+    const summary: FolderLineDelta = { files: 0, change: 0, grownLines: 0, shrunkLines: 0, raisedTiers: 0 };
+    for (const [filePath, file] of files) {
+        if (!filePath.startsWith(prefix)) {
+            continue;
+        }
+        summary.files++;
+        summary.change += file.change;
+        if (file.change > 0) {
+            summary.grownLines += file.change;
+        } else {
+            summary.shrunkLines -= file.change;
+        }
+        if (isTierRaised(file)) {
+            summary.raisedTiers++;
+        }
+    }
+    return summary.files > 0 ? summary : undefined;
+}
+
+/**
+ * A line delta as "+120", "-30" or "±0"
+ */
+export function formatLineDelta(change: number): string {
+    if (change === 0) {
+        return '±0';
+    }
+    return change > 0 ? `+${change.toLocaleString()}` : `-${Math.abs(change).toLocaleString()}`;
+}
+
+/**
+ * Explorer badge of a line delta. Badges hold at most two characters, so deltas of ten
+ * lines or more show as an arrow and the tooltip carries the number.
+ */
+export function formatLineDeltaBadge(change: number): string {
+    if (Math.abs(change) < 10) {
+        return formatLineDelta(change);
+    }
+    return change > 0 ? '↑' : '↓';
+}
@@ -0,0 +1,116 @@
+/**
+ * Line count snapshot helpers for VS Code Code Counter Extension
+ */
+
+import { FileInfo, LineCountResult } from '../types';
+import { GitCommit } from '../services/gitService';
+import { LineCountSnapshot, SnapshotFileRecord, SnapshotLanguageRecord, SnapshotTotals } from '../services/workspaceDatabaseService';
+import { aggregateLanguages } from './languageStatsUtils';
+
+/**
+ * Limits for automatic pruning; 0 turns a limit off. Labelled snapshots are always kept.
+ */
+export interface SnapshotRetentionPolicy {
+    maxCount: number;
+    maxAgeDays: number;
+}
+
+/**
+ * The rows a count result is stored as
+ */
+export interface SnapshotContent {
+    totals: SnapshotTotals;
+    files: SnapshotFileRecord[];
+    languages: SnapshotLanguageRecord[];
+}
+
+/**
+ * Which past commits a history backfill counts
+ */
+export type BackfillInterval =
+    | { kind: 'commits'; every: number }
+    | { kind: 'days'; every: number }
+    | { kind: 'tags' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createSnapshotContent(result: LineCountResult): SnapshotContent {
+    const files = result.files.map(toSnapshotFileRecord);
+
+    const totals: SnapshotTotals = { files: files.length, lines: 0, codeLines: 0, commentLines: 0, blankLines: 0, mixedLines: 0 };
+    for (const file of files) {
+        totals.lines += file.lines;
+        totals.codeLines += file.codeLines;
+        totals.commentLines += file.commentLines;
+        totals.blankLines += file.blankLines;
+        totals.mixedLines += file.mixedLines;
+    }
+
+    const languages = aggregateLanguages(result.files).map(({ name, ...languageTotals }) => ({ language: name, ...languageTotals }));
+    return { totals, files, languages };
+}
+
+export function toSnapshotFileRecord(file: FileInfo): SnapshotFileRecord {
+    return {
+        filePath: file.relativePath.replace(/\\/g, '/'),
+        language: file.language,
+        lines: file.lines,
+        codeLines: file.codeLines,
+        commentLines: file.commentLines,
+        blankLines: file.blankLines,
+        mixedLines: file.mixedLines || 0
+    };
+}
+
+/**
+ * Unlabelled snapshots beyond the retention policy, newest first: those older than
+ * maxAgeDays, then the oldest of the rest above maxCount
+ */
+export function selectSnapshotsToPrune(snapshots: LineCountSnapshot[], policy: SnapshotRetentionPolicy, now: Date = new Date()): LineCountSnapshot[] {
+    const unlabelled = snapshots
+        .filter(snapshot => !snapshot.label)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+
+    const pruned: LineCountSnapshot[] = [];
+    const kept: LineCountSnapshot[] = [];
+    for (const snapshot of unlabelled) {
+        const tooOld = policy.maxAgeDays > 0 && now.getTime() - snapshot.createdAt.getTime() > policy.maxAgeDays * DAY_MS;
+        (tooOld ? pruned : kept).push(snapshot);
+    }
+    if (policy.maxCount > 0) {
+        pruned.push(...kept.slice(policy.maxCount));
+    }
+    return unlabelled.filter(snapshot => pruned.includes(snapshot));
+}
+
+/**
+ * Commits of a history (oldest first) spaced by a commit or day interval, oldest first.
+ * Spacing starts from the newest commit so the backfill joins up with the present; a tag
+ * interval keeps every commit, as the history is then the list of tagged commits.
+ */
+export function selectBackfillCommits(commits: GitCommit[], interval: BackfillInterval): GitCommit[] {
+    if (interval.kind === 'tags') {
+        return [...commits];
+    }
+
+    const every = Math.max(1, Math.floor(interval.every));
+    const selected: GitCommit[] = [];
+    for (let i = commits.length - 1; i >= 0; i--) {
+        const commit = commits[i];
+        const previous = selected[selected.length - 1];
+        const keep = interval.kind === 'commits'
+            ? (commits.length - 1 - i) % every === 0
+            : !previous || previous.date.getTime() - commit.date.getTime() >= every * DAY_MS;
+        if (keep) {
+            selected.push(commit);
+        }
+    }
+    return selected.reverse();
+}
+
+/**
+ * Label of a snapshot, or its date and time when it has none
+ */
+export function getSnapshotTitle(snapshot: LineCountSnapshot): string {
+    return snapshot.label || snapshot.createdAt.toLocaleString();
+}
@@ -0,0 +1,159 @@
+/**
+ * Line count trend helpers for VS Code Code Counter Extension
+ */
+
+import { LineCountSnapshot, SnapshotFileRecord, SnapshotLanguageRecord, SnapshotTotals } from '../services/workspaceDatabaseService';
+
+/**
+ * Workspace totals at one point in time; languages holds the total lines per language
+ */
+export interface TrendPoint extends SnapshotTotals {
+    date: string;
+    label?: string;
+    commit?: string;
+    languages: Record<string, number>;
+}
+
+/**
+ * Line count history shown in the report's Trends tab
+ */
+export interface ReportTrends {
+    /** Oldest first */
+    points: TrendPoint[];
+    /**
+     * Lines of each file, by report-relative path, at the points from fileHistoryStart on;
+     * null where the file did not exist
+     */
+    fileHistory: Record<string, Array<number | null>>;
+    fileHistoryStart: number;
+}
+
+/**
+ * The snapshot of each workspace folder in effect at one point of a combined timeline;
+ * undefined for folders without a snapshot yet
+ */
+export interface TrendTimelineEntry {
+    createdAt: Date;
+    snapshots: Array<LineCountSnapshot | undefined>;
+    /** The snapshot that starts this point */
+    latest: LineCountSnapshot;
+}
+
+export interface SnapshotDetails {
+    languages: SnapshotLanguageRecord[];
+    /** Only loaded for the points that make up the file history */
+    files?: SnapshotFileRecord[];
+}
+
+const TOTAL_KEYS: Array<keyof SnapshotTotals> = ['files', 'lines', 'codeLines', 'commentLines', 'blankLines', 'mixedLines'];
+
+/**
+ * Merge the snapshots of several workspace folders into one timeline, oldest first. Each
+ * snapshot starts a point that combines it with the latest earlier snapshot of every other folder.
+ */
+export function buildTrendTimeline(roots: LineCountSnapshot[][]): TrendTimelineEntry[] {
+    const events = roots
+        .flatMap((snapshots, rootIndex) => snapshots.map(snapshot => ({ rootIndex, snapshot })))
+        .sort((a, b) => a.snapshot.createdAt.getTime() - b.snapshot.createdAt.getTime() || a.snapshot.id - b.snapshot.id);
+
+    const current: Array<LineCountSnapshot | undefined> = roots.map(() => undefined);
+    return events.map(({ rootIndex, snapshot }) => {
+        current[rootIndex] = snapshot;
+        return { createdAt: snapshot.createdAt, snapshots: [...current], latest: snapshot };
+    });
+}
+
+/**
+ * Report trends from a timeline. rootPrefixes holds the path prefix of each folder's files,
+ * e.g. "app/" in a combined multi-root report. File history covers the last historyPoints points.
+ */
+export function buildReportTrends(
+    timeline: TrendTimelineEntry[],
+    getDetails: (rootIndex: number, snapshot: LineCountSnapshot) => SnapshotDetails,
+    rootPrefixes: string[],
+    historyPoints: number
+): ReportTrends {
+    const points = timeline.map(entry => {
+        const point: TrendPoint = {
+            date: entry.createdAt.toISOString(),
+            label: entry.latest.label,
+            commit: entry.latest.commit,
+            files: 0, lines: 0, codeLines: 0, commentLines: 0, blankLines: 0, mixedLines: 0,
+            languages: {}
+        };
+        entry.snapshots.forEach((snapshot, rootIndex) => {
+            if (!snapshot) {
+                return;
+            }
+            for (const key of TOTAL_KEYS) {
+                point[key] += snapshot[key];
+            }
+            for (const language of getDetails(rootIndex, snapshot).languages) {
+                point.languages[language.language] = (point.languages[language.language] || 0) + language.lines;
+            }
+        });
+        return point;
+    });
+
+    const fileHistoryStart = Math.max(0, timeline.length - historyPoints);
+    const historyLength = timeline.length - fileHistoryStart;
+    const fileHistory: Record<string, Array<number | null>> = {};
+    timeline.slice(fileHistoryStart).forEach((entry, offset) => {
+        entry.snapshots.forEach((snapshot, rootIndex) => {
+            if (!snapshot) {
+                return;
+            }
+            for (const file of getDetails(rootIndex, snapshot).files || []) {
+                const key = `${rootPrefixes[rootIndex] || ''}${file.filePath}`;
+                const history = fileHistory[key] || (fileHistory[key] = new Array(historyLength).fill(null));
+                history[offset] = file.lines;
+            }
+        });
+    });
+
+    return { points, fileHistory, fileHistoryStart };
+}
+
+/**
+ * Points between two local dates (YYYY-MM-DD), both inclusive; a missing bound is open
+ */
+export function filterTrendPoints(points: TrendPoint[], from?: string, to?: string): TrendPoint[] {
+    const start = from ? new Date(`${from}T00:00:00`).getTime() : -Infinity;
+    const end = to ? new Date(`${to}T23:59:59.999`).getTime() : Infinity;
+    return points.filter(point => {
+        const time = new Date(point.date).getTime();
+        return time >= start && time <= end;
+    });
+}
+
+/**
+ * CSV of the trend series, one row per point and one column per language, ordered by
+ * each language's most recent line count
+ */
+export function formatTrendsCsv(points: TrendPoint[]): string {
+    const languageLines = new Map<string, number>();
+    for (const point of points) {
+        for (const [language, lines] of Object.entries(point.languages)) {
+            languageLines.set(language, lines);
+        }
+    }
+    const languages = [...languageLines.keys()].sort((a, b) => languageLines.get(b)! - languageLines.get(a)! || a.localeCompare(b));
+
+    const headers = ['Date', 'Label', 'Commit', 'Files', 'Total Lines', 'Code Lines', 'Comment Lines', 'Blank Lines', 'Mixed Lines', ...languages];
+    const rows = points.map(point => [
+        point.date,
+        escapeCsvField(point.label || ''),
+        point.commit || '',
+        ...TOTAL_KEYS.map(key => point[key].toString()),
+        ...languages.map(language => (point.languages[language] || 0).toString())
+    ]);
+
+    return [headers.map(escapeCsvField), ...rows].map(row => row.join(',')).join('\n');
+}
+
+function escapeCsvField(field: string): string {
+    if (field.includes(',') || field.includes('"') || field.includes('\n') || field.includes('\r')) {
+        return `"${field.replace(/"/g, '""')}"`;
+    }
+    return field;
+}
@@ -4,6 +4,7 @@
 
 import * as path from 'path';
 import * as fs from 'fs';
+import * as vscode from 'vscode';
 import { DirectoryNode } from '../services/workspaceSettingsService';
 import { WorkspaceDatabaseService, ResolvedSettings } from '../services/workspaceDatabaseService';
 import { DebugService } from '../services/debugService';
@@ -31,6 +32,15 @@ export function getWorkspaceService(workspacePath: string): WorkspaceDatabaseSer
     return workspaceServiceCache.get(normalizedPath)!;
 }
 
+/**
+ * Path of the workspace folder containing a file or directory. Paths outside every
+ * root fall back to the first folder; undefined when no folder is open.
+ */
+export function getWorkspaceFolderPath(fsPath: string): string | undefined {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath));
+    return (folder || vscode.workspace.workspaceFolders?.[0])?.uri.fsPath;
+}
+
 /**
  * Invalidate cache for a specific workspace (forces fresh reload on next access)
  */
@@ -0,0 +1,63 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+import { MixedLineAccounting } from '../types';
+import { LanguageDefinition, LanguageDetection, LanguageHeuristic } from '../services/languageTable';
+import { CountedFile } from '../services/lineCountEngine';
+
+/**
+ * Messages exchanged between LineCountWorkerPool and lineCountWorker.
+ * Everything here must survive structured cloning (no classes, RegExps or functions).
+ */
+
+/**
+ * Passed as `workerData` when a worker starts
+ */
+export interface LineCountWorkerData {
+    languages: LanguageDefinition[];
+    heuristics: LanguageHeuristic[];
+    mixedLineAccounting: MixedLineAccounting;
+}
+
+export interface LineCountWorkerFile {
+    filePath: string;
+    /** Language already decided by the extension host (open editor, files.associations) */
+    detection?: LanguageDetection;
+}
+
+export interface LineCountWorkerRequest {
+    type: 'count';
+    batchId: number;
+    workspacePath: string;
+    files: LineCountWorkerFile[];
+}
+
+export type LineCountWorkerResponse =
+    | { type: 'result'; batchId: number; counted: CountedFile }
+    | { type: 'error'; batchId: number; filePath: string; message: string }
+    | { type: 'done'; batchId: number };
@@ -0,0 +1,74 @@
+/**
+ * VS Code Code Counter Extension
+ * 
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ * 
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ * 
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ * 
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ * 
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+/**
+ * Worker thread entry point: counts lines for batches of files sent by
+ * LineCountWorkerPool. Must not import anything that depends on `vscode`.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { LanguageTable } from '../services/languageTable';
+import { LineCountEngine } from '../services/lineCountEngine';
+import { LineCountWorkerData, LineCountWorkerRequest, LineCountWorkerResponse } from './lineCountMessages';
+
+const data = workerData as LineCountWorkerData;
+const languageTable = new LanguageTable(data.languages, data.heuristics);
+const engine = new LineCountEngine(languageTable, data.mixedLineAccounting);
+
+function post(message: LineCountWorkerResponse): void {
+    parentPort?.postMessage(message);
+}
+
+/**
+ * Count a batch file by file, posting each result as soon as it is ready.
+ * Cancellation terminates the whole worker, so there is no cancel message.
+ */
+async function countBatch(request: LineCountWorkerRequest): Promise<void> {
+    for (const file of request.files) {
+        try {
+            const counted = await engine.countFile(
+                file.filePath,
+                content => file.detection || languageTable.detect(file.filePath, content),
+                request.workspacePath
+            );
+            post({ type: 'result', batchId: request.batchId, counted });
+        } catch (error) {
+            post({
+                type: 'error',
+                batchId: request.batchId,
+                filePath: file.filePath,
+                message: error instanceof Error ? error.message : String(error)
+            });
+        }
+    }
+    post({ type: 'done', batchId: request.batchId });
+}
+
+parentPort?.on('message', (request: LineCountWorkerRequest) => {
+    countBatch(request);
+});
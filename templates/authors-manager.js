@@ -0,0 +1,215 @@
+/**
+ * VS Code Code Counter Extension - Authors Manager Module
+ *
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ *
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+// Lines per author, team, directory and language from git blame
+let authorsData = null;
+
+const AUTHOR_COLORS = ['#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f'];
+
+/**
+ * Store the authorship totals of the report
+ */
+function setAuthorsData(authorship) {
+    authorsData = authorship && authorship.authors ? authorship : null;
+}
+
+/**
+ * Whether the files were blamed, i.e. codeCounter.authorship.enabled is on
+ */
+function hasAuthorship() {
+    return !!authorsData && authorsData.authors.length > 0;
+}
+
+/**
+ * Row fields of the file table's Author column
+ */
+function getFileAuthorFields(file) {
+    const authors = file.authors || [];
+    return { primaryAuthor: authors.length > 0 ? authors[0].name : null };
+}
+
+/**
+ * Render the tables of the Authors tab
+ */
+function renderAuthors() {
+    const tablesDiv = document.getElementById('author-tables');
+    const emptyDiv = document.getElementById('author-empty');
+    if (!tablesDiv || !emptyDiv) {
+        return;
+    }
+
+    emptyDiv.classList.toggle('hidden', hasAuthorship());
+    if (!hasAuthorship()) {
+        emptyDiv.textContent = 'No authorship data. Turn on "codeCounter.authorship.enabled" to attribute lines to authors with git blame, then count lines again.';
+        tablesDiv.innerHTML = '';
+        return;
+    }
+
+    const reportData = getReportData();
+    const totalFiles = reportData && reportData.files ? reportData.files.length : authorsData.attributedFiles;
+    const totalLines = authorsData.authors.reduce((sum, author) => sum + author.lines, 0);
+
+    tablesDiv.innerHTML = `
+        <p class="author-summary">${authorsData.authors.length.toLocaleString()} authors of ${totalLines.toLocaleString()} lines in ${authorsData.attributedFiles.toLocaleString()} of ${totalFiles.toLocaleString()} files${authorsData.attributedFiles < totalFiles ? ' (untracked files cannot be blamed)' : ''}</p>
+        <div class="author-section">
+            <h3 class="author-section-title">👤 Authors</h3>
+            ${createAuthorTotalsTableHTML(authorsData.authors, totalLines)}
+        </div>
+        ${authorsData.teams.length > 0 ? `
+        <div class="author-section">
+            <h3 class="author-section-title">👥 Teams</h3>
+            ${createTeamTotalsTableHTML(authorsData.teams, totalLines)}
+        </div>` : ''}
+        <div class="author-section">
+            <h3 class="author-section-title">📁 Ownership by Directory</h3>
+            ${createOwnershipTableHTML(authorsData.directories, 'Directory')}
+        </div>
+        <div class="author-section">
+            <h3 class="author-section-title">💻 Ownership by Language</h3>
+            ${createOwnershipTableHTML(authorsData.languages, 'Language')}
+        </div>
+    `;
+    debug.verbose(`👥 Authors rendered for ${authorsData.authors.length} authors`);
+}
+
+function createAuthorTotalsTableHTML(authors, totalLines) {
+    const hasTeams = authors.some(author => author.team);
+    return `
+        <table class="author-table">
+            <thead>
+                <tr>
+                    <th>Author</th>
+                    ${hasTeams ? '<th>Team</th>' : ''}
+                    <th class="number">Files</th>
+                    <th class="number">Lines</th>
+                    <th class="number">Code</th>
+                    <th class="number">Comments</th>
+                    <th class="number">Blanks</th>
+                    <th>Share</th>
+                </tr>
+            </thead>
+            <tbody>${authors.map(author => `
+                <tr>
+                    <td title="${escapeForHTMLAttribute(author.email)}">${escapeForHTMLAttribute(author.name)}</td>
+                    ${hasTeams ? `<td>${escapeForHTMLAttribute(author.team || '—')}</td>` : ''}
+                    <td class="number">${author.files.toLocaleString()}</td>
+                    <td class="number">${author.lines.toLocaleString()}</td>
+                    <td class="number">${author.codeLines.toLocaleString()}</td>
+                    <td class="number">${author.commentLines.toLocaleString()}</td>
+                    <td class="number">${author.blankLines.toLocaleString()}</td>
+                    <td>${createShareBarHTML(author.lines, totalLines)}</td>
+                </tr>`).join('')}
+            </tbody>
+        </table>
+    `;
+}
+
+function createTeamTotalsTableHTML(teams, totalLines) {
+    return `
+        <table class="author-table">
+            <thead>
+                <tr>
+                    <th>Team</th>
+                    <th class="number">Authors</th>
+                    <th class="number">Files</th>
+                    <th class="number">Lines</th>
+                    <th class="number">Code</th>
+                    <th class="number">Comments</th>
+                    <th class="number">Blanks</th>
+                    <th>Share</th>
+                </tr>
+            </thead>
+            <tbody>${teams.map(team => `
+                <tr>
+                    <td>${escapeForHTMLAttribute(team.team)}</td>
+                    <td class="number">${team.authors.toLocaleString()}</td>
+                    <td class="number">${team.files.toLocaleString()}</td>
+                    <td class="number">${team.lines.toLocaleString()}</td>
+                    <td class="number">${team.codeLines.toLocaleString()}</td>
+                    <td class="number">${team.commentLines.toLocaleString()}</td>
+                    <td class="number">${team.blankLines.toLocaleString()}</td>
+                    <td>${createShareBarHTML(team.lines, totalLines)}</td>
+                </tr>`).join('')}
+            </tbody>
+        </table>
+    `;
+}
+
+/**
+ * Directories or languages with the share of their lines each top author last changed
+ */
+function createOwnershipTableHTML(breakdowns, nameTitle) {
+    return `
+        <table class="author-table">
+            <thead>
+                <tr>
+                    <th>${nameTitle}</th>
+                    <th class="number">Files</th>
+                    <th class="number">Lines</th>
+                    <th>Top Authors</th>
+                </tr>
+            </thead>
+            <tbody>${breakdowns.map(breakdown => `
+                <tr>
+                    <td>${escapeForHTMLAttribute(breakdown.name || '(root)')}</td>
+                    <td class="number">${breakdown.files.toLocaleString()}</td>
+                    <td class="number">${breakdown.lines.toLocaleString()}</td>
+                    <td>${createOwnersHTML(breakdown)}</td>
+                </tr>`).join('')}
+            </tbody>
+        </table>
+    `;
+}
+
+function createOwnersHTML(breakdown) {
+    const segments = breakdown.owners.map((owner, index) => {
+        const share = breakdown.lines > 0 ? owner.lines / breakdown.lines * 100 : 0;
+        const tooltip = `${owner.name} <${owner.email}>: ${owner.lines.toLocaleString()} lines (${share.toFixed(1)}%)`;
+        return `<span class="author-owner-segment" style="width: ${share}%; background: ${AUTHOR_COLORS[index % AUTHOR_COLORS.length]};" title="${escapeForHTMLAttribute(tooltip)}"></span>`;
+    }).join('');
+    const labels = breakdown.owners.slice(0, 3).map(owner => {
+        const share = breakdown.lines > 0 ? Math.round(owner.lines / breakdown.lines * 100) : 0;
+        return `${escapeForHTMLAttribute(owner.name)} ${share}%`;
+    }).join(' · ');
+    return `<div class="author-owner-bar">${segments}</div><span class="author-owner-labels">${labels}</span>`;
+}
+
+function createShareBarHTML(lines, totalLines) {
+    const share = totalLines > 0 ? lines / totalLines * 100 : 0;
+    return `<div class="author-share"><div class="author-share-bar"><span style="width: ${share}%;"></span></div>${share.toFixed(1)}%</div>`;
+}
+
+/**
+ * File table column with the author of most of each file's lines, listing all of them on hover
+ */
+function createAuthorColumn() {
+    return {
+        title: "👤 Author",
+        field: "primaryAuthor",
+        minWidth: 100,
+        width: 150,
+        sorter: "string",
+        hozAlign: "left",
+        formatter: function(cell) {
+            const authors = cell.getRow().getData().authors || [];
+            if (authors.length === 0) {
+                return '<span class="stat-label-secondary">—</span>';
+            }
+            const lines = authors.reduce((sum, author) => sum + author.lines, 0);
+            cell.getElement().title = authors
+                .map(author => `${author.name}: ${author.lines.toLocaleString()} lines (${Math.round(author.lines / lines * 100)}%)`)
+                .join('\n');
+            const others = authors.length > 1 ? ` <span class="stat-label-secondary">+${authors.length - 1}</span>` : '';
+            return `${escapeForHTMLAttribute(authors[0].name)}${others}`;
+        }
+    };
+}
+
+//# sourceURL=authors-manager.js
@@ -28,6 +28,14 @@ function safeToLocaleNumber(value) {
 // Global data state
 let reportData = null;
 
+// Display names of the .gitattributes linguist categories; files without one are source
+const LINGUIST_CATEGORY_LABELS = {
+    source: '📝 Source',
+    generated: '⚙️ Generated',
+    vendored: '📦 Vendored',
+    documentation: '📚 Documentation'
+};
+
 /**
  * Parse embedded JSON data from the template
  * Supports both webview (embeddedJsonData) and standalone HTML (embeddedJsonFiles) formats
@@ -65,20 +73,25 @@ function parseEmbeddedData() {
             // Create language groups
             const languages = {};
             files.forEach(file => {
-                const lang = file.language || 'Unknown';
-                if (!languages[lang]) {
-                    languages[lang] = {
-                        name: lang,
-                        files: 0,
-                        lines: 0,
-                        characters: 0,
-                        bytes: 0
-                    };
-                }
-                languages[lang].files++;
-                languages[lang].lines += safeToLocaleNumber(file.lines);
-                languages[lang].characters += safeToLocaleNumber(file.characters);
-                languages[lang].bytes += safeToLocaleNumber(file.bytes);
+                // Files with embedded languages (e.g. .vue) add each section's lines to its own language
+                const sections = file.languageSections && file.languageSections.length > 0 ? file.languageSections : [file];
+                sections.forEach(section => {
+                    const lang = section.language || 'Unknown';
+                    if (!languages[lang]) {
+                        languages[lang] = {
+                            name: lang,
+                            files: 0,
+                            lines: 0,
+                            characters: 0,
+                            bytes: 0
+                        };
+                    }
+                    languages[lang].files++;
+                    languages[lang].lines += safeToLocaleNumber(section.lines);
+                });
+                const hostLang = file.language || 'Unknown';
+                languages[hostLang].characters += safeToLocaleNumber(file.characters);
+                languages[hostLang].bytes += safeToLocaleNumber(file.bytes);
             });
             
             reportData = {
@@ -143,12 +156,37 @@ function populateReport(data) {
         debug.info('✅ Languages populated');
     }
     
+    // Populate per-root subtotals (multi-root workspaces only)
+    populateRootStats(data.roots);
+    
+    // Populate generated, vendored and documentation subtotals (.gitattributes linguist attributes)
+    populateLinguistStats(data.files);
+    
+    // Line count history feeds the Trends tab and the file sparklines, so it is set before the table
+    if (typeof setTrendsData === 'function') {
+        setTrendsData(data.trends);
+        renderTrends();
+    }
+    
+    // Authorship totals feed the Authors tab and the file table's author column
+    if (typeof setAuthorsData === 'function') {
+        setAuthorsData(data.authorship);
+        renderAuthors();
+    }
+    
+    // Hotspot thresholds feed the Hotspots tab; the scores travel with the files
+    if (typeof setHotspotsData === 'function') {
+        setHotspotsData(data.hotspots);
+        renderHotspots();
+    }
+    
     // Initialize advanced Tabulator table
     initializeAdvancedTable(data.files);
     debug.info('✅ Advanced table initialized');
     
-    // Setup advanced filtering
-    setupAdvancedFiltering(data.files);
+    // Setup advanced filtering; a filter requested by the extension applies once, when the report opens
+    setupAdvancedFiltering(data.files, data.filter);
+    delete data.filter;
     debug.info('✅ Advanced filtering setup');
     
     debug.info('🎉 Report population completed');
@@ -254,6 +292,72 @@ function createLanguageStatsHTML(languages) {
         `).join('');
 }
 
+/**
+ * Show subtotals per workspace folder when the report combines several roots
+ */
+function populateRootStats(roots) {
+    const section = document.getElementById('root-stats-section');
+    const rootDiv = document.getElementById('root-stats');
+    if (!section || !rootDiv) {
+        return;
+    }
+    if (!roots || roots.length < 2) {
+        section.classList.add('hidden');
+        rootDiv.innerHTML = '';
+        return;
+    }
+
+    section.classList.remove('hidden');
+    rootDiv.innerHTML = roots.map(root => `
+        <div class="language-item" title="${root.path}">
+            <span class="language-name">${root.name}</span>
+            <div>
+                <span class="language-files">${Number(root.summary.totalFiles) || 0} files</span>
+                <span style="margin-left: 10px; font-weight: 500;">${safeToLocaleNumber(root.summary.totalLines).toLocaleString()} lines</span>
+            </div>
+        </div>
+    `).join('');
+    debug.info('✅ Workspace folder subtotals populated:', roots.length);
+}
+
+/**
+ * Show subtotals per linguist category when .gitattributes marks files as generated, vendored
+ * or documentation; the rest count as source
+ */
+function populateLinguistStats(files) {
+    const section = document.getElementById('linguist-stats-section');
+    const linguistDiv = document.getElementById('linguist-stats');
+    if (!section || !linguistDiv) {
+        return;
+    }
+    const categories = {};
+    for (const file of files || []) {
+        const category = file.linguist || 'source';
+        categories[category] = categories[category] || { files: 0, lines: 0 };
+        categories[category].files++;
+        categories[category].lines += safeToLocaleNumber(file.lines);
+    }
+    if (Object.keys(categories).every(category => category === 'source')) {
+        section.classList.add('hidden');
+        linguistDiv.innerHTML = '';
+        return;
+    }
+
+    section.classList.remove('hidden');
+    linguistDiv.innerHTML = ['source', 'generated', 'vendored', 'documentation']
+        .filter(category => categories[category])
+        .map(category => `
+        <div class="language-item">
+            <span class="language-name">${LINGUIST_CATEGORY_LABELS[category]}</span>
+            <div>
+                <span class="language-files">${categories[category].files} files</span>
+                <span style="margin-left: 10px; font-weight: 500;">${categories[category].lines.toLocaleString()} lines</span>
+            </div>
+        </div>
+    `).join('');
+    debug.info('✅ Linguist category subtotals populated');
+}
+
 /**
  * Populate language statistics breakdown section
  */
@@ -291,6 +395,41 @@ function updateReportData(newData) {
     }
 }
 
+/**
+ * Merge an incremental update (changed and removed files plus new totals) into the report data
+ */
+function applyReportDelta(delta) {
+    if (!reportData || !delta) {
+        debug.error('❌ Cannot apply delta without report data');
+        return;
+    }
+    debug.info('🔄 Applying report delta...', { updated: delta.updatedFiles.length, removed: delta.removedFiles.length });
+
+    const removedPaths = new Set(delta.removedFiles);
+    const updatedFiles = new Map(delta.updatedFiles.map(file => [file.path, file]));
+    const files = reportData.files
+        .filter(file => !removedPaths.has(file.path))
+        .map(file => {
+            const updated = updatedFiles.get(file.path);
+            updatedFiles.delete(file.path);
+            return updated || file;
+        });
+    files.push(...updatedFiles.values());
+
+    reportData = {
+        ...reportData,
+        files,
+        summary: delta.summary,
+        languages: delta.languages,
+        roots: delta.roots,
+        authorship: delta.authorship,
+        hotspots: delta.hotspots,
+        generatedDate: delta.generatedDate
+    };
+    initializeReport(reportData);
+    debug.info('✅ Report delta applied successfully');
+}
+
 /**
  * Get current report data
  */
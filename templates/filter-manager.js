@@ -11,26 +11,56 @@
 /**
  * Setup advanced filtering functionality for the table
  */
-function setupAdvancedFiltering(files) {
+function setupAdvancedFiltering(files, initialFilter) {
     debug.info('🔧 Setting up advanced filtering...');
     
     // Check if table is ready, retry if not
     if (!window.filesTable) {
         debug.warning('⚠️ Tabulator table not ready for filtering setup, retrying in 200ms...');
-        setTimeout(() => setupAdvancedFiltering(files), 1000);
+        setTimeout(() => setupAdvancedFiltering(files, initialFilter), 1000);
         return;
     }
     
-    // Populate language filter dropdown
+    // Populate language, workspace folder and linguist category filter dropdowns
     populateLanguageFilter(files);
+    populateRootFilter(files);
+    populateLinguistFilter(files);
     
     // Setup individual filter handlers
     setupLanguageFilter();
+    setupRootFilter();
+    setupLinguistFilter();
     setupRangeFilters();
     
+    if (initialFilter) {
+        applyReportFilter(initialFilter);
+    }
+    
     debug.info('✅ Advanced filtering setup completed');
 }
 
+/**
+ * Show only one language, or the files at or below one path (e.g. when opened from the tree view)
+ */
+function applyReportFilter(filter) {
+    window.filesTable.clearFilter();
+    
+    if (filter.language) {
+        const languageFilter = document.getElementById('language-filter-tabulator');
+        if (languageFilter) {
+            languageFilter.value = filter.language;
+        }
+        window.filesTable.setFilter("language", "=", filter.language);
+        debug.info('🔍 Report opened filtered to language:', filter.language);
+    } else if (filter.path) {
+        const target = filter.path;
+        window.filesTable.setFilter(function(data) {
+            return data.path === target || data.path.startsWith(target + '/') || data.path.startsWith(target + '\\');
+        });
+        debug.info('🔍 Report opened filtered to path:', target);
+    }
+}
+
 /**
  * Populate the language filter dropdown with unique values
  */
@@ -62,6 +92,74 @@ function setupLanguageFilter() {
     }
 }
 
+/**
+ * Populate the workspace folder dropdown; only shown for multi-root reports
+ */
+function populateRootFilter(files) {
+    const rootFilter = document.getElementById('root-filter-tabulator');
+    const rootFilterRow = document.getElementById('root-filter-row');
+    const roots = [...new Set(files.map(f => f.root).filter(Boolean))];
+    if (rootFilter) {
+        rootFilter.innerHTML = '<option value="">All Folders</option>' + 
+            roots.map(root => `<option value="${root}">${root}</option>`).join('');
+    }
+    if (rootFilterRow) {
+        rootFilterRow.classList.toggle('hidden', roots.length < 2);
+    }
+}
+
+/**
+ * Setup workspace folder dropdown filter
+ */
+function setupRootFilter() {
+    const rootFilter = document.getElementById('root-filter-tabulator');
+    if (rootFilter) {
+        rootFilter.addEventListener('change', function() {
+            if (this.value) {
+                window.filesTable.setFilter("root", "=", this.value);
+                debug.info('🔍 Workspace folder filter applied:', this.value);
+            } else {
+                window.filesTable.clearFilter("root");
+                debug.info('🔄 Workspace folder filter cleared - showing all folders');
+            }
+        });
+    }
+}
+
+/**
+ * Populate the linguist category dropdown; only shown when .gitattributes marks some files
+ */
+function populateLinguistFilter(files) {
+    const linguistFilter = document.getElementById('linguist-filter-tabulator');
+    const linguistFilterRow = document.getElementById('linguist-filter-row');
+    const categories = [...new Set(files.map(f => f.linguist).filter(Boolean))].sort();
+    if (linguistFilter) {
+        linguistFilter.innerHTML = `<option value="">All Files</option><option value="source">${LINGUIST_CATEGORY_LABELS.source}</option>` + 
+            categories.map(category => `<option value="${category}">${LINGUIST_CATEGORY_LABELS[category] || category}</option>`).join('');
+    }
+    if (linguistFilterRow) {
+        linguistFilterRow.classList.toggle('hidden', categories.length === 0);
+    }
+}
+
+/**
+ * Setup linguist category dropdown filter; "source" are the files without a category
+ */
+function setupLinguistFilter() {
+    const linguistFilter = document.getElementById('linguist-filter-tabulator');
+    if (linguistFilter) {
+        linguistFilter.addEventListener('change', function() {
+            if (this.value) {
+                window.filesTable.setFilter("linguistCategory", "=", this.value);
+                debug.info('🔍 Linguist category filter applied:', this.value);
+            } else {
+                window.filesTable.clearFilter("linguistCategory");
+                debug.info('🔄 Linguist category filter cleared - showing all files');
+            }
+        });
+    }
+}
+
 /**
  * Setup range filters for lines and size
  */
@@ -0,0 +1,184 @@
+/**
+ * VS Code Code Counter Extension - Hotspots Manager Module
+ *
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ *
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+// Quadrant thresholds and history window of the hotspot analysis
+let hotspotsData = null;
+
+const HOTSPOT_CHART_WIDTH = 800;
+const HOTSPOT_CHART_HEIGHT = 360;
+const HOTSPOT_CHART_PADDING = { top: 12, right: 16, bottom: 36, left: 64 };
+const HOTSPOT_MAX_POINTS = 2000;
+const HOTSPOT_TOP_FILES = 25;
+
+const HOTSPOT_QUADRANTS = {
+    hotspot: { label: 'Hotspots: large and changed often', color: '#e15759' },
+    churning: { label: 'Churning: small but changed often', color: '#f28e2b' },
+    large: { label: 'Large but rarely changed', color: '#4e79a7' },
+    stable: { label: 'Small and rarely changed', color: '#9c9c9c' }
+};
+
+/**
+ * Store the hotspot thresholds of the report
+ */
+function setHotspotsData(hotspots) {
+    hotspotsData = hotspots || null;
+}
+
+/**
+ * Whether the files have git history, i.e. codeCounter.hotspots.enabled is on in a git repository
+ */
+function hasHotspots() {
+    return !!hotspotsData;
+}
+
+/**
+ * Render the quadrant chart and ranking of the Hotspots tab
+ */
+function renderHotspots() {
+    const chartsDiv = document.getElementById('hotspot-charts');
+    const emptyDiv = document.getElementById('hotspot-empty');
+    if (!chartsDiv || !emptyDiv) {
+        return;
+    }
+
+    emptyDiv.classList.toggle('hidden', hasHotspots());
+    if (!hasHotspots()) {
+        emptyDiv.textContent = 'No hotspot data. Hotspots need the workspace to be a git repository with "codeCounter.hotspots.enabled" on.';
+        chartsDiv.innerHTML = '';
+        return;
+    }
+
+    const reportData = getReportData();
+    const files = (reportData && reportData.files ? reportData.files : []).filter(file => file.hotspot);
+    const ranked = files
+        .filter(file => file.hotspot.rank)
+        .sort((a, b) => a.hotspot.rank - b.hotspot.rank);
+    const window = hotspotsData.windowDays > 0 ? `the last ${hotspotsData.windowDays.toLocaleString()} days` : 'the whole history';
+
+    chartsDiv.innerHTML = `
+        <p class="trend-summary">${ranked.length.toLocaleString()} of ${files.length.toLocaleString()} files changed in ${window}. Files are large with ${hotspotsData.sizeThreshold.toLocaleString()} lines or more and change often with ${hotspotsData.churnThreshold.toLocaleString()} commits or more, the medians.</p>
+        <div class="trend-chart">
+            <h3 class="trend-chart-title">🔥 Churn × Size</h3>
+            ${createHotspotLegendHTML()}
+            ${createHotspotChartSVG(files)}
+        </div>
+        <div class="author-section">
+            <h3 class="author-section-title">🏆 Top Hotspots</h3>
+            ${ranked.length > 0 ? createHotspotTableHTML(ranked.slice(0, HOTSPOT_TOP_FILES)) : `<div class="trend-empty">No file changed in ${window}.</div>`}
+        </div>
+    `;
+    debug.verbose(`🔥 Hotspots rendered for ${files.length} files`);
+}
+
+function createHotspotLegendHTML() {
+    return `<div class="trend-legend">${Object.values(HOTSPOT_QUADRANTS).map(quadrant => `
+        <span class="trend-legend-item"><span class="trend-legend-swatch" style="background: ${quadrant.color};"></span>${quadrant.label}</span>`).join('')}
+    </div>`;
+}
+
+/**
+ * SVG scatter plot of lines (log scale) against commits, split into quadrants at the thresholds;
+ * clicking a point opens the file
+ */
+function createHotspotChartSVG(files) {
+    const { top, right, bottom, left } = HOTSPOT_CHART_PADDING;
+    const plotWidth = HOTSPOT_CHART_WIDTH - left - right;
+    const plotHeight = HOTSPOT_CHART_HEIGHT - top - bottom;
+
+    // The highest scores are drawn last so they stay on top; very large workspaces keep only those
+    const points = [...files]
+        .sort((a, b) => b.hotspot.score - a.hotspot.score)
+        .slice(0, HOTSPOT_MAX_POINTS)
+        .reverse();
+    const maxLines = points.reduce((max, file) => Math.max(max, file.lines), 1);
+    const xMax = Math.pow(10, Math.ceil(Math.log10(maxLines + 1)));
+    const yMax = getNiceTrendMax(points.reduce((max, file) => Math.max(max, file.hotspot.commits), 0));
+    const x = lines => left + Math.log10(lines + 1) / Math.log10(xMax) * plotWidth;
+    const y = commits => top + plotHeight - (commits / yMax) * plotHeight;
+
+    let svg = '';
+    for (let tick = 0; tick <= 4; tick++) {
+        const value = (yMax / 4) * tick;
+        svg += `<line class="trend-grid" x1="${left}" x2="${left + plotWidth}" y1="${y(value)}" y2="${y(value)}"></line>`;
+        svg += `<text class="trend-axis-label" x="${left - 8}" y="${y(value) + 4}" text-anchor="end">${Number(value.toFixed(1)).toLocaleString()}</text>`;
+    }
+    for (let lines = 1; lines <= xMax; lines *= 10) {
+        svg += `<text class="trend-axis-label" x="${x(lines)}" y="${top + plotHeight + 16}" text-anchor="middle">${lines.toLocaleString()}</text>`;
+    }
+    svg += `<text class="trend-axis-label" x="${left + plotWidth}" y="${HOTSPOT_CHART_HEIGHT - 4}" text-anchor="end">Lines</text>`;
+    svg += `<text class="trend-axis-label" x="${left}" y="${top + 10}" text-anchor="start" dx="6">Commits</text>`;
+
+    svg += `<line class="hotspot-threshold" x1="${x(hotspotsData.sizeThreshold)}" x2="${x(hotspotsData.sizeThreshold)}" y1="${top}" y2="${top + plotHeight}"></line>`;
+    if (hotspotsData.churnThreshold > 0) {
+        svg += `<line class="hotspot-threshold" x1="${left}" x2="${left + plotWidth}" y1="${y(hotspotsData.churnThreshold)}" y2="${y(hotspotsData.churnThreshold)}"></line>`;
+    }
+
+    for (const file of points) {
+        const hotspot = file.hotspot;
+        const quadrant = HOTSPOT_QUADRANTS[hotspot.quadrant] || HOTSPOT_QUADRANTS.stable;
+        const tooltip = `${file.relativePath}\n${file.lines.toLocaleString()} lines, ${hotspot.commits.toLocaleString()} commits, +${hotspot.linesAdded.toLocaleString()} / −${hotspot.linesRemoved.toLocaleString()}\nScore ${hotspot.score}${hotspot.rank ? ` (#${hotspot.rank})` : ''}`;
+        svg += `<circle class="hotspot-point" cx="${x(file.lines)}" cy="${y(hotspot.commits)}" r="4" style="fill: ${quadrant.color};" onclick="openFileInVSCode('${escapeForHTMLAttribute(escapeForJavaScript(file.path))}')"><title>${escapeForHTMLAttribute(tooltip)}</title></circle>`;
+    }
+
+    return `<svg class="trend-chart-svg" viewBox="0 0 ${HOTSPOT_CHART_WIDTH} ${HOTSPOT_CHART_HEIGHT}" role="img">${svg}</svg>`;
+}
+
+function createHotspotTableHTML(files) {
+    return `
+        <table class="author-table">
+            <thead>
+                <tr>
+                    <th class="number">Rank</th>
+                    <th>File</th>
+                    <th class="number">Lines</th>
+                    <th class="number">Commits</th>
+                    <th class="number">Added</th>
+                    <th class="number">Removed</th>
+                    <th class="number">Score</th>
+                </tr>
+            </thead>
+            <tbody>${files.map(file => `
+                <tr>
+                    <td class="number">${file.hotspot.rank}</td>
+                    <td><a href="#" class="file-link" onclick="openFileInVSCode('${escapeForHTMLAttribute(escapeForJavaScript(file.path))}'); return false;">${escapeForHTMLAttribute(file.relativePath)}</a></td>
+                    <td class="number">${file.lines.toLocaleString()}</td>
+                    <td class="number">${file.hotspot.commits.toLocaleString()}</td>
+                    <td class="number">+${file.hotspot.linesAdded.toLocaleString()}</td>
+                    <td class="number">−${file.hotspot.linesRemoved.toLocaleString()}</td>
+                    <td class="number"><span class="hotspot-score hotspot-${file.hotspot.quadrant}">${file.hotspot.score}</span></td>
+                </tr>`).join('')}
+            </tbody>
+        </table>
+    `;
+}
+
+/**
+ * File table column with the hotspot score, coloured by quadrant
+ */
+function createHotspotColumn() {
+    return {
+        title: "🔥 Hotspot",
+        field: "hotspotScore",
+        minWidth: 80,
+        width: 100,
+        sorter: "number",
+        hozAlign: "right",
+        formatter: function(cell) {
+            const hotspot = cell.getRow().getData().hotspot;
+            if (!hotspot) {
+                return '<span class="stat-label-secondary">—</span>';
+            }
+            cell.getElement().title = `${hotspot.commits.toLocaleString()} commits, +${hotspot.linesAdded.toLocaleString()} / −${hotspot.linesRemoved.toLocaleString()}${hotspot.rank ? `, rank #${hotspot.rank}` : ''}`;
+            return `<span class="hotspot-score hotspot-${hotspot.quadrant}">${hotspot.score}</span>`;
+        }
+    };
+}
+
+//# sourceURL=hotspots-manager.js
@@ -82,13 +82,17 @@ function initializeReportFromEmbeddedData() {
             // Calculate language statistics
             const languageMap = new Map();
             files.forEach(file => {
-                const lang = file.language || 'Unknown';
-                if (!languageMap.has(lang)) {
-                    languageMap.set(lang, { name: lang, files: 0, lines: 0 });
-                }
-                const langStat = languageMap.get(lang);
-                langStat.files++;
-                langStat.lines += Number(file.lines) || 0;
+                // Files with embedded languages (e.g. .vue) add each section to its own language
+                const sections = file.languageSections && file.languageSections.length > 0 ? file.languageSections : [file];
+                sections.forEach(section => {
+                    const lang = section.language || 'Unknown';
+                    if (!languageMap.has(lang)) {
+                        languageMap.set(lang, { name: lang, files: 0, lines: 0 });
+                    }
+                    const langStat = languageMap.get(lang);
+                    langStat.files++;
+                    langStat.lines += Number(section.lines) || 0;
+                });
             });
             
             const languages = Array.from(languageMap.values()).sort((a, b) => b.lines - a.lines);
@@ -59,7 +59,9 @@ function calculateGroupStats(group, count) {
         codeLines: 0,
         commentLines: 0,
         blankLines: 0,
-        size: 0
+        size: 0,
+        largestSymbolLines: 0,
+        trendChange: 0
     };
     
     // Track unique languages in this group
@@ -72,6 +74,8 @@ function calculateGroupStats(group, count) {
         totals.commentLines += data.commentLines || 0;
         totals.blankLines += data.blankLines || 0;
         totals.size += data.size || 0;
+        totals.largestSymbolLines = Math.max(totals.largestSymbolLines, data.largestSymbolLines || 0);
+        totals.trendChange += data.trendChange || 0;
         
         // Add language to set (automatically handles duplicates)
         if (data.language && data.language.trim() !== '') {
@@ -147,6 +147,22 @@ function createTableColumns_Standalone() {
                 const kb = cell.getValue();
                 return formatSizeKB(kb);  // Use the common formatSizeKB function
             }
+        },
+        {
+            title: "🧩 Largest Symbol", 
+            field: "largestSymbolLines", 
+            minWidth: 100,
+            width: 180,
+            sorter: "number",
+            hozAlign: "left",
+            formatter: function(cell) {
+                const symbol = cell.getRow().getData().largestSymbol;
+                if (!symbol) {
+                    return '<span class="stat-label-secondary">—</span>';
+                }
+                cell.getElement().title = `${symbol.kind} ${symbol.name}, line ${symbol.line}`;
+                return `${symbol.name} (${symbol.lines.toLocaleString()})`;
+            }
         }
     ];
 }
@@ -242,7 +258,8 @@ function initializeAdvancedTable_Standalone(files) {
         })(),
         commentRatio: file.lines > 0 ? (file.commentLines / file.lines * 100).toFixed(1) : 0,
         codeRatio: file.lines > 0 ? (file.codeLines / file.lines * 100).toFixed(1) : 0,
-        sizeKB: file.size / 1024  // Don't round here, let formatSizeKB handle the formatting
+        sizeKB: file.size / 1024,  // Don't round here, let formatSizeKB handle the formatting
+        largestSymbolLines: file.largestSymbol ? file.largestSymbol.lines : null
     }))
     // Sort to show directories first, then files within each directory
     .sort((a, b) => {
@@ -297,6 +314,7 @@ function initializeAdvancedTable_Standalone(files) {
                         <div class="group-stats tabulator-cell" data-field="blankLines">Blanks</div>
                         <div class="group-stats tabulator-cell" data-field="commentRatio">%</div>
                         <div class="group-stats tabulator-cell" data-field="sizeKB">Size</div>
+                        <div class="group-stats tabulator-cell" data-field="largestSymbolLines">Largest Symbol</div>
                     </div>
                 `;
             }
@@ -387,6 +405,11 @@ function initializeAdvancedTable_Standalone(files) {
                                   <div class="stat-label-secondary">Avg: ${count > 0 ? formatSizeKB((stats.size || 0) / 1024 / count) : '0 KB'}</div>`;
                         classes.push('group-stats');
                         break;
+                    case 'largestSymbolLines':
+                        content = `<div class="stat-label-secondary">🧩 largest symbol</div>
+                                  <div class="stat-value-primary">${stats.largestSymbolLines ? stats.largestSymbolLines.toLocaleString() : '—'}</div>`;
+                        classes.push('group-stats');
+                        break;
                     case 'directory':
                         // Directory column moved to position >= 2 (shouldn't normally happen but handle it)
                         content = `<div class="stat-label-secondary">📁 directory</div>
@@ -41,7 +41,13 @@ function initializeAdvancedTable(files) {
         })(),
         commentRatio: file.lines > 0 ? (file.commentLines / file.lines * 100).toFixed(1) : 0,
         codeRatio: file.lines > 0 ? (file.codeLines / file.lines * 100).toFixed(1) : 0,
-        sizeKB: file.size / 1024  // Don't round here, let formatSizeKB handle the formatting
+        sizeKB: file.size / 1024,  // Don't round here, let formatSizeKB handle the formatting
+        largestSymbolLines: file.largestSymbol ? file.largestSymbol.lines : null,
+        // Lines at the recorded snapshots, drawn as a sparkline
+        ...getFileTrendFields(file.relativePath.replace(/\\/g, '/')),
+        ...getFileAuthorFields(file),
+        hotspotScore: file.hotspot ? file.hotspot.score : null,
+        linguistCategory: file.linguist || 'source'
     }))
     // Sort to show directories first, then files within each directory
     .sort((a, b) => {
@@ -96,6 +102,7 @@ function initializeAdvancedTable(files) {
                         <div class="group-stats tabulator-cell" data-field="blankLines">Blanks</div>
                         <div class="group-stats tabulator-cell" data-field="commentRatio">%</div>
                         <div class="group-stats tabulator-cell" data-field="sizeKB">Size</div>
+                        <div class="group-stats tabulator-cell" data-field="largestSymbolLines">Largest Symbol</div>
                     </div>
                 `;
             }
@@ -186,6 +193,16 @@ function initializeAdvancedTable(files) {
                                   <div class="stat-label-secondary">Avg: ${count > 0 ? formatSizeKB((stats.size || 0) / 1024 / count) : '0 KB'}</div>`;
                         classes.push('group-stats');
                         break;
+                    case 'largestSymbolLines':
+                        content = `<div class="stat-label-secondary">🧩 largest symbol</div>
+                                  <div class="stat-value-primary">${stats.largestSymbolLines ? stats.largestSymbolLines.toLocaleString() : '—'}</div>`;
+                        classes.push('group-stats');
+                        break;
+                    case 'trendChange':
+                        content = `<div class="stat-label-secondary">📉 trend</div>
+                                  <div class="stat-value-primary">${formatTrendChange(stats.trendChange)}</div>`;
+                        classes.push('group-stats');
+                        break;
                     case 'directory':
                         // Directory column moved to position >= 2 (shouldn't normally happen but handle it)
                         content = `<div class="stat-label-secondary">📁 directory</div>
@@ -420,6 +437,14 @@ function generateGroupHeaderCells(value, count, stats) {
                             <div class="stat-value-primary">${formatSizeKB((stats.size || 0) / 1024)}</div>
                             <div class="stat-label-secondary">Avg: ${count > 0 ? formatSizeKB((stats.size || 0) / 1024 / count) : '0 KB'}</div>`;
                 break;
+            case 'largestSymbolLines':
+                content = `<div class="stat-label-secondary">🧩 largest symbol</div>
+                            <div class="stat-value-primary">${stats.largestSymbolLines ? stats.largestSymbolLines.toLocaleString() : '—'}</div>`;
+                break;
+            case 'trendChange':
+                content = `<div class="stat-label-secondary">📉 trend</div>
+                            <div class="stat-value-primary">${formatTrendChange(stats.trendChange)}</div>`;
+                break;
             default:
                 content = '';
         }
@@ -501,6 +526,10 @@ function generateDefaultGroupHeaderCells(value, count, stats) {
             <div class="stat-value-primary">${formatSizeKB((stats.size || 0) / 1024)}</div>
             <div class="stat-label-secondary">Avg: ${count > 0 ? formatSizeKB((stats.size || 0) / 1024 / count) : '0 KB'}</div>
         </td>
+        <td data-field="largestSymbolLines" class="group-cell group-cell-normal">
+            <div class="stat-label-secondary">🧩 largest symbol</div>
+            <div class="stat-value-primary">${stats.largestSymbolLines ? stats.largestSymbolLines.toLocaleString() : '—'}</div>
+        </td>
     `;
 }
 
@@ -559,6 +588,11 @@ function createTableColumns() {
             headerFilterParams: {
                 values: true,
                 sortValuesList: "asc"
+            },
+            // Show how the language was detected (file name, extension, shebang, modeline, heuristic)
+            tooltip: function(e, cell) {
+                const source = cell.getRow().getData().languageSource;
+                return source ? `Detected by ${source}` : '';
             }
         },
         {
@@ -651,7 +685,29 @@ function createTableColumns() {
                 const kb = cell.getValue();
                 return formatSizeKB(kb);  // Use the consistent formatSizeKB function
             }
-        }
+        },
+        {
+            title: "🧩 Largest Symbol", 
+            field: "largestSymbolLines", 
+            minWidth: 100,
+            width: 180,
+            sorter: "number",
+            hozAlign: "left",
+            formatter: function(cell) {
+                const symbol = cell.getRow().getData().largestSymbol;
+                if (!symbol) {
+                    return '<span class="stat-label-secondary">—</span>';
+                }
+                cell.getElement().title = `${symbol.kind} ${symbol.name}, line ${symbol.line}`;
+                return `${symbol.name} (${symbol.lines.toLocaleString()})`;
+            }
+        },
+        // Only shown once snapshots have recorded some history
+        ...(hasFileTrends() ? [createTrendColumn()] : []),
+        // Only shown when git blame attributed lines to authors
+        ...(hasAuthorship() ? [createAuthorColumn()] : []),
+        // Only shown when the files have git history
+        ...(hasHotspots() ? [createHotspotColumn()] : [])
     ];
 }
 
@@ -1306,7 +1362,8 @@ function initializeAdvancedTable_Standalone(files) {
         })(),
         commentRatio: file.lines > 0 ? (file.commentLines / file.lines * 100).toFixed(1) : 0,
         codeRatio: file.lines > 0 ? (file.codeLines / file.lines * 100).toFixed(1) : 0,
-        sizeKB: file.size / 1024  // Don't round here, let formatSizeKB handle the formatting
+        sizeKB: file.size / 1024,  // Don't round here, let formatSizeKB handle the formatting
+        largestSymbolLines: file.largestSymbol ? file.largestSymbol.lines : null
     }))
     // Sort to show directories first, then files within each directory
     .sort((a, b) => {
@@ -1360,6 +1417,7 @@ function initializeAdvancedTable_Standalone(files) {
                         <div class="group-stats tabulator-cell" data-field="blankLines">Blanks</div>
                         <div class="group-stats tabulator-cell" data-field="commentRatio">%</div>
                         <div class="group-stats tabulator-cell" data-field="sizeKB">Size</div>
+                        <div class="group-stats tabulator-cell" data-field="largestSymbolLines">Largest Symbol</div>
                     </div>
                 `;
             }
@@ -1450,6 +1508,11 @@ function initializeAdvancedTable_Standalone(files) {
                                   <div class="stat-label-secondary">Avg: ${count > 0 ? formatSizeKB((stats.size || 0) / 1024 / count) : '0 KB'}</div>`;
                         classes.push('group-stats');
                         break;
+                    case 'largestSymbolLines':
+                        content = `<div class="stat-label-secondary">🧩 largest symbol</div>
+                                  <div class="stat-value-primary">${stats.largestSymbolLines ? stats.largestSymbolLines.toLocaleString() : '—'}</div>`;
+                        classes.push('group-stats');
+                        break;
                     case 'directory':
                         // Directory column moved to position >= 2 (shouldn't normally happen but handle it)
                         content = `<div class="stat-label-secondary">📁 directory</div>
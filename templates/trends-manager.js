@@ -0,0 +1,417 @@
+/**
+ * VS Code Code Counter Extension - Trends Manager Module
+ *
+ * Copyright (c) 2025 DelightfulGames
+ * Licensed under the MIT License
+ *
+ * Repository: https://github.com/DelightfulGames/vscode-code-counter
+ * Marketplace: https://marketplace.visualstudio.com/items?itemName=DelightfulGames.vscode-code-counter
+ */
+
+// Line count history of the report and the date range picked in the Trends tab
+let trendsData = null;
+let trendRange = { from: '', to: '' };
+
+const TREND_CHART_WIDTH = 800;
+const TREND_CHART_HEIGHT = 240;
+const TREND_CHART_PADDING = { top: 12, right: 16, bottom: 28, left: 64 };
+const TREND_MAX_LANGUAGES = 8;
+const TREND_MAX_MARKERS = 60;
+
+const TREND_LINE_SERIES = [
+    { key: 'lines', label: 'Total', color: '#4e79a7' },
+    { key: 'codeLines', label: 'Code', color: '#59a14f' },
+    { key: 'commentLines', label: 'Comments', color: '#f28e2b' },
+    { key: 'blankLines', label: 'Blanks', color: '#9c9c9c' }
+];
+
+const TREND_LANGUAGE_COLORS = ['#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948', '#b07aa1', '#ff9da7', '#9c755f'];
+
+/**
+ * Store the trends of the report and keep the date range within the recorded history
+ */
+function setTrendsData(trends) {
+    trendsData = trends && trends.points ? trends : null;
+
+    const fromInput = document.getElementById('trend-from');
+    const toInput = document.getElementById('trend-to');
+    const points = trendsData ? trendsData.points : [];
+    const first = points.length > 0 ? toDateInputValue(new Date(points[0].date)) : '';
+    const last = points.length > 0 ? toDateInputValue(new Date(points[points.length - 1].date)) : '';
+    [fromInput, toInput].forEach(input => {
+        if (input) {
+            input.min = first;
+            input.max = last;
+        }
+    });
+    if (fromInput) fromInput.value = trendRange.from;
+    if (toInput) toInput.value = trendRange.to;
+}
+
+/**
+ * Whether any file has history to draw as a sparkline in the file table
+ */
+function hasFileTrends() {
+    return !!trendsData && Object.keys(trendsData.fileHistory || {}).length > 0;
+}
+
+/**
+ * Lines of a file at the snapshots within the date range, oldest first; null where the file did not exist
+ */
+function getFileTrend(relativePath) {
+    if (!trendsData || !trendsData.fileHistory) {
+        return null;
+    }
+    const history = trendsData.fileHistory[relativePath];
+    if (!history) {
+        return null;
+    }
+    return history.filter((_, index) => isTrendPointInRange(trendsData.points[trendsData.fileHistoryStart + index]));
+}
+
+/**
+ * Row fields of the file table's Trend column
+ */
+function getFileTrendFields(relativePath) {
+    const trend = getFileTrend(relativePath);
+    return { trend, trendChange: getTrendChange(trend) };
+}
+
+/**
+ * Lines gained or lost over a file trend; a file created within the range starts at 0
+ */
+function getTrendChange(trend) {
+    if (!trend) {
+        return null;
+    }
+    const values = trend.filter(value => value !== null);
+    if (values.length === 0) {
+        return null;
+    }
+    return values[values.length - 1] - (trend[0] === null ? 0 : trend[0]);
+}
+
+/**
+ * Snapshots within the date range picked in the Trends tab
+ */
+function getTrendPointsInRange() {
+    return trendsData ? trendsData.points.filter(isTrendPointInRange) : [];
+}
+
+function isTrendPointInRange(point) {
+    if (!point) {
+        return false;
+    }
+    const time = new Date(point.date).getTime();
+    const start = trendRange.from ? new Date(`${trendRange.from}T00:00:00`).getTime() : -Infinity;
+    const end = trendRange.to ? new Date(`${trendRange.to}T23:59:59.999`).getTime() : Infinity;
+    return time >= start && time <= end;
+}
+
+function formatTrendChange(change) {
+    if (change === null || change === undefined) {
+        return '—';
+    }
+    return `${change > 0 ? '+' : ''}${change.toLocaleString()}`;
+}
+
+function toDateInputValue(date) {
+    const pad = value => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Render the charts of the Trends tab for the current date range
+ */
+function renderTrends() {
+    const chartsDiv = document.getElementById('trend-charts');
+    const emptyDiv = document.getElementById('trend-empty');
+    if (!chartsDiv || !emptyDiv) {
+        return;
+    }
+
+    const points = getTrendPointsInRange();
+    const hasHistory = !!trendsData && trendsData.points.length > 0;
+    emptyDiv.classList.toggle('hidden', points.length > 0);
+    emptyDiv.textContent = hasHistory
+        ? 'No snapshots were recorded in the selected date range.'
+        : 'No line count history yet. Snapshots are recorded when you count lines, or with "CodeCounter: Record Snapshot".';
+    if (points.length === 0) {
+        chartsDiv.innerHTML = '';
+        return;
+    }
+
+    const lineSeries = TREND_LINE_SERIES.map(series => ({
+        label: series.label,
+        color: series.color,
+        values: points.map(point => point[series.key] || 0)
+    }));
+    const languageSeries = getLanguageSeries(points);
+
+    chartsDiv.innerHTML = `
+        <div class="trend-chart">
+            <h3 class="trend-chart-title">📊 Lines Over Time</h3>
+            ${createTrendLegendHTML(lineSeries)}
+            ${createTrendChartSVG(points, lineSeries, false)}
+        </div>
+        <div class="trend-chart">
+            <h3 class="trend-chart-title">💻 Lines per Language</h3>
+            ${createTrendLegendHTML(languageSeries)}
+            ${createTrendChartSVG(points, languageSeries, true)}
+        </div>
+        <div class="trend-chart">
+            <h3 class="trend-chart-title">📄 File Count</h3>
+            ${createTrendChartSVG(points, [{ label: 'Files', color: '#76b7b2', values: points.map(point => point.files || 0) }], false)}
+        </div>
+        <p class="trend-summary">${points.length.toLocaleString()} of ${trendsData.points.length.toLocaleString()} snapshots shown</p>
+    `;
+    debug.verbose(`📈 Trends rendered for ${points.length} snapshots`);
+}
+
+/**
+ * Stacked series of the largest languages at the last point, with the rest summed up as "Other"
+ */
+function getLanguageSeries(points) {
+    const latest = points[points.length - 1].languages || {};
+    const languages = Object.keys(latest).sort((a, b) => latest[b] - latest[a] || a.localeCompare(b));
+    const shown = new Set(languages.slice(0, TREND_MAX_LANGUAGES));
+
+    const series = [...shown].map((language, index) => ({
+        label: language,
+        color: TREND_LANGUAGE_COLORS[index % TREND_LANGUAGE_COLORS.length],
+        values: points.map(point => (point.languages || {})[language] || 0)
+    }));
+    const otherValues = points.map(point => Object.entries(point.languages || {})
+        .filter(([language]) => !shown.has(language))
+        .reduce((sum, [, lines]) => sum + lines, 0));
+    if (otherValues.some(value => value > 0)) {
+        series.push({ label: 'Other', color: TREND_LANGUAGE_COLORS[TREND_LANGUAGE_COLORS.length - 1], values: otherValues });
+    }
+    return series;
+}
+
+function createTrendLegendHTML(series) {
+    return `<div class="trend-legend">${series.map(item => `
+        <span class="trend-legend-item"><span class="trend-legend-swatch" style="background: ${item.color};"></span>${escapeForHTMLAttribute(item.label)}</span>
+    `).join('')}</div>`;
+}
+
+/**
+ * SVG chart of one or more series over time, drawn as lines or as stacked areas
+ */
+function createTrendChartSVG(points, series, stacked) {
+    const { top, right, bottom, left } = TREND_CHART_PADDING;
+    const plotWidth = TREND_CHART_WIDTH - left - right;
+    const plotHeight = TREND_CHART_HEIGHT - top - bottom;
+
+    // Stacked areas are drawn from the running totals of the series below them
+    const levels = [];
+    series.forEach((item, index) => {
+        levels.push(item.values.map((value, pointIndex) => value + (stacked && index > 0 ? levels[index - 1][pointIndex] : 0)));
+    });
+    const maxValue = Math.max(0, ...levels.flat());
+    const yMax = getNiceTrendMax(maxValue);
+
+    const times = points.map(point => new Date(point.date).getTime());
+    const minTime = Math.min(...times);
+    const maxTime = Math.max(...times);
+    const x = index => maxTime === minTime ? left + plotWidth / 2 : left + (times[index] - minTime) / (maxTime - minTime) * plotWidth;
+    const y = value => top + plotHeight - (value / yMax) * plotHeight;
+
+    let svg = '';
+    for (let tick = 0; tick <= 4; tick++) {
+        const value = (yMax / 4) * tick;
+        svg += `<line class="trend-grid" x1="${left}" x2="${left + plotWidth}" y1="${y(value)}" y2="${y(value)}"></line>`;
+        svg += `<text class="trend-axis-label" x="${left - 8}" y="${y(value) + 4}" text-anchor="end">${Math.round(value).toLocaleString()}</text>`;
+    }
+    const firstDate = new Date(points[0].date).toLocaleDateString();
+    const lastDate = new Date(points[points.length - 1].date).toLocaleDateString();
+    svg += `<text class="trend-axis-label" x="${left}" y="${TREND_CHART_HEIGHT - 8}" text-anchor="start">${firstDate}</text>`;
+    if (lastDate !== firstDate) {
+        svg += `<text class="trend-axis-label" x="${left + plotWidth}" y="${TREND_CHART_HEIGHT - 8}" text-anchor="end">${lastDate}</text>`;
+    }
+
+    series.forEach((item, index) => {
+        const line = levels[index].map((value, pointIndex) => `${x(pointIndex)},${y(value)}`);
+        if (stacked) {
+            const base = index > 0 ? levels[index - 1] : points.map(() => 0);
+            const lower = base.map((value, pointIndex) => `${x(pointIndex)},${y(value)}`).reverse();
+            svg += `<polygon points="${[...line, ...lower].join(' ')}" style="fill: ${item.color}; fill-opacity: 0.7;"></polygon>`;
+        } else {
+            svg += `<polyline points="${line.join(' ')}" style="fill: none; stroke: ${item.color}; stroke-width: 2;"></polyline>`;
+        }
+    });
+
+    // Point markers carry the values as tooltips; too many of them would crowd long histories
+    if (points.length <= TREND_MAX_MARKERS) {
+        points.forEach((point, pointIndex) => {
+            const heading = `${new Date(point.date).toLocaleString()}${point.label ? ` (${point.label})` : ''}`;
+            series.forEach((item, index) => {
+                const tooltip = `${heading}\n${item.label}: ${item.values[pointIndex].toLocaleString()}`;
+                svg += `<circle cx="${x(pointIndex)}" cy="${y(levels[index][pointIndex])}" r="3" style="fill: ${item.color};"><title>${escapeForHTMLAttribute(tooltip)}</title></circle>`;
+            });
+        });
+    }
+
+    return `<svg class="trend-chart-svg" viewBox="0 0 ${TREND_CHART_WIDTH} ${TREND_CHART_HEIGHT}" role="img">${svg}</svg>`;
+}
+
+/**
+ * Round a chart maximum up to 1, 1.5, 2, 2.5... times a power of ten
+ */
+function getNiceTrendMax(value) {
+    if (value <= 0) {
+        return 1;
+    }
+    const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+    return Math.ceil((value / magnitude) * 2) / 2 * magnitude;
+}
+
+/**
+ * Small SVG line of a file trend; gaps where the file did not exist
+ */
+function createSparklineSVG(trend) {
+    const width = 80;
+    const height = 18;
+    const values = trend.filter(value => value !== null);
+    if (values.length < 2) {
+        return '<span class="stat-label-secondary">—</span>';
+    }
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const x = index => trend.length > 1 ? (index / (trend.length - 1)) * (width - 2) + 1 : width / 2;
+    const y = value => max === min ? height / 2 : height - 1 - ((value - min) / (max - min)) * (height - 2);
+
+    const segments = [[]];
+    trend.forEach((value, index) => {
+        if (value === null) {
+            segments.push([]);
+        } else {
+            segments[segments.length - 1].push(`${x(index).toFixed(1)},${y(value).toFixed(1)}`);
+        }
+    });
+    const lines = segments
+        .filter(segment => segment.length > 0)
+        .map(segment => `<polyline points="${segment.join(' ')}"></polyline>`)
+        .join('');
+    return `<svg class="trend-sparkline" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${lines}</svg>`;
+}
+
+/**
+ * File table column with the sparkline of each file, sorted by lines gained or lost
+ */
+function createTrendColumn() {
+    return {
+        title: "📉 Trend",
+        field: "trendChange",
+        minWidth: 100,
+        width: 140,
+        sorter: "number",
+        hozAlign: "left",
+        formatter: function(cell) {
+            const trend = cell.getRow().getData().trend;
+            const change = cell.getValue();
+            if (!trend || change === null || change === undefined) {
+                return '<span class="stat-label-secondary">—</span>';
+            }
+            cell.getElement().title = `${formatTrendChange(change)} lines over ${trend.length} snapshots`;
+            const changeClass = change > 0 ? 'trend-change-up' : change < 0 ? 'trend-change-down' : 'stat-label-secondary';
+            return `${createSparklineSVG(trend)} <span class="${changeClass}">${formatTrendChange(change)}</span>`;
+        }
+    };
+}
+
+/**
+ * Recompute the file sparklines for the current date range, adding the column once history exists
+ */
+function updateTableTrends() {
+    if (!window.filesTable) {
+        return;
+    }
+    const hasTrendColumn = window.filesTable.getColumns().some(column => column.getField() === 'trendChange');
+    if (hasFileTrends() && !hasTrendColumn) {
+        window.filesTable.addColumn(createTrendColumn());
+    }
+
+    window.filesTable.blockRedraw();
+    try {
+        window.filesTable.getRows().forEach(row => {
+            row.update(getFileTrendFields(row.getData().relativePath));
+        });
+    } finally {
+        window.filesTable.restoreRedraw();
+    }
+}
+
+/**
+ * Apply new trends sent by the extension after snapshots were recorded or removed
+ */
+function updateReportTrends(trends) {
+    debug.info('📈 Updating report trends...', { points: trends && trends.points ? trends.points.length : 0 });
+    const data = getReportData();
+    if (data) {
+        data.trends = trends;
+    }
+    setTrendsData(trends);
+    renderTrends();
+    updateTableTrends();
+}
+
+/**
+ * Setup the report tabs and the Trends tab controls
+ */
+function setupTrendsHandlers() {
+    document.querySelectorAll('.report-tab').forEach(tab => {
+        tab.addEventListener('click', () => {
+            const target = tab.getAttribute('data-tab');
+            document.querySelectorAll('.report-tab').forEach(other => {
+                other.classList.toggle('active', other === tab);
+                const content = document.getElementById(other.getAttribute('data-tab'));
+                if (content) {
+                    content.classList.toggle('hidden', other !== tab);
+                }
+            });
+            // Tabulator cannot measure its columns while hidden
+            if (target === 'report-content' && window.filesTable) {
+                window.filesTable.redraw(true);
+            }
+            debug.info('🗂️ Switched report tab:', target);
+        });
+    });
+
+    const onRangeChange = () => {
+        const fromInput = document.getElementById('trend-from');
+        const toInput = document.getElementById('trend-to');
+        trendRange = { from: fromInput ? fromInput.value : '', to: toInput ? toInput.value : '' };
+        debug.info('📅 Trend date range changed:', trendRange);
+        renderTrends();
+        updateTableTrends();
+    };
+    ['trend-from', 'trend-to'].forEach(id => {
+        const input = document.getElementById(id);
+        if (input) {
+            input.addEventListener('change', onRangeChange);
+        }
+    });
+
+    const resetBtn = document.getElementById('trend-reset-range-btn');
+    if (resetBtn) {
+        resetBtn.addEventListener('click', () => {
+            ['trend-from', 'trend-to'].forEach(id => {
+                const input = document.getElementById(id);
+                if (input) input.value = '';
+            });
+            onRangeChange();
+        });
+    }
+
+    const exportBtn = document.getElementById('trend-export-btn');
+    if (exportBtn) {
+        exportBtn.addEventListener('click', () => {
+            debug.info('📊 Export trends CSV clicked');
+            vscode.postMessage({ command: 'exportTrendsCSV', from: trendRange.from, to: trendRange.to });
+        });
+    }
+}
+
+//# sourceURL=trends-manager.js
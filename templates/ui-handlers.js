@@ -109,6 +109,9 @@ function setupUIHandlers() {
     // Setup export dropdowns
     setupExportDropdowns();
     
+    // Setup report tabs and trend controls
+    setupTrendsHandlers();
+    
     // Clear All Filters button
     if (clearAllFiltersBtn) {
         clearAllFiltersBtn.addEventListener('click', () => {
@@ -194,6 +197,7 @@ function clearAllFilters() {
     // Reset UI filter controls
     const fileSearch = document.getElementById('file-search-tabulator');
     const languageFilter = document.getElementById('language-filter-tabulator');
+    const linguistFilter = document.getElementById('linguist-filter-tabulator');
     const linesMin = document.getElementById('lines-min');
     const linesMax = document.getElementById('lines-max');
     const sizeMin = document.getElementById('size-min');
@@ -201,6 +205,7 @@ function clearAllFilters() {
     
     if (fileSearch) fileSearch.value = '';
     if (languageFilter) languageFilter.value = '';
+    if (linguistFilter) linguistFilter.value = '';
     if (linesMin) linesMin.value = '';
     if (linesMax) linesMax.value = '';
     if (sizeMin) sizeMin.value = '';
@@ -319,6 +324,12 @@ function handleExtensionMessages() {
             case 'updateData':
                 updateReportData(message.data);
                 break;
+            case 'applyDelta':
+                applyReportDelta(message.delta);
+                break;
+            case 'updateTrends':
+                updateReportTrends(message.trends);
+                break;
             default:
                 debug.info('ℹ️ Unknown message command:', message.command);
         }
@@ -12,8 +12,11 @@
 // 1. core.js (VS Code API and debug functionality)
 // 2. data-manager.js (Data parsing and management)
 // 3. ui-handlers.js (UI event handlers)
-// 4. tabulator-manager.js (Table initialization)
-// 5. filter-manager.js (Advanced filtering)
+// 4. trends-manager.js (Trends tab and file sparklines)
+// 5. authors-manager.js (Authors tab and file authors)
+// 6. hotspots-manager.js (Hotspots tab and file hotspot scores)
+// 7. tabulator-manager.js (Table initialization)
+// 8. filter-manager.js (Advanced filtering)
 
 // Embedded JSON data placeholder (replaced by template engine)
 const embeddedJsonData = '{{JSON_DATA}}';